@@ -0,0 +1,42 @@
+// This file contains the helpers of the specs that test the tRPC API directly, as several users
+// at once: creating a user straight in the database, signing them in through the credentials
+// endpoint of NextAuth with their own cookie jar, and calling a procedure as them. No page is
+// opened.
+
+import { expect, request as playwrightRequest, type APIRequestContext } from "@playwright/test";
+import { type PrismaClient } from "@prisma/client";
+
+// The bcrypt hash of "password123", like the user of `global-setup.ts`.
+const PASSWORD_HASH = "$2b$10$P.9yUes8yeakXlonnuE/BOYESKYQQb8Bl8rdsYCA5h9LbOVEdjafG";
+
+export type ApiUser = { id: string; email: string; request: APIRequestContext };
+
+// Calls a tRPC procedure and returns the HTTP status and the result (or the error). The API uses
+// superjson, whose wire format wraps the input and the result in `json`.
+export async function call(user: ApiUser, type: "query" | "mutation", path: string, input: unknown) {
+  const response =
+    type === "query"
+      ? await user.request.get(`/api/trpc/${path}`, { params: { input: JSON.stringify({ json: input }) } })
+      : await user.request.post(`/api/trpc/${path}`, { data: { json: input } });
+  const body = (await response.json()) as { result?: { data: { json: unknown } } };
+  return { status: response.status(), data: body.result?.data.json };
+}
+
+async function signIn(email: string) {
+  const request = await playwrightRequest.newContext({ baseURL: "http://localhost:3000" });
+  const { csrfToken } = (await (await request.get("/api/auth/csrf")).json()) as { csrfToken: string };
+  await request.post("/api/auth/callback/credentials", {
+    form: { csrfToken, email, password: "password123" },
+    maxRedirects: 0,
+  });
+  const session = (await (await request.get("/api/auth/session")).json()) as { user?: { email: string } } | null;
+  expect(session?.user?.email).toBe(email);
+  return request;
+}
+
+// Creates a verified user with this email and signs them in. The caller disposes of the user's
+// `request` and deletes the user when done.
+export async function createApiUser(prisma: PrismaClient, email: string): Promise<ApiUser> {
+  const user = await prisma.user.create({ data: { email, password: PASSWORD_HASH, emailVerified: new Date() } });
+  return { id: user.id, email, request: await signIn(email) };
+}
@@ -0,0 +1,100 @@
+// This file tests the bulk task actions (see `src/server/bulk.ts`) through the tRPC API, given a
+// mix of task ids: the user's own tasks, a task in a list shared with them as a viewer, another
+// user's private task, and an id that doesn't exist. Only the tasks the user can edit change;
+// every other id gets an error result, and the undo only touches what the action changed.
+//
+// The users, the lists and their tasks are created straight in the database, and every user
+// signs in with their own cookie jar (see `api-users.ts`). No page is opened.
+
+import { test, expect } from "@playwright/test";
+import { PrismaClient } from "@prisma/client";
+import { call, createApiUser, type ApiUser } from "./api-users";
+
+const prisma = new PrismaClient();
+
+type BulkResult = { results: ({ id: string; ok: true } | { id: string; ok: false; error: string })[]; undoId: string };
+
+test.describe.configure({ mode: "serial" });
+
+test.describe("bulk actions", () => {
+  const prefix = `bulk-${Date.now()}`;
+  let user: ApiUser;
+  let other: ApiUser;
+  let ownIds: string[];
+  let viewOnlyId: string;
+  let privateId: string;
+
+  test.beforeAll(async () => {
+    user = await createApiUser(prisma, `${prefix}-user@example.com`);
+    other = await createApiUser(prisma, `${prefix}-other@example.com`);
+    const ownList = await prisma.taskList.create({ data: { name: `${prefix} own`, position: 1, userId: user.id } });
+    const sharedList = await prisma.taskList.create({ data: { name: `${prefix} shared`, position: 1, userId: other.id } });
+    const privateList = await prisma.taskList.create({ data: { name: `${prefix} private`, position: 2, userId: other.id } });
+    await prisma.listMember.create({ data: { listId: sharedList.id, userId: user.id, role: "viewer" } });
+
+    const create = (userId: string, listId: string, title: string) =>
+      prisma.task.create({ data: { title: `${prefix} ${title}`, userId, listId, position: "a0" } });
+    ownIds = [(await create(user.id, ownList.id, "first")).id, (await create(user.id, ownList.id, "second")).id];
+    viewOnlyId = (await create(other.id, sharedList.id, "view only")).id;
+    privateId = (await create(other.id, privateList.id, "private")).id;
+  });
+
+  test.afterAll(async () => {
+    for (const apiUser of [user, other]) await apiUser.request.dispose();
+    await prisma.user.deleteMany({ where: { email: { startsWith: prefix } } });
+    await prisma.$disconnect();
+  });
+
+  const mixedIds = () => [ownIds[0]!, viewOnlyId, privateId, "no-such-task", ownIds[1]!];
+  const expectedResults = () =>
+    expect.arrayContaining([
+      { id: ownIds[0], ok: true },
+      { id: ownIds[1], ok: true },
+      { id: viewOnlyId, ok: false, error: "You can only view this list." },
+      { id: privateId, ok: false, error: "Task not found" },
+      { id: "no-such-task", ok: false, error: "Task not found" },
+    ]);
+  const loadTasks = () =>
+    prisma.task.findMany({
+      where: { id: { in: [...ownIds, viewOnlyId, privateId] } },
+      select: { id: true, completed: true, deletedAt: true },
+    });
+
+  test("completing a mix of ids changes only the user's editable tasks, and its undo only those", async () => {
+    const completed = await call(user, "mutation", "task.bulkComplete", { target: { ids: mixedIds() } });
+    expect(completed.status).toBe(200);
+    const { results, undoId } = completed.data as BulkResult;
+    expect(results).toHaveLength(5);
+    expect(results).toEqual(expectedResults());
+
+    const tasks = new Map((await loadTasks()).map((task) => [task.id, task]));
+    expect(ownIds.map((id) => tasks.get(id)?.completed)).toEqual([true, true]);
+    expect([viewOnlyId, privateId].map((id) => tasks.get(id)?.completed)).toEqual([false, false]);
+
+    const undone = await call(user, "mutation", "task.undo", { undoId });
+    expect(undone.status).toBe(200);
+    expect((undone.data as { taskIds: string[] }).taskIds.sort()).toEqual([...ownIds].sort());
+    expect((await loadTasks()).every((task) => !task.completed)).toBe(true);
+  });
+
+  test("deleting a mix of ids trashes only the user's editable tasks", async () => {
+    const deleted = await call(user, "mutation", "task.bulkDelete", { target: { ids: mixedIds() } });
+    expect(deleted.status).toBe(200);
+    expect((deleted.data as BulkResult).results).toEqual(expectedResults());
+
+    const tasks = new Map((await loadTasks()).map((task) => [task.id, task]));
+    expect(ownIds.every((id) => tasks.get(id)?.deletedAt)).toBe(true);
+    expect([viewOnlyId, privateId].map((id) => tasks.get(id)?.deletedAt)).toEqual([null, null]);
+  });
+
+  test("a filter on a list the user can only view, or not open at all, is refused as a whole", async () => {
+    const listOf = async (id: string) => (await prisma.task.findUniqueOrThrow({ where: { id }, select: { listId: true } })).listId;
+    const bulk = async (path: string, listId: string) =>
+      (await call(user, "mutation", path, { target: { filter: { listId } } })).status;
+    expect(await bulk("task.bulkComplete", await listOf(viewOnlyId))).toBe(403);
+    expect(await bulk("task.bulkDelete", await listOf(privateId))).toBe(404);
+
+    const others = (await loadTasks()).filter((task) => !ownIds.includes(task.id));
+    expect(others.every((task) => !task.completed && !task.deletedAt)).toBe(true);
+  });
+});
@@ -0,0 +1,115 @@
+// This file tests the role checks of shared lists (see `src/server/sharing.ts` and
+// `src/lib/sharing.ts`) through the tRPC API: what viewers, editors and admins of a list may do
+// with its tasks, its trash and its members, and that a user who isn't a member can't even tell
+// that the list exists.
+//
+// The users, the list and its tasks are created straight in the database, and every user signs
+// in with their own cookie jar (see `api-users.ts`). No page is opened.
+
+import { test, expect } from "@playwright/test";
+import { PrismaClient, type ListRole } from "@prisma/client";
+import { call, createApiUser, type ApiUser } from "./api-users";
+
+const prisma = new PrismaClient();
+
+const USERS = ["owner", "viewer", "editor", "admin", "otherAdmin", "outsider"] as const;
+
+test.describe.configure({ mode: "serial" });
+
+test.describe("shared list roles", () => {
+  const prefix = `roles-${Date.now()}`;
+  const users = {} as Record<(typeof USERS)[number], ApiUser>;
+  let listId: string;
+  let taskId: string;
+  let trashedIds: string[];
+
+  test.beforeAll(async () => {
+    for (const name of USERS) {
+      users[name] = await createApiUser(prisma, `${prefix}-${name.toLowerCase()}@example.com`);
+    }
+
+    const list = await prisma.taskList.create({ data: { name: `${prefix} list`, position: 1, userId: users.owner.id } });
+    listId = list.id;
+    const roles: [ApiUser, ListRole][] = [
+      [users.viewer, "viewer"],
+      [users.editor, "editor"],
+      [users.admin, "admin"],
+      [users.otherAdmin, "admin"],
+    ];
+    await prisma.listMember.createMany({ data: roles.map(([user, role]) => ({ listId, userId: user.id, role })) });
+
+    const task = await prisma.task.create({
+      data: { title: `${prefix} open`, userId: users.owner.id, listId, position: "a0" },
+    });
+    taskId = task.id;
+    trashedIds = [];
+    for (const [index, title] of ["first", "second"].entries()) {
+      const trashed = await prisma.task.create({
+        data: { title: `${prefix} ${title} trashed`, userId: users.owner.id, listId, position: `a${index + 1}`, deletedAt: new Date() },
+      });
+      trashedIds.push(trashed.id);
+    }
+  });
+
+  test.afterAll(async () => {
+    for (const user of Object.values(users)) await user.request.dispose();
+    await prisma.user.deleteMany({ where: { email: { startsWith: prefix } } });
+    await prisma.$disconnect();
+  });
+
+  const trashIds = async (user: ApiUser) => {
+    const { status, data } = await call(user, "query", "task.getTrash", undefined);
+    expect(status).toBe(200);
+    return (data as { id: string }[]).map((task) => task.id);
+  };
+
+  test("a viewer can read the tasks, but not change or delete them", async () => {
+    expect((await call(users.viewer, "query", "task.getById", { id: taskId })).status).toBe(200);
+    expect((await call(users.viewer, "mutation", "task.update", { id: taskId, patch: { title: "changed" } })).status).toBe(403);
+    expect((await call(users.viewer, "mutation", "task.delete", { id: taskId })).status).toBe(403);
+  });
+
+  test("an editor can change the tasks, but not read or restore the trash", async () => {
+    expect((await call(users.editor, "mutation", "task.update", { id: taskId, patch: { priority: "high" } })).status).toBe(200);
+    expect(await trashIds(users.editor)).not.toContain(trashedIds[0]);
+    expect((await call(users.editor, "mutation", "task.restore", { id: trashedIds[0] })).status).toBe(403);
+  });
+
+  test("an admin can read and restore the trash, but not empty it", async () => {
+    expect(await trashIds(users.admin)).toEqual(expect.arrayContaining(trashedIds));
+    expect((await call(users.admin, "mutation", "task.restore", { id: trashedIds[0] })).status).toBe(200);
+
+    const emptied = await call(users.admin, "mutation", "task.emptyTrash", undefined);
+    expect(emptied.status).toBe(200);
+    expect(await trashIds(users.owner)).toContain(trashedIds[1]);
+  });
+
+  test("a user who isn't a member gets NOT_FOUND", async () => {
+    expect((await call(users.outsider, "query", "task.getById", { id: taskId })).status).toBe(404);
+    expect((await call(users.outsider, "mutation", "task.update", { id: taskId, patch: { title: "x" } })).status).toBe(404);
+    expect((await call(users.outsider, "mutation", "task.restore", { id: trashedIds[1] })).status).toBe(404);
+    expect((await call(users.outsider, "query", "sharing.getMembers", { listId })).status).toBe(404);
+    expect(await trashIds(users.outsider)).not.toContain(trashedIds[1]);
+  });
+
+  test("an admin manages viewers and editors, but not admins", async () => {
+    const updateRole = (userId: string, role: ListRole) =>
+      call(users.admin, "mutation", "sharing.updateRole", { listId, userId, role });
+    expect((await updateRole(users.editor.id, "admin")).status).toBe(403);
+    expect((await updateRole(users.otherAdmin.id, "viewer")).status).toBe(403);
+    expect((await updateRole(users.viewer.id, "editor")).status).toBe(200);
+    expect((await call(users.admin, "mutation", "sharing.removeMember", { listId, userId: users.otherAdmin.id })).status).toBe(403);
+    expect((await call(users.editor, "mutation", "sharing.updateRole", { listId, userId: users.viewer.id, role: "viewer" })).status).toBe(403);
+  });
+
+  test("the owner empties the trash, and promotes and demotes admins", async () => {
+    const emptied = await call(users.owner, "mutation", "task.emptyTrash", undefined);
+    expect(emptied.status).toBe(200);
+    expect(await trashIds(users.owner)).not.toContain(trashedIds[1]);
+
+    const updateRole = (userId: string, role: ListRole) =>
+      call(users.owner, "mutation", "sharing.updateRole", { listId, userId, role });
+    expect((await updateRole(users.editor.id, "admin")).status).toBe(200);
+    expect((await updateRole(users.otherAdmin.id, "editor")).status).toBe(200);
+  });
+});
@@ -0,0 +1,71 @@
+// This file tests that concurrent reorders in the "Manual" order never produce two equal or
+// out-of-order positions (see `src/server/positions.ts`). Several tasks are dropped between the
+// SAME two neighbours at the same time, the way two tabs or two collaborators could: without the
+// list lock, the requests would read the same neighbours and generate the same key.
+//
+// The test talks to the tRPC API over HTTP (with the session cookie of the logged-in page), so
+// the requests really run in parallel on the server.
+
+import { test, expect, type APIRequestContext } from "@playwright/test";
+
+type TaskRow = { id: string; title: string; position: string };
+
+// Calls a tRPC mutation. The API uses superjson, whose wire format wraps the input in `json`.
+async function mutate<T>(request: APIRequestContext, path: string, input: unknown): Promise<T> {
+  const response = await request.post(`/api/trpc/${path}`, { data: { json: input } });
+  expect(response.ok(), `${path} failed: ${await response.text()}`).toBe(true);
+  return ((await response.json()) as { result: { data: { json: T } } }).result.data.json;
+}
+
+async function query<T>(request: APIRequestContext, path: string, input: unknown): Promise<T> {
+  const response = await request.get(`/api/trpc/${path}`, {
+    params: { input: JSON.stringify({ json: input }) },
+  });
+  expect(response.ok(), `${path} failed: ${await response.text()}`).toBe(true);
+  return ((await response.json()) as { result: { data: { json: T } } }).result.data.json;
+}
+
+test("parallel reorders between the same neighbours get distinct, ordered positions", async ({ page }) => {
+  await page.goto("/login");
+  await page.getByLabel("Email").fill("jdwright963@gmail.com");
+  await page.getByLabel("Password").fill("password123");
+  await page.getByRole("button", { name: "Login" }).click();
+  await page.waitForURL("/tasks");
+  const request = page.request;
+
+  // Two neighbours and eight tasks to drop between them, in the Inbox. A unique prefix keeps
+  // them apart from the tasks of the other specs.
+  const prefix = `reorder-${Date.now()}`;
+  const create = (title: string) => mutate<TaskRow>(request, "task.create", { title: `${prefix} ${title}` });
+  const above = await create("above");
+  const below = await create("below");
+  const movers: TaskRow[] = [];
+  for (let i = 0; i < 8; i++) movers.push(await create(`mover ${i}`));
+
+  // New tasks go to the top, so "below" is currently above "above": put them in order first.
+  await mutate(request, "task.reorder", { id: below.id, beforeId: above.id });
+
+  // All of the movers are dropped between the two neighbours at once.
+  await Promise.all(
+    movers.map((mover) => mutate(request, "task.reorder", { id: mover.id, beforeId: above.id, afterId: below.id })),
+  );
+
+  const { items } = await query<{ items: TaskRow[] }>(request, "task.getAll", {
+    sort: { field: "position", direction: "asc" },
+    limit: 100,
+  });
+  const ours = items.filter((task) => task.title.startsWith(prefix));
+  expect(ours).toHaveLength(10);
+
+  // The positions are all different, and strictly increasing in the order the server returned
+  // them (byte by byte, like the column's "C" collation).
+  const positions = ours.map((task) => task.position);
+  expect(new Set(positions).size).toBe(positions.length);
+  for (let i = 1; i < positions.length; i++) {
+    expect(positions[i - 1]! < positions[i]!, `${positions[i - 1]} < ${positions[i]}`).toBe(true);
+  }
+
+  // And every mover ended up between the two neighbours.
+  expect(ours[0]!.id).toBe(above.id);
+  expect(ours.at(-1)!.id).toBe(below.id);
+});
@@ -0,0 +1,106 @@
+// This file tests the undo of task actions (see `src/server/undo.ts`) through the tRPC API:
+// undoing a toggle that also completed the subtasks, undoing a delete that moved a subtree to the
+// trash, and that an undo token works only once, only for the user who got it, and only while
+// that user can still edit the tasks.
+//
+// The users, the list and its tasks are created straight in the database, and every user signs
+// in with their own cookie jar (see `api-users.ts`). No page is opened.
+
+import { test, expect } from "@playwright/test";
+import { PrismaClient } from "@prisma/client";
+import { call, createApiUser, type ApiUser } from "./api-users";
+
+const prisma = new PrismaClient();
+
+test.describe.configure({ mode: "serial" });
+
+test.describe("undo", () => {
+  const prefix = `undo-${Date.now()}`;
+  let owner: ApiUser;
+  let editor: ApiUser;
+  let listId: string;
+
+  test.beforeAll(async () => {
+    owner = await createApiUser(prisma, `${prefix}-owner@example.com`);
+    editor = await createApiUser(prisma, `${prefix}-editor@example.com`);
+    const list = await prisma.taskList.create({ data: { name: `${prefix} list`, position: 1, userId: owner.id } });
+    listId = list.id;
+    await prisma.listMember.create({ data: { listId, userId: editor.id, role: "editor" } });
+  });
+
+  test.afterAll(async () => {
+    for (const user of [owner, editor]) await user.request.dispose();
+    await prisma.user.deleteMany({ where: { email: { startsWith: prefix } } });
+    await prisma.$disconnect();
+  });
+
+  // Creates a task with two subtasks, the second of them already completed.
+  const createTree = async (title: string) => {
+    const data = { userId: owner.id, listId };
+    const parent = await prisma.task.create({ data: { ...data, title: `${prefix} ${title}`, position: "a0" } });
+    const open = await prisma.task.create({ data: { ...data, title: "open", position: "a0", parentId: parent.id } });
+    const done = await prisma.task.create({
+      data: { ...data, title: "done", position: "a1", parentId: parent.id, completed: true },
+    });
+    return [parent, open, done] as const;
+  };
+
+  const loadTasks = (ids: string[]) =>
+    prisma.task.findMany({ where: { id: { in: ids } }, select: { id: true, completed: true, deletedAt: true, updatedAt: true } });
+
+  test("undoing a toggle re-opens the task and the subtasks it completed, and only those", async () => {
+    const tree = await createTree("toggle");
+    const ids = tree.map((task) => task.id);
+    const before = await loadTasks(ids);
+
+    const toggled = await call(owner, "mutation", "task.toggle", { id: tree[0].id });
+    expect(toggled.status).toBe(200);
+    expect((await loadTasks(ids)).every((task) => task.completed)).toBe(true);
+
+    const { undoId } = toggled.data as { undoId: string };
+    const undone = await call(owner, "mutation", "task.undo", { undoId });
+    expect(undone.status).toBe(200);
+    expect((undone.data as { taskIds: string[] }).taskIds.sort()).toEqual([...ids].sort());
+    expect(await loadTasks(ids)).toEqual(expect.arrayContaining(before));
+  });
+
+  test("undoing a delete brings the subtree back from the trash", async () => {
+    const tree = await createTree("delete");
+    const ids = tree.map((task) => task.id);
+
+    const deleted = await call(owner, "mutation", "task.delete", { id: tree[0].id });
+    expect(deleted.status).toBe(200);
+    expect((await loadTasks(ids)).every((task) => task.deletedAt !== null)).toBe(true);
+
+    const { undoId } = deleted.data as { undoId: string };
+    expect((await call(owner, "mutation", "task.undo", { undoId })).status).toBe(200);
+    expect((await loadTasks(ids)).every((task) => task.deletedAt === null)).toBe(true);
+    expect((await call(owner, "query", "task.getById", { id: tree[1].id })).status).toBe(200);
+    const history = await prisma.taskEvent.findMany({ where: { taskId: tree[0].id }, orderBy: { createdAt: "asc" } });
+    expect(history.map((event) => event.type).slice(-2)).toEqual(["deleted", "restored"]);
+  });
+
+  test("an undo token works once, and only for the user who got it", async () => {
+    const [task] = await createTree("token");
+    const deleted = await call(owner, "mutation", "task.delete", { id: task.id });
+    const { undoId } = deleted.data as { undoId: string };
+
+    expect((await call(editor, "mutation", "task.undo", { undoId })).status).toBe(404);
+    expect((await loadTasks([task.id]))[0]?.deletedAt).not.toBeNull();
+
+    expect((await call(owner, "mutation", "task.undo", { undoId })).status).toBe(200);
+    expect((await call(owner, "mutation", "task.undo", { undoId })).status).toBe(404);
+    expect((await loadTasks([task.id]))[0]?.deletedAt).toBeNull();
+  });
+
+  test("an editor who was removed from the list can't undo their action", async () => {
+    const [task] = await createTree("removed");
+    const toggled = await call(editor, "mutation", "task.toggle", { id: task.id });
+    expect(toggled.status).toBe(200);
+
+    await prisma.listMember.deleteMany({ where: { listId, userId: editor.id } });
+    const { undoId } = toggled.data as { undoId: string };
+    expect((await call(editor, "mutation", "task.undo", { undoId })).status).toBe(409);
+    expect((await loadTasks([task.id]))[0]?.completed).toBe(true);
+  });
+});
@@ -0,0 +1,26 @@
+// This is a second Playwright configuration, for the unit tests of pure functions (parsers,
+// date math, formatters). These tests never open a page, so this configuration has none of the
+// end-to-end machinery of `playwright.config.ts`: no web server is started, and the global setup
+// that wipes and seeds the database does not run. They can run anywhere, without a database:
+//
+//   npm run test:unit
+//
+// The tests live next to the module they test, as `<module>.test.ts` files under `src/`.
+
+import { defineConfig } from '@playwright/test';
+
+// Some tested modules import `src/env.js` through their own imports, and it would refuse to load
+// without the server's environment variables. No unit test uses them, so their validation is
+// skipped (the test workers inherit this process's environment).
+process.env.SKIP_ENV_VALIDATION ??= '1';
+
+export default defineConfig({
+
+  // Only the `*.test.ts` files under `src/`; the end-to-end specs in `e2e/` are left to the
+  // main configuration.
+  testDir: './src',
+  testMatch: '**/*.test.ts',
+
+  // Pure functions are fast: a test that takes longer than this is stuck.
+  timeout: 10_000,
+});
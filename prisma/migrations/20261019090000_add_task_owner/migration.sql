@@ -0,0 +1,41 @@
+/*
+  Warnings:
+
+  - Added the required column `userId` to the `Task` table. Existing rows have no owner, so they
+    are backfilled below before the column is made NOT NULL:
+      1. If the database has exactly one user, every existing task is assigned to that user
+         (this is the common case for a single-developer or self-hosted install).
+      2. Otherwise the owner cannot be inferred safely. Those tasks are copied into the
+         separate `quarantine` schema (which Prisma does not manage, so it does not cause
+         schema drift) and removed from `Task`, where they would otherwise be visible to
+         nobody. An administrator can inspect `quarantine."Task"` and re-insert rows with
+         the correct `userId` by hand.
+
+*/
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "userId" TEXT;
+
+-- Backfill: assign orphaned tasks to the only user, if there is exactly one.
+UPDATE "Task"
+SET "userId" = (SELECT "id" FROM "User" LIMIT 1)
+WHERE "userId" IS NULL
+  AND (SELECT COUNT(*) FROM "User") = 1;
+
+-- Backfill: quarantine any tasks that still have no owner.
+CREATE SCHEMA IF NOT EXISTS "quarantine";
+
+CREATE TABLE IF NOT EXISTS "quarantine"."Task" (LIKE "Task" INCLUDING DEFAULTS);
+
+INSERT INTO "quarantine"."Task"
+SELECT * FROM "Task" WHERE "userId" IS NULL;
+
+DELETE FROM "Task" WHERE "userId" IS NULL;
+
+-- AlterTable
+ALTER TABLE "Task" ALTER COLUMN "userId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Task_userId_createdAt_idx" ON "Task"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "dueAllDay" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "dueAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "timeZone" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Task_userId_dueAt_idx" ON "Task"("userId", "dueAt");
@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "TaskPriority" AS ENUM ('none', 'low', 'medium', 'high', 'urgent');
+
+-- CreateEnum
+CREATE TYPE "TaskSortField" AS ENUM ('createdAt', 'updatedAt', 'dueAt', 'priority', 'title');
+
+-- CreateEnum
+CREATE TYPE "SortDirection" AS ENUM ('asc', 'desc');
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "priority" "TaskPriority" NOT NULL DEFAULT 'none';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "taskSortDirection" "SortDirection" NOT NULL DEFAULT 'desc',
+ADD COLUMN     "taskSortField" "TaskSortField" NOT NULL DEFAULT 'createdAt';
+
+-- CreateIndex
+CREATE INDEX "Task_userId_priority_idx" ON "Task"("userId", "priority");
@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "TaskList" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "isInbox" BOOLEAN NOT NULL DEFAULT false,
+    "archivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "TaskList_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskList_userId_position_idx" ON "TaskList"("userId", "position");
+
+-- AddForeignKey
+ALTER TABLE "TaskList" ADD CONSTRAINT "TaskList_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: give every existing user an Inbox. The ids only need to be unique, so a random
+-- UUID stands in for the cuid that Prisma generates for new rows.
+INSERT INTO "TaskList" ("id", "name", "position", "isInbox", "updatedAt", "userId")
+SELECT gen_random_uuid()::text, 'Inbox', 0, true, CURRENT_TIMESTAMP, "id" FROM "User";
+
+-- AlterTable: add the column as nullable, move every existing task into its owner's Inbox,
+-- and only then make the column required.
+ALTER TABLE "Task" ADD COLUMN "listId" TEXT;
+
+UPDATE "Task" SET "listId" = "TaskList"."id"
+FROM "TaskList"
+WHERE "TaskList"."userId" = "Task"."userId" AND "TaskList"."isInbox";
+
+ALTER TABLE "Task" ALTER COLUMN "listId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Task_listId_createdAt_idx" ON "Task"("listId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_listId_fkey" FOREIGN KEY ("listId") REFERENCES "TaskList"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "CompleteParentMode" AS ENUM ('cascade', 'block');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "completeParentMode" "CompleteParentMode" NOT NULL DEFAULT 'cascade';
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "parentId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Task_parentId_idx" ON "Task"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "recurFromCompletion" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "recurrence" TEXT;
+
+-- CreateTable
+CREATE TABLE "TaskCompletion" (
+    "id" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "dueAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaskCompletion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskCompletion_taskId_completedAt_idx" ON "TaskCompletion"("taskId", "completedAt");
+
+-- AddForeignKey
+ALTER TABLE "TaskCompletion" ADD CONSTRAINT "TaskCompletion_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterEnum
+ALTER TYPE "TaskSortField" ADD VALUE 'position';
+
+-- AlterTable
+-- The "C" collation makes Postgres compare positions byte by byte, which is the order the
+-- fractional index keys are generated in.
+ALTER TABLE "Task" ADD COLUMN     "position" TEXT COLLATE "C";
+
+-- Backfill: give the existing tasks distinct fractional index keys, newest first, separately for
+-- every set of siblings (same list and parent). Keys are integers in the key format's base-62
+-- digits: "a0".."az" for the first 62 tasks, then "b00".."bzz", then "c000".."czzz".
+WITH "digits" AS (
+    SELECT '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz'::TEXT AS "d"
+),
+"ranked" AS (
+    SELECT "id", (ROW_NUMBER() OVER (PARTITION BY "listId", "parentId" ORDER BY "createdAt" DESC, "id") - 1)::INT AS "i"
+    FROM "Task"
+)
+UPDATE "Task" t
+SET "position" = CASE
+    WHEN r."i" < 62 THEN 'a' || substr(d."d", r."i" + 1, 1)
+    WHEN r."i" < 62 + 3844 THEN 'b' || substr(d."d", (r."i" - 62) / 62 + 1, 1) || substr(d."d", (r."i" - 62) % 62 + 1, 1)
+    ELSE 'c' || substr(d."d", (r."i" - 3906) / 3844 + 1, 1) || substr(d."d", (r."i" - 3906) / 62 % 62 + 1, 1) || substr(d."d", (r."i" - 3906) % 62 + 1, 1)
+END
+FROM "ranked" r, "digits" d
+WHERE t."id" = r."id";
+
+ALTER TABLE "Task" ALTER COLUMN "position" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Task_listId_parentId_position_idx" ON "Task"("listId", "parentId", "position");
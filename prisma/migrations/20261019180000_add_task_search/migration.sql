@@ -0,0 +1,10 @@
+-- AlterTable
+-- The search document of a task: its title (weight A, ranked highest) and its notes (weight B).
+-- It is a generated column, so Postgres keeps it up to date on every insert and update.
+ALTER TABLE "Task" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("notes", '')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Task_searchVector_idx" ON "Task" USING GIN ("searchVector");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "TaskUndo" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "completionIds" TEXT[],
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaskUndo_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskUndo_userId_expiresAt_idx" ON "TaskUndo"("userId", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "TaskUndo" ADD CONSTRAINT "TaskUndo_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "TaskEventType" AS ENUM ('created', 'renamed', 'completed', 'reopened', 'moved', 'dueDateChanged', 'deleted', 'restored');
+
+-- CreateTable
+CREATE TABLE "TaskEvent" (
+    "id" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "actorId" TEXT,
+    "type" "TaskEventType" NOT NULL,
+    "diff" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaskEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskEvent_taskId_createdAt_idx" ON "TaskEvent"("taskId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "TaskEvent" ADD CONSTRAINT "TaskEvent_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskEvent" ADD CONSTRAINT "TaskEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "ListRole" AS ENUM ('viewer', 'editor', 'admin');
+
+-- CreateTable
+CREATE TABLE "ListMember" (
+    "id" TEXT NOT NULL,
+    "listId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "ListRole" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ListMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ListInvite" (
+    "id" TEXT NOT NULL,
+    "listId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" "ListRole" NOT NULL,
+    "token" TEXT NOT NULL,
+    "invitedById" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ListInvite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ListMember_userId_idx" ON "ListMember"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ListMember_listId_userId_key" ON "ListMember"("listId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ListInvite_token_key" ON "ListInvite"("token");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ListInvite_listId_email_key" ON "ListInvite"("listId", "email");
+
+-- AddForeignKey
+ALTER TABLE "ListMember" ADD CONSTRAINT "ListMember_listId_fkey" FOREIGN KEY ("listId") REFERENCES "TaskList"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ListMember" ADD CONSTRAINT "ListMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ListInvite" ADD CONSTRAINT "ListInvite_listId_fkey" FOREIGN KEY ("listId") REFERENCES "TaskList"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ListInvite" ADD CONSTRAINT "ListInvite_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+// This file serves the files of task attachments: `GET /api/attachments/<id>?variant=...&expires=
+// ...&signature=...`. The URLs are created by `getAttachmentUrls` in `src/server/attachments.ts`
+// for users who can open the task; the signature is the only credential, and it expires.
+//
+// `variant=thumbnail` serves the thumbnail of an image instead of the file itself.
+
+import { NextResponse } from "next/server";
+import { db } from "~/server/db";
+import { isImageType } from "~/lib/attachments";
+import { verifyAttachmentUrl, type AttachmentVariant } from "~/server/attachments";
+import { getFileStorage } from "~/server/storage";
+
+// In the App Router, the dynamic `[id]` segment of the URL is passed in `params`.
+interface AttachmentRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(req: Request, { params }: AttachmentRouteContext) {
+  const { id } = await params;
+  const query = new URL(req.url).searchParams;
+  const variant: AttachmentVariant = query.get("variant") === "thumbnail" ? "thumbnail" : "original";
+
+  // An invalid or expired URL gets the same answer as a missing attachment.
+  if (!verifyAttachmentUrl(id, variant, query.get("expires"), query.get("signature"))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  // Attachments of tasks that were deleted for good are no longer served.
+  const attachment = await db.attachment.findFirst({ where: { id, taskId: { not: null } } });
+  const key = variant === "thumbnail" ? attachment?.thumbnailKey : attachment?.storageKey;
+  const body = attachment && key ? await getFileStorage().get(key) : null;
+  if (!attachment || !body) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  // Images are shown in the browser; every other file is downloaded, so a file can never run as
+  // a page of this site. `nosniff` keeps the browser from second-guessing the type.
+  const inline = isImageType(attachment.contentType);
+  return new NextResponse(new Uint8Array(body), {
+    headers: {
+      "Content-Type": variant === "thumbnail" ? "image/webp" : attachment.contentType,
+      "Content-Length": String(body.length),
+      "Content-Disposition": `${inline ? "inline" : "attachment"}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+      "X-Content-Type-Options": "nosniff",
+      "Cache-Control": "private, max-age=300",
+    },
+  });
+}
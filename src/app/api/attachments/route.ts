@@ -0,0 +1,56 @@
+// This file defines the upload of task attachments: `POST /api/attachments` with a multipart form
+// of `taskId` and `file`. It is a route handler rather than a tRPC procedure because tRPC sends
+// JSON, and files are uploaded as `multipart/form-data`. Listing and deleting attachments are
+// tRPC procedures (see `src/server/api/routers/attachment.ts`).
+//
+// The same rules apply as in the `taskRouter`: the user must be signed in and be able to edit
+// the task (see `src/server/sharing.ts`), and the file must pass the limits in
+// `src/lib/attachments.ts`. Errors are returned as `{ error }` JSON with a matching status code.
+
+import { NextResponse } from "next/server";
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { auth } from "~/server/auth";
+import { db } from "~/server/db";
+import { MAX_ATTACHMENT_BYTES } from "~/lib/attachments";
+import { getAttachmentUrls, storeAttachment } from "~/server/attachments";
+import { findTaskForAccessOrThrow } from "~/server/sharing";
+import { getFileStorage } from "~/server/storage";
+
+// Room for the multipart boundaries and the other fields around the file.
+const FORM_OVERHEAD_BYTES = 64 * 1024;
+
+export async function POST(req: Request) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // Too large uploads are refused before their body is read.
+  if (Number(req.headers.get("content-length") ?? 0) > MAX_ATTACHMENT_BYTES + FORM_OVERHEAD_BYTES) {
+    return NextResponse.json({ error: "The file is too large." }, { status: 413 });
+  }
+
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return NextResponse.json({ error: "Expected a multipart form." }, { status: 400 });
+  }
+  const taskId = form.get("taskId");
+  const file = form.get("file");
+  if (typeof taskId !== "string" || !(file instanceof File)) {
+    return NextResponse.json({ error: "The form needs a taskId and a file." }, { status: 400 });
+  }
+
+  try {
+    const task = await findTaskForAccessOrThrow(db, session.user.id, taskId, "editor");
+    const attachment = await storeAttachment(db, getFileStorage(), { taskId: task.id, userId: session.user.id, file });
+    return NextResponse.json({ ...attachment, ...getAttachmentUrls(attachment) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      return NextResponse.json({ error: error.message }, { status: getHTTPStatusCodeFromError(error) });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,31 @@
+// This file defines the scheduled job that empties old trash: every task that has been in the
+// trash for more than 30 days (see `TRASH_RETENTION_DAYS` in `src/server/trash.ts`) is deleted
+// for good, and so are the stored files of their attachments (see `src/server/attachments.ts`).
+//
+// It is meant to be called once a day by a scheduler, e.g. Vercel Cron (which sends `GET`
+// requests with the `CRON_SECRET` as a bearer token), a GitHub Actions `schedule` workflow, or
+// plain `cron` with `curl`:
+//
+//   curl -H "Authorization: Bearer $CRON_SECRET" https://<your-app>/api/cron/purge-trash
+//
+// The job deletes data of every user, so it only runs for callers that know the `CRON_SECRET`.
+
+import { NextResponse } from "next/server";
+import { env } from "~/env";
+import { db } from "~/server/db";
+import { purgeTrash } from "~/server/trash";
+import { deleteDetachedAttachments } from "~/server/attachments";
+import { getFileStorage } from "~/server/storage";
+
+export async function GET(req: Request) {
+
+  // Without a configured secret the job is disabled, so a missing variable can never leave the
+  // endpoint open to everyone.
+  if (!env.CRON_SECRET || req.headers.get("authorization") !== `Bearer ${env.CRON_SECRET}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { count } = await purgeTrash(db);
+  const attachments = await deleteDetachedAttachments(db, getFileStorage());
+  return NextResponse.json({ purged: count, attachments });
+}
@@ -0,0 +1,54 @@
+// This file defines the task export: `GET /api/export?format=json` (the default), `?format=csv`
+// or `?format=todotxt` downloads all of the signed-in user's tasks as a file (see
+// `src/server/task-transfer.ts` for what the files contain). It is a route handler rather than a
+// tRPC procedure so that a plain link can download it, with the browser's own "save file" flow.
+
+import { NextResponse } from "next/server";
+import { auth } from "~/server/auth";
+import { db } from "~/server/db";
+import {
+  exportTasks,
+  formatTasksCsv,
+  formatTasksTodoTxt,
+  transferFormatSchema,
+  type TransferFormat,
+} from "~/server/task-transfer";
+
+// The file extension and content type of each format.
+const FILE_TYPES: Record<TransferFormat, { extension: string; contentType: string }> = {
+  json: { extension: "json", contentType: "application/json; charset=utf-8" },
+  csv: { extension: "csv", contentType: "text/csv; charset=utf-8" },
+  todotxt: { extension: "txt", contentType: "text/plain; charset=utf-8" },
+};
+
+export async function GET(req: Request) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const format = transferFormatSchema.safeParse(new URL(req.url).searchParams.get("format") ?? "json");
+  if (!format.success) {
+    return NextResponse.json({ error: 'format must be "json", "csv" or "todotxt"' }, { status: 400 });
+  }
+
+  const document = await exportTasks(db, session.user.id);
+  const body =
+    format.data === "json"
+      ? JSON.stringify(document, null, 2)
+      : format.data === "csv"
+        ? formatTasksCsv(document.tasks)
+        : formatTasksTodoTxt(document.tasks);
+  const date = document.exportedAt.toISOString().slice(0, 10);
+  const { extension, contentType } = FILE_TYPES[format.data];
+
+  // `attachment` makes the browser save the file instead of showing it, and `no-store` keeps
+  // the user's tasks out of any cache.
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="tasks-${date}.${extension}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
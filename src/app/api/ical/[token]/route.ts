@@ -0,0 +1,32 @@
+// This file serves the user's iCalendar feed at `/api/ical/<token>.ics` (see
+// `src/server/calendar-feed.ts`). Calendar apps fetch it without a session, so the secret token in
+// the URL is what identifies the user. An unknown (e.g. rotated) token gets a 404, the same as a
+// URL that never existed.
+//
+// Next.js can't route a segment with a fixed suffix, so the `[token]` segment receives
+// "<token>.ics" and the suffix is removed here.
+
+import { NextResponse } from "next/server";
+import { db } from "~/server/db";
+import { buildCalendarFeed, findFeedUser } from "~/server/calendar-feed";
+
+export async function GET(req: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const user = await findFeedUser(db, token.replace(/\.ics$/, ""));
+  if (!user) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const url = new URL(req.url);
+  const feed = await buildCalendarFeed(db, user, {
+    host: url.host,
+    includeEvents: url.searchParams.get("events") === "1",
+  });
+  return new NextResponse(feed, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="tasks.ics"',
+      "Cache-Control": "no-store",
+    },
+  });
+}
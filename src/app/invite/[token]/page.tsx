@@ -0,0 +1,42 @@
+// This file defines the page an invitation to a shared list links to, at `/invite/[token]` (see
+// `sendListInviteEmail` in `src/lib/email.ts`). Opening it while signed in with the invited email
+// address accepts the invitation and opens the list.
+
+import { redirect } from "next/navigation";
+import { TRPCError } from "@trpc/server";
+import { auth } from "~/server/auth";
+import { db } from "~/server/db";
+import { acceptListInvite } from "~/server/sharing";
+
+interface InvitePageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default async function InvitePage({ params }: InvitePageProps) {
+  const { token } = await params;
+
+  // The invitation is for an account, so signed-out users sign in (or register) first, and come
+  // back here afterwards.
+  const session = await auth();
+  if (!session?.user) {
+    redirect(`/login?callbackUrl=/invite/${encodeURIComponent(token)}`);
+  }
+
+  // An invalid or expired link, or one sent to another email address, shows why it didn't work.
+  let listId: string;
+  try {
+    listId = await db.$transaction((tx) => acceptListInvite(tx, session.user, token));
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      return (
+        <main className="max-w-4xl mx-auto p-4">
+          <p>{error.message}</p>
+        </main>
+      );
+    }
+    throw error;
+  }
+
+  // `redirect` works by throwing, so it is called outside the `try` block.
+  redirect(`/tasks/${listId}`);
+}
@@ -0,0 +1,36 @@
+// This file defines the page of a single task list, located at the `/tasks/[listId]` route
+// (e.g., `/tasks/clx123...`). The Inbox lives at `/tasks` instead; every other list is here.
+// Like `/tasks`, it is a Server Component that checks authentication before rendering.
+
+import { notFound, redirect } from "next/navigation";
+import { auth } from "~/server/auth";
+import { db } from "~/server/db";
+import { getListAccess } from "~/server/sharing";
+import { TasksView } from "~/components/TasksView";
+
+// In the App Router, the dynamic `[listId]` segment of the URL is passed in `params`.
+// Since Next.js 15, `params` is a Promise that has to be awaited.
+interface ListPageProps {
+  params: Promise<{ listId: string }>;
+}
+
+export default async function ListPage({ params }: ListPageProps) {
+  const { listId } = await params;
+
+  // Unauthenticated users are sent to the login page, and come back to this list afterwards.
+  const session = await auth();
+  if (!session?.user) {
+    redirect(`/login?callbackUrl=/tasks/${encodeURIComponent(listId)}`);
+  }
+
+  // The list is only found if the signed-in user owns it or it is shared with them. Any other
+  // list (or an id that doesn't exist) shows the same 404 page, so list ids can't be probed.
+  const list = await db.taskList.findUnique({ where: { id: listId } });
+  const access = list && (await getListAccess(db, session.user.id, list));
+  if (!list || !access) notFound();
+
+  // The Inbox has its own address.
+  if (list.isInbox) redirect("/tasks");
+
+  return <TasksView list={list} access={access} />;
+}
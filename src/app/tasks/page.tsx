@@ -13,15 +13,12 @@ import { redirect } from "next/navigation";
 // server. We will call this function to check if a user is logged in before rendering the page.
 import { auth } from "~/server/auth";
 
-// Imports the `CreateTask` component from our components library. This is a "Client Component"
-// responsible for rendering the form that allows users to add a new task. By importing it here,
-// we are composing our server-rendered page with an interactive, client-side piece of UI.
-import { CreateTask } from "~/components/CreateTask";
+// The shared layout of the tasks pages: the sidebar of lists plus the open list.
+import { TasksView } from "~/components/TasksView";
 
-// This is another interactive Client Component. Its job is to handle the "read" part
-// of the CRUD functionality: it will fetch all the user's tasks using a tRPC query
-// and render them as a list.
-import { TaskList } from "~/components/TaskList";   
+// The database client, and the helper that returns the user's Inbox (creating it if needed).
+import { db } from "~/server/db";
+import { getOrCreateInbox } from "~/server/lists";
 
 // This line defines and exports the main React component for this page.
 // `export default`: The standard syntax that allows the Next.js App Router to find and
@@ -58,42 +55,9 @@ export default async function TasksPage() {
   }
 
   // If the `if` check above did not run, it means the user IS authenticated, and we can proceed
-  // to render the main UI for the page. This `return` statement will only ever be reached by a logged-in user.
-  return (
-
-    // This renders the `<main>` HTML element, a semantic tag for the primary content of the page.
-    // The `className` uses Tailwind CSS utilities to style the layout.
-    // - `max-w-xl`: Sets a `max-width` on the container. This improves readability on wide screens by
-    //   preventing the text lines from becoming too long.
-    // - `mx-auto`: A standard trick for centering a block-level element. When a `max-width` is set,
-    //   `mx-auto` applies automatic margins to the left and right, pushing the container into the center.
-    // - `p-4`: Applies a consistent padding of `1rem` on all sides of the main content area.
-    <main className="max-w-xl mx-auto p-4">
-
-      {// This renders the main heading for the page. The `className` prop applies a string of
-      // Tailwind CSS utility classes to style the text.
-      //
-      // - `text-2xl`: Sets the font size. Corresponds to the CSS `font-size: 1.5rem;` (24px)
-      //   and an appropriate `line-height: 2rem;` (32px).
-      //
-      // - `font-bold`: Sets the font weight. Corresponds to the CSS `font-weight: 700;`.
-      //
-      // - `mb-4`: Adds a margin to the bottom of the element. Corresponds to the CSS
-      //   `margin-bottom: 1rem;` (16px), creating space between the heading and the content below.
-      }
-      <h1 className="text-2xl font-bold mb-4">
-
-        {/* This is the static text of the heading.*/}
-        Task List:
-      </h1>
-
-      {/* This renders our imported `CreateTask` component. This Client Component contains the */}
-      {/* input field and "Add" button for creating new tasks. */}
-      <CreateTask />
-
-      {/* This renders our imported `TaskList` component. This Client Component is responsible for */}
-      {/* fetching and displaying the list of all the user's current tasks. */}
-      <TaskList />
-    </main>
-  );
-}
\ No newline at end of file
+  // to render the main UI for the page. This code will only ever be reached by a logged-in user.
+  //
+  // The `/tasks` page shows the user's Inbox, the list new tasks go to by default.
+  const inbox = await getOrCreateInbox(db, session.user.id);
+  return <TasksView list={inbox} access="owner" />;
+}
@@ -0,0 +1,31 @@
+// This file defines the Trash page, at `/tasks/trash`. It lists the tasks the user deleted in
+// the last 30 days and lets them be restored or deleted for good.
+//
+// The folder name `trash` is a static route segment, so Next.js matches it before the dynamic
+// `[listId]` segment next to it: `/tasks/trash` never reaches the list page.
+
+import { redirect } from "next/navigation";
+import { auth } from "~/server/auth";
+import { ListSidebar } from "~/components/ListSidebar";
+import { TrashView } from "~/components/TrashView";
+
+export default async function TrashPage() {
+
+  // The same guard as the other tasks pages: signed-out users go to the login page, and come
+  // back here afterwards.
+  const session = await auth();
+  if (!session?.user) {
+    redirect("/login?callbackUrl=/tasks/trash");
+  }
+
+  // The same layout as `TasksView`: the sidebar of lists, with the trash next to it.
+  return (
+    <main className="max-w-4xl mx-auto p-4 flex flex-col md:flex-row gap-6">
+      <ListSidebar />
+      <div className="flex-1 min-w-0">
+        <h1 className="text-2xl font-bold mb-4">Trash</h1>
+        <TrashView />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,100 @@
+// This file defines the `CalendarFeed` component: a collapsible panel on the tasks page for the
+// user's iCalendar feed (see `src/server/calendar-feed.ts`). It shows the secret feed URLs to
+// subscribe to in a calendar app, and turns the feed on, rotates its URL, or turns it off.
+'use client';
+
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { api } from "~/trpc/react";
+import { toastMutationError } from "~/lib/toast-errors";
+
+export function CalendarFeed() {
+  const utils = api.useContext();
+  const { data: feed } = api.user.getCalendarFeed.useQuery();
+
+  // The feed paths are relative; the URLs to copy need the site's origin, which is only known
+  // in the browser.
+  const [origin, setOrigin] = useState("");
+  useEffect(() => setOrigin(window.location.origin), []);
+
+  const callbacks = {
+    onSuccess: () => utils.user.getCalendarFeed.invalidate(),
+    onError: toastMutationError,
+  };
+  const rotate = api.user.rotateCalendarFeed.useMutation(callbacks);
+  const disable = api.user.disableCalendarFeed.useMutation(callbacks);
+  const isPending = rotate.isPending || disable.isPending;
+
+  const copy = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    toast.success("Feed URL copied.");
+  };
+
+  return (
+    <details className="mb-4 rounded border border-gray-700 p-2 text-sm">
+      <summary className="cursor-pointer text-gray-400">Calendar feed</summary>
+
+      {!feed?.todoPath || !feed.eventPath ? (
+        <div className="mt-2 flex flex-wrap items-center gap-3">
+          <p className="text-gray-400">Subscribe to your tasks in a calendar app with a private iCalendar URL.</p>
+          <button
+            type="button"
+            disabled={isPending}
+            onClick={() => rotate.mutate()}
+            className="rounded bg-blue-600 px-3 py-1 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            Create feed URL
+          </button>
+        </div>
+      ) : (
+        <div className="mt-2 space-y-2">
+          <p className="text-gray-400">
+            Anyone with these URLs can see your tasks. Rotate them if they were shared by mistake.
+          </p>
+          <FeedUrl label="Tasks (to-dos)" url={origin + feed.todoPath} onCopy={copy} />
+          <FeedUrl label="Tasks, with timed tasks as events" url={origin + feed.eventPath} onCopy={copy} />
+          <div className="flex gap-3">
+            <button
+              type="button"
+              disabled={isPending}
+              onClick={() => {
+                if (confirm("Rotate the feed URL? Calendars subscribed to the current URL stop updating.")) {
+                  rotate.mutate();
+                }
+              }}
+              className="hover:underline"
+            >
+              Rotate URL
+            </button>
+            <button
+              type="button"
+              disabled={isPending}
+              onClick={() => disable.mutate()}
+              className="text-red-500 hover:underline"
+            >
+              Turn off feed
+            </button>
+          </div>
+        </div>
+      )}
+    </details>
+  );
+}
+
+// One feed URL, in a read-only input (so it can be selected), with a Copy button.
+function FeedUrl({ label, url, onCopy }: { label: string; url: string; onCopy: (url: string) => Promise<void> }) {
+  return (
+    <label className="flex flex-wrap items-center gap-2">
+      <span className="w-64 text-gray-400">{label}</span>
+      <input
+        readOnly
+        value={url}
+        onFocus={(e) => e.currentTarget.select()}
+        className="min-w-0 flex-1 rounded border bg-gray-800 px-2 py-1 font-mono text-xs text-white"
+      />
+      <button type="button" onClick={() => void onCopy(url)} className="hover:underline">
+        Copy
+      </button>
+    </label>
+  );
+}
@@ -0,0 +1,39 @@
+// This file defines the `CompleteParentModePicker` component: a small dropdown for the user
+// setting that decides what happens when a task with open subtasks is completed. The rule
+// itself is enforced on the server (see `completeSubtasksOrThrow` in `src/server/subtasks.ts`).
+'use client';
+
+import { api } from "~/trpc/react";
+import { toastMutationError } from "~/lib/toast-errors";
+import { COMPLETE_PARENT_MODES, COMPLETE_PARENT_MODE_LABELS } from "~/lib/subtasks";
+
+export function CompleteParentModePicker() {
+  const utils = api.useContext();
+  const { data: settings } = api.user.getSettings.useQuery();
+  const updateSettings = api.user.updateSettings.useMutation({
+    onSuccess: (next) => utils.user.getSettings.setData(undefined, next),
+    onError: toastMutationError,
+  });
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-400">
+      Subtasks
+      <select
+        value={settings?.completeParentMode ?? "cascade"}
+        onChange={(e) => {
+          // `e.target.value` is a plain string, so we look it up in the known modes instead of casting it.
+          const mode = COMPLETE_PARENT_MODES.find((m) => m === e.target.value);
+          if (mode) updateSettings.mutate({ completeParentMode: mode });
+        }}
+        disabled={!settings || updateSettings.isPending}
+        className="border px-2 py-1 rounded bg-gray-800 text-white"
+      >
+        {COMPLETE_PARENT_MODES.map((mode) => (
+          <option key={mode} value={mode}>
+            {COMPLETE_PARENT_MODE_LABELS[mode]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
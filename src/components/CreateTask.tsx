@@ -7,10 +7,9 @@
 // handle user interactions (like form input and submission).
 'use client';
 
-// Imports the `toast` function from the `react-hot-toast` library. This is a utility for
-// displaying small, non-intrusive notification pop-ups (toasts) to provide immediate
-// feedback to the user, such as "Registration successful!" or an error like "Email already in use".
-import { toast } from "react-hot-toast";
+// Imports our shared mutation error handler. It turns the validation errors returned by the
+// server (e.g., "Task title cannot be empty.") into toast notifications for the user.
+import { toastMutationError } from "~/lib/toast-errors";
 
 // Imports the `useState` hook from the React library. This is a fundamental hook that allows
 // function components to have "state" — variables whose changes will cause the component to
@@ -24,11 +23,37 @@ import { useState } from "react";
 // that correspond to our backend's API procedures, like `api.task.create`.
 import { api } from "~/trpc/react";
 
+// The date + time pickers for the optional due date, and the helper that converts their values
+// into the `dueAt` / `dueAllDay` fields the server expects.
+import { DueDateInput, type DueDateValue } from "~/components/DueDateInput";
+import { buildDueFields } from "~/lib/due-dates";
+
+// Returns the user's stored time zone. A due time typed into the form ("17:00") is wall-clock
+// time in THIS zone, not in whatever zone the server happens to run in.
+import { useUserTimeZone } from "~/components/TimeZone";
+
+// The list of priority levels and their display labels, for the priority dropdown.
+import { PRIORITY_DISPLAY, TASK_PRIORITIES, type TaskPriority } from "~/lib/priority";
+
+// The title input that autocompletes `#tag` tokens.
+import { TagAutocompleteInput } from "~/components/TagAutocompleteInput";
+
+// The quick-add parser, which reads dates, times, repeat rules, `#tags`, `!priority` and `@list`
+// out of the typed text ("Call mom tomorrow 5pm #family" -> "Call mom", due tomorrow at 17:00,
+// tagged "family"), and the chips that preview what it recognized.
+import { parseQuickAdd } from "~/lib/quick-add";
+import { QuickAddPreview } from "~/components/QuickAddPreview";
+
+// The "Repeat" dropdown (presets, a custom RRULE, and the "after completion" switch).
+import { NO_RECURRENCE, RecurrencePicker, type RecurrenceValue } from "~/components/RecurrencePicker";
+
 // This line defines and exports a new React "Function Component" named `CreateTask`.
 // `export`: This makes the component available to be imported and used in other files (like a page).
 // `function CreateTask()`: This is a standard JavaScript function declaration. In React, components are
 // just functions that are responsible for returning some JSX (the UI structure) to be rendered on the screen.
-export function CreateTask() {
+//
+// `listId` is the list the new task is created in (the list currently shown on the page).
+export function CreateTask({ listId }: { listId: string }) {
 
   // This line initializes a state variable to manage the text content of the task input field.
   //
@@ -41,6 +66,33 @@ export function CreateTask() {
   //      in our `onChange` handler to update the state and trigger a re-render.
   const [title, setTitle] = useState("");
 
+  // This state holds the optional due date picked in the form, as the raw strings of the date
+  // and time inputs. An empty date means the new task has no due date.
+  const [due, setDue] = useState<DueDateValue>({ date: "", time: "" });
+
+  // This state holds the priority picked for the new task. It starts at "none".
+  const [priority, setPriority] = useState<TaskPriority>("none");
+
+  // This state holds the repeat rule picked for the new task. It starts at "Doesn't repeat".
+  const [recurrence, setRecurrence] = useState<RecurrenceValue>(NO_RECURRENCE);
+
+  // The user's time zone, used to interpret the due time when the form is submitted.
+  const timeZone = useUserTimeZone();
+
+  // The user's lists, which the typed text can name with `@list` (except lists shared with them
+  // as a viewer, where they can't add tasks).
+  const { data: allLists = [] } = api.list.getAll.useQuery({ includeArchived: false });
+  const lists = allLists.filter((list) => list.access !== "viewer");
+
+  // The locale decides how numeric dates like "10/11" are read; it comes from the browser (this
+  // component is also rendered on the server, where the text is always empty, so the fallback
+  // there is never used for anything).
+  const locale = typeof navigator === "undefined" ? "en-US" : navigator.language;
+
+  // What the parser recognizes in the text typed so far, for the preview chips. The server
+  // parses the text again when the task is created (see `task.create`).
+  const preview = title.trim() ? parseQuickAdd(title, { now: new Date(), timeZone, locale, lists }) : null;
+
   // This line calls the `api.useContext()` hook to get access to the tRPC utility client.
   // This hook returns a special `utils` object that acts as a programmatic API for directly
   // interacting with the client-side React Query cache. Its most important function is
@@ -72,6 +124,9 @@ export function CreateTask() {
       // input field, providing immediate feedback to the user and preparing the form
       // for them to add another task.
       setTitle(""); 
+      setDue({ date: "", time: "" });
+      setPriority("none");
+      setRecurrence(NO_RECURRENCE);
 
       // This is the second, and most crucial, action. We use the `utils` object (from `api.useContext()`)
       // to invalidate the `task.getAll` query. This command tells React Query that the data
@@ -89,71 +144,20 @@ export function CreateTask() {
       // we are intentionally not handling the promise. It evaluates the expression and then returns
       // `undefined`, satisfying the linter rule and clearly documenting our intent to ignore the result.
       void utils.task.getAll.invalidate();
+
+      // The new task may have created new tags (or changed the task counts of existing ones),
+      // so the tag list used by the autocomplete and the tag manager is refreshed as well.
+      void utils.tag.getAll.invalidate();
+
+      // The sidebar shows the number of open tasks per list, which just went up by one.
+      void utils.list.getAll.invalidate();
     },
 
     // This callback runs automatically if the mutation fails (for example, if the input is invalid).
-    onError: (error) => {
-      
-    // This line attempts to extract field-specific validation errors from the error object returned by tRPC.
-    // The error object from tRPC may have a nested structure, where:
-    // - The top-level `error` object may or may not have a `data` property (depending on the error type).
-    // - If present, `data` may have a `zodError` property, which contains validation errors produced by Zod.
-    // - The `zodError` object may have a `fieldErrors` property.
-    // 
-    // The `fieldErrors` property is an object (sometimes called a dictionary or map).
-    // Each key in this object is the name of a field in the form (for example: "email" or "password").
-    // The value for each key is always an array of strings, where each string is a separate error message
-    // describing why that particular field failed validation.
-    // 
-    // For example, if both the email and password fields are invalid, `fieldErrors` might look like:
-    // {
-    //   email: ["Please enter a valid email address."],
-    //   password: ["Password must be at least 6 characters long.", "Password must contain a special character."]
-    // }
-    // 
-    // Note: 
-    // - A single field can have multiple error messages if it fails more than one Zod validation rule.
-    // - If a field passes all validation, it will not appear in the `fieldErrors` object at all.
-    // 
-    // The use of `?.` (optional chaining) after each property ensures that if any part of the chain is
-    // missing or undefined, the whole expression will safely resolve to `undefined` rather than throwing an error.
-      const fieldErrors = error?.data?.zodError?.fieldErrors;
-
-    // This `if` statement checks whether fieldErrors exists (i.e., is not `undefined` or `null`).
-    // If it does, that means there are validation errors to process and display to the user.
-      if (fieldErrors) {
-
-        // `Object.values(fieldErrors)` retrieves all the values (i.e., arrays of error messages) from the fieldErrors object.
-        // For example, with the previous example, this produces: [["Please enter a valid email address."], ["Password must be at least 6 characters long.", "Password must contain a special character."]]
-        // The `.flat()` method then flattens this array of arrays into a single array of error messages:
-        // ["Please enter a valid email address.", "Password must be at least 6 characters long.", "Password must contain a special character."]
-        // The `.forEach((msg) => { ... })` method then iterates through each error message in this
-        // flattened array, executing the function body once for each message. The parameter `msg`
-        // represents the current error message being processed during that iteration.
-        Object.values(fieldErrors).flat().forEach((msg) => {
-          
-          // `if (msg)` checks if the current error message is truthy (not undefined, null, or an empty string).
-          // This ensures that only valid, non-empty error messages are shown to the user.
-          // If the check passes, `toast.error(msg)` displays the error message as a toast notification on the screen.
-          if (msg) toast.error(msg);
-        });
-      }
-      
-      // If there were no Zod field validation errors, this block checks for a general error message.
-      // The `error.message` property is available on standard JavaScript Error objects and many tRPC errors.
-      // If such a message exists, it will be displayed to the user as a toast notification.
-      else if (error.message) {
-        toast.error(error.message);
-      }
-      
-      // If there is neither a field validation error nor a general error message, this block executes.
-      // This is a fallback to handle unexpected error cases where no specific details are available.
-      // It displays a generic error toast to let the user know something went wrong, even if the backend
-      // didn't provide further information.
-      else {
-        toast.error("An unexpected error occurred.");
-      }
-    },
+    // `toastMutationError` is our shared handler (see `src/lib/toast-errors.ts`). It shows every
+    // Zod field error from the server's `zodError` payload as its own toast, or falls back to the
+    // general error message. Sharing it keeps error reporting identical across all task forms.
+    onError: toastMutationError,
   });
 
   // This is the component's main `return` statement. It defines the JSX that will be rendered
@@ -190,7 +194,26 @@ export function CreateTask() {
         // property key that our backend API expects (`title`), we can use this shorthand to
         // avoid repetition. JavaScript automatically creates an object with a `title` key
         // and assigns it the value from our `title` state variable.
-        createTask.mutate({ title });
+        //
+        // `...buildDueFields(...)` adds the optional `dueAt` and `dueAllDay` fields, converted
+        // from the date and time inputs in the user's time zone.
+        //
+        // `quickAdd` makes the server take the `#tags`, the due date, the repeat rule, the
+        // priority and the `@list` out of the typed text, in the user's time zone, so
+        // "Buy milk tomorrow #errands" creates the task "Buy milk", due tomorrow and tagged
+        // "errands" (the same parser as the preview chips, see `src/lib/quick-add.ts`).
+        //
+        // A value picked in the due date, priority or repeat controls wins over one typed in the
+        // text, so only the picked ones are sent. An empty rule means "doesn't repeat".
+        const pickedRecurrence = recurrence.rrule !== "";
+        createTask.mutate({
+          listId,
+          title,
+          quickAdd: { locale },
+          ...(priority !== "none" ? { priority } : {}),
+          ...(due.date ? buildDueFields(due.date, due.time, timeZone) : {}),
+          ...(pickedRecurrence ? { recurrence: recurrence.rrule, recurFromCompletion: recurrence.fromCompletion } : {}),
+        });
       }}
 
       // The `className` prop applies several Tailwind CSS utility classes to style the form's layout.
@@ -205,25 +228,28 @@ export function CreateTask() {
       //
       // - `mb-4`: This utility adds a `margin-bottom` of `1rem` to the entire form, creating
       //   a clear separation between the "create task" form and the `TaskList` component below it.
-      className="flex gap-2 mb-4"
+      //
+      // - `flex-wrap`: Lets the due date pickers wrap onto a second line on narrow screens.
+      className="flex flex-wrap gap-2 mb-4"
     >
 
-      {// This renders the main text `<input>` element where the user will type their new task.
+      {// This renders the main text input where the user will type their new task. It is a
+      // `TagAutocompleteInput`, which works like a plain `<input>` but suggests the user's
+      // existing tags while they type a `#tag` token.
       }
-      <input
+      <TagAutocompleteInput
 
         // `value={title}`: This makes the input a "Controlled Component". Its displayed value is
         // directly controlled by our `title` state variable from `useState`. When the `title`
         // state changes, this input's value will automatically update on the next render.
         value={title}
 
-        // `onChange`: This event handler fires on every single keystroke the user makes.
-        // `(e) => setTitle(e.target.value)`: We provide an inline arrow function that, on every
-        // change, calls our `setTitle` state setter function. It passes the new text content from
-        // the input (`e.target.value`) as the new value for our `title` state. This completes
+        // `onChange`: This event handler fires on every single keystroke the user makes (and when
+        // an autocomplete suggestion is picked). It receives the new text, which we pass straight
+        // to our `setTitle` state setter function as the new value for our `title` state. This completes
         // the "controlled loop": user types -> `onChange` fires -> state updates -> component re-renders
         // -> input `value` is updated.
-        onChange={(e) => setTitle(e.target.value)}
+        onChange={setTitle}
 
         // `placeholder`: A standard HTML attribute that displays grayed-out, hint text inside the
         // input field when it is empty. This text disappears as soon as the user starts typing.
@@ -250,11 +276,10 @@ export function CreateTask() {
         //   stretches to fill the rest. This creates a common and highly responsive layout where
         //   one element is fixed in size and the other is flexible.
         //
-        // - `border`: Applies a default 1px solid border.
-        // - `px-2 py-1`: Sets horizontal and vertical padding inside the input for text spacing.
-        // - `rounded`: Applies a `border-radius` for slightly rounded corners.
-        // - `bg-gray-800 text-white`: Sets the background and text colors to match the dark theme.
-        className="flex-1 border px-2 py-1 rounded bg-gray-800 text-white"
+        // `TagAutocompleteInput` applies this class to its wrapper (which also holds the
+        // suggestion list), and styles the input itself with the same border, padding, rounded
+        // corners and dark colors as the other inputs of the form.
+        className="flex-1 min-w-48"
 
         // `disabled`: This is a standard HTML attribute for form elements. When `true`, it makes the
         // input field "read-only" and unfocusable, preventing the user from typing in it.
@@ -271,6 +296,31 @@ export function CreateTask() {
         disabled={createTask.isPending}
       />
 
+      {// This renders the optional due date and time pickers. They are disabled while the task
+      // is being saved, just like the title input.
+      }
+      <DueDateInput value={due} onChange={setDue} disabled={createTask.isPending} />
+
+      {// This renders the priority dropdown for the new task.
+      }
+      <select
+        aria-label="Priority"
+        value={priority}
+        onChange={(e) => setPriority(TASK_PRIORITIES.find((p) => p === e.target.value) ?? "none")}
+        disabled={createTask.isPending}
+        className="border px-2 py-1 rounded bg-gray-800 text-white"
+      >
+        {TASK_PRIORITIES.map((level) => (
+          <option key={level} value={level}>
+            {PRIORITY_DISPLAY[level].label}
+          </option>
+        ))}
+      </select>
+
+      {// This renders the "Repeat" dropdown for the new task.
+      }
+      <RecurrencePicker value={recurrence} onChange={setRecurrence} disabled={createTask.isPending} />
+
       {// This renders the main submission `<button>` for the form.
       }
       <button
@@ -313,6 +363,17 @@ export function CreateTask() {
         }
         {createTask.isPending ? "Adding..." : "Add"} 
       </button>
+
+      {// The chips previewing what the quick-add parser recognized in the typed text. They take
+      // a line of their own below the controls.
+      }
+      {preview && (
+        <QuickAddPreview
+          parsed={preview}
+          listName={lists.find((list) => list.id === preview.listId)?.name ?? null}
+          timeZone={timeZone}
+        />
+      )}
     </form>
   );
 }
\ No newline at end of file
@@ -0,0 +1,46 @@
+// This file defines the `DueDateInput` component: a native date picker plus an optional time
+// picker, used wherever the user can set a task's due date (the "add task" form and the due
+// date editor in the task list).
+//
+// It is a "controlled" component: it doesn't store anything itself. The parent passes the
+// current `date` ("YYYY-MM-DD") and `time` ("HH:MM" or "") strings and receives the new
+// values through `onChange`. Converting those strings into the stored `dueAt`/`dueAllDay`
+// fields (in the user's time zone) is done by `buildDueFields` in `src/lib/due-dates.ts`.
+'use client';
+
+export type DueDateValue = { date: string; time: string };
+
+export function DueDateInput({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: DueDateValue;
+  onChange: (value: DueDateValue) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <>
+      <input
+        type="date"
+        aria-label="Due date"
+        value={value.date}
+
+        // Clearing the date also clears the time, because a time without a date means nothing.
+        onChange={(e) => onChange({ date: e.target.value, time: e.target.value ? value.time : "" })}
+        disabled={disabled}
+        className="border px-2 py-1 rounded bg-gray-800 text-white"
+      />
+      <input
+        type="time"
+        aria-label="Due time"
+        value={value.time}
+        onChange={(e) => onChange({ ...value, time: e.target.value })}
+
+        // Leaving the time empty makes the task an all-day task. It can only be set once a date is chosen.
+        disabled={disabled === true || !value.date}
+        className="border px-2 py-1 rounded bg-gray-800 text-white disabled:opacity-50"
+      />
+    </>
+  );
+}
@@ -0,0 +1,175 @@
+// This file defines the `ListSharing` component: a collapsible panel on a list's page that shows
+// who the list is shared with (see `src/server/api/routers/sharing.ts`). The owner and admins
+// can invite users by email, change members' roles, remove members, and cancel invitations
+// (admins only for viewers and editors, see `canManageRole`); every member can leave the list.
+'use client';
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "react-hot-toast";
+import { api } from "~/trpc/react";
+import { toastMutationError } from "~/lib/toast-errors";
+import { LIST_ROLES, LIST_ROLE_DISPLAY, canManageRole, hasListAccess, type ListRole } from "~/lib/sharing";
+
+export function ListSharing({ listId }: { listId: string }) {
+  const utils = api.useContext();
+  const router = useRouter();
+  const { data } = api.sharing.getMembers.useQuery({ listId });
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<ListRole>("editor");
+
+  const callbacks = {
+    onSuccess: () => utils.sharing.getMembers.invalidate({ listId }),
+    onError: toastMutationError,
+  };
+  const invite = api.sharing.invite.useMutation({
+    onSuccess: async (result) => {
+      setEmail("");
+      toast.success(`Invitation sent to ${result.email}.`);
+      await utils.sharing.getMembers.invalidate({ listId });
+    },
+    onError: toastMutationError,
+  });
+  const cancelInvite = api.sharing.cancelInvite.useMutation(callbacks);
+  const updateRole = api.sharing.updateRole.useMutation(callbacks);
+  const removeMember = api.sharing.removeMember.useMutation(callbacks);
+
+  // Leaving a list closes it: the user can't open it anymore.
+  const leave = api.sharing.removeMember.useMutation({
+    onSuccess: async () => {
+      await utils.list.getAll.invalidate();
+      router.push("/tasks");
+    },
+    onError: toastMutationError,
+  });
+
+  if (!data) return null;
+  const canManage = hasListAccess(data.access, "admin");
+  const canManageMember = (memberRole: ListRole) => canManageRole(data.access, memberRole);
+  const roleChoices = LIST_ROLES.filter((r) => canManageRole(data.access, r));
+  const { userId } = data;
+  const isPending = invite.isPending || cancelInvite.isPending || updateRole.isPending || removeMember.isPending;
+
+  return (
+    <details className="mb-4 rounded border border-gray-700 p-2 text-sm">
+      <summary className="cursor-pointer text-gray-400">
+        Sharing{data.members.length > 0 && ` (${data.members.length + 1} people)`}
+      </summary>
+
+      <ul className="mt-2 space-y-1">
+        <li className="flex items-center gap-2">
+          <span className="flex-1">{data.owner.name ?? data.owner.email}</span>
+          <span className="text-gray-400">{LIST_ROLE_DISPLAY.owner.label}</span>
+        </li>
+        {data.members.map(({ user, role: memberRole }) => (
+          <li key={user.id} className="flex items-center gap-2">
+            <span className="flex-1">
+              {user.name ?? user.email}
+              {user.id === userId && <span className="text-gray-400"> (you)</span>}
+            </span>
+            {canManageMember(memberRole) && user.id !== userId ? (
+              <select
+                aria-label={`Role of ${user.name ?? user.email}`}
+                value={memberRole}
+                disabled={isPending}
+                onChange={(e) => {
+                  const picked = LIST_ROLES.find((r) => r === e.target.value);
+                  if (picked) updateRole.mutate({ listId, userId: user.id, role: picked });
+                }}
+                className="rounded border bg-gray-800 px-1 text-white"
+              >
+                {roleChoices.map((r) => (
+                  <option key={r} value={r}>
+                    {LIST_ROLE_DISPLAY[r].label}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <span className="text-gray-400">{LIST_ROLE_DISPLAY[memberRole].label}</span>
+            )}
+            {user.id === userId ? (
+              <button
+                type="button"
+                disabled={leave.isPending}
+                onClick={() => {
+                  if (confirm("Leave this list? You will need a new invitation to open it again.")) {
+                    leave.mutate({ listId, userId: user.id });
+                  }
+                }}
+                className="text-red-500 hover:underline"
+              >
+                Leave
+              </button>
+            ) : (
+              canManageMember(memberRole) && (
+                <button
+                  type="button"
+                  disabled={isPending}
+                  onClick={() => removeMember.mutate({ listId, userId: user.id })}
+                  className="text-red-500 hover:underline"
+                >
+                  Remove
+                </button>
+              )
+            )}
+          </li>
+        ))}
+        {data.invites.map((pending) => (
+          <li key={pending.id} className="flex items-center gap-2 text-gray-400">
+            <span className="flex-1">{pending.email} (invited)</span>
+            <span>{LIST_ROLE_DISPLAY[pending.role].label}</span>
+            {canManageMember(pending.role) && (
+              <button
+                type="button"
+                disabled={isPending}
+                onClick={() => cancelInvite.mutate({ inviteId: pending.id })}
+                className="text-red-500 hover:underline"
+              >
+                Cancel invitation
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {canManage && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            invite.mutate({ listId, email, role });
+          }}
+          className="mt-2 flex flex-wrap items-center gap-2"
+        >
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email address"
+            aria-label="Email address to invite"
+            className="min-w-0 flex-1 rounded border bg-gray-800 px-2 py-1 text-white"
+          />
+          <select
+            aria-label="Role of the invited user"
+            value={role}
+            onChange={(e) => setRole(LIST_ROLES.find((r) => r === e.target.value) ?? "editor")}
+            title={LIST_ROLE_DISPLAY[role].description}
+            className="rounded border bg-gray-800 px-1 py-1 text-white"
+          >
+            {roleChoices.map((r) => (
+              <option key={r} value={r}>
+                {LIST_ROLE_DISPLAY[r].label} – {LIST_ROLE_DISPLAY[r].description.toLowerCase()}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={invite.isPending || !email.trim()}
+            className="rounded bg-blue-600 px-3 py-1 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            Invite
+          </button>
+        </form>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,372 @@
+// This file defines the `ListSidebar` component: the column of task lists (projects) next to
+// the task list. It links to every list (the Inbox at `/tasks`, every other list at
+// `/tasks/[listId]`), shows how many open tasks each one has, and lets the user create,
+// rename, reorder, archive, and delete lists. Below the user's own lists, it links to the lists
+// other users shared with them (which only their owner can manage). At the bottom, it links to
+// the Trash.
+//
+// Deleting a list asks what should happen to its tasks: delete them with the list, or move
+// them to another list (the Inbox by default).
+'use client';
+
+import { useState } from "react";
+import Link from "next/link";
+import { usePathname, useRouter } from "next/navigation";
+import { api, type RouterOutputs } from "~/trpc/react";
+import { toastMutationError } from "~/lib/toast-errors";
+
+type List = RouterOutputs["list"]["getAll"][number];
+
+// Returns the page a list lives at. The Inbox is the plain `/tasks` page.
+export function listHref(list: { id: string; isInbox: boolean }) {
+  return list.isInbox ? "/tasks" : `/tasks/${list.id}`;
+}
+
+export function ListSidebar() {
+  const utils = api.useContext();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  // `showArchived` also loads archived lists, so they can be restored.
+  const [showArchived, setShowArchived] = useState(false);
+  const { data: lists = [] } = api.list.getAll.useQuery({ includeArchived: showArchived });
+  const ownLists = lists.filter((list) => list.access === "owner");
+  const activeLists = ownLists.filter((list) => !list.archivedAt);
+  const archivedLists = ownLists.filter((list) => list.archivedAt);
+  const sharedLists = lists.filter((list) => list.access !== "owner" && !list.archivedAt);
+
+  // The name typed into the "new list" input.
+  const [newName, setNewName] = useState("");
+
+  // The list whose "what happens to its tasks?" prompt is open, if any.
+  const [deleting, setDeleting] = useState<List | null>(null);
+
+  // Every list mutation refreshes the sidebar, and shows server errors (e.g., an empty name)
+  // as toasts.
+  const refresh = () => utils.list.getAll.invalidate();
+  const createList = api.list.create.useMutation({
+    onSuccess: (list) => {
+      setNewName("");
+      void refresh();
+      router.push(listHref(list));
+    },
+    onError: toastMutationError,
+  });
+  const renameList = api.list.rename.useMutation({ onSuccess: refresh, onError: toastMutationError });
+  const reorderLists = api.list.reorder.useMutation({ onSuccess: refresh, onError: toastMutationError });
+
+  // Archiving or deleting the list that is currently open sends the user back to the Inbox.
+  const leaveIfOpen = (list: { id: string; isInbox: boolean }) => {
+    if (pathname === listHref(list)) router.push("/tasks");
+  };
+  const archiveList = api.list.archive.useMutation({
+    onSuccess: (list) => {
+      void refresh();
+      if (list.archivedAt) leaveIfOpen(list);
+    },
+    onError: toastMutationError,
+  });
+  const deleteList = api.list.delete.useMutation({
+    onSuccess: (list) => {
+      setDeleting(null);
+      void refresh();
+
+      // Moved tasks now show up in another list, and deleted ones in the trash, so both are
+      // refreshed as well.
+      void utils.task.getAll.invalidate();
+      void utils.task.getTrash.invalidate();
+      leaveIfOpen(list);
+    },
+    onError: toastMutationError,
+  });
+
+  // Moves a list one step up (-1) or down (+1) and saves the new order of all active lists.
+  // The Inbox is always first, so it is left out of the order.
+  const move = (list: List, step: -1 | 1) => {
+    const ordered = activeLists.filter((l) => !l.isInbox);
+    const from = ordered.findIndex((l) => l.id === list.id);
+    const to = from + step;
+    if (from < 0 || to < 0 || to >= ordered.length) return;
+    const [moved] = ordered.splice(from, 1);
+    if (!moved) return;
+    ordered.splice(to, 0, moved);
+    reorderLists.mutate({ ids: ordered.map((l) => l.id) });
+  };
+
+  return (
+    <nav aria-label="Lists" className="w-full space-y-3 text-sm md:w-56">
+      <ul className="space-y-1">
+        {activeLists.map((list, index) => (
+          <ListRow
+            key={list.id}
+            list={list}
+            isActive={pathname === listHref(list)}
+            canMoveUp={!list.isInbox && index > 1}
+            canMoveDown={!list.isInbox && index < activeLists.length - 1}
+            onMove={(step) => move(list, step)}
+            onRename={(name) => renameList.mutate({ id: list.id, name })}
+            onArchive={() => archiveList.mutate({ id: list.id, archived: true })}
+            onDelete={() => setDeleting(list)}
+          />
+        ))}
+      </ul>
+
+      {// The lists other users shared with the user. Only their owner can rename, reorder,
+      // archive, or delete them, so they are plain links.
+      }
+      {sharedLists.length > 0 && (
+        <div>
+          <h2 className="px-2 text-xs uppercase text-gray-500">Shared with me</h2>
+          <ul className="space-y-1">
+            {sharedLists.map((list) => (
+              <li key={list.id} className={`flex items-center gap-1 rounded px-2 py-1 ${pathname === listHref(list) ? "bg-gray-800" : ""}`}>
+                <Link
+                  href={listHref(list)}
+                  title={`Shared by ${list.owner.name ?? list.owner.email ?? "another user"}`}
+                  className="flex-1 truncate hover:underline"
+                >
+                  {list.name}
+                </Link>
+                <span className="text-xs text-gray-500">{list._count.tasks}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {// The "what happens to the tasks?" prompt for the list being deleted.
+      }
+      {deleting && (
+        <DeleteListPrompt
+          list={deleting}
+          targets={activeLists.filter((list) => list.id !== deleting.id)}
+          isPending={deleteList.isPending}
+          onConfirm={(choice) => deleteList.mutate({ id: deleting.id, ...choice })}
+          onCancel={() => setDeleting(null)}
+        />
+      )}
+
+      {// The form for a new list. Its button says "Create" (not "Add"), so it is never confused
+      // with the "add task" button.
+      }
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          createList.mutate({ name: newName });
+        }}
+        className="flex gap-1"
+      >
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New list..."
+          aria-label="New list name"
+          disabled={createList.isPending}
+          className="min-w-0 flex-1 border px-2 py-1 rounded bg-gray-800 text-white"
+        />
+        <button
+          type="submit"
+          disabled={createList.isPending}
+          className="rounded border border-gray-700 px-2 hover:bg-gray-800 disabled:opacity-50"
+        >
+          Create
+        </button>
+      </form>
+
+      <label className="flex items-center gap-2 text-gray-400">
+        <input
+          type="checkbox"
+          checked={showArchived}
+          onChange={(e) => setShowArchived(e.target.checked)}
+        />
+        Show archived lists
+      </label>
+
+      {// The deleted tasks of every list, which can be restored for 30 days.
+      }
+      <Link
+        href="/tasks/trash"
+        className={`block rounded px-2 py-1 text-gray-400 hover:underline ${pathname === "/tasks/trash" ? "bg-gray-800" : ""}`}
+      >
+        🗑 Trash
+      </Link>
+
+      {showArchived && archivedLists.length > 0 && (
+        <ul className="space-y-1 text-gray-500">
+          {archivedLists.map((list) => (
+            <li key={list.id} className="flex items-center gap-2">
+              <span className="flex-1 truncate">{list.name}</span>
+              <button
+                type="button"
+                onClick={() => archiveList.mutate({ id: list.id, archived: false })}
+                className="hover:underline"
+              >
+                Restore
+              </button>
+              <button
+                type="button"
+                onClick={() => setDeleting(list)}
+                className="text-red-500 hover:underline"
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </nav>
+  );
+}
+
+// This is a module-private component for one list in the sidebar: its link, its open-task
+// count, and its actions. Double-clicking the name renames the list in place, the same way
+// task titles are edited in `TaskList`.
+function ListRow({
+  list,
+  isActive,
+  canMoveUp,
+  canMoveDown,
+  onMove,
+  onRename,
+  onArchive,
+  onDelete,
+}: {
+  list: List;
+  isActive: boolean;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  onMove: (step: -1 | 1) => void;
+  onRename: (name: string) => void;
+  onArchive: () => void;
+  onDelete: () => void;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(list.name);
+
+  if (isEditing) {
+    return (
+      <li>
+        <input
+          autoFocus
+          value={draft}
+          aria-label="List name"
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={() => {
+            setIsEditing(false);
+            if (draft.trim() !== list.name) onRename(draft);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") e.currentTarget.blur();
+            if (e.key === "Escape") {
+              setDraft(list.name);
+              setIsEditing(false);
+            }
+          }}
+          className="w-full border px-2 py-1 rounded bg-gray-800 text-white"
+        />
+      </li>
+    );
+  }
+
+  return (
+    <li className={`group flex items-center gap-1 rounded px-2 py-1 ${isActive ? "bg-gray-800" : ""}`}>
+      <Link
+        href={listHref(list)}
+        onDoubleClick={(e) => {
+          e.preventDefault();
+          setDraft(list.name);
+          setIsEditing(true);
+        }}
+        title="Double-click to rename"
+        className="flex-1 truncate hover:underline"
+      >
+        {list.name}
+      </Link>
+      <span className="text-xs text-gray-500">{list._count.tasks}</span>
+
+      {// The list actions only appear on hover (or keyboard focus), to keep the sidebar calm.
+      // The Inbox can't be moved, archived, or deleted.
+      }
+      {!list.isInbox && (
+        <span className="hidden gap-1 text-xs text-gray-400 group-focus-within:flex group-hover:flex">
+          <button type="button" aria-label={`Move ${list.name} up`} disabled={!canMoveUp} onClick={() => onMove(-1)} className="disabled:opacity-30">
+            ↑
+          </button>
+          <button type="button" aria-label={`Move ${list.name} down`} disabled={!canMoveDown} onClick={() => onMove(1)} className="disabled:opacity-30">
+            ↓
+          </button>
+          <button type="button" aria-label={`Archive ${list.name}`} onClick={onArchive} className="hover:underline">
+            Archive
+          </button>
+          <button type="button" aria-label={`Delete ${list.name}`} onClick={onDelete} className="text-red-500 hover:underline">
+            Delete
+          </button>
+        </span>
+      )}
+    </li>
+  );
+}
+
+// This is a module-private component that asks what to do with the tasks of a list that is
+// about to be deleted: delete them too, or move them to another list.
+function DeleteListPrompt({
+  list,
+  targets,
+  isPending,
+  onConfirm,
+  onCancel,
+}: {
+  list: List;
+  targets: List[];
+  isPending: boolean;
+  onConfirm: (choice: { tasks: "delete" } | { tasks: "move"; moveToListId: string }) => void;
+  onCancel: () => void;
+}) {
+
+  // The list the tasks are moved to. The Inbox (always the first target) is the default.
+  const [targetId, setTargetId] = useState(targets[0]?.id ?? "");
+
+  return (
+    <div role="alertdialog" aria-label={`Delete ${list.name}`} className="space-y-2 rounded border border-red-800 p-2">
+      <p>
+        Delete <strong>{list.name}</strong>? What should happen to its {list._count.tasks} open
+        {list._count.tasks === 1 ? " task" : " tasks"} (and any completed ones)?
+      </p>
+      <div className="flex flex-wrap items-center gap-1">
+        <button
+          type="button"
+          disabled={isPending || !targetId}
+          onClick={() => onConfirm({ tasks: "move", moveToListId: targetId })}
+          className="rounded border border-gray-700 px-2 py-0.5 hover:bg-gray-800 disabled:opacity-50"
+        >
+          Move tasks to
+        </button>
+        <select
+          aria-label="Move tasks to"
+          value={targetId}
+          onChange={(e) => setTargetId(e.target.value)}
+          className="border px-1 py-0.5 rounded bg-gray-800 text-white"
+        >
+          {targets.map((target) => (
+            <option key={target.id} value={target.id}>
+              {target.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          disabled={isPending}
+          onClick={() => onConfirm({ tasks: "delete" })}
+          className="rounded bg-red-700 px-2 py-0.5 hover:bg-red-800 disabled:opacity-50"
+        >
+          Delete list and move tasks to trash
+        </button>
+        <button type="button" onClick={onCancel} className="hover:underline">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+// This file defines the `MarkdownNotes` component, which renders a task's Markdown notes
+// (GitHub-flavored: tables, strikethrough, autolinks, and `- [ ]` checklists).
+//
+// Notes are typed by users, so rendering them must be safe against XSS:
+// - `react-markdown` builds React elements instead of setting `innerHTML`, so everything is
+//   escaped by React. Raw HTML in the notes (e.g., `<script>`) is never rendered as HTML; it is
+//   dropped (`skipHtml`).
+// - Link and image URLs go through `react-markdown`'s default `urlTransform`, which removes
+//   dangerous protocols such as `javascript:`. Links open in a new tab without giving it access
+//   to this page (`rel="noopener noreferrer"`).
+//
+// Checklist items are rendered as real checkboxes. When `onToggleChecklistItem` is given, they
+// can be clicked, and the callback receives the item's line in the Markdown source (see
+// `toggleChecklistItem` in `src/lib/markdown.ts`).
+'use client';
+
+import { createContext, useContext } from "react";
+import Markdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+
+type ToggleChecklistItem = (line: number, checked: boolean) => void;
+
+// The toggle callback of the surrounding `MarkdownNotes`, and the source line of the list item
+// a checkbox belongs to. `react-markdown` tells the `li` component where it starts, but not the
+// checkbox inside it, so the `li` passes its line down through this context.
+const ToggleContext = createContext<ToggleChecklistItem | undefined>(undefined);
+const ListItemLineContext = createContext<number | undefined>(undefined);
+
+// The elements whose rendering we override. They are defined once, outside the component,
+// so React doesn't re-mount the whole rendered tree on every render.
+const components: Components = {
+  a: ({ node: _node, ...props }) => (
+    <a {...props} target="_blank" rel="noopener noreferrer nofollow" className="text-blue-400 underline" />
+  ),
+  li: ({ node, ...props }) => (
+    <ListItemLineContext.Provider value={node?.position?.start.line}>
+      <li {...props} />
+    </ListItemLineContext.Provider>
+  ),
+  input: function ChecklistBox({ node: _node, ...props }) {
+    const onToggle = useContext(ToggleContext);
+    const line = useContext(ListItemLineContext);
+    if (props.type !== "checkbox") return <input {...props} />;
+    return (
+      <input
+        type="checkbox"
+        checked={props.checked ?? false}
+        disabled={!onToggle || line === undefined}
+        onChange={(e) => {
+          if (onToggle && line !== undefined) onToggle(line, e.target.checked);
+        }}
+        className="mr-2 align-middle"
+      />
+    );
+  },
+};
+
+export function MarkdownNotes({
+  markdown,
+  onToggleChecklistItem,
+}: {
+  markdown: string;
+  onToggleChecklistItem?: ToggleChecklistItem;
+}) {
+  return (
+    <ToggleContext.Provider value={onToggleChecklistItem}>
+      {// Tailwind resets the default look of headings, lists, and so on, so it is restored here
+      // for the elements inside the notes.
+      }
+      <div className="space-y-2 break-words text-sm [&_blockquote]:border-l-2 [&_blockquote]:border-gray-600 [&_blockquote]:pl-3 [&_blockquote]:text-gray-400 [&_code]:rounded [&_code]:bg-gray-800 [&_code]:px-1 [&_h1]:text-xl [&_h1]:font-bold [&_h2]:text-lg [&_h2]:font-bold [&_h3]:font-bold [&_ol]:list-decimal [&_ol]:pl-5 [&_pre]:overflow-x-auto [&_pre]:rounded [&_pre]:bg-gray-800 [&_pre]:p-2 [&_td]:border [&_td]:border-gray-700 [&_td]:px-2 [&_th]:border [&_th]:border-gray-700 [&_th]:px-2 [&_ul]:list-disc [&_ul]:pl-5 [&_.contains-task-list]:list-none [&_.contains-task-list]:pl-1">
+        <Markdown remarkPlugins={[remarkGfm]} components={components} skipHtml>
+          {markdown}
+        </Markdown>
+      </div>
+    </ToggleContext.Provider>
+  );
+}
@@ -0,0 +1,39 @@
+// This file defines the `QuickAddPreview` component: the chips shown under the "add task"
+// input while the user types, one for each thing the quick-add parser (`src/lib/quick-add.ts`)
+// recognized — the due date, the repeat rule, the priority, the list and the tags — so the
+// user can see what will be saved before submitting.
+'use client';
+
+import { formatDue } from "~/lib/due-dates";
+import { PRIORITY_DISPLAY } from "~/lib/priority";
+import { type QuickAddResult } from "~/lib/quick-add";
+import { describeRRule } from "~/lib/rrule";
+
+export function QuickAddPreview({
+  parsed,
+  listName,
+  timeZone,
+}: {
+  parsed: QuickAddResult;
+  listName: string | null;
+  timeZone: string;
+}) {
+  const chips = [
+    ...(parsed.due ? [{ key: "due", text: `Due ${formatDue(parsed.due, timeZone)}` }] : []),
+    ...(parsed.recurrence ? [{ key: "recurrence", text: describeRRule(parsed.recurrence) }] : []),
+    ...(parsed.priority ? [{ key: "priority", text: `Priority: ${PRIORITY_DISPLAY[parsed.priority].label}` }] : []),
+    ...(listName ? [{ key: "list", text: `List: ${listName}` }] : []),
+    ...parsed.tags.map((tag) => ({ key: `tag-${tag}`, text: `#${tag}` })),
+  ];
+  if (chips.length === 0) return null;
+
+  return (
+    <ul aria-label="Recognized in the task" className="flex w-full flex-wrap gap-1 text-xs">
+      {chips.map((chip) => (
+        <li key={chip.key} className="rounded-full bg-blue-900 px-2 py-0.5 text-blue-100">
+          {chip.text}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,108 @@
+// This file defines the `RecurrencePicker` component: a dropdown of common repeat patterns
+// ("Daily", "Every weekday", "Monthly on the 1st", ...), a "Custom rule" option with a text
+// input for any RRULE the app supports, and an "after completion" checkbox. It is used by the
+// "add task" form and by the repeat editor in the task list.
+//
+// Like `DueDateInput`, it is a "controlled" component: the parent owns the value. Custom rules
+// are checked with the same parser the server uses (`src/lib/rrule.ts`), so mistakes are shown
+// while typing; the server validates the rule again when it is saved.
+'use client';
+
+import { useState } from "react";
+import { RECURRENCE_PRESETS, normalizeRRule, parseRRule } from "~/lib/rrule";
+
+// `rrule` is an RRULE string, or "" for "doesn't repeat".
+export type RecurrenceValue = { rrule: string; fromCompletion: boolean };
+
+export const NO_RECURRENCE: RecurrenceValue = { rrule: "", fromCompletion: false };
+
+// Returns the preset matching a rule (comparing canonical forms), if any.
+function findPreset(rrule: string) {
+  try {
+    const normalized = normalizeRRule(rrule);
+    return RECURRENCE_PRESETS.find((preset) => preset.rrule === normalized);
+  } catch {
+    return undefined;
+  }
+}
+
+export function RecurrencePicker({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: RecurrenceValue;
+  onChange: (value: RecurrenceValue) => void;
+  disabled?: boolean;
+}) {
+
+  // Whether the custom rule input is shown. It starts open for a stored rule that isn't one of
+  // the presets, and stays open while the user edits it (even if it matches a preset midway).
+  const [isCustom, setIsCustom] = useState(() => value.rrule !== "" && !findPreset(value.rrule));
+
+  // The parser's message for an invalid custom rule, shown under the input.
+  let error: string | null = null;
+  if (isCustom && value.rrule) {
+    try {
+      parseRRule(value.rrule);
+    } catch (e) {
+      error = e instanceof Error ? e.message : "Invalid rule.";
+    }
+  }
+
+  const selected = isCustom ? "custom" : (findPreset(value.rrule)?.rrule ?? "");
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        aria-label="Repeat"
+        value={selected}
+        disabled={disabled}
+        onChange={(e) => {
+          const next = e.target.value;
+          setIsCustom(next === "custom");
+          if (next === "custom") onChange({ ...value, rrule: value.rrule || "FREQ=DAILY" });
+          else onChange({ rrule: next, fromCompletion: next ? value.fromCompletion : false });
+        }}
+        className="border px-2 py-1 rounded bg-gray-800 text-white"
+      >
+        <option value="">Doesn&apos;t repeat</option>
+        {RECURRENCE_PRESETS.map((preset) => (
+          <option key={preset.rrule} value={preset.rrule}>
+            {preset.label}
+          </option>
+        ))}
+        <option value="custom">Custom rule…</option>
+      </select>
+
+      {isCustom && (
+        <input
+          aria-label="Custom RRULE"
+          aria-invalid={error !== null}
+          value={value.rrule}
+          placeholder="FREQ=MONTHLY;BYDAY=-1FR"
+          disabled={disabled}
+          onChange={(e) => onChange({ ...value, rrule: e.target.value })}
+          title={error ?? "An RFC 5545 RRULE, e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE"}
+          className={`w-56 border px-2 py-1 rounded bg-gray-800 font-mono text-xs text-white ${
+            error ? "border-red-500" : ""
+          }`}
+        />
+      )}
+
+      {value.rrule && (
+        <label className="flex items-center gap-1 text-xs text-gray-400">
+          <input
+            type="checkbox"
+            checked={value.fromCompletion}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...value, fromCompletion: e.target.checked })}
+          />
+          after completion
+        </label>
+      )}
+
+      {error && <p className="w-full text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
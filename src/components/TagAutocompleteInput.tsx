@@ -0,0 +1,151 @@
+// This file defines the `TagAutocompleteInput` component: a text input that suggests the
+// user's existing tags while they type a `#tag` token (e.g., "Call mom #fa" suggests
+// "#family"). It is used as the title input of the "add task" form.
+//
+// It is a "controlled" component, like a plain `<input>`: the parent owns the text through
+// `value` / `onChange`. Splitting the text into a title and tag names happens on submit,
+// with `extractTags` from `src/lib/tags.ts`.
+//
+// Keyboard: ArrowDown / ArrowUp move through the suggestions, Enter or Tab picks the
+// highlighted one, and Escape closes the list. While the list is closed, Enter submits the
+// form as usual.
+'use client';
+
+import { useRef, useState } from "react";
+import { api } from "~/trpc/react";
+import { getPartialTag } from "~/lib/tags";
+
+// The most suggestions shown at once.
+const MAX_SUGGESTIONS = 6;
+
+export function TagAutocompleteInput({
+  value,
+  onChange,
+  placeholder,
+  disabled,
+  className,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // The user's tags, shared with the tag manager and the task list through React Query's cache.
+  const { data: tags = [] } = api.tag.getAll.useQuery();
+
+  // Where the cursor is in the text. The suggestions depend on the token right before it.
+  const [cursor, setCursor] = useState(0);
+
+  // The index of the highlighted suggestion.
+  const [highlighted, setHighlighted] = useState(0);
+
+  // Set when the user presses Escape, and cleared as soon as they type again.
+  const [dismissed, setDismissed] = useState(false);
+
+  // The partial tag being typed at the cursor (e.g., "fa"), or `null` when the cursor is not
+  // inside a `#tag` token. Tags already spelled out in full are not suggested again.
+  const partial = getPartialTag(value.slice(0, cursor));
+  const suggestions =
+    partial === null || dismissed
+      ? []
+      : tags
+          .filter((tag) => tag.name.startsWith(partial) && tag.name !== partial)
+          .slice(0, MAX_SUGGESTIONS);
+  const isOpen = suggestions.length > 0;
+
+  // Replaces the partial token before the cursor with the full tag name plus a space, and
+  // moves the cursor to just after it.
+  const pick = (name: string) => {
+    if (partial === null) return;
+    const start = cursor - partial.length;
+    const next = `${value.slice(0, start)}${name} ${value.slice(cursor)}`;
+    onChange(next);
+
+    const nextCursor = start + name.length + 1;
+    setCursor(nextCursor);
+    setHighlighted(0);
+
+    // The input's value only updates after React re-renders, so the caret is moved on the
+    // next animation frame.
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(nextCursor, nextCursor));
+  };
+
+  return (
+    <div className={`relative ${className ?? ""}`}>
+      <input
+        ref={inputRef}
+        value={value}
+        placeholder={placeholder}
+        disabled={disabled}
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={isOpen}
+        aria-controls="tag-suggestions"
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCursor(e.target.selectionStart ?? e.target.value.length);
+          setHighlighted(0);
+          setDismissed(false);
+        }}
+
+        // Keeps `cursor` in sync when the caret moves without the text changing (arrow keys,
+        // clicks inside the input).
+        onSelect={(e) => setCursor(e.currentTarget.selectionStart ?? value.length)}
+        onKeyDown={(e) => {
+          if (!isOpen) return;
+          if (e.key === "ArrowDown") {
+            e.preventDefault();
+            setHighlighted((i) => (i + 1) % suggestions.length);
+          } else if (e.key === "ArrowUp") {
+            e.preventDefault();
+            setHighlighted((i) => (i - 1 + suggestions.length) % suggestions.length);
+          } else if (e.key === "Enter" || e.key === "Tab") {
+            // `preventDefault` stops Enter from submitting the form and Tab from moving focus.
+            e.preventDefault();
+            const tag = suggestions[highlighted] ?? suggestions[0];
+            if (tag) pick(tag.name);
+          } else if (e.key === "Escape") {
+            setDismissed(true);
+          }
+        }}
+
+        // The list closes when the input loses focus. Clicking an option doesn't count: the
+        // options' `onMouseDown` calls `preventDefault`, which keeps the focus in the input.
+        onBlur={() => setDismissed(true)}
+        onFocus={() => setDismissed(false)}
+        className="w-full border px-2 py-1 rounded bg-gray-800 text-white"
+      />
+
+      {isOpen && (
+        <ul
+          id="tag-suggestions"
+          role="listbox"
+          className="absolute left-0 right-0 top-full z-10 mt-1 rounded border border-gray-700 bg-gray-900 py-1 text-sm shadow-lg"
+        >
+          {suggestions.map((tag, index) => (
+            <li
+              key={tag.id}
+              role="option"
+              aria-selected={index === highlighted}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(tag.name);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`flex cursor-pointer items-center gap-2 px-2 py-1 ${
+                index === highlighted ? "bg-gray-700" : ""
+              }`}
+            >
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} />
+              #{tag.name}
+              <span className="ml-auto text-xs text-gray-500">{tag._count.tasks}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
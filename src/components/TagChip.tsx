@@ -0,0 +1,52 @@
+// This file defines the `TagChip` component: a small, rounded label in the tag's own color.
+// It is used for the tags of each task in the task list, for the active tag filter, and in
+// the tag manager.
+//
+// When an `onClick` is given the chip is rendered as a `<button>` (e.g., clicking a task's
+// tag adds it to the filter); otherwise it is a plain `<span>`.
+'use client';
+
+// The columns of a tag that the server sends with every task (see `tagSummarySelect`).
+export type TagSummary = { id: string; name: string; color: string };
+
+export function TagChip({
+  tag,
+  active,
+  onClick,
+  title,
+}: {
+  tag: TagSummary;
+  active?: boolean;
+  onClick?: () => void;
+  title?: string;
+}) {
+
+  // The chip's border and text use the tag color, and the background is the same color at
+  // ~13% opacity (the "22" alpha suffix), so every palette color stays readable on the dark
+  // background. An active chip (one that is part of the current filter) is filled in solid.
+  const style = active
+    ? { backgroundColor: tag.color, borderColor: tag.color, color: "#fff" }
+    : { backgroundColor: `${tag.color}22`, borderColor: tag.color, color: tag.color };
+  const className = "inline-flex items-center rounded-full border px-2 text-xs leading-5";
+
+  if (!onClick) {
+    return (
+      <span style={style} className={className}>
+        #{tag.name}
+      </span>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title={title}
+      aria-pressed={active ?? false}
+      style={style}
+      className={`${className} hover:opacity-80`}
+    >
+      #{tag.name}
+    </button>
+  );
+}
@@ -0,0 +1,148 @@
+// This file defines the `TagManager` component: a collapsible panel on the tasks page that
+// lists the user's tags and lets them rename, recolor, merge, and delete them.
+//
+// Tags are usually created implicitly, by typing `#tag` in the "add task" input, so this panel
+// is about tidying them up afterwards: fixing a typo, merging "#work" and "#job", or removing
+// a tag that is no longer used. Every change refreshes both the tag list and the task list,
+// because the chips on the tasks show the tags' names and colors.
+'use client';
+
+import { useState } from "react";
+import { api, type RouterOutputs } from "~/trpc/react";
+import { toastMutationError } from "~/lib/toast-errors";
+import { TagChip } from "~/components/TagChip";
+
+type Tag = RouterOutputs["tag"]["getAll"][number];
+
+export function TagManager() {
+  const utils = api.useContext();
+  const { data: tags = [] } = api.tag.getAll.useQuery();
+
+  // Shared by all the tag mutations below: refresh the tags and the tasks (whose chips show
+  // the tags), and report errors (like a rename to an existing name) as toasts.
+  const callbacks = {
+    onSuccess: () => {
+      void utils.tag.getAll.invalidate();
+      void utils.task.getAll.invalidate();
+    },
+    onError: toastMutationError,
+  };
+  const renameTag = api.tag.rename.useMutation(callbacks);
+  const recolorTag = api.tag.recolor.useMutation(callbacks);
+  const mergeTag = api.tag.merge.useMutation(callbacks);
+  const deleteTag = api.tag.delete.useMutation(callbacks);
+
+  return (
+    <details className="mb-4 rounded border border-gray-700 p-2 text-sm">
+      <summary className="cursor-pointer text-gray-400">Manage tags ({tags.length})</summary>
+
+      {tags.length === 0 ? (
+        <p className="mt-2 text-gray-500">
+          No tags yet. Type a <code>#tag</code> in a new task to create one.
+        </p>
+      ) : (
+        <ul className="mt-2 space-y-2">
+          {tags.map((tag) => (
+            <TagRow
+              key={tag.id}
+              tag={tag}
+              otherTags={tags.filter((other) => other.id !== tag.id)}
+              onRename={(name) => renameTag.mutate({ id: tag.id, name })}
+              onRecolor={(color) => recolorTag.mutate({ id: tag.id, color })}
+              onMerge={(targetId) => mergeTag.mutate({ sourceIds: [tag.id], targetId })}
+              onDelete={() => deleteTag.mutate({ id: tag.id })}
+            />
+          ))}
+        </ul>
+      )}
+    </details>
+  );
+}
+
+// This is a module-private component for a single row of the tag manager.
+function TagRow({
+  tag,
+  otherTags,
+  onRename,
+  onRecolor,
+  onMerge,
+  onDelete,
+}: {
+  tag: Tag;
+  otherTags: Tag[];
+  onRename: (name: string) => void;
+  onRecolor: (color: string) => void;
+  onMerge: (targetId: string) => void;
+  onDelete: () => void;
+}) {
+
+  // The text of the rename input. It is only saved when the input loses focus (or on Enter).
+  const [draft, setDraft] = useState(tag.name);
+
+  return (
+    <li className="flex flex-wrap items-center gap-2">
+      <TagChip tag={tag} />
+
+      {// The native color picker. `onChange` fires continuously while dragging, so the new
+      // color is only saved once the picker is closed (`onBlur`).
+      }
+      <input
+        type="color"
+        aria-label={`Color of #${tag.name}`}
+        defaultValue={tag.color}
+        onBlur={(e) => {
+          if (e.target.value !== tag.color) onRecolor(e.target.value);
+        }}
+        className="h-6 w-8 cursor-pointer bg-transparent"
+      />
+
+      <input
+        aria-label={`Rename #${tag.name}`}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => {
+          if (draft.trim() !== tag.name) onRename(draft);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur();
+        }}
+        className="w-32 border px-2 py-0.5 rounded bg-gray-800 text-white"
+      />
+
+      <span className="text-gray-500">
+        {tag._count.tasks} {tag._count.tasks === 1 ? "task" : "tasks"}
+      </span>
+
+      {// Merging moves this tag's tasks to the picked tag and deletes this one. The `value` is
+      // always "", so the select resets to its prompt after every pick.
+      }
+      {otherTags.length > 0 && (
+        <select
+          aria-label={`Merge #${tag.name} into`}
+          value=""
+          onChange={(e) => {
+            if (e.target.value) onMerge(e.target.value);
+          }}
+          className="border px-2 py-0.5 rounded bg-gray-800 text-white"
+        >
+          <option value="">Merge into…</option>
+          {otherTags.map((other) => (
+            <option key={other.id} value={other.id}>
+              #{other.name}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <button
+        type="button"
+        onClick={() => {
+          if (window.confirm(`Delete #${tag.name}? Its tasks are kept, without this tag.`)) onDelete();
+        }}
+        className="ml-auto text-red-500 hover:underline"
+      >
+        Delete tag
+      </button>
+    </li>
+  );
+}
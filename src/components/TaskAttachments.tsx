@@ -0,0 +1,128 @@
+// This file defines the `TaskAttachments` component: the files attached to one task, shown in the
+// task detail drawer below the notes. Images show a thumbnail; every file links to its download.
+// Editors can upload files (`POST /api/attachments`) and delete them.
+'use client';
+
+import { useRef, useState } from "react";
+import { toast } from "react-hot-toast";
+import { api } from "~/trpc/react";
+import { toastMutationError } from "~/lib/toast-errors";
+import { ATTACHMENT_ACCEPT, formatFileSize, MAX_ATTACHMENT_BYTES, validateAttachment } from "~/lib/attachments";
+
+// The download URLs expire after 15 minutes (`ATTACHMENT_URL_LIFETIME_SECONDS` on the server), so
+// they are fetched again well before that while the drawer is open.
+const URL_REFRESH_MS = 5 * 60 * 1000;
+
+export function TaskAttachments({ taskId }: { taskId: string }) {
+  const utils = api.useContext();
+  const { data, isPending } = api.attachment.getByTask.useQuery(
+    { taskId },
+    { refetchOnMount: "always", refetchInterval: URL_REFRESH_MS },
+  );
+  const deleteAttachment = api.attachment.delete.useMutation({
+    onSuccess: () => utils.attachment.getByTask.invalidate({ taskId }),
+    onError: toastMutationError,
+  });
+  const [isUploading, setIsUploading] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Uploads the picked files one at a time. Each file is checked here first, with the same
+  // limits as the server, so a wrong file is reported without uploading it.
+  const upload = async (files: File[]) => {
+    setIsUploading(true);
+    try {
+      for (const file of files) {
+        const invalid = validateAttachment(file);
+        if (invalid) {
+          toast.error(`${file.name}: ${invalid}`);
+          continue;
+        }
+        const form = new FormData();
+        form.append("taskId", taskId);
+        form.append("file", file);
+        const response = await fetch("/api/attachments", { method: "POST", body: form });
+        if (!response.ok) {
+          const { error } = (await response.json().catch(() => ({}))) as { error?: string };
+          toast.error(`${file.name}: ${error ?? "The upload failed."}`);
+        }
+      }
+    } finally {
+      setIsUploading(false);
+      if (inputRef.current) inputRef.current.value = "";
+      await utils.attachment.getByTask.invalidate({ taskId });
+    }
+  };
+
+  const attachments = data?.attachments ?? [];
+
+  return (
+    <section aria-label="Attachments" className="space-y-2 border-t border-gray-700 pt-4">
+      <h3 className="text-sm font-semibold text-gray-300">
+        Attachments{attachments.length > 0 && ` (${attachments.length})`}
+      </h3>
+      {isPending ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : attachments.length === 0 ? (
+        <p className="text-sm text-gray-500">No files attached.</p>
+      ) : (
+        <ul className="space-y-2 text-sm">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="flex items-center gap-3">
+              <a href={attachment.url} target="_blank" rel="noopener noreferrer" className="shrink-0">
+                {attachment.thumbnailUrl ? (
+                  // A plain `<img>`: the thumbnails are already small, and their signed URLs
+                  // can't go through Next.js image optimization.
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={attachment.thumbnailUrl} alt="" className="h-12 w-12 rounded object-cover" />
+                ) : (
+                  <span className="flex h-12 w-12 items-center justify-center rounded bg-gray-800 text-lg">📄</span>
+                )}
+              </a>
+              <div className="min-w-0 flex-1">
+                <a
+                  href={attachment.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block truncate text-blue-400 hover:underline"
+                >
+                  {attachment.fileName}
+                </a>
+                <span className="text-xs text-gray-500">{formatFileSize(attachment.size)}</span>
+              </div>
+              {data?.canEdit && (
+                <button
+                  type="button"
+                  disabled={deleteAttachment.isPending}
+                  onClick={() => {
+                    if (confirm(`Delete ${attachment.fileName}?`)) deleteAttachment.mutate({ id: attachment.id });
+                  }}
+                  className="text-xs text-red-500 hover:underline"
+                >
+                  Remove file
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {data?.canEdit && (
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          <span className="rounded border border-gray-700 px-2 py-1 hover:bg-gray-800">
+            {isUploading ? "Uploading..." : "Attach files"}
+          </span>
+          <span className="text-xs">Up to {formatFileSize(MAX_ATTACHMENT_BYTES)} each</span>
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            accept={ATTACHMENT_ACCEPT}
+            disabled={isUploading}
+            onChange={(e) => void upload(Array.from(e.target.files ?? []))}
+            className="sr-only"
+          />
+        </label>
+      )}
+    </section>
+  );
+}
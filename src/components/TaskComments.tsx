@@ -0,0 +1,174 @@
+// This file defines the `TaskComments` component: the discussion thread of one task, shown in the
+// task detail drawer between the notes and the activity history. Comments are Markdown (rendered
+// like the notes), oldest first, with their author and a relative timestamp ("5 minutes ago").
+// Their author and the list's owner can edit or delete them (see `src/server/api/routers/comment.ts`).
+'use client';
+
+import { useEffect, useState } from "react";
+import { api, type RouterOutputs } from "~/trpc/react";
+import { toastMutationError } from "~/lib/toast-errors";
+import { formatRelativeTime } from "~/lib/relative-time";
+import { MarkdownNotes } from "~/components/MarkdownNotes";
+
+type Comment = RouterOutputs["comment"]["getByTask"]["comments"][number];
+
+// How often (in milliseconds) the relative timestamps are re-computed while the drawer is open.
+const NOW_REFRESH_MS = 60 * 1000;
+
+export function TaskComments({ taskId }: { taskId: string }) {
+  const utils = api.useContext();
+  const { data, isPending } = api.comment.getByTask.useQuery({ taskId }, { refetchOnMount: "always" });
+  const [body, setBody] = useState("");
+
+  // "Now", for the relative timestamps. It is only set in the browser, so the server-rendered
+  // markup never depends on the server's clock.
+  const [now, setNow] = useState<Date | null>(null);
+  useEffect(() => {
+    setNow(new Date());
+    const timer = setInterval(() => setNow(new Date()), NOW_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Adding or deleting a comment also changes the count badge on the task's row.
+  const refresh = () =>
+    Promise.all([utils.comment.getByTask.invalidate({ taskId }), utils.task.getAll.invalidate()]);
+  const createComment = api.comment.create.useMutation({
+    onSuccess: async () => {
+      setBody("");
+      await refresh();
+    },
+    onError: toastMutationError,
+  });
+  const updateComment = api.comment.update.useMutation({ onSuccess: refresh, onError: toastMutationError });
+  const deleteComment = api.comment.delete.useMutation({ onSuccess: refresh, onError: toastMutationError });
+
+  const comments = data?.comments ?? [];
+
+  return (
+    <section aria-label="Comments" className="space-y-2 border-t border-gray-700 pt-4">
+      <h3 className="text-sm font-semibold text-gray-300">
+        Comments{comments.length > 0 && ` (${comments.length})`}
+      </h3>
+      {isPending ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : comments.length === 0 ? (
+        <p className="text-sm text-gray-500">No comments yet.</p>
+      ) : (
+        <ol className="space-y-3">
+          {comments.map((comment) => (
+            <CommentItem
+              key={comment.id}
+              comment={comment}
+              now={now}
+              isPending={updateComment.isPending || deleteComment.isPending}
+              onSave={(next) => updateComment.mutateAsync({ id: comment.id, body: next })}
+              onDelete={() => {
+                if (confirm("Delete this comment?")) deleteComment.mutate({ id: comment.id });
+              }}
+            />
+          ))}
+        </ol>
+      )}
+
+      {data?.canComment && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            createComment.mutate({ taskId, body });
+          }}
+          className="space-y-2"
+        >
+          <textarea
+            aria-label="New comment"
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={3}
+            placeholder="Write a comment (Markdown)..."
+            className="w-full rounded border bg-gray-800 px-2 py-1 text-sm text-white"
+          />
+          <button
+            type="submit"
+            disabled={!body.trim() || createComment.isPending}
+            className="bg-blue-600 text-white px-3 py-1 rounded text-sm disabled:opacity-50 hover:bg-blue-700 transition"
+          >
+            {createComment.isPending ? "Posting..." : "Comment"}
+          </button>
+        </form>
+      )}
+    </section>
+  );
+}
+
+// This is a module-private component for one comment: its author, timestamp, and body, or the
+// textarea that edits the body. `onSave` resolves once the edit is saved, which closes it.
+function CommentItem({
+  comment,
+  now,
+  isPending,
+  onSave,
+  onDelete,
+}: {
+  comment: Comment;
+  now: Date | null;
+  isPending: boolean;
+  onSave: (body: string) => Promise<unknown>;
+  onDelete: () => void;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  // The exact time is in the tooltip; the relative one waits for the browser's clock.
+  const timestamp = (date: Date) => (
+    <time dateTime={date.toISOString()} title={date.toLocaleString()}>
+      {now ? formatRelativeTime(date, now) : date.toLocaleDateString()}
+    </time>
+  );
+
+  return (
+    <li className="rounded border border-gray-700 p-2">
+      <p className="mb-1 flex flex-wrap items-center gap-x-2 text-xs text-gray-500">
+        <span className="text-gray-300">{comment.author?.name ?? comment.author?.email ?? "A deleted user"}</span>
+        {timestamp(comment.createdAt)}
+        {comment.editedAt && <span>(edited {timestamp(comment.editedAt)})</span>}
+        {comment.canEdit && draft === null && (
+          <span className="ml-auto flex gap-2">
+            <button type="button" onClick={() => setDraft(comment.body)} className="hover:underline">
+              Edit
+            </button>
+            <button type="button" disabled={isPending} onClick={onDelete} className="text-red-500 hover:underline">
+              Delete comment
+            </button>
+          </span>
+        )}
+      </p>
+      {draft === null ? (
+        <MarkdownNotes markdown={comment.body} />
+      ) : (
+        <div className="space-y-1">
+          <textarea
+            autoFocus
+            aria-label="Edit comment"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={3}
+            className="w-full rounded border bg-gray-800 px-2 py-1 text-sm text-white"
+          />
+          <div className="flex gap-2 text-sm">
+            <button
+              type="button"
+              disabled={isPending || !draft.trim()}
+              onClick={() => {
+                void onSave(draft).then(() => setDraft(null), () => undefined);
+              }}
+              className="text-blue-400 hover:underline disabled:opacity-50"
+            >
+              Save
+            </button>
+            <button type="button" onClick={() => setDraft(null)} className="text-gray-400 hover:underline">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,147 @@
+// This file defines the `TaskDetailDrawer` component: a panel that slides in from the right
+// side of the page when a task's "Notes" button is clicked in `TaskList`. It shows the task's
+// Markdown notes, with a "Write" tab (a plain textarea) and a "Preview" tab (the rendered notes).
+//
+// Checklist items in the preview can be ticked directly. When the notes have no unsaved edits,
+// ticking a box saves the notes right away; while the user is editing, it only changes the draft,
+// which is saved together with the rest of the edits.
+//
+// Below the notes, the drawer shows the task's attached files (`TaskAttachments`), its comment
+// thread (`TaskComments`) and its activity history (`TaskHistory`).
+'use client';
+
+import { useEffect, useState } from "react";
+import { api } from "~/trpc/react";
+import { toastMutationError } from "~/lib/toast-errors";
+import { toggleChecklistItem } from "~/lib/markdown";
+import { MarkdownNotes } from "~/components/MarkdownNotes";
+import { TaskAttachments } from "~/components/TaskAttachments";
+import { TaskComments } from "~/components/TaskComments";
+import { TaskHistory } from "~/components/TaskHistory";
+
+export function TaskDetailDrawer({ taskId, onClose }: { taskId: string; onClose: () => void }) {
+  const utils = api.useContext();
+  const { data: task, isPending } = api.task.getById.useQuery({ id: taskId });
+
+  // The open tab. Until the user picks one, a task with notes opens on "Preview", and a task
+  // without notes opens straight on "Write".
+  const [pickedTab, setTab] = useState<"write" | "preview" | null>(null);
+  const tab = pickedTab ?? (task?.notes ? "preview" : "write");
+
+  // The edited notes, or `null` while there are no unsaved edits (the saved notes are shown).
+  const [draft, setDraft] = useState<string | null>(null);
+  const saved = task?.notes ?? "";
+  const notes = draft ?? saved;
+  const isDirty = draft !== null && draft !== saved;
+
+  const updateNotes = api.task.update.useMutation({
+    onSuccess: (updated) => {
+      utils.task.getById.setData({ id: updated.id }, updated);
+      setDraft(null);
+      return Promise.all([utils.task.getAll.invalidate(), utils.task.search.invalidate()]);
+    },
+    onError: toastMutationError,
+  });
+
+  // Closes the drawer, asking first if there are unsaved edits.
+  const close = () => {
+    if (!isDirty || window.confirm("Discard your unsaved notes?")) onClose();
+  };
+
+  // Escape closes the drawer, like most dialogs.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") close();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+
+      {// The dimmed backdrop behind the drawer. Clicking it closes the drawer.
+      }
+      <div aria-hidden className="absolute inset-0 bg-black/50" onClick={close} />
+
+      <aside
+        role="dialog"
+        aria-modal="true"
+        aria-label="Task details"
+        className="relative flex h-full w-full max-w-lg flex-col gap-4 overflow-y-auto bg-gray-900 p-6 shadow-xl"
+      >
+        <div className="flex items-start justify-between gap-4">
+          <h2 className="text-xl font-bold break-words">{task?.title ?? "Loading..."}</h2>
+          <button type="button" onClick={close} className="text-gray-400 hover:underline">
+            Close
+          </button>
+        </div>
+
+        {!isPending && task && (
+          <>
+            <div role="tablist" className="flex gap-4 border-b border-gray-700 text-sm">
+              {(["write", "preview"] as const).map((name) => (
+                <button
+                  key={name}
+                  type="button"
+                  role="tab"
+                  aria-selected={tab === name}
+                  onClick={() => setTab(name)}
+                  className={`-mb-px border-b-2 pb-1 capitalize ${
+                    tab === name ? "border-blue-500 text-white" : "border-transparent text-gray-400"
+                  }`}
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+
+            {tab === "write" ? (
+              <textarea
+                aria-label="Notes"
+                value={notes}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={16}
+                placeholder={"Notes in Markdown, e.g.\n\n- [ ] A checklist item\n- **bold**, _italic_, [links](https://example.com)"}
+                className="w-full rounded border bg-gray-800 px-2 py-1 font-mono text-sm text-white"
+              />
+            ) : notes.trim() ? (
+              <MarkdownNotes
+                markdown={notes}
+                onToggleChecklistItem={(line, checked) => {
+                  const next = toggleChecklistItem(notes, line, checked);
+                  if (draft !== null) setDraft(next);
+                  else updateNotes.mutate({ id: task.id, patch: { notes: next } });
+                }}
+              />
+            ) : (
+              <p className="text-sm text-gray-500">No notes yet.</p>
+            )}
+
+            <div className="flex gap-2">
+              <button
+                type="button"
+                disabled={!isDirty || updateNotes.isPending}
+                onClick={() => updateNotes.mutate({ id: task.id, patch: { notes } })}
+                className="bg-blue-600 text-white px-3 py-1 rounded disabled:opacity-50 hover:bg-blue-700 transition"
+              >
+                {updateNotes.isPending ? "Saving..." : "Save notes"}
+              </button>
+              {isDirty && (
+                <button type="button" onClick={() => setDraft(null)} className="text-gray-400 hover:underline">
+                  Discard changes
+                </button>
+              )}
+            </div>
+
+            <TaskAttachments taskId={task.id} />
+
+            <TaskComments taskId={task.id} />
+
+            <TaskHistory taskId={task.id} />
+          </>
+        )}
+      </aside>
+    </div>
+  );
+}
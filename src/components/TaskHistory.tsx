@@ -0,0 +1,90 @@
+// This file defines the `TaskHistory` component: the activity timeline of one task, shown at
+// the bottom of the task detail drawer. It lists every recorded change (`task.getHistory`),
+// newest first, with who made it and when, e.g. "Completed · Ada · Mar 3, 4:12 PM".
+'use client';
+
+import { api, type RouterOutputs } from "~/trpc/react";
+import { formatDue } from "~/lib/due-dates";
+import { useUserTimeZone } from "~/components/TimeZone";
+
+type TaskEvent = RouterOutputs["task"]["getHistory"][number];
+
+// The stored diff is `{ field: { from, to } }` (see `src/server/task-events.ts`).
+type Diff = Record<string, { from: unknown; to: unknown } | undefined>;
+
+// Formats a due date from the diff (stored as an ISO string), or returns `null` if there is none.
+function formatDiffDue(dueAt: unknown, dueAllDay: unknown, timeZone: string) {
+  if (typeof dueAt !== "string") return null;
+  return formatDue({ dueAt: new Date(dueAt), dueAllDay: dueAllDay === true }, timeZone);
+}
+
+// Describes one event in words.
+function describeEvent(event: TaskEvent, listNames: Map<string, string>, timeZone: string) {
+  const diff = (event.diff ?? {}) as Diff;
+  const listName = (id: unknown) => (typeof id === "string" ? listNames.get(id) : undefined) ?? "a deleted list";
+  const nextDue = formatDiffDue(diff.dueAt?.to, diff.dueAllDay?.to, timeZone);
+
+  switch (event.type) {
+    case "created":
+      return `Created in ${listName(diff.listId?.to)}`;
+    case "renamed":
+      return `Renamed from "${String(diff.title?.from)}" to "${String(diff.title?.to)}"`;
+    case "completed":
+      return nextDue ? `Completed (next occurrence ${nextDue})` : "Completed";
+    case "reopened":
+      return "Reopened";
+    case "moved":
+      if (diff.listId) return `Moved to ${listName(diff.listId.to)}`;
+      return diff.parentId?.to ? "Made a subtask" : "Made a top-level task";
+    case "dueDateChanged":
+      return nextDue ? `Due date set to ${nextDue}` : "Due date removed";
+    case "deleted":
+      return "Moved to the trash";
+    case "restored":
+      return "Restored from the trash";
+  }
+}
+
+export function TaskHistory({ taskId }: { taskId: string }) {
+  const timeZone = useUserTimeZone();
+
+  // The history changes with every edit made elsewhere in the app, so it is fetched again
+  // whenever the drawer opens instead of being served from the cache.
+  const { data: events = [], isPending } = api.task.getHistory.useQuery({ id: taskId }, { refetchOnMount: "always" });
+
+  // The names of the user's lists (archived ones included), for the "Moved to Work" events.
+  const { data: lists = [] } = api.list.getAll.useQuery({ includeArchived: true });
+  const listNames = new Map(lists.map((list) => [list.id, list.name]));
+
+  const formatTime = new Intl.DateTimeFormat(undefined, {
+    timeZone,
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+  return (
+    <section aria-label="Activity" className="space-y-2 border-t border-gray-700 pt-4">
+      <h3 className="text-sm font-semibold text-gray-300">Activity</h3>
+      {isPending ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-gray-500">No activity recorded yet.</p>
+      ) : (
+        <ol className="space-y-2 border-l border-gray-700 pl-4 text-sm">
+          {events.map((event) => (
+            <li key={event.id}>
+              <p>{describeEvent(event, listNames, timeZone)}</p>
+              <p className="text-xs text-gray-500">
+                {event.actor?.name ?? event.actor?.email ?? "A deleted user"} ·{" "}
+                <time dateTime={event.createdAt.toISOString()}>{formatTime.format(event.createdAt)}</time>
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
@@ -1,6 +1,17 @@
 // This file defines the `TaskList` React component. This is a "Client Component",
 // as indicated by the `"use client";` directive. Its primary responsibility is to
 // fetch and display the list of all tasks for the user.
+//
+// Task titles can also be edited in place: double-click a title (or focus it and press
+// Enter) to turn it into a text input. Enter or clicking away saves the new title,
+// and Escape cancels the edit.
+//
+// Tasks can have subtasks, to any depth. They are shown as a tree under their parent, which
+// shows the progress of its subtasks ("3/5 done") and can be collapsed.
+//
+// Each task shows its tags as colored chips. Clicking a chip adds that tag to the tag filter
+// (clicking it again removes it), and the filter bar above the list switches between showing
+// tasks with ANY of the selected tags and tasks with ALL of them.
 
 // This directive is essential. It marks this file and all components within it as "Client Components".
 // This means their JavaScript will be sent to and executed in the user's browser. This is a requirement
@@ -11,13 +22,120 @@
 // Imports the main `api` object from our central tRPC client-side setup file (`~/trpc/react.ts`).
 // This `api` object is the "entry point" that contains all the fully type-safe React Query hooks
 // that correspond to our backend's API procedures.
-import { api } from "~/trpc/react";
+import { api, type RouterOutputs } from "~/trpc/react";
+
+// Imports the `useRef` and `useState` hooks from React. `useState` stores values that should
+// re-render the component when they change (e.g., whether a title is being edited), while
+// `useRef` stores values that must survive re-renders WITHOUT causing one (e.g., a pending timer).
+import { useEffect, useRef, useState, type KeyboardEvent, type ReactNode } from "react";
+
+// Imports our shared mutation error handler, the same one `CreateTask` uses. It shows the
+// server's Zod validation messages (e.g., "Task title cannot be empty.") as toasts.
+import { toastMutationError } from "~/lib/toast-errors";
+
+// Show a toast with an "Undo" button after an undoable action (toggle, delete, bulk actions).
+import { useBulkResultToast, useUndoToast } from "~/components/UndoToast";
+
+// The multi-select: the selection rules, and the action bar shown while tasks are selected.
+import {
+  EMPTY_SELECTION,
+  extendSelection,
+  pruneSelection,
+  selectRangeTo,
+  toggleSelected,
+  type TaskSelection,
+} from "~/lib/selection";
+import { TaskSelectionBar } from "~/components/TaskSelectionBar";
+
+// Shared due-date helpers: grouping tasks by due date, formatting due labels, and converting
+// between the stored fields and the values of date/time inputs.
+import { buildDueFields, formatDue, groupTasksByDue, splitDueFields, type DueFields } from "~/lib/due-dates";
+
+// The date + time pickers used by the inline due date editor.
+import { DueDateInput } from "~/components/DueDateInput";
+
+// Returns the user's stored time zone, which all due-date grouping and labels are computed in.
+import { useUserTimeZone } from "~/components/TimeZone";
+
+// The sort picker, and the hook that returns the user's remembered sort.
+import { TaskSortPicker, useTaskSort } from "~/components/TaskSortPicker";
+
+// The list of priority levels and their labels and colors.
+import { PRIORITY_DISPLAY, TASK_PRIORITIES } from "~/lib/priority";
+
+// The colored tag label, used for each task's tags and for the active filter.
+import { TagChip } from "~/components/TagChip";
+
+// Rebuilds the subtask tree from the flat task array, and counts a parent's done subtasks.
+import { buildTaskTree, getSubtaskProgress } from "~/lib/subtasks";
+
+// The "Repeat" picker, and the helper that turns a stored RRULE into a label ("Every weekday").
+import { RecurrencePicker } from "~/components/RecurrencePicker";
+import { describeRRule } from "~/lib/rrule";
+
+// The drawer that shows and edits a task's Markdown notes, and the helper that counts the
+// checklist items in them (for the "2/5" on the "Notes" button).
+import { TaskDetailDrawer } from "~/components/TaskDetailDrawer";
+import { getChecklistProgress } from "~/lib/markdown";
+
+// Keeps the cached task lists in sync with changes made in other tabs and by collaborators.
+import { useTaskSync } from "~/hooks/useTaskSync";
+
+// Drag-and-drop for the "Manual" sort (`@dnd-kit`). `DndContext` tracks a drag, the sensors turn
+// mouse, touch and keyboard input into drags, and every `SortableContext` is one list of
+// siblings whose items can be reordered among themselves.
+import {
+  DndContext,
+  KeyboardSensor,
+  MouseSensor,
+  TouchSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  arrayMove,
+  hasSortableData,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+
+// This is the type of a single task as returned by the `task.getAll` procedure (inside a page of
+// `items`). `RouterOutputs` is inferred from our backend router, so this type automatically stays
+// in sync with the server.
+type Task = RouterOutputs["task"]["getAll"]["items"][number];
+
+// The pages of `task.getAll` loaded so far, as React Query caches them for `useInfiniteQuery`.
+type TaskPages = { pages: RouterOutputs["task"]["getAll"][]; pageParams: unknown[] };
+
+// The tag filter the user picked by clicking tag chips: the selected tag ids, and whether a task
+// needs ANY of them or ALL of them to be shown. No selected tags means "no filter".
+type TagFilter = { tagIds: string[]; mode: "any" | "all" };
+
+// How long (in milliseconds) a single click waits before toggling the task. A double-click
+// fires two `click` events before its `dblclick` event, so we delay the toggle slightly and
+// cancel it if the user turns out to be double-clicking to edit the title instead.
+const CLICK_TOGGLE_DELAY_MS = 250;
+
+// How often (in milliseconds) the list re-computes "now", so a task moves from "Today" to
+// "Overdue" (or from "Tomorrow" to "Today" after midnight) without a page reload.
+const NOW_REFRESH_MS = 60 * 1000;
 
 // This line defines and exports a new React function component named `TaskList`.
 // `export`: This makes the component available to be imported and used in other files (like a page component).
 // `function TaskList()`: This is a standard JavaScript function declaration. In React, components are just
 // functions that return JSX (the UI structure).
-export function TaskList() {
+//
+// `listId` is the list (project) whose tasks are shown. The page passes it in: the Inbox's id on
+// `/tasks`, and the id from the URL on `/tasks/[listId]`.
+//
+// `readOnly` is set when the list is shared with the user as a viewer: the tasks are shown
+// without the controls that change them (the server would reject those changes anyway).
+export function TaskList({ listId, readOnly = false }: { listId: string; readOnly?: boolean }) {
 
   // This line calls the `api.useContext()` hook to get access to the tRPC utility client.
   //
@@ -31,25 +149,135 @@ export function TaskList() {
   const utils = api.useContext();
 
   // This is the core data-fetching hook for this component. It calls our `task.getAll` tRPC procedure.
-  // `api.task.getAll.useQuery()`: This hook, generated by tRPC, tells React Query to fetch the data
+  // `api.task.getAll.useInfiniteQuery()`: This hook, generated by tRPC, tells React Query to fetch the data
   // from our backend. React Query then manages the entire lifecycle of this request: caching,
   // loading states, error handling, and re-fetching in the background.
   //
-  // `const { ... } = ...`: The `useQuery` hook returns a large object with the request's status. We are using
+  // `task.getAll` returns the tasks one page at a time. `useInfiniteQuery` keeps every page loaded
+  // so far in `data.pages`, and `fetchNextPage()` loads the next one: it calls `task.getAll` again
+  // with `cursor` set to the value returned by `getNextPageParam` (the last page's `nextCursor`).
+  // `hasNextPage` is false once the server returns `nextCursor: null`.
+  //
+  // `const { ... } = ...`: The hook returns a large object with the request's status. We are using
   // "object destructuring" to pull out only the specific properties we need.
   //
-  // - `data: tasks = []`: This is a three-part pattern:
-  //   1. `data`: The hook returns the fetched data from the server in a property named `data`.
-  //   2. `: tasks`: We use "destructuring with rename" to assign the value of `data` to a more
-  //      descriptive local variable named `tasks`.
-  //   3. `= []`: We provide a "default value". While the data is loading, `data` will be `undefined`.
-  //      This default value ensures that `tasks` is always an array, preventing our code from crashing
-  //      when we try to call `.map()` on it in the JSX below.
+  // - `data`: The pages loaded so far. `tasks` (below) joins their `items` into one flat array.
+  //
+  // - `isPending`: This is a boolean value provided by React Query. It is `true` until the
+  //   query has received its first data (including while it is waiting for `enabled`), and
+  //   `false` at all other times. We use this to conditionally render a "Loading..." message.
+  //
+  // - `{ sort }`: The input for `task.getAll`. The tasks are sorted on the server by the sort the
+  //   user picked in `TaskSortPicker` (and remembered in their settings).
+  // - `{ enabled: !!sort }`: Don't fetch until the remembered sort has loaded, so the list isn't
+  //   fetched once with the default sort and then again with the user's sort.
+  //
+  // - `tagFilter`: Only sent while at least one tag is selected. Tags that no longer exist (e.g.,
+  //   one that was just deleted or merged in the tag manager) are dropped from the filter first.
   //
-  // - `isLoading`: This is a boolean value provided by React Query. It is `true` only when the
-  //   query is making its very first network request for data, and `false` at all other times.
-  //   We use this to conditionally render a "Loading..." message.
-  const { data: tasks = [], isLoading } = api.task.getAll.useQuery();
+  // - `placeholderData`: While the list for a NEW filter is loading, keep showing the previous
+  //   list instead of falling back to the "Loading tasks..." message, so the filter bar stays put.
+  const sort = useTaskSort();
+  const [tagFilter, setTagFilter] = useState<TagFilter>({ tagIds: [], mode: "any" });
+  const { data: allTags } = api.tag.getAll.useQuery();
+  const tagIds = allTags
+    ? tagFilter.tagIds.filter((id) => allTags.some((tag) => tag.id === id))
+    : tagFilter.tagIds;
+  const taskQueryInput = {
+    listId,
+    sort,
+    tagFilter: tagIds.length > 0 ? { tagIds, mode: tagFilter.mode } : undefined,
+  };
+  const { data, isPending, hasNextPage, fetchNextPage, isFetchingNextPage } = api.task.getAll.useInfiniteQuery(
+    taskQueryInput,
+    {
+      enabled: !!sort,
+      placeholderData: (previous) => previous,
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+    },
+  );
+  const tasks = data?.pages.flatMap((page) => page.items) ?? [];
+
+  // Changes made in other tabs, on other devices or by collaborators are written into the
+  // cached pages as soon as they are saved, so the list never waits for a refetch to show them.
+  useTaskSync();
+
+  // An empty element below the list. When it scrolls into view (or is already visible because
+  // the list is short), the next page is loaded, until there are no pages left.
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage || isFetchingNextPage) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) void fetchNextPage();
+      },
+      { rootMargin: "200px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage, isPending]);
+
+  // In the "Manual" sort, tasks can be dragged into a new order.
+  const isManual = sort?.field === "position";
+
+  // The inputs that can start a drag: the mouse (after moving 5px, so a click on the handle
+  // isn't a drag), touch (after holding the handle for 200ms, so the page can still be
+  // scrolled), and the keyboard (Space on a focused handle, then the arrow keys, then Space).
+  const sensors = useSensors(
+    useSensor(MouseSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(TouchSensor, { activationConstraint: { delay: 200, tolerance: 5 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates }),
+  );
+
+  // The ids of the tasks whose subtasks are collapsed (hidden), and the id of the task that
+  // currently shows the "new subtask" input, if any.
+  const [collapsed, setCollapsed] = useState<Set<string>>(() => new Set());
+  const [addingSubtaskTo, setAddingSubtaskTo] = useState<string | null>(null);
+  const toggleCollapsed = (taskId: string) =>
+    setCollapsed((previous) => {
+      const next = new Set(previous);
+      if (!next.delete(taskId)) next.add(taskId);
+      return next;
+    });
+
+  // The id of the task whose detail drawer is open, if any.
+  const [openTaskId, setOpenTaskId] = useState<string | null>(null);
+
+  // The selected tasks (checkboxes, Shift-click ranges, Ctrl/Cmd-click, Shift+Arrow keys). The
+  // rules live in `src/lib/selection.ts`; the actions on the selection in `TaskSelectionBar`.
+  const [selection, setSelection] = useState<TaskSelection>(EMPTY_SELECTION);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // The user's lists, for the "move to list" dropdown on each task. Tasks can only be moved
+  // between lists of the same owner that the user can edit.
+  const { data: allLists = [] } = api.list.getAll.useQuery();
+  const ownerId = allLists.find((list) => list.id === listId)?.userId;
+  const lists = allLists.filter((list) => list.userId === ownerId && list.access !== "viewer");
+
+  // Adds a tag to the filter, or removes it if it is already selected.
+  const toggleTagFilter = (tagId: string) =>
+    setTagFilter((filter) => ({
+      ...filter,
+      tagIds: filter.tagIds.includes(tagId)
+        ? filter.tagIds.filter((id) => id !== tagId)
+        : [...filter.tagIds, tagId],
+    }));
+
+  // The user's stored IANA time zone. Due-date groups are computed in this zone, never in the
+  // zone of the server or of whichever device happens to render the list.
+  const timeZone = useUserTimeZone();
+
+  // The current time, refreshed every minute by the interval below so the groups stay correct
+  // while the page is left open.
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), NOW_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Shows the "Undo" toast after a toggle or delete (see `UndoToast`).
+  const showUndo = useUndoToast();
 
   // This line sets up the "mutation" for toggling a task's completion status.
   // A "mutation" is any operation that changes data on the server.
@@ -66,8 +294,16 @@ export function TaskList() {
     // `onSuccess`: This is a callback function that React Query will automatically execute ONLY IF
     // the mutation was successful on the server. This is the perfect place to run logic that
     // needs to happen after a data change, like updating the UI.
-    onSuccess: () => 
-      
+    onSuccess: (task, { id }) => {
+
+      // The toggle can be undone for a few seconds from a toast (see `UndoToast`). A recurring
+      // task that was completed stays open, because it moved on to its next occurrence.
+      const wasCompleted = tasks.find((t) => t.id === id)?.completed ?? false;
+      showUndo(
+        wasCompleted ? "Task reopened." : task.completed ? "Task completed." : "Done. Moved to the next occurrence.",
+        task.undoId,
+      );
+
       // This is the key to making our UI reactive. We are using the `utils` object we created earlier.
       // `utils.task.getAll.invalidate()`: This command does NOT manually re-fetch the data. Instead, it
       // tells React Query: "The cached data for the `task.getAll` query is now out-of-date and invalid."
@@ -75,7 +311,14 @@ export function TaskList() {
       // Because our component is currently using that `task.getAll` query (via `useQuery`), React Query
       // sees that its data has been invalidated and AUTOMATICALLY triggers a re-fetch in the background
       // to get the new, up-to-date list of tasks. This is what makes the UI update after a mutation.
-      utils.task.getAll.invalidate(),
+      //
+      // The lists are invalidated too, because the sidebar shows each list's number of open tasks.
+      return Promise.all([utils.task.getAll.invalidate(), utils.list.getAll.invalidate()]);
+    },
+
+    // Completing a task with open subtasks fails when the user's setting is "block". The server's
+    // message ("This task has 2 open subtasks...") is shown as a toast.
+    onError: toastMutationError,
   });
 
 // This line sets up the "mutation" for deleting a task. The pattern is identical
@@ -88,154 +331,920 @@ export function TaskList() {
 
     // `onSuccess`: This callback function is executed by React Query only if the `delete`
     // mutation on the server completes successfully.
-    onSuccess: () => 
-      
+    onSuccess: (task) => {
+
+      // The task can be brought back right away from the Undo toast (or later from the Trash).
+      showUndo("Task moved to the trash.", task.undoId);
+
       // `utils.task.getAll.invalidate()`: Just like with the toggle mutation, we immediately
       // invalidate the `task.getAll` query. This tells React Query that our cached list
       // of tasks is now stale, which automatically triggers a background re-fetch to get
       // the updated list (without the deleted task), ensuring the UI stays in sync.
-      utils.task.getAll.invalidate(),
+      //
+      // Deleted tasks go to the trash, so the Trash page is refreshed too.
+      return Promise.all([utils.task.getAll.invalidate(), utils.list.getAll.invalidate(), utils.task.getTrash.invalidate()]);
+    },
+
+    // Deleting fails when the user can only view the task's list, or when the task is already
+    // gone (e.g. deleted in another tab). The server's message is shown as a toast.
+    onError: toastMutationError,
+  });
+
+  // The bulk actions for the whole list: "Mark all done" completes every open task, and "Clear
+  // completed" moves every completed task to the trash, each in a single request (see
+  // `src/server/bulk.ts`). Tasks that couldn't be changed are reported in a toast, and the rest
+  // can be undone from the Undo toast.
+  const showBulkResult = useBulkResultToast();
+  const completeAll = api.task.bulkComplete.useMutation({
+    onSuccess: (result) => showBulkResult(result, "completed"),
+    onError: toastMutationError,
+  });
+  const clearCompleted = api.task.bulkDelete.useMutation({
+    onSuccess: (result) => showBulkResult(result, "moved to the trash"),
+    onError: toastMutationError,
+  });
+
+  // This line sets up the "mutation" for creating a subtask from the input under a task. It is
+  // the same `task.create` procedure that `CreateTask` uses, with the parent's id.
+  const createSubtask = api.task.create.useMutation({
+    onSuccess: () => {
+      setAddingSubtaskTo(null);
+      void utils.task.getAll.invalidate();
+      void utils.list.getAll.invalidate();
+    },
+    onError: toastMutationError,
+  });
+
+  // This line sets up the "mutation" for moving a task to another list. The moved task leaves
+  // this list, and the open-task counts in the sidebar change, so both queries are refreshed.
+  const moveTask = api.list.moveTasks.useMutation({
+    onSuccess: () => Promise.all([utils.task.getAll.invalidate(), utils.list.getAll.invalidate()]),
+    onError: toastMutationError,
+  });
+
+  // This sets up the "mutation" for moving a task in the "Manual" order. The cached list is
+  // reordered at once ("optimistically"), so the dropped task stays where it was dropped while
+  // the server saves its new position. If saving fails, the previous order is put back.
+  const reorderTask = api.task.reorder.useMutation({
+    onMutate: async (move) => {
+      await utils.task.getAll.cancel(taskQueryInput);
+      const previous = utils.task.getAll.getInfiniteData(taskQueryInput);
+      if (previous) {
+        utils.task.getAll.setInfiniteData(taskQueryInput, mapCachedTasks(previous, (tasks) => reorderCachedTasks(tasks, move)));
+      }
+      return { previous };
+    },
+    onError: (error, _move, context) => {
+      if (context?.previous) utils.task.getAll.setInfiniteData(taskQueryInput, context.previous);
+      toastMutationError(error);
+    },
+    onSettled: () => utils.task.getAll.invalidate(),
+  });
+
+  // Runs when a drag ends. A task can only be dropped among its own siblings (the items of the
+  // same `SortableContext`); anything else is ignored. Its new neighbours are sent to the
+  // server, which places the task between them.
+  const onDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id || !hasSortableData(active) || !hasSortableData(over)) return;
+    const from = active.data.current.sortable;
+    const to = over.data.current.sortable;
+    if (from.containerId !== to.containerId) return;
+
+    const order = arrayMove(from.items, from.index, to.index).map(String);
+    reorderTask.mutate({
+      id: String(active.id),
+      beforeId: order[to.index - 1],
+      afterId: order[to.index + 1],
+    });
+  };
+
+  // This line sets up the "mutation" for editing a task in place. It calls the `task.update`
+  // procedure with a partial patch (here, only the new `title`).
+  const updateTask = api.task.update.useMutation({
+
+    // On success we invalidate the task list, exactly like the other mutations above, so the
+    // list re-fetches and shows the new title.
+    onSuccess: () => utils.task.getAll.invalidate(),
+
+    // If the server rejects the new title (e.g., it is empty), show the validation error
+    // through the same toast handling that `CreateTask` uses.
+    onError: toastMutationError,
   });
 
   // This is a conditional rendering "guard clause". It's a standard and essential pattern
   // for handling loading states when fetching data.
   //
-  // `if (isLoading)`: The `isLoading` boolean is provided by our `api.task.getAll.useQuery()`
-  // hook. It will be `true` only during the initial fetch for the task list.
-  if (isLoading) {
+  // `if (isPending)`: The `isPending` boolean is provided by our `api.task.getAll.useQuery()`
+  // hook. It will be `true` only until the task list has been fetched for the first time.
+  if (isPending) {
 
     // If the data is still loading, we immediately `return` this simple JSX. This stops
     // the component from rendering any further. The user will see a "Loading tasks..."
     // message on the screen instead of an empty or broken UI. Once the data fetching
-    // is complete, `isLoading` will become `false`, and the component will automatically
+    // is complete, `isPending` will become `false`, and the component will automatically
     // re-render, proceeding past this `if` block to the main JSX below.
     return <p>Loading tasks...</p>;
   }
 
+  // The server returns the tasks (subtasks included) as flat, sorted pages. This rebuilds the
+  // tree from all of the pages loaded so far: the top-level tasks, plus the direct subtasks of
+  // each task.
+  const tree = buildTaskTree(tasks);
+
+  // This splits the top-level tasks into the due-date groups ("Overdue", "Today", "Tomorrow",
+  // "This week", "Later", "No date"), computed in the user's stored time zone relative to
+  // `now`. Empty groups are left out, and tasks keep the server's order inside each group.
+  // Subtasks are always shown under their parent, whatever their own due date.
+  //
+  // The "Manual" sort shows all top-level tasks as one group instead, in the order the user
+  // dragged them into.
+  const groups = isManual
+    ? [{ key: "manual", label: "Manual order", tasks: tree.roots }]
+    : groupTasksByDue(tree.roots, timeZone, now);
+
+  // The ids of the tasks in the order they are shown (groups, then each task followed by its
+  // subtasks unless they are collapsed). Selection ranges and Shift+Arrow follow this order.
+  const visibleIds: string[] = [];
+  const collectVisible = (task: Task) => {
+    visibleIds.push(task.id);
+    if (!collapsed.has(task.id)) (tree.children.get(task.id) ?? []).forEach(collectVisible);
+  };
+  groups.forEach((group) => group.tasks.forEach(collectVisible));
+
+  // Selected tasks that are no longer shown (deleted, filtered out, collapsed) don't count.
+  const visibleSelection = pruneSelection(selection, visibleIds);
+  const selectedIds = visibleIds.filter((id) => visibleSelection.ids.has(id));
+
+  // Selects with the mouse: Shift adds the range from the anchor, anything else toggles one task.
+  const selectWithClick = (taskId: string, shiftKey: boolean) =>
+    setSelection(shiftKey ? selectRangeTo(visibleSelection, visibleIds, taskId) : toggleSelected(visibleSelection, taskId));
+
+  // Shift+ArrowUp / Shift+ArrowDown on a task's checkbox extend the selection to the task above
+  // or below, and move the keyboard focus to its checkbox. Escape clears the selection.
+  const onSelectKeyDown = (e: KeyboardEvent, taskId: string) => {
+    if (e.key === "Escape") {
+      setSelection(EMPTY_SELECTION);
+      return;
+    }
+    if (!e.shiftKey || (e.key !== "ArrowDown" && e.key !== "ArrowUp")) return;
+    e.preventDefault();
+    const next = extendSelection(visibleSelection, visibleIds, taskId, e.key === "ArrowDown" ? 1 : -1);
+    if (!next) return;
+    setSelection(next);
+    listRef.current?.querySelector<HTMLInputElement>(`[data-select-id="${next.focusId}"]`)?.focus();
+  };
+
+  // Renders one task: its row, and below it the `<ul>` of its subtasks, each rendered by this
+  // same function, so the tree can be any number of levels deep.
+  const renderTask = (task: Task): ReactNode => {
+    const subtasks = tree.children.get(task.id) ?? [];
+    const progress = getSubtaskProgress(tree, task.id);
+    const isCollapsed = collapsed.has(task.id);
+    const isSelected = visibleSelection.ids.has(task.id);
+    const checklist = task.notes ? getChecklistProgress(task.notes) : null;
+    return (
+
+          // This renders a single list item (`<li>`) for each task in the array. The `<li>` is
+          // rendered by `SortableTaskItem` (see below), which makes it draggable in the "Manual"
+          // sort and hands us the drag handle to put in the row (`handle`).
+          //
+          // `key={task.id}`: This is a special and required prop in React when rendering lists. It gives
+          // each element a stable, unique identity. React uses this key to efficiently update, add, or
+          // remove items from the list without having to re-render the entire thing. The task's
+          // unique database ID is the perfect value for this.
+          //
+          // The `<li>` holds the task's row and, below it, the `<ul>` of its subtasks (if any).
+          //
+          // The row's `className` styles it using several Tailwind utilities.
+          // - `flex`: This enables a "Flexbox" layout for the items inside the row.
+          //   - A Flexbox is a modern CSS layout model for easily arranging items in a single row (default) or column.
+          // - `justify-between`: A Flexbox property that pushes the child elements to opposite ends of the container
+          //   (the task title to the far left, the delete button to the far right).
+          // - `items-center`: A Flexbox property that vertically aligns the items in the middle of the row.
+          // - The remaining classes add a border, padding, and rounded corners for styling.
+          <SortableTaskItem key={task.id} id={task.id} disabled={!isManual || readOnly}>
+          {(handle) => (<>
+          <div
+            className={`flex justify-between items-center border p-2 rounded ${isSelected ? "border-blue-500 bg-blue-950/40" : "border-gray-700"}`}
+
+            // A Shift-click or Ctrl/Cmd-click anywhere on the row selects instead of doing what
+            // the click would normally do (e.g. toggling the task when it lands on the title).
+            // This runs in the "capture" phase, before the row's own buttons see the click.
+            onClickCapture={(e) => {
+              if (readOnly || !(e.shiftKey || e.ctrlKey || e.metaKey)) return;
+              if (e.target instanceof HTMLInputElement && e.target.type === "checkbox") return;
+              e.preventDefault();
+              e.stopPropagation();
+              selectWithClick(task.id, e.shiftKey);
+            }}
+
+            // Keeps a Shift-click from selecting the text between two clicks.
+            onMouseDown={(e) => {
+              if (e.shiftKey) e.preventDefault();
+            }}
+          >
+
+            {// The selection checkbox. Viewers can't change tasks, so they can't select them.
+            }
+            {!readOnly && (
+              <input
+                type="checkbox"
+                aria-label="Select task"
+                data-select-id={task.id}
+                checked={isSelected}
+                readOnly
+                onClick={(e) => selectWithClick(task.id, e.shiftKey)}
+                onKeyDown={(e) => onSelectKeyDown(e, task.id)}
+                className="mr-2"
+              />
+            )}
+
+            {// The drag handle, only in the "Manual" sort.
+            }
+            {handle}
+
+            {// The expand / collapse arrow, only for tasks that have subtasks.
+            }
+            {subtasks.length > 0 && (
+              <button
+                type="button"
+                aria-label={isCollapsed ? "Expand subtasks" : "Collapse subtasks"}
+                aria-expanded={!isCollapsed}
+                onClick={() => toggleCollapsed(task.id)}
+                className="mr-2 w-4 text-gray-400"
+              >
+                {isCollapsed ? "▸" : "▾"}
+              </button>
+            )}
+            
+            {// This renders the task's title. `TaskTitle` (defined at the bottom of this file)
+            // shows the title as clickable text that toggles the task, and switches to an inline
+            // text input when the user double-clicks it or presses Enter on it.
+            }
+            <TaskTitle
+              task={task}
+              readOnly={readOnly}
+              onToggle={() => toggleTask.mutate({ id: task.id })}
+              onRename={(title) => updateTask.mutate({ id: task.id, patch: { title } })}
+            />
+
+            {// The parent's progress: how many of its subtasks (at every depth) are done.
+            }
+            {progress.total > 0 && (
+              <span className="ml-2 text-xs text-gray-400">
+                {progress.done}/{progress.total} done
+              </span>
+            )}
+
+            {// This renders the task's tags as colored chips. Clicking a chip adds that tag to the
+            // tag filter above the list (or removes it, if it is already part of the filter).
+            }
+            {task.tags.length > 0 && (
+              <span className="ml-2 flex flex-wrap gap-1">
+                {task.tags.map(({ tag }) => (
+                  <TagChip
+                    key={tag.id}
+                    tag={tag}
+                    active={tagIds.includes(tag.id)}
+                    title={tagIds.includes(tag.id) ? "Remove from filter" : "Filter by this tag"}
+                    onClick={() => toggleTagFilter(tag.id)}
+                  />
+                ))}
+              </span>
+            )}
+
+            {// This renders a compact dropdown with the task's priority, colored by level. Picking a
+            // different level saves it immediately through a `task.update` patch.
+            }
+            <select
+              aria-label="Priority"
+              value={task.priority}
+              disabled={readOnly}
+              onChange={(e) => {
+                const priority = TASK_PRIORITIES.find((p) => p === e.target.value);
+                if (priority) updateTask.mutate({ id: task.id, patch: { priority } });
+              }}
+              className={`ml-auto mr-2 bg-transparent text-xs ${PRIORITY_DISPLAY[task.priority].className}`}
+            >
+              {TASK_PRIORITIES.map((priority) => (
+                <option key={priority} value={priority} className="bg-gray-800 text-white">
+                  {PRIORITY_DISPLAY[priority].label}
+                </option>
+              ))}
+            </select>
+
+            {// This renders a compact "move to list" dropdown. Its value is always the current list,
+            // so picking any other list moves the task there (and out of this view).
+            }
+            {!readOnly && lists.length > 1 && (
+              <select
+                aria-label="Move to list"
+                value={listId}
+                onChange={(e) => moveTask.mutate({ taskIds: [task.id], listId: e.target.value })}
+                className="mr-2 max-w-24 bg-transparent text-xs text-gray-400"
+              >
+                {lists.map((list) => (
+                  <option key={list.id} value={list.id} className="bg-gray-800 text-white">
+                    {list.name}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {// This renders the task's due date label. Clicking it opens inline date and time
+            // pickers (see `DueDateEditor` below) that save through the same `task.update` patch.
+            }
+            <DueDateEditor
+              task={task}
+              timeZone={timeZone}
+              readOnly={readOnly}
+              onSave={(fields) => updateTask.mutate({ id: task.id, patch: fields })}
+            />
+
+            {// This renders the task's repeat rule ("↻ Every weekday", or "Repeat" when it doesn't
+            // repeat). Clicking it opens the `RecurrencePicker` (see `RecurrenceEditor` below).
+            }
+            <RecurrenceEditor
+              task={task}
+              readOnly={readOnly}
+              onSave={(recurrence, recurFromCompletion) =>
+                updateTask.mutate({ id: task.id, patch: { recurrence, recurFromCompletion } })
+              }
+            />
+
+            {// Opens the task's detail drawer with its notes. Tasks that have notes show "📝", plus
+            // the progress of the checklist in them, if there is one.
+            }
+            <button
+              type="button"
+              onClick={() => setOpenTaskId(task.id)}
+              className="mr-2 text-xs text-gray-400 hover:underline"
+            >
+              {checklist ? `📝 ${checklist.total > 0 ? `${checklist.done}/${checklist.total}` : "Notes"}` : "Notes"}
+            </button>
+
+            {// The number of comments on the task, if it has any. It opens the same drawer, which
+            // shows the comment thread below the notes.
+            }
+            {task._count.comments > 0 && (
+              <button
+                type="button"
+                aria-label={`${task._count.comments} ${task._count.comments === 1 ? "comment" : "comments"}`}
+                onClick={() => setOpenTaskId(task.id)}
+                className="mr-2 rounded-full bg-gray-800 px-1.5 text-xs text-gray-300 hover:underline"
+              >
+                💬 {task._count.comments}
+              </button>
+            )}
+
+            {// Opens an input below the task for typing a new subtask.
+            }
+            {!readOnly && (
+              <button
+                type="button"
+                onClick={() => {
+                  setAddingSubtaskTo(task.id);
+                  if (isCollapsed) toggleCollapsed(task.id);
+                }}
+                className="mr-2 text-xs text-gray-400 hover:underline"
+              >
+                + Subtask
+              </button>
+            )}
+
+            {// This renders a standard HTML `<button>` element for the delete action. Using a semantic
+            // `<button>` is important for accessibility, as screen readers will correctly announce it as a "button".
+            }
+            {!readOnly && <button
+
+              // `onClick`: This is the React event handler for a mouse click. Just like with the toggle action,
+              // we use an inline arrow function `() => ...` to defer the execution of `deleteTask.mutate`
+              // until the exact moment the user clicks the delete button.
+              //
+              // `deleteTask.mutate({ id: task.id })`: This calls the `.mutate()` function on the `deleteTask`
+              // object we created with `useMutation`. It triggers the `task.delete` procedure on our
+              // backend, passing the specific `id` of the task to be deleted.
+              //
+              // Deleting a task also moves all of its subtasks to the trash, so in that case we ask first.
+              onClick={() => {
+                if (
+                  progress.total === 0 ||
+                  window.confirm(`Move "${task.title}" and its ${progress.total} ${progress.total === 1 ? "subtask" : "subtasks"} to the trash?`)
+                ) {
+                  deleteTask.mutate({ id: task.id });
+                }
+              }}
+
+              // The `className` prop applies Tailwind CSS utility classes to style the button.
+              // - `text-red-500`: Sets the text color to a shade of red, a common UI convention to indicate
+              //   a destructive or dangerous action like deleting something.
+              // - `hover:underline`: This is a "state variant". It applies an underline to the text ONLY
+              //   when the user's mouse is hovering over the button, providing clear interactive feedback.
+              className="text-red-500 hover:underline"
+            >
+
+              {// This is the visible text content that is rendered inside the button.
+              }
+              Delete
+            </button>}
+          </div>
+
+          {// The task's subtasks, indented under it, each rendered by this same function. The list
+          // is hidden while the task is collapsed, and also holds the "new subtask" input.
+          }
+          {((subtasks.length > 0 && !isCollapsed) || addingSubtaskTo === task.id) && (
+            <ul className="ml-6 mt-2 space-y-2 border-l border-gray-800 pl-2">
+              <SortableContext id={task.id} items={subtasks.map((subtask) => subtask.id)} strategy={verticalListSortingStrategy}>
+                {!isCollapsed && subtasks.map((subtask) => renderTask(subtask))}
+              </SortableContext>
+              {addingSubtaskTo === task.id && (
+                <li>
+                  <SubtaskInput
+                    isPending={createSubtask.isPending}
+                    onCreate={(title) => createSubtask.mutate({ parentId: task.id, title })}
+                    onCancel={() => setAddingSubtaskTo(null)}
+                  />
+                </li>
+              )}
+            </ul>
+          )}
+          </>)}
+          </SortableTaskItem>
+    );
+  };
+
+
   // This is the component's main `return` statement. It defines the JSX that will be rendered.
   return (
 
-    // This renders the main `<ul>` (unordered list) container for all the task items.
+    // This wrapper stacks the sort picker and the groups vertically with some space between them.
+    <div ref={listRef} className="space-y-6">
+
+      {/* The actions on the selected tasks. It only appears while tasks are selected. */}
+      {selectedIds.length > 0 && (
+        <TaskSelectionBar listId={listId} selectedIds={selectedIds} onClear={() => setSelection(EMPTY_SELECTION)} />
+      )}
+
+      {/* The sort picker. Changing it re-fetches the list sorted on the server. Next to it, */}
+      {/* the actions for the whole list, each a single bulk request. */}
+      <div className="flex flex-wrap items-center gap-4">
+        <TaskSortPicker />
+        {!readOnly && <div className="ml-auto flex gap-3 text-sm">
+          <button
+            type="button"
+            disabled={!tasks.some((task) => !task.completed) || completeAll.isPending}
+            onClick={() => completeAll.mutate({ target: { filter: { listId, completed: false } } })}
+            className="hover:underline disabled:opacity-50 disabled:no-underline"
+          >
+            Mark all done
+          </button>
+          <button
+            type="button"
+            disabled={!tasks.some((task) => task.completed) || clearCompleted.isPending}
+            onClick={() => clearCompleted.mutate({ target: { filter: { listId, completed: true } } })}
+            className="text-red-500 hover:underline disabled:opacity-50 disabled:no-underline"
+          >
+            Clear completed
+          </button>
+        </div>}
+      </div>
+
+      {/* The active tag filter. It only appears once a tag chip has been clicked. */}
+      {tagIds.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-400">
+          Tagged
+          {tagIds.map((id) => {
+            const tag = allTags?.find((t) => t.id === id);
+            return tag ? (
+              <TagChip
+                key={id}
+                tag={tag}
+                active
+                title="Remove from filter"
+                onClick={() => toggleTagFilter(id)}
+              />
+            ) : null;
+          })}
+
+          {// Switches between "any of these tags" and "all of these tags". It only matters
+          // when more than one tag is selected.
+          }
+          <select
+            aria-label="Tag filter mode"
+            value={tagFilter.mode}
+            onChange={(e) =>
+              setTagFilter((filter) => ({ ...filter, mode: e.target.value === "all" ? "all" : "any" }))
+            }
+            className="border px-2 py-1 rounded bg-gray-800 text-white"
+          >
+            <option value="any">any of these</option>
+            <option value="all">all of these</option>
+          </select>
+          <button
+            type="button"
+            onClick={() => setTagFilter((filter) => ({ ...filter, tagIds: [] }))}
+            className="hover:underline"
+          >
+            Clear filter
+          </button>
+        </div>
+      )}
+
+      {/* Shown instead of the groups when the tag filter matches no tasks. */}
+      {tagIds.length > 0 && tasks.length === 0 && (
+        <p className="text-sm text-gray-500">No tasks match this tag filter.</p>
+      )}
+
+      {/* Tracks drags in the "Manual" sort. Outside of it, every item is disabled. */}
+      <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={onDragEnd}>
+      {groups.map((group) => (
+
+        // Each group is a `<section>` with a small heading. `aria-label` lets screen reader
+        // users jump between groups by name.
+        <section key={group.key} aria-label={group.label}>
+          <h2 className="mb-2 text-sm font-semibold uppercase tracking-wide text-gray-400">
+            {group.label}
+          </h2>
+
+    {// This renders the `<ul>` (unordered list) container for the task items of this group.
     // `className="space-y-2"`: This is a powerful Tailwind utility that adds a consistent
     // vertical margin between all direct children of this element (i.e., between each task
     // list item), creating a clean, evenly spaced list.
+    }
     <ul className="space-y-2">
+      <SortableContext id={group.key} items={group.tasks.map((task) => task.id)} strategy={verticalListSortingStrategy}>
 
       {// This is the core of rendering the dynamic list. We use curly braces `{...}` to embed a
       // JavaScript expression directly into our JSX.
-      // `tasks.map(...)`: We call the standard JavaScript `.map()` method on our `tasks` array.
+      // `group.tasks.map(...)`: We call the standard JavaScript `.map()` method on the group's tasks.
       // This method iterates over every `task` object in the array and executes the provided
       // arrow function for each one, returning a new array of `<li>` elements. React then
       // efficiently renders this array of elements into the DOM.
       }
-      {tasks.map((task) => (
-
-        // This renders a single list item (`<li>`) for each task in the array.
-        //
-        // `key={task.id}`: This is a special and required prop in React when rendering lists. It gives
-        // each element a stable, unique identity. React uses this key to efficiently update, add, or
-        // remove items from the list without having to re-render the entire thing. The task's
-        // unique database ID is the perfect value for this.
-        //
-        // `className`: Styles the list item using several Tailwind utilities.
-        // - `flex`: This enables a "Flexbox" layout for the items inside the `<li>`.
-        //   - A Flexbox is a modern CSS layout model for easily arranging items in a single row (default) or column.
-        // - `justify-between`: A Flexbox property that pushes the child elements to opposite ends of the container
-        //   (the task title to the far left, the delete button to the far right).
-        // - `items-center`: A Flexbox property that vertically aligns the items in the middle of the `<li>`.
-        // - The remaining classes add a border, padding, and rounded corners for styling.
-        <li key={task.id} className="flex justify-between items-center border p-2 rounded border-gray-700">
-          
-          {// This `<span>` element wraps the task title text, making it an interactive, clickable area.
-          }
-          <span
-
-            // `onClick`: This is the React event handler for a mouse click. We are providing it with a
-            // function that will be executed *only when* the user clicks on this `<span>`.
-            //
-            // --- The "Right Way" vs. The "Wrong Way" ---
-            //
-            // 1. The Right Way (What we are doing):
-            //    `onClick={() => toggleTask.mutate({ id: task.id })}`
-            //    - We are giving `onClick` an **arrow function definition**: `() => { ... }`.
-            //    - This is like handing React a "recipe" or a "set of instructions". React holds onto
-            //      this recipe and will only follow the instructions (i.e., call `toggleTask.mutate`)
-            //      at the exact moment the user clicks.
-            //
-            // 2. The Wrong Way (A common mistake):
-            //    `onClick={toggleTask.mutate({ id: task.id })}`
-            //    - If we wrote it like this (without the `() =>`), the `toggleTask.mutate` function would be
-            //      called immediately as soon as the component renders.
-            //    - This would trigger a mutation for every single task in the list the moment the page loads,
-            //      which is a major bug.
-            //
-            // The `() => ...` wrapper is the essential pattern for passing arguments to an event
-            // handler in React. It defers the execution of the function until the event actually happens.
-            //
-            // Inside the arrow function, we call `toggleTask.mutate()`, which executes the mutation we set up earlier.
-            // We pass it an object `{ id: task.id }`, providing the unique ID of the specific task that
-            // was clicked, which is required by our backend's `task.toggle` procedure.
-            onClick={() => toggleTask.mutate({ id: task.id })}
-
-            // This `className` prop is what dynamically styles the task text based on its completion status.
-            //
-            // 1. `` `...` ``: We use "template literals" (backticks) to build the final string of class names.
-            //    This is necessary because we need to embed a JavaScript expression inside the string.
-            //
-            // 2. `cursor-pointer`: This is a standard Tailwind utility that applies the CSS rule
-            //    `cursor: pointer;`. This changes the mouse cursor to a "hand" icon when the user
-            //    hovers over the task title, visually indicating that it is a clickable element.
-            //
-            // 3. `${ ... }`: This is an "interpolation" placeholder within the template literal. The JavaScript
-            //    expression inside the curly braces will be evaluated, and its result will be inserted
-            //    into the final string.
-            //
-            // 4. `task.completed ? "line-through text-gray-500" : ""`: This is a "ternary operator",
-            //    a compact if-else statement.
-            //    - The Condition (`task.completed`): It checks the boolean `completed` property of the current `task` object.
-            //    - If `true`: It returns the string `"line-through text-gray-500"`. These Tailwind classes
-            //      will be added to the `className`, striking through the text and making it gray to
-            //      visually show that the task is done.
-            //    - If `false`: It returns an empty string `""`. No extra classes are added, and the
-            //      task title is rendered in its default, un-styled state.
-            className={`cursor-pointer ${task.completed ? "line-through text-gray-500" : ""}`}
-          >
+      {group.tasks.map((task) => renderTask(task))}
+      </SortableContext>
+    </ul>
+        </section>
+      ))}
+      </DndContext>
 
-            {// This is the actual content that gets rendered inside the `<span>`. We use curly braces
-            // to embed the `task.title` variable, which is the string containing the task's name
-            // that we got from the database.
-            }
-            {task.title}
-          </span>
+      {// The "load more" trigger watched by the `IntersectionObserver` above. The button is a
+      // fallback for browsers (and keyboard users) that never scroll it into view.
+      }
+      {hasNextPage && (
+        <div ref={loadMoreRef} className="text-center text-sm text-gray-400">
+          {isFetchingNextPage ? (
+            "Loading more tasks..."
+          ) : (
+            <button type="button" onClick={() => void fetchNextPage()} className="hover:underline">
+              Load more tasks
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* The detail drawer of the task whose "Notes" button was clicked. */}
+      {openTaskId && <TaskDetailDrawer taskId={openTaskId} onClose={() => setOpenTaskId(null)} />}
+    </div>
+  );
+}
+
+// Applies `update` to all of the loaded tasks as one flat array, and splits the result back into
+// pages of the same sizes, so `useInfiniteQuery` can keep loading pages after it.
+function mapCachedTasks<T extends TaskPages>(data: T, update: (tasks: Task[]) => Task[]): T {
+  const tasks = update(data.pages.flatMap((page) => page.items));
+  let offset = 0;
+  const pages = data.pages.map((page) => {
+    const items = tasks.slice(offset, offset + page.items.length);
+    offset += page.items.length;
+    return { ...page, items };
+  });
+  return { ...data, pages };
+}
+
+// Returns the cached task list with the task `id` moved right below `beforeId` (or right above
+// `afterId`), mirroring what `task.reorder` does on the server. The server returns tasks and
+// subtasks as flat arrays in the "Manual" order, so moving one entry in it is enough.
+function reorderCachedTasks(tasks: Task[], { id, beforeId, afterId }: { id: string; beforeId?: string; afterId?: string }) {
+  const task = tasks.find((t) => t.id === id);
+  if (!task) return tasks;
+  const rest = tasks.filter((t) => t.id !== id);
+  const index = beforeId
+    ? rest.findIndex((t) => t.id === beforeId) + 1
+    : rest.findIndex((t) => t.id === afterId);
+  return index < 0 ? tasks : [...rest.slice(0, index), task, ...rest.slice(index)];
+}
+
+// This is a module-private component that renders the `<li>` of one task and makes it sortable
+// by drag-and-drop. `children` is called with the drag handle (a "⠿" button), or with `null`
+// when sorting is `disabled`, so `TaskList` can place the handle inside the task's row.
+//
+// The handle carries the accessibility attributes from `useSortable`: it can be focused with
+// Tab, and screen readers announce how to pick the task up and move it with the keyboard.
+function SortableTaskItem({
+  id,
+  disabled,
+  children,
+}: {
+  id: string;
+  disabled: boolean;
+  children: (handle: ReactNode) => ReactNode;
+}) {
+  const { attributes, listeners, setNodeRef, setActivatorNodeRef, transform, transition, isDragging } =
+    useSortable({ id, disabled });
 
-          {// This renders a standard HTML `<button>` element for the delete action. Using a semantic
-          // `<button>` is important for accessibility, as screen readers will correctly announce it as a "button".
+  const handle = disabled ? null : (
+    <button
+      type="button"
+      ref={setActivatorNodeRef}
+      {...attributes}
+      {...listeners}
+      aria-label="Drag to reorder"
+      className="mr-2 cursor-grab touch-none text-gray-500 active:cursor-grabbing"
+    >
+      ⠿
+    </button>
+  );
+
+  return (
+    <li
+      ref={setNodeRef}
+      style={{ transform: CSS.Translate.toString(transform), transition }}
+      className={isDragging ? "relative z-10 opacity-80" : undefined}
+    >
+      {children(handle)}
+    </li>
+  );
+}
+
+// This is a module-private component that renders one task's title and handles in-place
+// editing. It receives the task and two callbacks from `TaskList`:
+// - `onToggle`: called when the user single-clicks the title (toggles completion).
+// - `onRename`: called with the new title when the user saves an edit.
+// With `readOnly`, the title is plain text.
+function TaskTitle({
+  task,
+  readOnly,
+  onToggle,
+  onRename,
+}: {
+  task: Task;
+  readOnly: boolean;
+  onToggle: () => void;
+  onRename: (title: string) => void;
+}) {
+
+  // `isEditing` decides whether we render the title as text or as a text input.
+  const [isEditing, setIsEditing] = useState(false);
+
+  // `draft` holds the text inside the input while the user is editing.
+  const [draft, setDraft] = useState(task.title);
+
+  // Holds the timer of a pending single-click toggle, so a double-click can cancel it.
+  const clickTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Set to `true` when the user presses Escape. Closing the input makes it lose focus, and
+  // the `onBlur` handler uses this flag to know that it must NOT save the draft.
+  const cancelled = useRef(false);
+
+  // Switches the title into edit mode, starting from the current saved title.
+  const startEditing = () => {
+    if (clickTimer.current) clearTimeout(clickTimer.current);
+    cancelled.current = false;
+    setDraft(task.title);
+    setIsEditing(true);
+  };
+
+  // Leaves edit mode and, unless the edit was cancelled, saves the draft. Unchanged titles
+  // are not sent to the server. Invalid titles (e.g., empty) ARE sent, so the server's Zod
+  // validation message is shown to the user via the mutation's `onError` toast.
+  const finishEditing = () => {
+    setIsEditing(false);
+    if (cancelled.current) return;
+    const title = draft.trim();
+    if (title !== task.title) onRename(title);
+  };
+
+  if (readOnly) {
+    return <span className={task.completed ? "line-through text-gray-500" : ""}>{task.title}</span>;
+  }
+
+  if (isEditing) {
+    return (
+      <input
+        // `autoFocus` puts the cursor in the input as soon as it appears.
+        autoFocus
+        value={draft}
+        aria-label="Edit task title"
+        onChange={(e) => setDraft(e.target.value)}
+
+        // Clicking (or tabbing) away from the input saves the edit.
+        onBlur={finishEditing}
+
+        // Enter saves by blurring the input (which runs `onBlur` above). Escape marks the edit
+        // as cancelled first, so the blur that follows discards the draft.
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.currentTarget.blur();
+          } else if (e.key === "Escape") {
+            cancelled.current = true;
+            e.currentTarget.blur();
           }
-          <button
+        }}
+        className="flex-1 mr-2 border px-2 py-1 rounded bg-gray-800 text-white"
+      />
+    );
+  }
 
-            // `onClick`: This is the React event handler for a mouse click. Just like with the toggle action,
-            // we use an inline arrow function `() => ...` to defer the execution of `deleteTask.mutate`
-            // until the exact moment the user clicks the delete button.
-            //
-            // `deleteTask.mutate({ id: task.id })`: This calls the `.mutate()` function on the `deleteTask`
-            // object we created with `useMutation`. It triggers the `task.delete` procedure on our
-            // backend, passing the specific `id` of the task to be deleted.
-            onClick={() => deleteTask.mutate({ id: task.id })}
-
-            // The `className` prop applies Tailwind CSS utility classes to style the button.
-            // - `text-red-500`: Sets the text color to a shade of red, a common UI convention to indicate
-            //   a destructive or dangerous action like deleting something.
-            // - `hover:underline`: This is a "state variant". It applies an underline to the text ONLY
-            //   when the user's mouse is hovering over the button, providing clear interactive feedback.
-            className="text-red-500 hover:underline"
-          >
+  return (
+    <span
+      // `tabIndex={0}` makes the title reachable with the keyboard, so it can be focused and
+      // then edited by pressing Enter.
+      tabIndex={0}
+      title="Click to toggle, double-click or press Enter to edit"
 
-            {// This is the visible text content that is rendered inside the button.
-            }
-            Delete
-          </button>
-        </li>
-      ))}
-    </ul>
+      // A single click toggles the task, but only after a short delay: if a second click
+      // arrives (a double-click), `onDoubleClick` cancels this pending toggle.
+      onClick={() => {
+        if (clickTimer.current) clearTimeout(clickTimer.current);
+        clickTimer.current = setTimeout(onToggle, CLICK_TOGGLE_DELAY_MS);
+      }}
+      onDoubleClick={startEditing}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") {
+          e.preventDefault();
+          startEditing();
+        }
+      }}
+
+      // The title is struck through and grayed out when the task is completed.
+      className={`cursor-pointer ${task.completed ? "line-through text-gray-500" : ""}`}
+    >
+      {task.title}
+    </span>
+  );
+}
+
+// This is a module-private component that shows a task's due date and lets the user change it.
+// Closed, it is a small button with the formatted due date (or "Set date"). Open, it shows the
+// date and time pickers with Save, Clear, and Cancel buttons.
+function DueDateEditor({
+  task,
+  timeZone,
+  readOnly,
+  onSave,
+}: {
+  task: Task;
+  timeZone: string;
+  readOnly: boolean;
+  onSave: (fields: DueFields) => void;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // The picker values while the editor is open, pre-filled from the stored due date.
+  const [value, setValue] = useState(() => splitDueFields(task, timeZone));
+
+  // With `readOnly`, only the due date is shown (if there is one).
+  if (readOnly) {
+    return task.dueAt ? <span className="mr-3 text-xs text-gray-400">{formatDue(task, timeZone)}</span> : null;
+  }
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => {
+          setValue(splitDueFields(task, timeZone));
+          setIsOpen(true);
+        }}
+        className="mr-3 text-xs text-gray-400 hover:underline"
+      >
+        {task.dueAt ? formatDue(task, timeZone) : "Set date"}
+      </button>
+    );
+  }
+
+  return (
+    <div className="mr-3 flex items-center gap-1 text-xs">
+      <DueDateInput value={value} onChange={setValue} />
+      <button
+        type="button"
+        onClick={() => {
+          onSave(buildDueFields(value.date, value.time, timeZone));
+          setIsOpen(false);
+        }}
+        className="text-blue-400 hover:underline"
+      >
+        Save
+      </button>
+      <button
+        type="button"
+        onClick={() => {
+          onSave({ dueAt: null, dueAllDay: false });
+          setIsOpen(false);
+        }}
+        className="text-gray-400 hover:underline"
+      >
+        Clear
+      </button>
+      <button type="button" onClick={() => setIsOpen(false)} className="text-gray-400 hover:underline">
+        Cancel
+      </button>
+    </div>
+  );
+}
+
+// This is a module-private component that shows a task's repeat rule and lets the user change
+// it, in the same way as `DueDateEditor`. Saving "Doesn't repeat" sends `recurrence: null`.
+function RecurrenceEditor({
+  task,
+  readOnly,
+  onSave,
+}: {
+  task: Task;
+  readOnly: boolean;
+  onSave: (recurrence: string | null, recurFromCompletion: boolean) => void;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // The picker value while the editor is open, pre-filled from the stored rule.
+  const [value, setValue] = useState({ rrule: task.recurrence ?? "", fromCompletion: task.recurFromCompletion });
+
+  // With `readOnly`, only the repeat rule is shown (if there is one).
+  if (readOnly) {
+    return task.recurrence ? (
+      <span className="mr-3 text-xs text-gray-400">
+        ↻ {describeRRule(task.recurrence)}
+        {task.recurFromCompletion ? " after completion" : ""}
+      </span>
+    ) : null;
+  }
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => {
+          setValue({ rrule: task.recurrence ?? "", fromCompletion: task.recurFromCompletion });
+          setIsOpen(true);
+        }}
+        className="mr-3 text-xs text-gray-400 hover:underline"
+      >
+        {task.recurrence
+          ? `↻ ${describeRRule(task.recurrence)}${task.recurFromCompletion ? " after completion" : ""}`
+          : "Repeat"}
+      </button>
+    );
+  }
+
+  return (
+    <div className="mr-3 flex items-center gap-1 text-xs">
+      <RecurrencePicker value={value} onChange={setValue} />
+      <button
+        type="button"
+        onClick={() => {
+          onSave(value.rrule || null, value.fromCompletion);
+          setIsOpen(false);
+        }}
+        className="text-blue-400 hover:underline"
+      >
+        Save
+      </button>
+      <button type="button" onClick={() => setIsOpen(false)} className="text-gray-400 hover:underline">
+        Cancel
+      </button>
+    </div>
+  );
+}
+
+// This is a module-private component for the input that creates a new subtask. Enter creates
+// the subtask, and Escape (or leaving the input empty and clicking away) closes it.
+function SubtaskInput({
+  isPending,
+  onCreate,
+  onCancel,
+}: {
+  isPending: boolean;
+  onCreate: (title: string) => void;
+  onCancel: () => void;
+}) {
+  const [title, setTitle] = useState("");
+  return (
+    <input
+      autoFocus
+      value={title}
+      placeholder="New subtask..."
+      aria-label="New subtask"
+      disabled={isPending}
+      onChange={(e) => setTitle(e.target.value)}
+      onBlur={() => {
+        if (!title.trim()) onCancel();
+      }}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") onCreate(title);
+        if (e.key === "Escape") onCancel();
+      }}
+      className="w-full border px-2 py-1 rounded bg-gray-800 text-white"
+    />
   );
-}
\ No newline at end of file
+}
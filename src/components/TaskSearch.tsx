@@ -0,0 +1,156 @@
+// This file defines the `TaskSearch` component: the search box at the top of the tasks pages.
+// It searches the titles and notes of all of the user's tasks (in every list) on the server,
+// through `task.search`, and shows the best matches in a dropdown with the matching words
+// highlighted. Picking a result opens that task's detail drawer.
+//
+// The query is only sent once the user stops typing for a moment (it is "debounced"), so typing
+// a word sends one request instead of one per key.
+//
+// Keyboard: ArrowDown / ArrowUp move through the results, Enter opens the highlighted one, and
+// Escape closes the dropdown (a second Escape clears the box).
+'use client';
+
+import { useEffect, useState } from "react";
+import { api } from "~/trpc/react";
+import { type HighlightPart } from "~/lib/search";
+import { TaskDetailDrawer } from "~/components/TaskDetailDrawer";
+
+// How long (in milliseconds) the input must be idle before the search is sent.
+const SEARCH_DEBOUNCE_MS = 250;
+
+// Returns `value`, but only after it has stopped changing for `delay` milliseconds.
+function useDebouncedValue<T>(value: T, delay: number) {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+  return debounced;
+}
+
+// Renders highlighted text from `task.search`, with the matched words in `<mark>` elements.
+// The parts are plain strings, so React escapes them like any other text.
+function Highlighted({ parts }: { parts: HighlightPart[] }) {
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.match ? (
+          <mark key={index} className="rounded bg-yellow-500/30 px-0.5 text-inherit">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        ),
+      )}
+    </>
+  );
+}
+
+export function TaskSearch() {
+  const [text, setText] = useState("");
+  const query = useDebouncedValue(text.trim(), SEARCH_DEBOUNCE_MS);
+
+  // The index of the highlighted result, whether the dropdown is open, and the task whose
+  // detail drawer was opened from the results.
+  const [highlighted, setHighlighted] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const [openTaskId, setOpenTaskId] = useState<string | null>(null);
+
+  // `placeholderData` keeps the previous results on screen while the next query is loading,
+  // so the dropdown doesn't flicker on every key.
+  const { data: results = [], isFetching } = api.task.search.useQuery(
+    { query },
+    { enabled: query.length > 0, placeholderData: (previous) => previous },
+  );
+  const showDropdown = isOpen && query.length > 0 && text.trim().length > 0;
+
+  const openResult = (id: string) => {
+    setOpenTaskId(id);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative mb-4">
+      <input
+        type="search"
+        value={text}
+        placeholder="Search tasks..."
+        aria-label="Search tasks"
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={showDropdown}
+        aria-controls="task-search-results"
+        onChange={(e) => {
+          setText(e.target.value);
+          setHighlighted(0);
+          setIsOpen(true);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") {
+            // The first Escape closes the dropdown, the second one clears the box.
+            if (showDropdown) setIsOpen(false);
+            else setText("");
+          } else if (!showDropdown || results.length === 0) {
+            if (e.key === "ArrowDown") setIsOpen(true);
+          } else if (e.key === "ArrowDown") {
+            e.preventDefault();
+            setHighlighted((i) => (i + 1) % results.length);
+          } else if (e.key === "ArrowUp") {
+            e.preventDefault();
+            setHighlighted((i) => (i - 1 + results.length) % results.length);
+          } else if (e.key === "Enter") {
+            e.preventDefault();
+            const result = results[highlighted] ?? results[0];
+            if (result) openResult(result.id);
+          }
+        }}
+
+        // Like the tag autocomplete, the options' `onMouseDown` calls `preventDefault`, so
+        // clicking one doesn't blur the input before the click is handled.
+        onBlur={() => setIsOpen(false)}
+        onFocus={() => setIsOpen(true)}
+        className="w-full border px-2 py-1 rounded bg-gray-800 text-white"
+      />
+
+      {showDropdown && (
+        <ul
+          id="task-search-results"
+          role="listbox"
+          aria-busy={isFetching}
+          className="absolute left-0 right-0 top-full z-20 mt-1 max-h-96 overflow-y-auto rounded border border-gray-700 bg-gray-900 py-1 text-sm shadow-lg"
+        >
+          {results.length === 0 && (
+            <li className="px-3 py-2 text-gray-500">{isFetching ? "Searching..." : "No tasks found."}</li>
+          )}
+          {results.map((result, index) => (
+            <li
+              key={result.id}
+              role="option"
+              aria-selected={index === highlighted}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                openResult(result.id);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`cursor-pointer px-3 py-2 ${index === highlighted ? "bg-gray-700" : ""}`}
+            >
+              <div className="flex items-baseline gap-2">
+                <span className={result.completed ? "line-through text-gray-500" : ""}>
+                  <Highlighted parts={result.title} />
+                </span>
+                <span className="ml-auto shrink-0 text-xs text-gray-500">{result.listName}</span>
+              </div>
+              {result.notes && (
+                <p className="mt-1 truncate text-xs text-gray-400">
+                  <Highlighted parts={result.notes} />
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {openTaskId && <TaskDetailDrawer taskId={openTaskId} onClose={() => setOpenTaskId(null)} />}
+    </div>
+  );
+}
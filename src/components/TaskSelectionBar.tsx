@@ -0,0 +1,152 @@
+// This file defines the `TaskSelectionBar` component: the action bar that appears above the
+// task list while tasks are selected (see `src/lib/selection.ts`). Every action runs on all of
+// the selected tasks in one bulk request (see `src/server/bulk.ts`), can be undone from the
+// Undo toast, and clears the selection when it succeeds.
+'use client';
+
+import { useState } from "react";
+import { api } from "~/trpc/react";
+import { toastMutationError } from "~/lib/toast-errors";
+import { buildDueFields } from "~/lib/due-dates";
+import { PRIORITY_DISPLAY, TASK_PRIORITIES } from "~/lib/priority";
+import { normalizeTagName } from "~/lib/tags";
+import { DueDateInput, type DueDateValue } from "~/components/DueDateInput";
+import { useUserTimeZone } from "~/components/TimeZone";
+import { useBulkResultToast } from "~/components/UndoToast";
+
+// `listId` is the list the tasks are in. They can be moved to the other lists of its owner that
+// the user can edit.
+export function TaskSelectionBar({
+  listId,
+  selectedIds,
+  onClear,
+}: {
+  listId: string;
+  selectedIds: string[];
+  onClear: () => void;
+}) {
+  const timeZone = useUserTimeZone();
+  const showBulkResult = useBulkResultToast();
+  const { data: allLists = [] } = api.list.getAll.useQuery({ includeArchived: false });
+  const ownerId = allLists.find((list) => list.id === listId)?.userId;
+  const lists = allLists.filter((list) => list.userId === ownerId && list.access !== "viewer");
+  const [due, setDue] = useState<DueDateValue>({ date: "", time: "" });
+  const [tagName, setTagName] = useState("");
+
+  // Every action reports its result the same way and then clears the selection.
+  const bulkOptions = (done: string) => ({
+    onSuccess: async (result: Parameters<typeof showBulkResult>[0]) => {
+      onClear();
+      await showBulkResult(result, done);
+    },
+    onError: toastMutationError,
+  });
+  const complete = api.task.bulkComplete.useMutation(bulkOptions("completed"));
+  const remove = api.task.bulkDelete.useMutation(bulkOptions("moved to the trash"));
+  const move = api.task.bulkMove.useMutation(bulkOptions("moved"));
+  const tag = api.task.bulkTag.useMutation(bulkOptions("tagged"));
+  const update = api.task.bulkUpdate.useMutation(bulkOptions("updated"));
+
+  const target = { ids: selectedIds };
+  const isPending = [complete, remove, move, tag, update].some((mutation) => mutation.isPending);
+  const controlClass = "border px-2 py-1 rounded bg-gray-800 text-white";
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Selected tasks"
+      className="sticky top-0 z-10 flex flex-wrap items-center gap-3 rounded border border-blue-700 bg-gray-900 p-2 text-sm"
+    >
+      <span className="font-semibold">{selectedIds.length} selected</span>
+
+      <button type="button" disabled={isPending} onClick={() => complete.mutate({ target })} className="hover:underline">
+        Complete
+      </button>
+      <button
+        type="button"
+        disabled={isPending}
+        onClick={() => remove.mutate({ target })}
+        className="text-red-500 hover:underline"
+      >
+        Delete selected
+      </button>
+
+      <select
+        aria-label="Move selected tasks to list"
+        value=""
+        disabled={isPending}
+        onChange={(e) => e.target.value && move.mutate({ target, listId: e.target.value })}
+        className={controlClass}
+      >
+        <option value="">Move to…</option>
+        {lists.map((list) => (
+          <option key={list.id} value={list.id}>
+            {list.name}
+          </option>
+        ))}
+      </select>
+
+      <select
+        aria-label="Set priority of selected tasks"
+        value=""
+        disabled={isPending}
+        onChange={(e) => {
+          const priority = TASK_PRIORITIES.find((p) => p === e.target.value);
+          if (priority) update.mutate({ target, patch: { priority } });
+        }}
+        className={controlClass}
+      >
+        <option value="">Priority…</option>
+        {TASK_PRIORITIES.map((priority) => (
+          <option key={priority} value={priority}>
+            {PRIORITY_DISPLAY[priority].label}
+          </option>
+        ))}
+      </select>
+
+      {// The due date: pick a date (and optionally a time), then "Set due date". With no date
+      // picked, the button clears the selected tasks' due dates instead.
+      }
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          const fields = due.date ? buildDueFields(due.date, due.time, timeZone) : { dueAt: null, dueAllDay: false };
+          update.mutate({ target, patch: fields });
+        }}
+        className="flex items-center gap-1"
+      >
+        <DueDateInput value={due} onChange={setDue} disabled={isPending} />
+        <button type="submit" disabled={isPending} className="hover:underline">
+          {due.date ? "Set due date" : "Clear due date"}
+        </button>
+      </form>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          const name = normalizeTagName(tagName);
+          if (!name) return;
+          tag.mutate({ target, add: [name] });
+          setTagName("");
+        }}
+        className="flex items-center gap-1"
+      >
+        <input
+          value={tagName}
+          onChange={(e) => setTagName(e.target.value)}
+          placeholder="#tag"
+          aria-label="Tag to put on selected tasks"
+          disabled={isPending}
+          className={`w-24 ${controlClass}`}
+        />
+        <button type="submit" disabled={isPending || !tagName.trim()} className="hover:underline disabled:opacity-50">
+          Tag
+        </button>
+      </form>
+
+      <button type="button" onClick={onClear} className="ml-auto text-gray-400 hover:underline">
+        Clear selection
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+// This file defines the `TaskSortPicker` component and the `useTaskSort` hook.
+//
+// The sort itself is applied on the server (`task.getAll` accepts a `sort` input), and the
+// user's choice is saved to their settings so it is remembered on their next visit. The
+// picker updates the cached settings immediately ("optimistically"), so the task list
+// re-sorts at once instead of waiting for the save to finish.
+'use client';
+
+import { api } from "~/trpc/react";
+import { toastMutationError } from "~/lib/toast-errors";
+import {
+  DEFAULT_TASK_SORT,
+  TASK_SORT_FIELDS,
+  TASK_SORT_LABELS,
+  type TaskSort,
+} from "~/lib/task-sort";
+
+// Returns the user's remembered task sort, or `undefined` while their settings are loading.
+export function useTaskSort(): TaskSort | undefined {
+  const { data: settings } = api.user.getSettings.useQuery();
+  if (!settings) return undefined;
+  return { field: settings.taskSortField, direction: settings.taskSortDirection };
+}
+
+export function TaskSortPicker() {
+  const utils = api.useContext();
+  const sort = useTaskSort() ?? DEFAULT_TASK_SORT;
+
+  const updateSettings = api.user.updateSettings.useMutation({
+
+    // `onMutate` runs before the request is sent. We write the new sort straight into the
+    // cached settings, which re-renders the task list with the new sort right away.
+    onMutate: (patch) => {
+      const previous = utils.user.getSettings.getData();
+      if (previous) utils.user.getSettings.setData(undefined, { ...previous, ...patch });
+      return { previous };
+    },
+
+    // If saving fails, we put the previous settings back and tell the user why.
+    onError: (error, _patch, context) => {
+      if (context?.previous) utils.user.getSettings.setData(undefined, context.previous);
+      toastMutationError(error);
+    },
+  });
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-gray-400">
+      <label className="flex items-center gap-2">
+        Sort by
+        <select
+          value={sort.field}
+          onChange={(e) => {
+            // `e.target.value` is typed as a plain string, so we look it up in the list of
+            // known fields instead of casting it.
+            const field = TASK_SORT_FIELDS.find((f) => f === e.target.value);
+            if (field) updateSettings.mutate({ taskSortField: field });
+          }}
+          className="border px-2 py-1 rounded bg-gray-800 text-white"
+        >
+          {TASK_SORT_FIELDS.map((field) => (
+            <option key={field} value={field}>
+              {TASK_SORT_LABELS[field]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {// Flips the sort direction between ascending and descending. The "Manual" order has no
+      // direction, so the button is hidden while it is picked.
+      }
+      {sort.field !== "position" && (
+        <button
+          type="button"
+          onClick={() =>
+            updateSettings.mutate({ taskSortDirection: sort.direction === "asc" ? "desc" : "asc" })
+          }
+          aria-label={sort.direction === "asc" ? "Sorted ascending" : "Sorted descending"}
+          className="border px-2 py-1 rounded border-gray-700 hover:bg-gray-800"
+        >
+          {sort.direction === "asc" ? "↑ Asc" : "↓ Desc"}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+// This file defines the `TaskTransfer` component: a collapsible panel on the tasks page for
+// exporting all tasks to a file and importing tasks from one, as JSON, CSV or todo.txt (see
+// `src/server/task-transfer.ts`).
+//
+// Picking a file to import first shows a preview (`transfer.previewImport`): how many tasks would
+// be created, and which rows are duplicates or can't be imported, and why. Nothing is written
+// until "Import" is pressed (`transfer.commitImport`).
+'use client';
+
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { api, type RouterOutputs } from "~/trpc/react";
+import { toastMutationError } from "~/lib/toast-errors";
+
+type ImportPreview = RouterOutputs["transfer"]["previewImport"];
+type ImportFile = { format: "json" | "csv" | "todotxt"; content: string; name: string };
+
+// How many rows of each group the preview shows; the rest are only counted.
+const PREVIEW_ROWS = 50;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+export function TaskTransfer() {
+  const utils = api.useContext();
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+  };
+
+  const previewImport = api.transfer.previewImport.useMutation({
+    onSuccess: setPreview,
+    onError: (error) => {
+      reset();
+      toastMutationError(error);
+    },
+  });
+
+  // An import can create tasks, lists, and tags anywhere, so every cached query is refreshed.
+  const commitImport = api.transfer.commitImport.useMutation({
+    onSuccess: async ({ createdTasks, createdLists }) => {
+      reset();
+      toast.success(
+        createdLists > 0
+          ? `Imported ${plural(createdTasks, "task")} and ${plural(createdLists, "new list")}.`
+          : `Imported ${plural(createdTasks, "task")}.`,
+      );
+      await utils.invalidate();
+    },
+    onError: toastMutationError,
+  });
+
+  // The format is taken from the file's extension: .csv, .txt (todo.txt), or JSON otherwise.
+  const pickFile = async (picked: File | undefined) => {
+    if (!picked) return;
+    const name = picked.name.toLowerCase();
+    const next: ImportFile = {
+      format: name.endsWith(".csv") ? "csv" : name.endsWith(".txt") ? "todotxt" : "json",
+      content: await picked.text(),
+      name: picked.name,
+    };
+    setFile(next);
+    setPreview(null);
+    previewImport.mutate({ format: next.format, content: next.content });
+  };
+
+  return (
+    <details className="mb-4 rounded border border-gray-700 p-2 text-sm">
+      <summary className="cursor-pointer text-gray-400">Export / import tasks</summary>
+
+      <div className="mt-2 flex flex-wrap items-center gap-3">
+        <span className="text-gray-400">Export all tasks:</span>
+        <a href="/api/export?format=json" download className="text-blue-400 hover:underline">
+          JSON
+        </a>
+        <a href="/api/export?format=csv" download className="text-blue-400 hover:underline">
+          CSV
+        </a>
+        <a href="/api/export?format=todotxt" download className="text-blue-400 hover:underline">
+          todo.txt
+        </a>
+      </div>
+
+      <label className="mt-3 flex flex-wrap items-center gap-3">
+        <span className="text-gray-400">Import from a JSON, CSV or todo.txt file:</span>
+        <input
+          type="file"
+          accept=".json,.csv,.txt,application/json,text/csv,text/plain"
+          // Clearing the value lets the same file be picked again after a cancel.
+          onClick={(e) => (e.currentTarget.value = "")}
+          onChange={(e) => void pickFile(e.target.files?.[0])}
+          disabled={previewImport.isPending || commitImport.isPending}
+        />
+      </label>
+
+      {previewImport.isPending && <p className="mt-2 text-gray-400">Checking {file?.name}…</p>}
+
+      {file && preview && (
+        <div className="mt-3 space-y-3" aria-label="Import preview">
+          <p>
+            <strong>{file.name}</strong>: {plural(preview.creates.length, "task")} to import,{" "}
+            {plural(preview.duplicates.length, "duplicate")} and {plural(preview.errors.length, "error")} (both
+            skipped).
+            {preview.newLists.length > 0 && ` New lists: ${preview.newLists.join(", ")}.`}
+          </p>
+
+          <PreviewGroup
+            title="To import"
+            rows={preview.creates.map((task) => ({
+              row: task.row,
+              title: task.title,
+              message: task.isSubtask ? `Subtask in ${task.list}` : task.list,
+            }))}
+          />
+          <PreviewGroup title="Duplicates" rows={preview.duplicates} />
+          <PreviewGroup title="Errors" rows={preview.errors} className="text-red-400" />
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              disabled={preview.creates.length === 0 || commitImport.isPending}
+              onClick={() => commitImport.mutate({ format: file.format, content: file.content })}
+              className="rounded bg-blue-600 px-3 py-1 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {commitImport.isPending ? "Importing…" : `Import ${plural(preview.creates.length, "task")}`}
+            </button>
+            <button type="button" onClick={reset} disabled={commitImport.isPending} className="hover:underline">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </details>
+  );
+}
+
+// One group of rows in the preview, as a small table.
+function PreviewGroup({
+  title,
+  rows,
+  className = "",
+}: {
+  title: string;
+  rows: { row: number; title: string | null; message: string }[];
+  className?: string;
+}) {
+  if (rows.length === 0) return null;
+  return (
+    <div>
+      <h3 className="font-semibold">
+        {title} ({rows.length})
+      </h3>
+      <table className="mt-1 w-full text-left">
+        <tbody>
+          {rows.slice(0, PREVIEW_ROWS).map((item) => (
+            <tr key={item.row} className="border-t border-gray-800 align-top">
+              <td className="w-12 py-1 text-gray-500">#{item.row}</td>
+              <td className="py-1 pr-3">{item.title ?? <em className="text-gray-500">(no title)</em>}</td>
+              <td className={`py-1 text-gray-400 ${className}`}>{item.message}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {rows.length > PREVIEW_ROWS && <p className="text-gray-500">…and {rows.length - PREVIEW_ROWS} more.</p>}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+// This file defines the `TasksView` component: the layout of the tasks pages, with the sidebar
+// of lists on one side and the open list (its heading, the "add task" form, and its tasks) on
+// the other. It is shared by `/tasks` (which shows the Inbox) and `/tasks/[listId]`.
+//
+// This is a Server Component: it has no state of its own and only composes the Client
+// Components below. The pages do the authentication check and load the list before rendering it.
+
+// Imports the `CreateTask` component from our components library. This is a "Client Component"
+// responsible for rendering the form that allows users to add a new task. By importing it here,
+// we are composing our server-rendered page with an interactive, client-side piece of UI.
+import { CreateTask } from "~/components/CreateTask";
+
+// This is another interactive Client Component. Its job is to handle the "read" part
+// of the CRUD functionality: it will fetch all the user's tasks using a tRPC query
+// and render them as a list.
+import { TaskList } from "~/components/TaskList";   
+
+// A small Client Component that shows (and lets the user change) the time zone that due dates
+// are grouped and displayed in. It is stored on the user's account.
+import { TimeZonePicker } from "~/components/TimeZone";
+
+// A collapsible Client Component for renaming, recoloring, merging, and deleting the user's tags.
+import { TagManager } from "~/components/TagManager";
+
+// A collapsible Client Component for exporting all tasks to a file and importing them from one.
+import { TaskTransfer } from "~/components/TaskTransfer";
+
+// A collapsible Client Component for the secret URL of the user's iCalendar feed.
+import { CalendarFeed } from "~/components/CalendarFeed";
+
+// The setting for completing a task whose subtasks are still open (a Client Component).
+import { CompleteParentModePicker } from "~/components/CompleteParentModePicker";
+
+// The search box that searches the titles and notes of all of the user's tasks (a Client Component).
+import { TaskSearch } from "~/components/TaskSearch";
+
+// The sidebar with all of the user's lists (a Client Component).
+import { ListSidebar } from "~/components/ListSidebar";
+
+// A collapsible Client Component for sharing the list with other users.
+import { ListSharing } from "~/components/ListSharing";
+
+import { hasListAccess, type ListAccess } from "~/lib/sharing";
+
+// `list` is the list that is open: its id is passed to the form and the task list, and its
+// name is shown in the heading.
+//
+// `access` is what the user can do with it: their own lists are "owner", and lists shared with
+// them have their role. Viewers see the tasks without the controls that change them.
+export function TasksView({
+  list,
+  access,
+}: {
+  list: { id: string; name: string; isInbox: boolean };
+  access: ListAccess;
+}) {
+  const canEdit = hasListAccess(access, "editor");
+  return (
+
+    // This renders the `<main>` HTML element, a semantic tag for the primary content of the page.
+    // The `className` uses Tailwind CSS utilities to style the layout.
+    // - `max-w-4xl`: Sets a `max-width` on the container. This improves readability on wide screens by
+    //   preventing the text lines from becoming too long, while leaving room for the sidebar.
+    // - `mx-auto`: A standard trick for centering a block-level element. When a `max-width` is set,
+    //   `mx-auto` applies automatic margins to the left and right, pushing the container into the center.
+    // - `p-4`: Applies a consistent padding of `1rem` on all sides of the main content area.
+    // - `flex flex-col md:flex-row gap-6`: Stacks the sidebar above the tasks on small screens, and
+    //   puts it to the left of them on medium screens and up.
+    <main className="max-w-4xl mx-auto p-4 flex flex-col md:flex-row gap-6">
+
+      {/* The sidebar with all of the user's lists. */}
+      <ListSidebar />
+
+      {/* The open list. `min-w-0` lets it shrink next to the sidebar instead of overflowing. */}
+      <div className="flex-1 min-w-0">
+
+      {// This renders the main heading for the page. The `className` prop applies a string of
+      // Tailwind CSS utility classes to style the text.
+      //
+      // - `text-2xl`: Sets the font size. Corresponds to the CSS `font-size: 1.5rem;` (24px)
+      //   and an appropriate `line-height: 2rem;` (32px).
+      //
+      // - `font-bold`: Sets the font weight. Corresponds to the CSS `font-weight: 700;`.
+      //
+      // - `mb-4`: Adds a margin to the bottom of the element. Corresponds to the CSS
+      //   `margin-bottom: 1rem;` (16px), creating space between the heading and the content below.
+      }
+      <h1 className="text-2xl font-bold mb-4">
+
+        {/* The heading names the list that is open (e.g., "Task List: Inbox"). */}
+        Task List: {list.name}
+      </h1>
+
+      {/* Lists shared with the user say so, with the user's role. */}
+      {access !== "owner" && (
+        <p className="-mt-3 mb-4 text-sm text-gray-400">Shared with you as {access}</p>
+      )}
+
+      {/* The full-text search over all of the user's tasks, in every list. */}
+      <TaskSearch />
+
+      {/* This renders our imported `CreateTask` component. This Client Component contains the */}
+      {/* input field and "Add" button for creating new tasks. */}
+      {/* Viewers can't add tasks, so they don't get the form. */}
+      {canEdit && <CreateTask listId={list.id} />}
+
+      {/* This renders the time zone picker. "Today", "Tomorrow", and every due time in the */}
+      {/* list below are computed in the zone selected here. */}
+      {/* Next to it, the setting for completing a task whose subtasks are still open. */}
+      <div className="mb-4 flex flex-wrap gap-4">
+        <TimeZonePicker />
+        <CompleteParentModePicker />
+      </div>
+
+      {/* This renders the tag manager, collapsed by default. */}
+      <TagManager />
+
+      {/* This renders the export / import panel, collapsed by default. */}
+      <TaskTransfer />
+
+      {/* This renders the calendar feed panel, collapsed by default. */}
+      <CalendarFeed />
+
+      {/* This renders the sharing panel, collapsed by default. The Inbox is always private. */}
+      {!list.isInbox && <ListSharing listId={list.id} />}
+
+      {/* This renders our imported `TaskList` component. This Client Component is responsible for */}
+      {/* fetching and displaying the list of all the user's current tasks. */}
+      <TaskList listId={list.id} readOnly={!canEdit} />
+      </div>
+    </main>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,70 @@
+// This file contains the client-side pieces that deal with the user's stored time zone:
+// - `useUserTimeZone`: a hook that returns the time zone every date in the UI is shown in.
+// - `TimeZonePicker`: a small dropdown that lets the user change that time zone.
+//
+// The time zone is stored on the user's account (see `api.user.getSettings`), NOT read from
+// the browser every time, so due dates are grouped the same way on every device the user
+// signs in from. The first time a user without a stored zone opens the app, we save the
+// browser's zone for them as a sensible default.
+'use client';
+
+// `useEffect` runs the one-time "save the browser's time zone" side effect after rendering.
+import { useEffect } from "react";
+
+// The tRPC React hooks for our API.
+import { api } from "~/trpc/react";
+
+// Shared time zone helpers (also used by the server).
+import { getRuntimeTimeZone } from "~/lib/timezone";
+
+// Our shared mutation error handler, which turns server errors into toasts.
+import { toastMutationError } from "~/lib/toast-errors";
+
+// Returns the signed-in user's stored IANA time zone. While the settings are loading (or if
+// the user has not stored a zone yet) it falls back to the browser's own time zone.
+export function useUserTimeZone() {
+  const utils = api.useContext();
+  const { data: settings } = api.user.getSettings.useQuery();
+  const updateSettings = api.user.updateSettings.useMutation({
+    onSuccess: (next) => utils.user.getSettings.setData(undefined, next),
+  });
+
+  // `mutate` is a stable function, so we pull it out to use it as an effect dependency.
+  const { mutate } = updateSettings;
+
+  // Once the settings have loaded, store the browser's time zone if the user has none yet.
+  useEffect(() => {
+    if (settings && !settings.timeZone) mutate({ timeZone: getRuntimeTimeZone() });
+  }, [settings, mutate]);
+
+  return settings?.timeZone ?? getRuntimeTimeZone();
+}
+
+// A dropdown listing every time zone the browser knows about. Changing it saves the new zone
+// to the user's settings, and every component using `useUserTimeZone` re-renders with it.
+export function TimeZonePicker() {
+  const utils = api.useContext();
+  const timeZone = useUserTimeZone();
+  const updateSettings = api.user.updateSettings.useMutation({
+    onSuccess: (next) => utils.user.getSettings.setData(undefined, next),
+    onError: toastMutationError,
+  });
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-400">
+      Time zone
+      <select
+        value={timeZone}
+        onChange={(e) => updateSettings.mutate({ timeZone: e.target.value })}
+        disabled={updateSettings.isPending}
+        className="border px-2 py-1 rounded bg-gray-800 text-white"
+      >
+        {Intl.supportedValuesOf("timeZone").map((zone) => (
+          <option key={zone} value={zone}>
+            {zone}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,89 @@
+// This file defines the `TrashView` component: the list of deleted tasks on the Trash page.
+// Every task can be restored (it goes back to its list, with the subtasks that were deleted
+// with it), and the trash of the user's own lists can be emptied. Tasks that stay in the trash for 30 days are
+// deleted for good by a scheduled job (see `src/app/api/cron/purge-trash/route.ts`).
+'use client';
+
+import Link from "next/link";
+import { api } from "~/trpc/react";
+import { toastMutationError } from "~/lib/toast-errors";
+import { listHref } from "~/components/ListSidebar";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "today", "in 1 day", "in 12 days", ...
+function formatPurgeIn(purgeAt: Date) {
+  const days = Math.ceil((purgeAt.getTime() - Date.now()) / DAY_MS);
+  if (days <= 0) return "today";
+  return `in ${days} ${days === 1 ? "day" : "days"}`;
+}
+
+export function TrashView() {
+  const utils = api.useContext();
+  const { data: tasks = [], isLoading } = api.task.getTrash.useQuery();
+
+  // Restoring or purging tasks changes the trash, the lists' tasks and counts, and the tags'
+  // counts, so all of them are refreshed.
+  const refresh = () =>
+    Promise.all([
+      utils.task.getTrash.invalidate(),
+      utils.task.getAll.invalidate(),
+      utils.list.getAll.invalidate(),
+      utils.tag.getAll.invalidate(),
+    ]);
+
+  const restore = api.task.restore.useMutation({ onSuccess: refresh, onError: toastMutationError });
+  const emptyTrash = api.task.emptyTrash.useMutation({ onSuccess: refresh, onError: toastMutationError });
+
+  if (isLoading) return <p className="text-gray-500">Loading...</p>;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-4 text-sm text-gray-400">
+        <p className="flex-1">Deleted tasks are kept here for 30 days, then deleted for good.</p>
+        <button
+          type="button"
+          disabled={tasks.length === 0 || emptyTrash.isPending}
+          onClick={() => {
+            if (window.confirm("Delete the trashed tasks of your own lists for good? This can't be undone.")) {
+              emptyTrash.mutate();
+            }
+          }}
+          className="text-red-500 hover:underline disabled:opacity-50 disabled:no-underline"
+        >
+          Empty trash
+        </button>
+      </div>
+
+      {tasks.length === 0 ? (
+        <p className="text-gray-500">The trash is empty.</p>
+      ) : (
+        <ul className="space-y-2">
+          {tasks.map((task) => (
+            <li key={task.id} className="flex items-center gap-3 rounded border border-gray-700 px-3 py-2">
+              <div className="min-w-0 flex-1">
+                <p className={`truncate ${task.completed ? "line-through text-gray-500" : ""}`}>{task.title}</p>
+                <p className="text-xs text-gray-500">
+                  From{" "}
+                  <Link href={listHref(task.list)} className="hover:underline">
+                    {task.list.name}
+                  </Link>
+                  {task.deletedAt && <> · deleted {task.deletedAt.toLocaleDateString()}</>}
+                  {task.purgeAt && <> · purged {formatPurgeIn(task.purgeAt)}</>}
+                </p>
+              </div>
+              <button
+                type="button"
+                disabled={restore.isPending}
+                onClick={() => restore.mutate({ id: task.id })}
+                className="hover:underline disabled:opacity-50"
+              >
+                Restore
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
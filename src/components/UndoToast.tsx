@@ -0,0 +1,72 @@
+// This file defines `useUndoToast`, the client side of the undo layer (see
+// `src/server/undo.ts`). Undoable task mutations (toggle, delete, and the bulk actions) return
+// an `undoId`; passing it to the function returned by this hook shows a toast with an "Undo"
+// button, which calls `task.undo` with that id.
+//
+// `useBulkResultToast` builds on it for the bulk actions, which also report the tasks that
+// couldn't be changed.
+//
+// The toast never repeats the task's title, so it can't be mistaken for the task itself.
+'use client';
+
+import { toast } from "react-hot-toast";
+import { api, type RouterOutputs } from "~/trpc/react";
+import { toastMutationError } from "~/lib/toast-errors";
+
+// How long the Undo button stays on screen, in milliseconds.
+const UNDO_TOAST_MS = 8000;
+
+export function useUndoToast() {
+  const utils = api.useContext();
+
+  // An undo can change any task (and therefore lists, tags, search results, and the trash), so
+  // every cached query is refreshed afterwards.
+  const undo = api.task.undo.useMutation({
+    onSuccess: async () => {
+      toast.success("Undone.");
+      await utils.invalidate();
+    },
+    onError: toastMutationError,
+  });
+
+  return (message: string, undoId: string) =>
+    toast(
+      (t) => (
+        <span className="flex items-center gap-3">
+          {message}
+          <button
+            type="button"
+            onClick={() => {
+              toast.dismiss(t.id);
+              undo.mutate({ undoId });
+            }}
+            className="font-semibold text-blue-600 hover:underline"
+          >
+            Undo
+          </button>
+        </span>
+      ),
+      { id: undoId, duration: UNDO_TOAST_MS },
+    );
+}
+
+// The result of every bulk action (`task.bulkComplete`, `bulkDelete`, ...).
+type BulkResult = RouterOutputs["task"]["bulkDelete"];
+
+// Returns a function that reports a bulk action's result: an error toast for the tasks that
+// couldn't be changed, and the Undo toast for the rest ("12 tasks completed."). It also
+// refreshes every cached query, like an undo does.
+export function useBulkResultToast() {
+  const utils = api.useContext();
+  const showUndo = useUndoToast();
+
+  return (result: BulkResult, done: string) => {
+    const failed = result.results.flatMap((item) => (item.ok ? [] : [item]));
+    const changed = result.results.length - failed.length;
+    if (failed[0]) {
+      toast.error(`${failed.length} ${failed.length === 1 ? "task" : "tasks"} couldn't be changed: ${failed[0].error}`);
+    }
+    if (changed > 0) showUndo(`${changed} ${changed === 1 ? "task" : "tasks"} ${done}.`, result.undoId);
+    return utils.invalidate();
+  };
+}
@@ -156,6 +156,23 @@ export const env = createEnv({
     SMTP_USER: z.string(),
     SMTP_PASS: z.string(),
     EMAIL_FROM: z.string().email(),
+
+    // The shared secret of the scheduled jobs under `/api/cron/*` (e.g., purging the trash). The
+    // scheduler must send it as `Authorization: Bearer <CRON_SECRET>`. While it is not set, the
+    // jobs refuse every request.
+    CRON_SECRET: z.string().min(16).optional(),
+
+    // Where task attachments are stored (see `src/server/storage/index.ts`): "local" keeps them
+    // in the `STORAGE_LOCAL_DIR` folder (for development and tests), "s3" in an S3-compatible
+    // bucket (AWS S3, or MinIO with `S3_ENDPOINT=http://localhost:9000`). The S3 variables are
+    // only required with the "s3" driver.
+    STORAGE_DRIVER: z.enum(["local", "s3"]).default("local"),
+    STORAGE_LOCAL_DIR: z.string().default(".storage"),
+    S3_ENDPOINT: z.string().url().optional(),
+    S3_REGION: z.string().default("us-east-1"),
+    S3_BUCKET: z.string().optional(),
+    S3_ACCESS_KEY_ID: z.string().optional(),
+    S3_SECRET_ACCESS_KEY: z.string().optional(),
   },
 
   // This `client` property is an object that contains the Zod schemas for all of your client-side environment variables.
@@ -221,6 +238,14 @@ export const env = createEnv({
     SMTP_USER: process.env.SMTP_USER,
     SMTP_PASS: process.env.SMTP_PASS,
     EMAIL_FROM: process.env.EMAIL_FROM,
+    CRON_SECRET: process.env.CRON_SECRET,
+    STORAGE_DRIVER: process.env.STORAGE_DRIVER,
+    STORAGE_LOCAL_DIR: process.env.STORAGE_LOCAL_DIR,
+    S3_ENDPOINT: process.env.S3_ENDPOINT,
+    S3_REGION: process.env.S3_REGION,
+    S3_BUCKET: process.env.S3_BUCKET,
+    S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID,
+    S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY,
     NEXT_PUBLIC_APP_URL: process.env.NEXT_PUBLIC_APP_URL,
 
   },
@@ -0,0 +1,127 @@
+// This file defines `useTaskSync`, which keeps the cached task lists of this tab up to date with
+// the changes made anywhere else: in another tab, on another device, or by a collaborator on a
+// shared list. It subscribes to `task.onChange` (see `src/server/task-sync.ts`) and writes the
+// changed tasks straight into every cached page of `task.getAll`, instead of refetching them.
+// A tag change arrives as a change of the tasks that have the tag.
+'use client';
+
+import { useRef } from "react";
+import { useQueryClient, type InfiniteData } from "@tanstack/react-query";
+import { getQueryKey } from "@trpc/react-query";
+import { api, type RouterInputs, type RouterOutputs } from "~/trpc/react";
+import { compareTasks, DEFAULT_TASK_SORT, getSortKeys, type SortKey } from "~/lib/task-sort";
+
+type Task = RouterOutputs["task"]["getAll"]["items"][number];
+type TaskPages = InfiniteData<RouterOutputs["task"]["getAll"]>;
+type TaskQueryInput = RouterInputs["task"]["getAll"];
+
+// A subscription's output is the stream of its messages; this is the type of one message.
+type TaskChange = RouterOutputs["task"]["onChange"] extends AsyncIterable<infer T> ? T : never;
+
+export function useTaskSync() {
+  const queryClient = useQueryClient();
+  const utils = api.useContext();
+
+  // The subscription reconnects by itself after a network error. Changes made while it was
+  // disconnected were missed, so the task lists are refetched after every connection but the
+  // first one.
+  const hasStarted = useRef(false);
+
+  api.task.onChange.useSubscription(undefined, {
+    onStarted: () => {
+      if (hasStarted.current) void utils.task.getAll.invalidate();
+      hasStarted.current = true;
+    },
+    onData: (change) => {
+      // Every infinite `task.getAll` query in the cache, whatever its list, sort and tag filter.
+      const cached = queryClient.getQueriesData<TaskPages>({
+        queryKey: getQueryKey(api.task.getAll, undefined, "infinite"),
+      });
+      for (const [queryKey, data] of cached) {
+        if (!data) continue;
+        const { input } = (queryKey[1] ?? {}) as { input?: TaskQueryInput };
+        queryClient.setQueryData<TaskPages>(queryKey, patchTaskPages(data, input, change));
+      }
+
+      // The detail drawer shows the same task fields.
+      for (const task of change.updated) {
+        utils.task.getById.setData({ id: task.id }, (old) => (old ? { ...old, ...task } : old));
+      }
+
+      // The sidebar's open-task counts and the tags with their task counts are computed on the
+      // server, so they are refetched.
+      void utils.list.getAll.invalidate();
+      void utils.tag.getAll.invalidate();
+    },
+  });
+}
+
+// Returns the cached pages with a change applied: the changed and deleted tasks are taken out,
+// and the tasks that belong in this query are put back at their place in its sort order.
+function patchTaskPages(data: TaskPages, input: TaskQueryInput, change: TaskChange): TaskPages {
+  const changed = [...change.created, ...change.updated];
+  const removedIds = new Set([...change.deletedIds, ...changed.map((task) => task.id)]);
+  let pages = data.pages.map((page) => ({ ...page, items: page.items.filter((task) => !removedIds.has(task.id)) }));
+
+  const keys = getSortKeys(input?.sort ?? DEFAULT_TASK_SORT);
+  const tagFilter = input?.tagFilter;
+
+  // Without a tag filter, the query returns the top-level tasks plus their subtasks, so a
+  // subtask only belongs in it when its parent does. Parents go first, so subtasks whose parent
+  // arrives in the same change can follow it.
+  let pending = changed.filter((task) => matchesQuery(task, input));
+  let progressed = true;
+  while (pending.length > 0 && progressed) {
+    const loadedIds = new Set(pages.flatMap((page) => page.items.map((task) => task.id)));
+    const ready = pending.filter((task) => !!tagFilter || !task.parentId || loadedIds.has(task.parentId));
+    pending = pending.filter((task) => !ready.includes(task));
+    progressed = ready.length > 0;
+    for (const task of ready) pages = insertTask(pages, task, keys, !tagFilter);
+  }
+
+  return { ...data, pages };
+}
+
+// Whether a task is one that the query asks for (apart from the parent of a subtask, which is
+// checked against the loaded tasks).
+function matchesQuery(task: Task, input: TaskQueryInput) {
+  if (input?.listId && task.listId !== input.listId) return false;
+  const tagFilter = input?.tagFilter;
+  if (!tagFilter) return true;
+  const has = (tagId: string) => task.tags.some(({ tag }) => tag.id === tagId);
+  return tagFilter.mode === "any" ? tagFilter.tagIds.some(has) : tagFilter.tagIds.every(has);
+}
+
+// Inserts a task into the page it belongs to, like the server would have returned it. Each page
+// holds its top-level tasks in the sort order, followed by their subtasks in the same order
+// (with `withSubtasks`; with a tag filter, every task is ranked as top-level).
+// - A subtask goes into the page of its parent.
+// - A top-level task goes into the first page whose last top-level task comes after it. If
+//   there is none, it goes at the end of the last page, unless there are pages left to load: it
+//   is on one of those, and arrives when they are.
+function insertTask(pages: TaskPages["pages"], task: Task, keys: SortKey[], withSubtasks: boolean) {
+  const isSubtask = withSubtasks && task.parentId !== null;
+  const rank = (t: Task) => (withSubtasks && t.parentId !== null ? 1 : 0);
+
+  let pageIndex: number;
+  if (isSubtask) {
+    pageIndex = pages.findIndex((page) => page.items.some((t) => t.id === task.parentId));
+  } else {
+    pageIndex = pages.findIndex((page) => {
+      const last = page.items.filter((t) => rank(t) === 0).at(-1);
+      return last && compareTasks(task, last, keys) < 0;
+    });
+    if (pageIndex < 0 && pages.at(-1)?.nextCursor === null) pageIndex = pages.length - 1;
+  }
+  if (pageIndex < 0) return pages;
+
+  return pages.map((page, i) => {
+    if (i !== pageIndex) return page;
+    const items = [...page.items];
+    const index = items.findIndex(
+      (t) => rank(t) > rank(task) || (rank(t) === rank(task) && compareTasks(task, t, keys) < 0),
+    );
+    items.splice(index < 0 ? items.length : index, 0, task);
+    return { ...page, items };
+  });
+}
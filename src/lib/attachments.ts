@@ -0,0 +1,54 @@
+// This file holds the limits of task attachments. It is shared by the server, which enforces
+// them on upload (see `src/app/api/attachments/route.ts`), and the client, which checks a file
+// before uploading it so the user gets the error right away.
+
+// The largest file that can be attached, in bytes (10 MB).
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// How many files a single task can have.
+export const MAX_ATTACHMENTS_PER_TASK = 20;
+
+// The MIME types that can be attached: images, PDFs, plain text and CSV, and office documents.
+// Anything else (executables, HTML, SVG, which can carry scripts, ...) is rejected.
+export const ATTACHMENT_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+  "text/csv",
+  "application/zip",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+] as const;
+
+export type AttachmentType = (typeof ATTACHMENT_TYPES)[number];
+
+// The `accept` attribute of the file picker.
+export const ATTACHMENT_ACCEPT = ATTACHMENT_TYPES.join(",");
+
+export function isAttachmentType(type: string): type is AttachmentType {
+  return (ATTACHMENT_TYPES as readonly string[]).includes(type);
+}
+
+// Whether the type is an image that gets a thumbnail.
+export function isImageType(type: string) {
+  return type.startsWith("image/");
+}
+
+// Checks a file against the limits above. Returns the error to show, or null if it is fine.
+export function validateAttachment(file: { size: number; type: string }) {
+  if (file.size === 0) return "The file is empty.";
+  if (file.size > MAX_ATTACHMENT_BYTES) return `Files can be at most ${formatFileSize(MAX_ATTACHMENT_BYTES)}.`;
+  if (!isAttachmentType(file.type)) return "This type of file can't be attached.";
+  return null;
+}
+
+// Formats a size in bytes for people, e.g. "532 B", "14 KB", "2.5 MB".
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${Number((bytes / (1024 * 1024)).toFixed(1))} MB`;
+}
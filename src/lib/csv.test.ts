@@ -0,0 +1,41 @@
+// This file contains the tests of the CSV helpers (`src/lib/csv.ts`) that the task export and
+// import use: the parser must read back every field that `formatCsv` (or a spreadsheet app)
+// writes, however many commas, quotes and line breaks it contains.
+
+import { test, expect } from "@playwright/test";
+import { CsvError, formatCsv, parseCsv } from "~/lib/csv";
+
+test.describe("parseCsv", () => {
+  const cases: [string, string, string[][]][] = [
+    ["plain fields", "title,notes\nBuy milk,2 liters\n", [["title", "notes"], ["Buy milk", "2 liters"]]],
+    ["a comma in a quoted field", 'title\n"Milk, eggs"\n', [["title"], ["Milk, eggs"]]],
+    ["doubled quotes", 'title\n"Say ""hi"""\n', [["title"], ['Say "hi"']]],
+    ["a line break in a quoted field", 'title,notes\nA,"line 1\nline 2"\n', [["title", "notes"], ["A", "line 1\nline 2"]]],
+    ["a CRLF inside a quoted field", 'notes\n"a\r\nb"\r\n', [["notes"], ["a\r\nb"]]],
+    ["CRLF line endings", "a,b\r\n1,2\r\n", [["a", "b"], ["1", "2"]]],
+    ["a byte-order mark", "\uFEFFtitle\nA\n", [["title"], ["A"]]],
+    ["no line break at the end", "a,b\n1,2", [["a", "b"], ["1", "2"]]],
+    ["empty lines", "a\n\n1\r\n\r\n", [["a"], ["1"]]],
+    ["empty fields", "a,b,c\n,,\n", [["a", "b", "c"], ["", "", ""]]],
+    ["a quote inside an unquoted field", 'a\n5" screen\n', [["a"], ['5" screen']]],
+  ];
+  for (const [name, text, rows] of cases) {
+    test(name, () => {
+      expect(parseCsv(text)).toEqual(rows);
+    });
+  }
+
+  test("a quoted field that is never closed is an error", () => {
+    expect(() => parseCsv('title\n"Buy milk\n')).toThrow(CsvError);
+  });
+});
+
+test("formatCsv and parseCsv round-trip", () => {
+  const rows = [
+    ["title", "notes"],
+    ["Milk, eggs", 'Say "hi"'],
+    ["Multi\nline", "a\r\nb"],
+    ["", "trailing,"],
+  ];
+  expect(parseCsv(formatCsv(rows))).toEqual(rows);
+});
@@ -0,0 +1,61 @@
+// Minimal CSV helpers (RFC 4180) for the task export and import: fields are separated by commas,
+// and a field that contains a comma, a quote, or a line break is wrapped in double quotes, with
+// its quotes doubled ("say ""hi""").
+
+// Formats rows of fields as CSV text, with CRLF line endings as the RFC recommends.
+export function formatCsv(rows: string[][]) {
+  return rows.map((row) => row.map(formatField).join(",")).join("\r\n") + "\r\n";
+}
+
+function formatField(field: string) {
+  return /[",\r\n]/.test(field) ? `"${field.replaceAll('"', '""')}"` : field;
+}
+
+export class CsvError extends Error {}
+
+// Parses CSV text into rows of fields. Accepts LF or CRLF line endings and a leading byte-order
+// mark (added by some spreadsheet apps), and skips empty lines. Throws a `CsvError` for a quoted
+// field that is never closed.
+export function parseCsv(text: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let i = text.startsWith("\uFEFF") ? 1 : 0;
+
+  const endField = () => {
+    row.push(field);
+    field = "";
+  };
+  const endRow = () => {
+    endField();
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === ",") {
+      endField();
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (inQuotes) throw new CsvError("The file ends inside a quoted field.");
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+}
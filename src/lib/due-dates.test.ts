@@ -0,0 +1,121 @@
+// This file contains the tests of the due-date helpers (`src/lib/due-dates.ts`): turning the
+// date and time inputs into the stored fields and back, and grouping tasks into "Overdue",
+// "Today", "Tomorrow" and so on, in the user's time zone.
+//
+// The grouping must use the user's calendar, not UTC's: the same instant is "today" in one zone
+// and "tomorrow" in another, days around a daylight saving change are 23 or 25 hours long
+// (Europe/Berlin moves back on 2026-10-25; America/New_York forward on 2026-03-08), and an
+// all-day task is due on the same date in every zone.
+
+import { test, expect } from "@playwright/test";
+import { buildDueFields, getDueGroup, groupTasksByDue, splitDueFields, toAllDayDate, type DueGroupKey } from "~/lib/due-dates";
+
+test.describe("date and time inputs", () => {
+  const cases: { date: string; time: string; timeZone: string; dueAt: string | null; dueAllDay: boolean }[] = [
+    { date: "", time: "", timeZone: "Europe/Berlin", dueAt: null, dueAllDay: false },
+    { date: "2026-10-25", time: "", timeZone: "Pacific/Auckland", dueAt: "2026-10-25T00:00:00Z", dueAllDay: true },
+    { date: "2026-10-24", time: "09:00", timeZone: "Europe/Berlin", dueAt: "2026-10-24T07:00:00Z", dueAllDay: false },
+    { date: "2026-10-25", time: "09:00", timeZone: "Europe/Berlin", dueAt: "2026-10-25T08:00:00Z", dueAllDay: false },
+    { date: "2026-03-08", time: "23:30", timeZone: "America/New_York", dueAt: "2026-03-09T03:30:00Z", dueAllDay: false },
+    { date: "2026-10-20", time: "00:15", timeZone: "Asia/Kolkata", dueAt: "2026-10-19T18:45:00Z", dueAllDay: false },
+  ];
+  for (const c of cases) {
+    test(`"${c.date}" "${c.time}" in ${c.timeZone}`, () => {
+      const fields = buildDueFields(c.date, c.time, c.timeZone);
+      expect({ dueAt: fields.dueAt?.toISOString() ?? null, dueAllDay: fields.dueAllDay }).toEqual({
+        dueAt: c.dueAt && new Date(c.dueAt).toISOString(),
+        dueAllDay: c.dueAllDay,
+      });
+      expect(splitDueFields(fields, c.timeZone)).toEqual({ date: c.date, time: c.time });
+    });
+  }
+
+  test("an all-day date is read back the same in every zone", () => {
+    const fields = buildDueFields("2026-10-20", "", "Pacific/Auckland");
+    for (const timeZone of ["America/Los_Angeles", "UTC", "Asia/Tokyo"]) {
+      expect(splitDueFields(fields, timeZone)).toEqual({ date: "2026-10-20", time: "" });
+    }
+  });
+
+  test("all-day dates are truncated to midnight UTC", () => {
+    expect(toAllDayDate(new Date("2026-10-20T23:59:59Z")).toISOString()).toBe("2026-10-20T00:00:00.000Z");
+  });
+});
+
+type GroupCase = {
+  name: string;
+  now: string;
+  timeZone: string;
+
+  // An ISO date for an all-day task, an ISO timestamp for a timed one, or null for no date.
+  due: string | null;
+  group: DueGroupKey;
+};
+
+const toFields = (due: string | null) => {
+  if (!due) return { dueAt: null, dueAllDay: false };
+  const allDay = /^\d{4}-\d{2}-\d{2}$/.test(due);
+  return { dueAt: new Date(allDay ? `${due}T00:00:00Z` : due), dueAllDay: allDay };
+};
+
+function runGroupCases(cases: GroupCase[]) {
+  for (const c of cases) {
+    test(`${c.name} (${c.timeZone})`, () => {
+      expect(getDueGroup(toFields(c.due), c.timeZone, new Date(c.now))).toBe(c.group);
+    });
+  }
+}
+
+test.describe("due groups: time zones", () => {
+  // 20:00 UTC on 2026-10-19 is 05:00 on the 20th in Tokyo, and 16:00 on the 19th in New York.
+  const now = "2026-10-19T20:00:00Z";
+  runGroupCases([
+    { name: "an all-day task due on the user's today", now, timeZone: "Asia/Tokyo", due: "2026-10-20", group: "today" },
+    { name: "the same all-day task, a day ahead", now, timeZone: "America/New_York", due: "2026-10-20", group: "tomorrow" },
+    { name: "an all-day task due on the user's yesterday", now, timeZone: "Asia/Tokyo", due: "2026-10-19", group: "overdue" },
+    { name: "the same all-day task, still today", now, timeZone: "America/New_York", due: "2026-10-19", group: "today" },
+    { name: "a timed task later on the user's day", now, timeZone: "Asia/Tokyo", due: "2026-10-20T14:00:00Z", group: "today" },
+    { name: "the same timed task, on the user's next day", now, timeZone: "America/New_York", due: "2026-10-20T14:00:00Z", group: "tomorrow" },
+    { name: "a timed task that has just passed", now, timeZone: "Asia/Tokyo", due: "2026-10-19T19:59:00Z", group: "overdue" },
+    { name: "a task without a due date", now, timeZone: "Asia/Tokyo", due: null, group: "none" },
+  ]);
+});
+
+test.describe("due groups: daylight saving changes", () => {
+  runGroupCases([
+    // 2026-10-25 is 25 hours long in Berlin: from 22:00 UTC the day before to 23:00 UTC.
+    { name: "late on the 25-hour day", now: "2026-10-24T22:30:00Z", timeZone: "Europe/Berlin", due: "2026-10-25T22:30:00Z", group: "today" },
+    { name: "just after the 25-hour day", now: "2026-10-24T22:30:00Z", timeZone: "Europe/Berlin", due: "2026-10-25T23:00:00Z", group: "tomorrow" },
+
+    // 2026-03-08 is 23 hours long in New York: from 05:00 UTC to 04:00 UTC the next day.
+    { name: "late on the 23-hour day", now: "2026-03-08T05:30:00Z", timeZone: "America/New_York", due: "2026-03-09T03:59:00Z", group: "today" },
+    { name: "just after the 23-hour day", now: "2026-03-08T05:30:00Z", timeZone: "America/New_York", due: "2026-03-09T04:00:00Z", group: "tomorrow" },
+    { name: "an all-day task after the change", now: "2026-03-08T05:30:00Z", timeZone: "America/New_York", due: "2026-03-09", group: "tomorrow" },
+  ]);
+});
+
+test.describe("due groups: the coming week", () => {
+  const now = "2026-10-19T10:00:00Z";
+  runGroupCases([
+    { name: "two days ahead", now, timeZone: "Europe/Berlin", due: "2026-10-21", group: "thisWeek" },
+    { name: "six days ahead", now, timeZone: "Europe/Berlin", due: "2026-10-25T21:00:00Z", group: "thisWeek" },
+    { name: "seven days ahead", now, timeZone: "Europe/Berlin", due: "2026-10-26", group: "later" },
+  ]);
+});
+
+test("tasks are grouped in the groups' order, keep their order, and empty groups are left out", () => {
+  const tasks = [
+    { title: "later", ...toFields("2026-12-01") },
+    { title: "no date", ...toFields(null) },
+    { title: "today 1", ...toFields("2026-10-19") },
+    { title: "overdue", ...toFields("2026-10-01") },
+    { title: "today 2", ...toFields("2026-10-19T20:00:00Z") },
+  ];
+  const groups = groupTasksByDue(tasks, "Europe/Berlin", new Date("2026-10-19T10:00:00Z"));
+  expect(groups.map((group) => [group.key, group.tasks.map((task) => task.title)])).toEqual([
+    ["overdue", ["overdue"]],
+    ["today", ["today 1", "today 2"]],
+    ["later", ["later"]],
+    ["none", ["no date"]],
+  ]);
+});
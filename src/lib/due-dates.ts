@@ -0,0 +1,122 @@
+// This file contains the shared logic for task due dates. It is used by the server (to
+// normalize incoming due dates) and by the client (to convert form inputs, format labels,
+// and group the task list into "Overdue", "Today", "Tomorrow", and so on).
+//
+// HOW DUE DATES ARE STORED
+// A task has two due-date columns: `dueAt` (a timestamp, or `null` for "no date") and
+// `dueAllDay` (a boolean).
+// - Timed tasks ("Friday at 5pm") store the exact instant in `dueAt`. Which calendar day that
+//   instant falls on depends on the user's time zone, so we always convert it with the
+//   user's stored IANA time zone before grouping or formatting it.
+// - All-day tasks ("Friday") have no time and no time zone: they are a plain calendar date.
+//   We store that date as midnight UTC (e.g., 2025-01-31T00:00:00.000Z) and always read it
+//   back with UTC, so an all-day task is due on the same date for every user, everywhere.
+
+import {
+  diffCalendarDays,
+  getZonedParts,
+  zonedTimeToUtc,
+  type CalendarDate,
+} from "~/lib/timezone";
+
+// The due-date fields of a task that these helpers need.
+export type DueFields = { dueAt: Date | null; dueAllDay: boolean };
+
+// The ordered list of groups the task list is divided into. `as const` keeps the literal
+// key strings, so `DueGroupKey` below is the exact union "overdue" | "today" | ... .
+export const DUE_GROUPS = [
+  { key: "overdue", label: "Overdue" },
+  { key: "today", label: "Today" },
+  { key: "tomorrow", label: "Tomorrow" },
+  { key: "thisWeek", label: "This week" },
+  { key: "later", label: "Later" },
+  { key: "none", label: "No date" },
+] as const;
+
+export type DueGroupKey = (typeof DUE_GROUPS)[number]["key"];
+
+// Pads a number with a leading zero, e.g. 7 -> "07". Used to build "YYYY-MM-DD" strings.
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Truncates a date to midnight UTC. The server runs every all-day due date through this
+// helper, so a client that sends "2025-01-31T13:45Z" for an all-day task still stores the
+// canonical "2025-01-31T00:00Z".
+export function toAllDayDate(date: Date) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+// Returns the calendar date a task is due on, as seen in the given time zone.
+export function getDueCalendarDate(dueAt: Date, dueAllDay: boolean, timeZone: string): CalendarDate {
+  return getZonedParts(dueAt, dueAllDay ? "UTC" : timeZone);
+}
+
+// Converts the values of a date input ("YYYY-MM-DD") and an optional time input ("HH:MM")
+// into the stored due-date fields. An empty date means "no due date"; a date without a time
+// means an all-day task. The time is interpreted as wall-clock time in the user's time zone.
+export function buildDueFields(date: string, time: string, timeZone: string): DueFields {
+  const [year, month, day] = date.split("-").map(Number);
+  if (!year || !month || !day) return { dueAt: null, dueAllDay: false };
+  if (!time) return { dueAt: new Date(Date.UTC(year, month - 1, day)), dueAllDay: true };
+  const [hour = 0, minute = 0] = time.split(":").map(Number);
+  return { dueAt: zonedTimeToUtc({ year, month, day, hour, minute }, timeZone), dueAllDay: false };
+}
+
+// The reverse of `buildDueFields`: turns the stored fields back into the strings a date
+// input and a time input expect, so an existing due date can be edited.
+export function splitDueFields({ dueAt, dueAllDay }: DueFields, timeZone: string) {
+  if (!dueAt) return { date: "", time: "" };
+  const p = getZonedParts(dueAt, dueAllDay ? "UTC" : timeZone);
+  return {
+    date: `${p.year}-${pad(p.month)}-${pad(p.day)}`,
+    time: dueAllDay ? "" : `${pad(p.hour)}:${pad(p.minute)}`,
+  };
+}
+
+// Decides which group a task belongs in, relative to `now`, in the user's time zone.
+//
+// - "overdue": a timed task whose instant has passed, or an all-day task whose date is
+//   before today.
+// - "today" / "tomorrow": due on the current / next calendar day.
+// - "thisWeek": due within the rest of the coming seven days (2 to 6 days from today).
+// - "later": due a week or more from today.
+// - "none": the task has no due date.
+export function getDueGroup({ dueAt, dueAllDay }: DueFields, timeZone: string, now: Date): DueGroupKey {
+  if (!dueAt) return "none";
+  if (!dueAllDay && dueAt.getTime() < now.getTime()) return "overdue";
+  const days = diffCalendarDays(
+    getZonedParts(now, timeZone),
+    getDueCalendarDate(dueAt, dueAllDay, timeZone),
+  );
+  if (days < 0) return "overdue";
+  if (days === 0) return "today";
+  if (days === 1) return "tomorrow";
+  if (days < 7) return "thisWeek";
+  return "later";
+}
+
+// Splits a list of tasks into the `DUE_GROUPS`, in the groups' fixed order. Tasks keep their
+// original relative order inside each group, and empty groups are left out entirely.
+export function groupTasksByDue<T extends DueFields>(tasks: T[], timeZone: string, now: Date) {
+  const buckets = new Map<DueGroupKey, T[]>();
+  for (const task of tasks) {
+    const key = getDueGroup(task, timeZone, now);
+    buckets.set(key, [...(buckets.get(key) ?? []), task]);
+  }
+  return DUE_GROUPS.flatMap((group) => {
+    const groupTasks = buckets.get(group.key);
+    return groupTasks ? [{ ...group, tasks: groupTasks }] : [];
+  });
+}
+
+// Formats a due date as a short, human-readable label such as "Fri, Jan 31" or
+// "Fri, Jan 31, 5:00 PM", in the user's time zone (all-day dates are always read as UTC).
+export function formatDue({ dueAt, dueAllDay }: DueFields, timeZone: string) {
+  if (!dueAt) return "";
+  return new Intl.DateTimeFormat(undefined, {
+    timeZone: dueAllDay ? "UTC" : timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    ...(dueAllDay ? {} : { hour: "numeric", minute: "2-digit" }),
+  }).format(dueAt);
+}
@@ -98,3 +98,28 @@ export async function sendVerificationEmail(email: string, token: string) {
     html: `<p>Click the link below to verify your email:</p><p><a href="${verifyUrl}">${verifyUrl}</a></p>`,
   });
 }
+
+// Escapes text for use inside the HTML body of an email. List names and user names are typed by
+// users, so they must never be inserted as raw HTML.
+function escapeHtml(text: string) {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+// Sends the invitation to a shared list (see `sharing.invite`). The link opens `/invite/<token>`,
+// which adds the signed-in user to the list. `role` is the label of the role they are invited
+// with (e.g. "Editor"), and `inviterName` the name (or email) of the user who sent it.
+export async function sendListInviteEmail(
+  email: string,
+  { token, listName, inviterName, role }: { token: string; listName: string; inviterName: string; role: string },
+) {
+  const inviteUrl = `${process.env.NEXT_PUBLIC_APP_URL}/invite/${token}`;
+  await transporter.sendMail({
+    from: `"No Reply" <${process.env.EMAIL_FROM}>`,
+    to: email,
+    // The subject is plain text, so it needs no escaping.
+    subject: `${inviterName} shared the list "${listName}" with you`,
+    html:
+      `<p>${escapeHtml(inviterName)} invited you to the list <strong>${escapeHtml(listName)}</strong> as ${escapeHtml(role)}.</p>` +
+      `<p>Open the link below to accept the invitation:</p><p><a href="${inviteUrl}">${inviteUrl}</a></p>`,
+  });
+}
@@ -0,0 +1,71 @@
+// This file contains the tests of the VTIMEZONE components that the calendar feed writes for the
+// `TZID` of recurring tasks (`buildVTimezone` in `src/lib/ical.ts`).
+
+import { test, expect } from "@playwright/test";
+import { buildVTimezone, formatCalendar, type ICalComponent } from "~/lib/ical";
+
+// The observances of a VTIMEZONE, each as an object of its property values.
+function observances(component: ICalComponent): Record<string, string>[] {
+  return (component.components ?? []).map(({ name, properties }) => ({
+    name,
+    ...Object.fromEntries(properties.map((property) => [property.name, property.value])),
+  }));
+}
+
+test.describe("buildVTimezone", () => {
+  test("a zone with daylight saving time gets yearly rules", () => {
+    const component = buildVTimezone("America/New_York", 2026);
+    expect(component.properties).toEqual([{ name: "TZID", value: "America/New_York" }]);
+    expect(observances(component)).toEqual([
+      {
+        name: "DAYLIGHT",
+        DTSTART: "19700308T020000",
+        TZOFFSETFROM: "-0500",
+        TZOFFSETTO: "-0400",
+        RRULE: "FREQ=YEARLY;BYMONTH=3;BYDAY=2SU",
+      },
+      {
+        name: "STANDARD",
+        DTSTART: "19701101T020000",
+        TZOFFSETFROM: "-0400",
+        TZOFFSETTO: "-0500",
+        RRULE: "FREQ=YEARLY;BYMONTH=11;BYDAY=1SU",
+      },
+    ]);
+  });
+
+  test("a change on the last weekday of the month gets a -1 ordinal", () => {
+    expect(observances(buildVTimezone("Europe/Berlin", 2026)).map((o) => o.RRULE)).toEqual([
+      "FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU",
+      "FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU",
+    ]);
+  });
+
+  test("a southern zone starts the year in daylight saving time", () => {
+    expect(observances(buildVTimezone("Australia/Sydney", 2026))).toMatchObject([
+      { name: "STANDARD", TZOFFSETFROM: "+1100", TZOFFSETTO: "+1000" },
+      { name: "DAYLIGHT", TZOFFSETFROM: "+1000", TZOFFSETTO: "+1100" },
+    ]);
+  });
+
+  test("a zone without changes has one observance", () => {
+    expect(observances(buildVTimezone("Asia/Kolkata", 2026))).toEqual([
+      { name: "STANDARD", DTSTART: "19700101T000000", TZOFFSETFROM: "+0530", TZOFFSETTO: "+0530" },
+    ]);
+  });
+
+  test("the changes of a zone without yearly rules are listed one by one", () => {
+    // Morocco changes its offset around Ramadan, which moves through the solar year.
+    const listed = observances(buildVTimezone("Africa/Casablanca", 2026));
+    expect(listed[0]).toEqual({ name: "STANDARD", DTSTART: "19700101T000000", TZOFFSETFROM: "+0100", TZOFFSETTO: "+0100" });
+    expect(listed.length).toBeGreaterThan(4);
+    expect(listed.slice(1).every((o) => !("RRULE" in o))).toBe(true);
+    expect(listed[1]).toMatchObject({ DTSTART: "20260215T030000", TZOFFSETFROM: "+0100", TZOFFSETTO: "+0000" });
+  });
+
+  test("the observances are nested in the VTIMEZONE", () => {
+    const lines = formatCalendar([], [buildVTimezone("Europe/Berlin", 2026)]).split("\r\n");
+    expect(lines.slice(0, 4)).toEqual(["BEGIN:VCALENDAR", "BEGIN:VTIMEZONE", "TZID:Europe/Berlin", "BEGIN:DAYLIGHT"]);
+    expect(lines.slice(-4)).toEqual(["END:STANDARD", "END:VTIMEZONE", "END:VCALENDAR", ""]);
+  });
+});
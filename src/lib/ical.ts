@@ -0,0 +1,219 @@
+// A minimal writer for iCalendar (RFC 5545) files, used by the calendar feed
+// (`src/server/calendar-feed.ts`). A calendar is a list of components (VTODO, VEVENT), each a list
+// of properties such as `SUMMARY:Buy milk` or `DUE;VALUE=DATE:20261021`.
+
+import { getOffsetMs, getZonedParts } from "~/lib/timezone";
+
+// One property: its name, its already formatted value, and optional parameters
+// (`{ VALUE: "DATE" }` becomes `;VALUE=DATE`).
+export type ICalProperty = { name: string; value: string; params?: Record<string, string> };
+
+// A component, with its nested components (the STANDARD and DAYLIGHT parts of a VTIMEZONE).
+export type ICalComponent = { name: string; properties: ICalProperty[]; components?: ICalComponent[] };
+
+// Escapes a TEXT value: backslashes, semicolons, commas and line breaks.
+export function escapeText(text: string) {
+  return text.replace(/[\\;,]/g, (char) => `\\${char}`).replace(/\r?\n/g, "\\n");
+}
+
+const pad = (n: number, length = 2) => String(n).padStart(length, "0");
+
+// A DATE value ("20261021") of a day stored as midnight UTC (an all-day due date).
+export function formatICalDate(date: Date) {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+}
+
+// A DATE-TIME value in UTC ("20261021T150000Z").
+export function formatICalDateTime(date: Date) {
+  const time = `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`;
+  return `${formatICalDate(date)}T${time}Z`;
+}
+
+// A DATE-TIME value in the wall-clock time of `timeZone` ("20261021T170000"), to be written with a
+// `TZID` parameter.
+export function formatICalLocalDateTime(date: Date, timeZone: string) {
+  const p = getZonedParts(date, timeZone);
+  return `${pad(p.year, 4)}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`;
+}
+
+// A UTC offset value ("+0100", "-0430").
+function formatUtcOffset(offsetMs: number) {
+  const minutes = Math.round(Math.abs(offsetMs) / 60_000);
+  return `${offsetMs < 0 ? "-" : "+"}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`;
+}
+
+// A change of a time zone's UTC offset: the instant it happens, and the offsets before and after.
+type OffsetChange = { at: number; from: number; to: number };
+
+const DAY_MS = 86_400_000;
+
+// Returns the offset changes of a time zone during a (UTC) year. The offset is checked once a
+// day, and every change is then narrowed down to the minute.
+function findOffsetChanges(timeZone: string, year: number) {
+  const changes: OffsetChange[] = [];
+  const end = Date.UTC(year + 1, 0, 1);
+  let offset = getOffsetMs(Date.UTC(year, 0, 1), timeZone);
+  for (let day = Date.UTC(year, 0, 1); day < end; day += DAY_MS) {
+    const next = getOffsetMs(day + DAY_MS, timeZone);
+    if (next !== offset) {
+      let low = day;
+      let high = day + DAY_MS;
+      while (high - low > 60_000) {
+        const middle = low + Math.floor((high - low) / 120_000) * 60_000;
+        if (getOffsetMs(middle, timeZone) === offset) low = middle;
+        else high = middle;
+      }
+      changes.push({ at: high, from: offset, to: next });
+    }
+    offset = next;
+  }
+  return changes;
+}
+
+// The yearly rule of an offset change, e.g. "the last Sunday of March at 02:00": its month, its
+// weekday (0 = Sunday) and which one of the month (1 = first, ..., -1 = last), and its wall-clock
+// time (in the offset before the change, as RFC 5545 wants).
+type YearlyChange = { month: number; weekday: number; ordinal: number; hour: number; minute: number };
+
+function getYearlyChange({ at, from }: OffsetChange): YearlyChange {
+  const local = new Date(at + from);
+  const year = local.getUTCFullYear();
+  const month = local.getUTCMonth() + 1;
+  const day = local.getUTCDate();
+  const isLast = day + 7 > new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return {
+    month,
+    weekday: local.getUTCDay(),
+    ordinal: isLast ? -1 : Math.ceil(day / 7),
+    hour: local.getUTCHours(),
+    minute: local.getUTCMinutes(),
+  };
+}
+
+// The wall-clock time of a yearly change in a given year, as a Date whose UTC fields hold it.
+function getYearlyChangeTime(change: YearlyChange, year: number) {
+  let day: number;
+  if (change.ordinal > 0) {
+    const first = new Date(Date.UTC(year, change.month - 1, 1)).getUTCDay();
+    day = 1 + ((change.weekday - first + 7) % 7) + (change.ordinal - 1) * 7;
+  } else {
+    const length = new Date(Date.UTC(year, change.month, 0)).getUTCDate();
+    const last = new Date(Date.UTC(year, change.month - 1, length)).getUTCDay();
+    day = length - ((last - change.weekday + 7) % 7);
+  }
+  return new Date(Date.UTC(year, change.month - 1, day, change.hour, change.minute));
+}
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// One STANDARD or DAYLIGHT part of a VTIMEZONE. `start` holds the wall-clock time of its onset
+// in its UTC fields.
+function observance(start: Date, from: number, to: number, rrule?: string): ICalComponent {
+  return {
+    name: to > from ? "DAYLIGHT" : "STANDARD",
+    properties: [
+      { name: "DTSTART", value: formatICalLocalDateTime(start, "UTC") },
+      { name: "TZOFFSETFROM", value: formatUtcOffset(from) },
+      { name: "TZOFFSETTO", value: formatUtcOffset(to) },
+      ...(rrule ? [{ name: "RRULE", value: rrule }] : []),
+    ],
+  };
+}
+
+// How many years a VTIMEZONE lists the offset changes of a zone whose changes don't follow a
+// yearly rule (see `buildVTimezone`).
+const IRREGULAR_ZONE_YEARS = 5;
+
+// Builds the VTIMEZONE component that every `TZID` parameter needs: the offsets of the time zone,
+// and when they change. Most zones change on fixed weekdays ("the last Sunday of March"), which
+// is written as yearly rules; they are derived from `year`, and used only if the next year
+// follows them too. The changes of the other zones (e.g., ones that follow a lunar calendar) are
+// listed one by one, from `year` on.
+export function buildVTimezone(timeZone: string, year: number): ICalComponent {
+  const component = (observances: ICalComponent[]): ICalComponent => ({
+    name: "VTIMEZONE",
+    properties: [{ name: "TZID", value: timeZone }],
+    components: observances,
+  });
+  const epoch = new Date(Date.UTC(1970, 0, 1));
+
+  const changes = findOffsetChanges(timeZone, year);
+  if (changes.length === 0) {
+    const offset = getOffsetMs(Date.UTC(year, 0, 1), timeZone);
+    return component([observance(epoch, offset, offset)]);
+  }
+
+  const rules = changes.map(getYearlyChange);
+  const nextChanges = findOffsetChanges(timeZone, year + 1);
+  const isYearly =
+    nextChanges.length === changes.length &&
+    rules.every((rule, i) => {
+      const next = nextChanges[i]!;
+      return (
+        next.from === changes[i]!.from &&
+        next.to === changes[i]!.to &&
+        next.at + next.from === getYearlyChangeTime(rule, year + 1).getTime()
+      );
+    });
+  if (isYearly) {
+    return component(
+      rules.map((rule, i) =>
+        observance(
+          getYearlyChangeTime(rule, 1970),
+          changes[i]!.from,
+          changes[i]!.to,
+          `FREQ=YEARLY;BYMONTH=${rule.month};BYDAY=${rule.ordinal}${WEEKDAY_CODES[rule.weekday]}`,
+        ),
+      ),
+    );
+  }
+
+  // The offset before the first listed change applies to all of the earlier times.
+  const listed = [...changes];
+  for (let i = 1; i < IRREGULAR_ZONE_YEARS; i++) listed.push(...findOffsetChanges(timeZone, year + i));
+  return component([
+    observance(epoch, changes[0]!.from, changes[0]!.from),
+    ...listed.map(({ at, from, to }) => observance(new Date(at + from), from, to)),
+  ]);
+}
+
+// Lines longer than 75 octets are folded: continued on the next line after a space. The split
+// never falls inside a UTF-8 character.
+const MAX_LINE_OCTETS = 75;
+const encoder = new TextEncoder();
+
+function foldLine(line: string) {
+  const lines: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their length.
+    if (octets + size > MAX_LINE_OCTETS) {
+      lines.push(current);
+      current = " ";
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join("\r\n");
+}
+
+function formatProperty({ name, value, params = {} }: ICalProperty) {
+  const paramText = Object.entries(params)
+    .map(([key, param]) => `;${key}=${param}`)
+    .join("");
+  return foldLine(`${name}${paramText}:${value}`);
+}
+
+function formatComponent({ name, properties, components = [] }: ICalComponent): string[] {
+  return [`BEGIN:${name}`, ...properties.map(formatProperty), ...components.flatMap(formatComponent), `END:${name}`];
+}
+
+// Formats a whole calendar (a VCALENDAR) with CRLF line endings.
+export function formatCalendar(properties: ICalProperty[], components: ICalComponent[]) {
+  const lines = formatComponent({ name: "VCALENDAR", properties, components });
+  return lines.join("\r\n") + "\r\n";
+}
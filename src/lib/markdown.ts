@@ -0,0 +1,35 @@
+// Helpers for the Markdown notes of a task that work on the raw Markdown text. Rendering
+// happens in `src/components/MarkdownNotes.tsx`.
+
+// Matches a checklist item ("- [ ] Buy milk", "1. [x] Call Bob", "> * [X] quoted item"):
+// group 1 is everything up to the opening "[", group 2 the box's state (" ", "x" or "X").
+const CHECKLIST_ITEM = /^((?:\s*>)*\s*(?:[-*+]|\d{1,9}[.)])\s+\[)([ xX])\]/;
+
+// Returns `markdown` with the checklist item on the given line (1-based, as reported by the
+// Markdown parser) checked or unchecked. Every other character is left exactly as it was, so
+// toggling a box never reformats the rest of the notes. If that line is not a checklist item
+// (e.g., the notes changed in the meantime), the text is returned unchanged.
+export function toggleChecklistItem(markdown: string, line: number, checked: boolean) {
+  const lines = markdown.split("\n");
+  const text = lines[line - 1];
+  if (text === undefined || !CHECKLIST_ITEM.test(text)) return markdown;
+  lines[line - 1] = text.replace(CHECKLIST_ITEM, (_, prefix: string) => `${prefix}${checked ? "x" : " "}]`);
+  return lines.join("\n");
+}
+
+// Counts the checklist items in `markdown` and how many of them are checked, for the
+// "2/5" badge next to a task that has a checklist in its notes.
+export function getChecklistProgress(markdown: string) {
+  let done = 0;
+  let total = 0;
+  let inFence = false;
+  for (const text of markdown.split("\n")) {
+    // Checkboxes inside fenced code blocks are just text, like in the rendered notes.
+    if (/^\s*(```|~~~)/.test(text)) inFence = !inFence;
+    const match = inFence ? null : CHECKLIST_ITEM.exec(text);
+    if (!match) continue;
+    total++;
+    if (match[2] !== " ") done++;
+  }
+  return { done, total };
+}
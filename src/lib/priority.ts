@@ -0,0 +1,18 @@
+// This file lists the task priority levels and how each one is shown in the UI. It is shared
+// by the server (Zod validation) and the client (pickers and labels).
+//
+// The values match the `TaskPriority` enum in `prisma/schema.prisma` exactly, and are listed
+// in the same, ascending order. Postgres sorts enum values in their declaration order, so
+// sorting by priority "desc" puts "urgent" first and "none" last.
+export const TASK_PRIORITIES = ["none", "low", "medium", "high", "urgent"] as const;
+
+export type TaskPriority = (typeof TASK_PRIORITIES)[number];
+
+// The label and text color used for each priority in the task list and the pickers.
+export const PRIORITY_DISPLAY: Record<TaskPriority, { label: string; className: string }> = {
+  none: { label: "No priority", className: "text-gray-400" },
+  low: { label: "Low", className: "text-sky-400" },
+  medium: { label: "Medium", className: "text-yellow-400" },
+  high: { label: "High", className: "text-orange-400" },
+  urgent: { label: "Urgent", className: "text-red-400" },
+};
@@ -0,0 +1,234 @@
+// This file contains the table-driven tests of the quick-add parser (`src/lib/quick-add.ts`).
+// The parser is a pure function, so these tests don't open a page: each row of a table is some
+// typed text, the time zone and locale to parse it in, and the task fields it must produce.
+//
+// Every test parses against the same fixed moment, Monday 2026-10-19 at 14:00 UTC (10:00 in
+// New York, 16:00 in Berlin), so the expected dates never depend on when the tests run.
+
+import { test, expect } from "@playwright/test";
+import { parseQuickAdd, type QuickAddResult } from "~/lib/quick-add";
+
+const NOW = new Date("2026-10-19T14:00:00Z");
+
+const LISTS = [
+  { id: "inbox", name: "Inbox" },
+  { id: "work", name: "Work" },
+  { id: "home-office", name: "Home office" },
+];
+
+type Case = {
+  text: string;
+  timeZone?: string;
+  locale?: string;
+
+  // The expected fields; the ones left out must be empty (no due date, no tags, ...). A due
+  // date is written as an ISO date for an all-day date, or an ISO timestamp for a time.
+  title: string;
+  due?: string;
+  recurrence?: string;
+  tags?: string[];
+  priority?: QuickAddResult["priority"];
+  listId?: string;
+};
+
+function runCases(cases: Case[]) {
+  for (const c of cases) {
+    const zone = c.timeZone ?? "UTC";
+    const locale = c.locale ?? "en-US";
+    test(`"${c.text}" (${zone}, ${locale})`, () => {
+      const result = parseQuickAdd(c.text, { now: NOW, timeZone: zone, locale, lists: LISTS });
+      const due =
+        result.due && (result.due.dueAllDay ? result.due.dueAt.toISOString().slice(0, 10) : result.due.dueAt.toISOString());
+      expect({ ...result, due }).toEqual({
+        title: c.title,
+        due: c.due ?? null,
+        recurrence: c.recurrence ?? null,
+        tags: c.tags ?? [],
+        priority: c.priority ?? null,
+        listId: c.listId ?? null,
+      });
+    });
+  }
+}
+
+test.describe("quick add: relative dates", () => {
+  runCases([
+    { text: "Buy milk today", title: "Buy milk", due: "2026-10-19" },
+    { text: "Buy milk tomorrow", title: "Buy milk", due: "2026-10-20" },
+    { text: "Buy milk tmrw", title: "Buy milk", due: "2026-10-20" },
+    { text: "Buy milk TOMORROW", title: "Buy milk", due: "2026-10-20" },
+    { text: "Buy milk due tomorrow", title: "Buy milk", due: "2026-10-20" },
+    { text: "Report in 3 days", title: "Report", due: "2026-10-22" },
+    { text: "Report in a week", title: "Report", due: "2026-10-26" },
+    { text: "Report in 2 weeks", title: "Report", due: "2026-11-02" },
+    { text: "Report in one month", title: "Report", due: "2026-11-19" },
+    { text: "Report in 1 year", title: "Report", due: "2027-10-19" },
+  ]);
+});
+
+test.describe("quick add: weekdays", () => {
+  runCases([
+    { text: "Report friday", title: "Report", due: "2026-10-23" },
+    { text: "Report fri", title: "Report", due: "2026-10-23" },
+    { text: "Report next fri", title: "Report", due: "2026-10-23" },
+    { text: "Report on Thursday", title: "Report", due: "2026-10-22" },
+    // Today is a Monday: "monday" is next week, "this monday" is today.
+    { text: "Report monday", title: "Report", due: "2026-10-26" },
+    { text: "Report this mon", title: "Report", due: "2026-10-19" },
+    { text: "Report next monday", title: "Report", due: "2026-10-26" },
+    // "sun", "sat" and "wed" are only weekdays with a word in front.
+    { text: "Sat down with Sam", title: "Sat down with Sam" },
+    { text: "Dinner on sat", title: "Dinner", due: "2026-10-24" },
+    { text: "Dinner next sun", title: "Dinner", due: "2026-10-25" },
+    { text: "Get wed", title: "Get wed" },
+    { text: "Mondays are long", title: "Mondays are long" },
+  ]);
+});
+
+test.describe("quick add: calendar dates", () => {
+  runCases([
+    { text: "Taxes oct 21", title: "Taxes", due: "2026-10-21" },
+    { text: "Taxes October 21st", title: "Taxes", due: "2026-10-21" },
+    { text: "Taxes 21 oct", title: "Taxes", due: "2026-10-21" },
+    { text: "Taxes 21st of October", title: "Taxes", due: "2026-10-21" },
+    { text: "Taxes oct 19", title: "Taxes", due: "2026-10-19" },
+    // A date that has passed this year is next year's.
+    { text: "Taxes april 15", title: "Taxes", due: "2027-04-15" },
+    { text: "Taxes apr 15, 2028", title: "Taxes", due: "2028-04-15" },
+    { text: "Taxes 2026-12-31", title: "Taxes", due: "2026-12-31" },
+    { text: "Leap day feb 29", title: "Leap day", due: "2028-02-29" },
+    { text: "Party feb 30", title: "Party feb 30" },
+    { text: "Taxes 2026-13-01", title: "Taxes 2026-13-01" },
+    { text: "May the force be with you", title: "May the force be with you" },
+  ]);
+});
+
+test.describe("quick add: numeric dates follow the locale", () => {
+  runCases([
+    { text: "Rent on 11/1", locale: "en-US", title: "Rent", due: "2026-11-01" },
+    { text: "Rent on 11/1", locale: "en-GB", title: "Rent", due: "2027-01-11" },
+    { text: "Rent on 1/11", locale: "en-GB", title: "Rent", due: "2026-11-01" },
+    { text: "Rent by 25/12", locale: "de-DE", title: "Rent", due: "2026-12-25" },
+    { text: "Rent 12/25/2027", locale: "en-US", title: "Rent", due: "2027-12-25" },
+    { text: "Rent 25/12/27", locale: "en-GB", title: "Rent", due: "2027-12-25" },
+    // Without a year or a word in front, a fraction is just text.
+    { text: "Add 1/2 cup of sugar", title: "Add 1/2 cup of sugar" },
+    { text: "Rent on 13/13", title: "Rent on 13/13" },
+  ]);
+});
+
+test.describe("quick add: times", () => {
+  runCases([
+    { text: "Call mom tomorrow 5pm", title: "Call mom", due: "2026-10-20T17:00:00.000Z" },
+    { text: "Call mom tomorrow at 5:30 PM", title: "Call mom", due: "2026-10-20T17:30:00.000Z" },
+    { text: "Call mom 5 pm tomorrow", title: "Call mom", due: "2026-10-20T17:00:00.000Z" },
+    { text: "Call mom tomorrow 17:00", title: "Call mom", due: "2026-10-20T17:00:00.000Z" },
+    { text: "Lunch tomorrow noon", title: "Lunch", due: "2026-10-20T12:00:00.000Z" },
+    { text: "Backup fri midnight", title: "Backup", due: "2026-10-23T00:00:00.000Z" },
+    { text: "Call 12am", title: "Call", due: "2026-10-20T00:00:00.000Z" },
+    // A time alone is today, or tomorrow once it has passed (it is 14:00).
+    { text: "Call at 3pm", title: "Call", due: "2026-10-19T15:00:00.000Z" },
+    { text: "Call at 1pm", title: "Call", due: "2026-10-20T13:00:00.000Z" },
+    { text: "Call at 2pm", title: "Call", due: "2026-10-20T14:00:00.000Z" },
+    { text: "Score 13:75", title: "Score 13:75" },
+    { text: "Read chapter 13pm", title: "Read chapter 13pm" },
+  ]);
+});
+
+test.describe("quick add: time zones", () => {
+  runCases([
+    // The time is wall-clock time in the user's zone.
+    { text: "Call tomorrow 5pm", timeZone: "America/New_York", title: "Call", due: "2026-10-20T21:00:00.000Z" },
+    { text: "Call tomorrow 5pm", timeZone: "Europe/Berlin", title: "Call", due: "2026-10-20T15:00:00.000Z" },
+    // It is 10:00 in New York and 16:00 in Berlin.
+    { text: "Call at 11am", timeZone: "America/New_York", title: "Call", due: "2026-10-19T15:00:00.000Z" },
+    { text: "Call at 11am", timeZone: "Europe/Berlin", title: "Call", due: "2026-10-20T09:00:00.000Z" },
+    // Across the end of daylight saving time (October 25 in Berlin, November 1 in New York).
+    { text: "Call nov 2 9am", timeZone: "America/New_York", title: "Call", due: "2026-11-02T14:00:00.000Z" },
+    { text: "Call oct 26 9am", timeZone: "Europe/Berlin", title: "Call", due: "2026-10-26T08:00:00.000Z" },
+    // "Today" is the date in the user's zone: still Monday in Tokyo (23:00), already Tuesday
+    // in Kiritimati (04:00).
+    { text: "Call today", timeZone: "Asia/Tokyo", title: "Call", due: "2026-10-19" },
+    { text: "Call today", timeZone: "Pacific/Kiritimati", title: "Call", due: "2026-10-20" },
+    { text: "Call tue", timeZone: "Pacific/Kiritimati", title: "Call", due: "2026-10-27" },
+    { text: "Call tomorrow", timeZone: "Pacific/Honolulu", title: "Call", due: "2026-10-20" },
+  ]);
+});
+
+test.describe("quick add: recurrence", () => {
+  runCases([
+    { text: "Pills every day", title: "Pills", recurrence: "FREQ=DAILY", due: "2026-10-19" },
+    { text: "Pills every day at 9am", title: "Pills", recurrence: "FREQ=DAILY", due: "2026-10-20T09:00:00.000Z" },
+    { text: "Pills every day at 8pm", title: "Pills", recurrence: "FREQ=DAILY", due: "2026-10-19T20:00:00.000Z" },
+    { text: "Water plants every 3 days", title: "Water plants", recurrence: "FREQ=DAILY;INTERVAL=3", due: "2026-10-19" },
+    { text: "Review every week", title: "Review", recurrence: "FREQ=WEEKLY", due: "2026-10-19" },
+    { text: "Review every other week", title: "Review", recurrence: "FREQ=WEEKLY;INTERVAL=2", due: "2026-10-19" },
+    { text: "Rent every month", title: "Rent", recurrence: "FREQ=MONTHLY", due: "2026-10-19" },
+    { text: "Birthday every year oct 30", title: "Birthday", recurrence: "FREQ=YEARLY", due: "2026-10-30" },
+    { text: "Gym every monday", title: "Gym", recurrence: "FREQ=WEEKLY;BYDAY=MO", due: "2026-10-19" },
+    { text: "Gym every friday 7am", title: "Gym", recurrence: "FREQ=WEEKLY;BYDAY=FR", due: "2026-10-23T07:00:00.000Z" },
+    { text: "Gym every mon 7am", title: "Gym", recurrence: "FREQ=WEEKLY;BYDAY=MO", due: "2026-10-26T07:00:00.000Z" },
+    { text: "Gym every thu and mon", title: "Gym", recurrence: "FREQ=WEEKLY;BYDAY=MO,TH", due: "2026-10-19" },
+    { text: "Gym every tue, thu & sat", title: "Gym", recurrence: "FREQ=WEEKLY;BYDAY=TU,TH,SA", due: "2026-10-20" },
+    {
+      text: "Standup every weekday 9:30am",
+      timeZone: "America/New_York",
+      title: "Standup",
+      recurrence: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR",
+      due: "2026-10-20T13:30:00.000Z",
+    },
+    { text: "Chores every weekend", title: "Chores", recurrence: "FREQ=WEEKLY;BYDAY=SA,SU", due: "2026-10-24" },
+    { text: "Every sunday counts", title: "counts", recurrence: "FREQ=WEEKLY;BYDAY=SU", due: "2026-10-25" },
+    { text: "Everyday things", title: "Everyday things" },
+  ]);
+});
+
+test.describe("quick add: tags, priority and list", () => {
+  runCases([
+    { text: "Buy milk #errands #home", title: "Buy milk", tags: ["errands", "home"] },
+    { text: "Buy milk #Errands #errands", title: "Buy milk", tags: ["errands"] },
+    { text: "Fix bug !high", title: "Fix bug", priority: "high" },
+    { text: "Fix bug !URGENT", title: "Fix bug", priority: "urgent" },
+    { text: "Fix bug !med", title: "Fix bug", priority: "medium" },
+    { text: "Fix bug !1", title: "Fix bug", priority: "urgent" },
+    { text: "Fix bug !4", title: "Fix bug", priority: "low" },
+    { text: "Fix bug !5", title: "Fix bug !5" },
+    { text: "Wow!high", title: "Wow!high" },
+    // Only the first one counts.
+    { text: "Fix bug !low !high", title: "Fix bug !high", priority: "low" },
+    { text: "Plan @work", title: "Plan", listId: "work" },
+    { text: "Plan @WORK", title: "Plan", listId: "work" },
+    { text: "Plan @Home office chairs", title: "Plan chairs", listId: "home-office" },
+    { text: "Plan @garden", title: "Plan @garden" },
+    { text: "Email bob@work.com", title: "Email bob@work.com" },
+    { text: "Plan @workshop", title: "Plan @workshop" },
+  ]);
+});
+
+test.describe("quick add: everything together", () => {
+  runCases([
+    {
+      text: "Call mom tomorrow 5pm #family !high @inbox",
+      title: "Call mom",
+      due: "2026-10-20T17:00:00.000Z",
+      tags: ["family"],
+      priority: "high",
+      listId: "inbox",
+    },
+    {
+      text: "!2 @Work Quarterly report every 3 months #finance",
+      timeZone: "Europe/Berlin",
+      title: "Quarterly report",
+      recurrence: "FREQ=MONTHLY;INTERVAL=3",
+      due: "2026-10-19",
+      tags: ["finance"],
+      priority: "high",
+      listId: "work",
+    },
+    // A second date or time stays in the title.
+    { text: "Move meeting from fri to mon", title: "Move meeting from to mon", due: "2026-10-23" },
+    { text: "Nothing to see here", title: "Nothing to see here" },
+    { text: "  spaced   out   tomorrow  ", title: "spaced out", due: "2026-10-20" },
+    { text: "tomorrow", title: "", due: "2026-10-20" },
+  ]);
+});
@@ -0,0 +1,377 @@
+// This file contains the quick-add parser: it turns what the user types into the "add task"
+// input into the fields of a new task, e.g.
+//
+//   "Call mom tomorrow 5pm #family !high"
+//     -> title "Call mom", due tomorrow at 17:00, tag "family", priority high
+//
+// What it understands (case-insensitive, English):
+// - Dates: "today", "tomorrow" ("tmr", "tmrw"), weekdays ("friday", "fri", "next fri", "this fri",
+//   "on fri"), "in 3 days" / "in 2 weeks" / "in a month" / "in 1 year", month names ("oct 21",
+//   "21 october", "oct 21 2027"), ISO dates ("2026-10-21"), and numeric dates in the order of the
+//   user's locale ("10/21" in en-US, "21/10" in en-GB), which need a year or an "on"/"by"/"due"
+//   in front, so that "1/2 cup" stays in the title.
+//   A weekday is the next such day after today ("fri" on a Friday is a week away); "this fri" may
+//   be today. A month and day without a year is the next such date, today included. "sun", "sat"
+//   and "wed" are also English words, so they only count with "on", "next", "this" or "by".
+// - Times: "5pm", "5:30 pm", "17:00", "noon", "midnight", optionally after "at". A time without a
+//   date is today, or tomorrow if that time has already passed.
+// - Recurrence: "every day", "every 2 weeks", "every other month", "every year", "every weekday",
+//   "every weekend", "every monday", "every mon and thu". A recurring task without a date is due
+//   on its first occurrence from today on.
+// - Tags: "#tag" (see `extractTags` in `src/lib/tags.ts`).
+// - Priority: "!urgent", "!high", "!medium" ("!med"), "!low", or "!1" (urgent) to "!4" (low).
+// - List: "@" followed by the name of one of the user's lists ("@work", "@Home office"). An "@"
+//   that doesn't name a list stays in the title, like an email address.
+//
+// Only the first date, time, recurrence, priority and list count; a second one stays in the
+// title. Everything that was recognized is removed from the title.
+//
+// The parser is deterministic: it never reads the clock or the runtime's time zone or language.
+// The current time, the user's time zone and locale are passed in, so the browser (for the live
+// preview) and Node (the test suite, or the server) get exactly the same result.
+
+import { extractTags } from "~/lib/tags";
+import { type TaskPriority } from "~/lib/priority";
+import { formatRRule, parseRRule, nextOccurrence, type RRule } from "~/lib/rrule";
+import {
+  addCalendarDays,
+  diffCalendarDays,
+  getWeekday,
+  getZonedParts,
+  zonedTimeToUtc,
+  type CalendarDate,
+} from "~/lib/timezone";
+
+export type QuickAddOptions = {
+  // The current time, and the user's IANA time zone and BCP 47 locale ("en-US").
+  now: Date;
+  timeZone: string;
+  locale: string;
+
+  // The user's lists, which "@list" can name.
+  lists?: { id: string; name: string }[];
+};
+
+export type QuickAddResult = {
+  title: string;
+  tags: string[];
+
+  // Stored like every due date: an all-day date is midnight UTC (see `src/lib/due-dates.ts`).
+  due: { dueAt: Date; dueAllDay: boolean } | null;
+  recurrence: string | null;
+  priority: TaskPriority | null;
+  listId: string | null;
+};
+
+type Time = { hour: number; minute: number };
+
+// What the matchers need to know besides the matched text.
+type Context = QuickAddOptions & { today: CalendarDate; dateOrder: "md" | "dm" };
+
+// A pattern, and the function that reads a match of it (or rejects it with `null`).
+type Matcher<T> = { pattern: string; read: (groups: Record<string, string | undefined>, ctx: Context) => T | null };
+
+type Span = { start: number; end: number };
+
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0, sun: 0,
+  monday: 1, mon: 1,
+  tuesday: 2, tues: 2, tue: 2,
+  wednesday: 3, wed: 3,
+  thursday: 4, thurs: 4, thur: 4, thu: 4,
+  friday: 5, fri: 5,
+  saturday: 6, sat: 6,
+};
+
+// Weekday abbreviations that are also English words.
+const AMBIGUOUS_WEEKDAYS = new Set(["sun", "sat", "wed"]);
+
+const MONTHS: Record<string, number> = {
+  january: 1, jan: 1,
+  february: 2, feb: 2,
+  march: 3, mar: 3,
+  april: 4, apr: 4,
+  may: 5,
+  june: 6, jun: 6,
+  july: 7, jul: 7,
+  august: 8, aug: 8,
+  september: 9, sept: 9, sep: 9,
+  october: 10, oct: 10,
+  november: 11, nov: 11,
+  december: 12, dec: 12,
+};
+
+const RRULE_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const PRIORITIES: Record<string, TaskPriority> = {
+  urgent: "urgent", "1": "urgent",
+  high: "high", "2": "high",
+  medium: "medium", med: "medium", "3": "medium",
+  low: "low", "4": "low",
+};
+
+const UNIT_FREQ = { day: "DAILY", week: "WEEKLY", month: "MONTHLY", year: "YEARLY" } as const;
+
+// Alternations of the names above, longest first, so "thursday" wins over "thu".
+const alternation = (words: string[]) =>
+  [...words].sort((a, b) => b.length - a.length).map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|");
+const WEEKDAY = `(?:${alternation(Object.keys(WEEKDAYS))})`;
+const MONTH = `(?:${alternation(Object.keys(MONTHS))})`;
+const ORDINAL = "(?:st|nd|rd|th)?";
+const PREFIX = "(?:(?<prefix>on|by|due)\\s+)?";
+
+const lower = (text: string | undefined) => (text ?? "").toLowerCase();
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// Returns the date, or `null` if it doesn't exist (e.g. February 30).
+function validDate(year: number, month: number, day: number): CalendarDate | null {
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) return null;
+  return { year, month, day };
+}
+
+// Adds months, keeping the day where possible (January 31 + 1 month = February 28 or 29).
+function addMonths(date: CalendarDate, months: number): CalendarDate {
+  const index = date.year * 12 + date.month - 1 + months;
+  const year = Math.floor(index / 12);
+  const month = (index % 12) + 1;
+  return { year, month, day: Math.min(date.day, daysInMonth(year, month)) };
+}
+
+// The next `weekday` after `today`, or today itself if `includeToday` is set and it matches.
+function nextWeekday(today: CalendarDate, weekday: number, includeToday: boolean) {
+  const days = (weekday - getWeekday(today) + 7) % 7;
+  return addCalendarDays(today, days === 0 && !includeToday ? 7 : days);
+}
+
+// A month and day without a year: this year, or next year if it has already passed (or the
+// next leap year, for February 29).
+function upcomingDate(today: CalendarDate, month: number, day: number, year: string | undefined) {
+  if (year) return validDate(Number(year), month, day);
+  for (let y = today.year; y <= today.year + 8; y++) {
+    const date = validDate(y, month, day);
+    if (date && diffCalendarDays(today, date) >= 0) return date;
+  }
+  return null;
+}
+
+// Whether the locale writes the day before the month in numeric dates ("21/10/2026").
+function getDateOrder(locale: string): "md" | "dm" {
+  try {
+    const parts = new Intl.DateTimeFormat(locale, { month: "numeric", day: "numeric", timeZone: "UTC" }).formatToParts(
+      new Date(Date.UTC(2000, 11, 31)),
+    );
+    const month = parts.findIndex((part) => part.type === "month");
+    const day = parts.findIndex((part) => part.type === "day");
+    return day < month ? "dm" : "md";
+  } catch {
+    return "md";
+  }
+}
+
+const DATE_MATCHERS: Matcher<CalendarDate>[] = [
+  {
+    pattern: `${PREFIX}(?<word>today|tomorrow|tmrw|tmr)`,
+    read: ({ word }, { today }) => (word?.toLowerCase() === "today" ? today : addCalendarDays(today, 1)),
+  },
+  {
+    pattern: `${PREFIX}(?:(?<which>next|this)\\s+)?(?<weekday>${WEEKDAY})`,
+    read: ({ prefix, which, weekday }, { today }) => {
+      const name = lower(weekday);
+      if (AMBIGUOUS_WEEKDAYS.has(name) && !prefix && !which) return null;
+      return nextWeekday(today, WEEKDAYS[name] ?? 0, lower(which) === "this");
+    },
+  },
+  {
+    pattern: "in\\s+(?<count>\\d{1,3}|an?|one)\\s+(?<unit>day|week|month|year)s?",
+    read: ({ count, unit }, { today }) => {
+      const n = /^\d+$/.test(count ?? "") ? Number(count) : 1;
+      switch (lower(unit)) {
+        case "day":
+          return addCalendarDays(today, n);
+        case "week":
+          return addCalendarDays(today, 7 * n);
+        case "month":
+          return addMonths(today, n);
+        default:
+          return addMonths(today, 12 * n);
+      }
+    },
+  },
+  {
+    pattern: `${PREFIX}(?<month>${MONTH})\\.?\\s+(?<day>\\d{1,2})${ORDINAL}(?:,?\\s+(?<year>\\d{4}))?`,
+    read: ({ month, day, year }, { today }) => upcomingDate(today, MONTHS[lower(month)] ?? 0, Number(day), year),
+  },
+  {
+    pattern: `${PREFIX}(?<day>\\d{1,2})${ORDINAL}\\s+(?:of\\s+)?(?<month>${MONTH})\\.?(?:,?\\s+(?<year>\\d{4}))?`,
+    read: ({ month, day, year }, { today }) => upcomingDate(today, MONTHS[lower(month)] ?? 0, Number(day), year),
+  },
+  {
+    pattern: `${PREFIX}(?<year>\\d{4})-(?<month>\\d{2})-(?<day>\\d{2})`,
+    read: ({ year, month, day }) => validDate(Number(year), Number(month), Number(day)),
+  },
+  {
+    pattern: `${PREFIX}(?<first>\\d{1,2})/(?<second>\\d{1,2})(?:/(?<year>\\d{4}|\\d{2}))?`,
+    read: ({ prefix, first, second, year }, { today, dateOrder }) => {
+      if (!prefix && !year) return null;
+      const [month, day] = dateOrder === "md" ? [Number(first), Number(second)] : [Number(second), Number(first)];
+      const fullYear = year?.length === 2 ? String(2000 + Number(year)) : year;
+      return upcomingDate(today, month, day, fullYear);
+    },
+  },
+];
+
+const TIME_MATCHERS: Matcher<Time>[] = [
+  {
+    pattern: "(?:at\\s+)?(?<hour>\\d{1,2})(?::(?<minute>\\d{2}))?\\s*(?<meridiem>am|pm|a\\.m\\.|p\\.m\\.)",
+    read: ({ hour, minute, meridiem }) => {
+      const h = Number(hour);
+      const m = Number(minute ?? 0);
+      if (h < 1 || h > 12 || m > 59) return null;
+      const pm = lower(meridiem).startsWith("p");
+      return { hour: (h % 12) + (pm ? 12 : 0), minute: m };
+    },
+  },
+  {
+    pattern: "(?:at\\s+)?(?<hour>\\d{1,2}):(?<minute>\\d{2})",
+    read: ({ hour, minute }) => {
+      const h = Number(hour);
+      const m = Number(minute);
+      return h > 23 || m > 59 ? null : { hour: h, minute: m };
+    },
+  },
+  {
+    pattern: "(?:at\\s+)?(?<word>noon|midnight)",
+    read: ({ word }) => ({ hour: lower(word) === "noon" ? 12 : 0, minute: 0 }),
+  },
+];
+
+const RECURRENCE_MATCHERS: Matcher<string>[] = [
+  {
+    pattern: "every\\s+(?:(?<other>other)\\s+|(?<count>\\d{1,3})\\s+)?(?<unit>day|week|month|year)s?",
+    read: ({ other, count, unit }) => {
+      const interval = other ? 2 : Number(count ?? 1);
+      if (interval < 1) return null;
+      const freq = UNIT_FREQ[lower(unit) as keyof typeof UNIT_FREQ];
+      return `FREQ=${freq}${interval > 1 ? `;INTERVAL=${interval}` : ""}`;
+    },
+  },
+  { pattern: "every\\s+weekday", read: () => "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR" },
+  { pattern: "every\\s+weekend", read: () => "FREQ=WEEKLY;BYDAY=SA,SU" },
+  {
+    pattern: `every\\s+(?<days>${WEEKDAY}(?:\\s*(?:,|and|&)\\s*${WEEKDAY})*)`,
+    read: ({ days }) => {
+      const weekdays = new Set(
+        lower(days)
+          .split(/\s*(?:,|and|&)\s*/)
+          .map((name) => WEEKDAYS[name.trim()])
+          .filter((weekday) => weekday !== undefined),
+      );
+      // Monday first, like the rest of the app.
+      const ordered = [1, 2, 3, 4, 5, 6, 0].filter((weekday) => weekdays.has(weekday));
+      return `FREQ=WEEKLY;BYDAY=${ordered.map((weekday) => RRULE_WEEKDAYS[weekday]).join(",")}`;
+    },
+  },
+];
+
+const PRIORITY_MATCHERS: Matcher<TaskPriority>[] = [
+  {
+    pattern: "!(?<level>urgent|high|medium|med|low|[1-4])",
+    read: ({ level }) => PRIORITIES[lower(level)] ?? null,
+  },
+];
+
+// "@" and the name of one of the user's lists.
+function listMatchers(lists: { id: string; name: string }[]): Matcher<string>[] {
+  if (lists.length === 0) return [];
+  return [
+    {
+      pattern: `@(?<name>${alternation(lists.map((list) => list.name))})`,
+      read: ({ name }) => lists.find((list) => list.name.toLowerCase() === lower(name))?.id ?? null,
+    },
+  ];
+}
+
+// A token starts at the start of the text or after whitespace, and ends at the end, at
+// whitespace, or at punctuation (so "tomorrow," counts, but "tomorrow's" doesn't).
+const TOKEN_START = "(?<!\\S)";
+const TOKEN_END = "(?=$|[\\s,.;:!?)\\]])";
+
+const overlaps = (a: Span, b: Span) => a.start < b.end && b.start < a.end;
+
+// Finds the first match (by position, the longest on a tie) of any of the matchers that doesn't
+// overlap an already recognized span and that its matcher accepts, and marks its span as taken.
+function takeFirst<T>(text: string, matchers: Matcher<T>[], taken: Span[], ctx: Context) {
+  const candidates: (Span & { matcher: Matcher<T>; groups: Record<string, string | undefined> })[] = [];
+  for (const matcher of matchers) {
+    const regex = new RegExp(`${TOKEN_START}(?:${matcher.pattern})${TOKEN_END}`, "giu");
+    for (const match of text.matchAll(regex)) {
+      candidates.push({ start: match.index, end: match.index + match[0].length, matcher, groups: match.groups ?? {} });
+    }
+  }
+  candidates.sort((a, b) => a.start - b.start || b.end - a.end);
+
+  for (const candidate of candidates) {
+    if (taken.some((span) => overlaps(span, candidate))) continue;
+    const value = candidate.matcher.read(candidate.groups, ctx);
+    if (value === null) continue;
+    taken.push({ start: candidate.start, end: candidate.end });
+    return value;
+  }
+  return null;
+}
+
+// The first date of a recurring task that has no explicit date: today if it matches the rule
+// (and the time, if any, hasn't passed yet), or the next occurrence after today.
+function firstOccurrence(rule: RRule, today: CalendarDate, todayHasPassed: boolean) {
+  if (rule.byDay.length > 0) {
+    for (let days = todayHasPassed ? 1 : 0; days < 8; days++) {
+      const date = addCalendarDays(today, days);
+      if (rule.byDay.some((day) => day.weekday === getWeekday(date))) return date;
+    }
+  }
+  return todayHasPassed ? (nextOccurrence(rule, today) ?? addCalendarDays(today, 1)) : today;
+}
+
+export function parseQuickAdd(text: string, options: QuickAddOptions): QuickAddResult {
+  const today = getZonedParts(options.now, options.timeZone);
+  const ctx: Context = { ...options, today, dateOrder: getDateOrder(options.locale) };
+  const taken: Span[] = [];
+
+  // Recurrence goes first, so "every monday" isn't read as the date "monday".
+  const recurrence = takeFirst(text, RECURRENCE_MATCHERS, taken, ctx);
+  const date = takeFirst(text, DATE_MATCHERS, taken, ctx);
+  const time = takeFirst(text, TIME_MATCHERS, taken, ctx);
+  const priority = takeFirst(text, PRIORITY_MATCHERS, taken, ctx);
+  const listId = takeFirst(text, listMatchers(options.lists ?? []), taken, ctx);
+
+  // The due date: the date (all-day without a time), or for a time alone, the next time it is
+  // that time of day, or for a recurring task, its first occurrence.
+  const at = (day: CalendarDate, t: Time) => zonedTimeToUtc({ ...day, ...t }, options.timeZone);
+  const hasPassed = (t: Time | null) => t !== null && at(today, t).getTime() <= options.now.getTime();
+  let dueDate = date;
+  if (!dueDate && recurrence) dueDate = firstOccurrence(parseRRule(recurrence), today, hasPassed(time));
+  if (!dueDate && time) dueDate = hasPassed(time) ? addCalendarDays(today, 1) : today;
+  const due = !dueDate
+    ? null
+    : time
+      ? { dueAt: at(dueDate, time), dueAllDay: false }
+      : { dueAt: new Date(Date.UTC(dueDate.year, dueDate.month - 1, dueDate.day)), dueAllDay: true };
+
+  // The title is what's left, with the `#tags` taken out too.
+  const remaining = [...taken]
+    .sort((a, b) => b.start - a.start)
+    .reduce((rest, span) => rest.slice(0, span.start) + " " + rest.slice(span.end), text);
+  const { title, tags } = extractTags(remaining);
+
+  return {
+    title,
+    tags,
+    due,
+    recurrence: recurrence && formatRRule(parseRRule(recurrence)),
+    priority,
+    listId,
+  };
+}
@@ -0,0 +1,34 @@
+// This file formats a past moment relative to now, e.g. "just now", "5 minutes ago",
+// "yesterday", "3 weeks ago", for the timestamps of comments. The words come from
+// `Intl.RelativeTimeFormat`, so they follow the user's locale.
+
+// The units from the smallest to the largest, each with its length in seconds. A time is
+// expressed in the largest unit it fills at least once ("90 minutes ago" is "1 hour ago").
+const UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["second", 1],
+  ["minute", 60],
+  ["hour", 60 * 60],
+  ["day", 24 * 60 * 60],
+  ["week", 7 * 24 * 60 * 60],
+  ["month", 30 * 24 * 60 * 60],
+  ["year", 365 * 24 * 60 * 60],
+];
+
+// Anything more recent than this is "just now", so a new comment doesn't count up the seconds.
+const JUST_NOW_SECONDS = 45;
+
+export function formatRelativeTime(date: Date, now: Date, locale?: string) {
+  const seconds = Math.round((date.getTime() - now.getTime()) / 1000);
+  if (Math.abs(seconds) < JUST_NOW_SECONDS) return "just now";
+
+  let unit: Intl.RelativeTimeFormatUnit = "second";
+  let size = 1;
+  for (const [candidate, candidateSize] of UNITS) {
+    if (Math.abs(seconds) < candidateSize) break;
+    unit = candidate;
+    size = candidateSize;
+  }
+
+  // `numeric: "auto"` says "yesterday" instead of "1 day ago".
+  return new Intl.RelativeTimeFormat(locale, { numeric: "auto" }).format(Math.round(seconds / size), unit);
+}
@@ -0,0 +1,319 @@
+// This file contains a small, dependency-free implementation of the parts of RFC 5545
+// recurrence rules ("RRULE"s) that a to-do list needs, such as:
+//   FREQ=DAILY                          every day
+//   FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR    every weekday
+//   FREQ=MONTHLY;BYMONTHDAY=1           the 1st of each month
+//   FREQ=MONTHLY;BYDAY=-1FR             the last Friday of each month
+//   FREQ=WEEKLY;INTERVAL=2              every 2 weeks
+//
+// It is shared by the server (which validates the rule and computes the next occurrence when
+// a recurring task is completed) and the client (which validates custom rules as they are
+// typed and describes rules in plain English).
+//
+// Recurrence is computed on plain CALENDAR dates (see `CalendarDate` in `src/lib/timezone.ts`).
+// The time of day is kept separately and converted back to an instant in the user's time zone
+// afterwards, which is what keeps "every day at 09:00" at 09:00 across daylight saving changes.
+//
+// Supported parts: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, BYDAY (with an ordinal
+// such as "1MO" or "-1FR" for MONTHLY and YEARLY rules), BYMONTHDAY, BYMONTH, COUNT, UNTIL
+// and WKST (accepted, but weeks always start on Monday). Anything else is rejected, so a rule
+// is never silently interpreted differently from what the user wrote.
+
+import { addCalendarDays, diffCalendarDays, getWeekday, type CalendarDate } from "~/lib/timezone";
+
+export const RRULE_FREQUENCIES = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"] as const;
+export type RRuleFrequency = (typeof RRULE_FREQUENCIES)[number];
+
+// The RRULE weekday codes, indexed like `getWeekday` (0 = Sunday).
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"] as const;
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// A BYDAY entry: a weekday (0 = Sunday), optionally with an ordinal inside the month
+// (1 = first, 2 = second, ..., -1 = last). `ordinal` is null for "every such weekday".
+export type RRuleWeekday = { weekday: number; ordinal: number | null };
+
+// A parsed recurrence rule.
+export type RRule = {
+  freq: RRuleFrequency;
+  interval: number;
+  byDay: RRuleWeekday[];
+  byMonthDay: number[];
+  byMonth: number[];
+  count: number | null;
+  until: CalendarDate | null;
+};
+
+// Thrown by `parseRRule` for a rule that is malformed or uses unsupported parts. Its message
+// is written for the user, e.g. "BYMONTHDAY must be between 1 and 31 (or -31 and -1)."
+export class RRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RRuleError";
+  }
+}
+
+// The longest a rule may be, and the most periods `nextOccurrence` looks ahead. 1000 periods
+// covers even rules that rarely match (e.g., the 29th of February every year).
+const MAX_RRULE_LENGTH = 200;
+const MAX_PERIODS = 1000;
+
+const BYDAY_PATTERN = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/;
+const UNTIL_PATTERN = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/;
+
+// Parses a comma-separated list of integers, checking every value against [min, max] and
+// rejecting 0 when `allowNegative` is set (e.g., BYMONTHDAY=-1 means "the last day").
+function parseIntList(key: string, value: string, min: number, max: number, allowNegative = false) {
+  return value.split(",").map((part) => {
+    const n = Number(part);
+    const valid =
+      Number.isInteger(n) &&
+      ((n >= min && n <= max) || (allowNegative && n <= -min && n >= -max));
+    if (!valid) {
+      throw new RRuleError(
+        `${key} must be between ${min} and ${max}${allowNegative ? ` (or -${max} and -${min})` : ""}.`,
+      );
+    }
+    return n;
+  });
+}
+
+// Parses an RRULE string such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE". A leading "RRULE:"
+// is allowed, and keys are case-insensitive. Throws an `RRuleError` if the rule is invalid.
+export function parseRRule(text: string): RRule {
+  const source = text.trim().replace(/^RRULE:/i, "");
+  if (!source) throw new RRuleError("The rule is empty.");
+  if (source.length > MAX_RRULE_LENGTH) throw new RRuleError("The rule is too long.");
+
+  const parts = new Map<string, string>();
+  for (const part of source.split(";")) {
+    const [key, value, ...rest] = part.split("=");
+    if (!key || !value || rest.length > 0) throw new RRuleError(`"${part}" is not a KEY=VALUE pair.`);
+    const upperKey = key.trim().toUpperCase();
+    if (parts.has(upperKey)) throw new RRuleError(`${upperKey} appears more than once.`);
+    parts.set(upperKey, value.trim().toUpperCase());
+  }
+
+  const freq = RRULE_FREQUENCIES.find((f) => f === parts.get("FREQ"));
+  if (!freq) throw new RRuleError("FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY.");
+
+  const rule: RRule = { freq, interval: 1, byDay: [], byMonthDay: [], byMonth: [], count: null, until: null };
+  for (const [key, value] of parts) {
+    switch (key) {
+      case "FREQ":
+      case "WKST":
+        break;
+      case "INTERVAL":
+        rule.interval = parseIntList(key, value, 1, 999)[0] ?? 1;
+        break;
+      case "COUNT":
+        rule.count = parseIntList(key, value, 1, 9999)[0] ?? null;
+        break;
+      case "BYMONTHDAY":
+        rule.byMonthDay = parseIntList(key, value, 1, 31, true);
+        break;
+      case "BYMONTH":
+        rule.byMonth = parseIntList(key, value, 1, 12);
+        break;
+      case "BYDAY":
+        rule.byDay = value.split(",").map((entry) => {
+          const match = BYDAY_PATTERN.exec(entry);
+          if (!match) throw new RRuleError(`"${entry}" is not a valid BYDAY value (e.g., MO, 1MO, -1FR).`);
+          const ordinal = match[1] ? Number(match[1]) : null;
+          if (ordinal !== null && (ordinal === 0 || Math.abs(ordinal) > 5)) {
+            throw new RRuleError("BYDAY ordinals must be between 1 and 5 (or -5 and -1).");
+          }
+          if (ordinal !== null && freq !== "MONTHLY" && freq !== "YEARLY") {
+            throw new RRuleError("BYDAY ordinals like 1MO are only allowed in MONTHLY and YEARLY rules.");
+          }
+          return { weekday: WEEKDAY_CODES.findIndex((code) => code === match[2]), ordinal };
+        });
+        break;
+      case "UNTIL": {
+        const match = UNTIL_PATTERN.exec(value);
+        if (!match) throw new RRuleError("UNTIL must be a date like 20261231.");
+        rule.until = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+        break;
+      }
+      default:
+        throw new RRuleError(`${key} is not supported.`);
+    }
+  }
+  if (rule.count !== null && rule.until !== null) {
+    throw new RRuleError("A rule can't have both COUNT and UNTIL.");
+  }
+  return rule;
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// Turns a parsed rule back into its canonical string form (uppercase, fixed key order, no
+// default values). The server stores rules in this form, so equal rules compare equal.
+export function formatRRule(rule: RRule) {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth.length) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  if (rule.byMonthDay.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.byDay.length) {
+    parts.push(`BYDAY=${rule.byDay.map((d) => `${d.ordinal ?? ""}${WEEKDAY_CODES[d.weekday]}`).join(",")}`);
+  }
+  if (rule.count !== null) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.year}${pad(rule.until.month)}${pad(rule.until.day)}`);
+  return parts.join(";");
+}
+
+// Parses and re-formats a rule (see `formatRRule`). Throws an `RRuleError` if it is invalid.
+export function normalizeRRule(text: string) {
+  return formatRRule(parseRRule(text));
+}
+
+// The number of days in a month (`month` is 1-based).
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// Returns the days of one month that match the rule's BYMONTHDAY and BYDAY parts. When the
+// rule has neither, the month's only candidate is `defaultDay` (the day of the month the
+// series started on). Days that don't exist in the month (e.g., the 31st of April) are
+// skipped, as RFC 5545 requires.
+function matchDaysInMonth(rule: RRule, year: number, month: number, defaultDay: number) {
+  const length = daysInMonth(year, month);
+  const resolve = (day: number) => (day < 0 ? length + day + 1 : day);
+  let days: number[] | null = null;
+
+  if (rule.byMonthDay.length) {
+    days = rule.byMonthDay.map(resolve).filter((day) => day >= 1 && day <= length);
+  }
+
+  if (rule.byDay.length) {
+    const firstWeekday = getWeekday({ year, month, day: 1 });
+    const byDayDays: number[] = [];
+    for (const { weekday, ordinal } of rule.byDay) {
+      const first = 1 + ((weekday - firstWeekday + 7) % 7);
+      const all: number[] = [];
+      for (let day = first; day <= length; day += 7) all.push(day);
+      const picked = ordinal === null ? all : [all[ordinal > 0 ? ordinal - 1 : all.length + ordinal]];
+      for (const day of picked) if (day !== undefined) byDayDays.push(day);
+    }
+
+    // With both BYMONTHDAY and BYDAY, a day must match both (e.g., "Friday the 13th").
+    days = days ? days.filter((day) => byDayDays.includes(day)) : byDayDays;
+  }
+
+  days ??= defaultDay <= length ? [defaultDay] : [];
+  return days.map((day) => ({ year, month, day }));
+}
+
+// Returns the calendar dates of the rule's `index`-th period, counted from the period that
+// contains `start` (index 0). A period is a day, a week (Monday to Sunday), a month or a year.
+function candidatesInPeriod(rule: RRule, start: CalendarDate, index: number): CalendarDate[] {
+  switch (rule.freq) {
+    case "DAILY":
+      return [addCalendarDays(start, index)];
+    case "WEEKLY": {
+      const monday = addCalendarDays(start, -((getWeekday(start) + 6) % 7) + index * 7);
+      const weekdays = rule.byDay.length ? rule.byDay.map((d) => d.weekday) : [getWeekday(start)];
+      return Array.from({ length: 7 }, (_, i) => addCalendarDays(monday, i)).filter((date) =>
+        weekdays.includes(getWeekday(date)),
+      );
+    }
+    case "MONTHLY": {
+      const monthIndex = start.month - 1 + index;
+      const year = start.year + Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      return matchDaysInMonth(rule, year, month, start.day);
+    }
+    case "YEARLY": {
+      const year = start.year + index;
+      const months = rule.byMonth.length ? rule.byMonth : [start.month];
+      return months.flatMap((month) => matchDaysInMonth(rule, year, month, start.day));
+    }
+  }
+}
+
+// Applies the filters that don't define the period itself: BYMONTH for every frequency
+// except YEARLY (where it already picked the months), and BYDAY for DAILY rules
+// (e.g., FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR).
+function passesFilters(rule: RRule, date: CalendarDate) {
+  if (rule.freq !== "YEARLY" && rule.byMonth.length && !rule.byMonth.includes(date.month)) return false;
+  if (rule.freq === "DAILY" && rule.byDay.length) {
+    return rule.byDay.some((d) => d.weekday === getWeekday(date));
+  }
+  if (rule.freq === "DAILY" && rule.byMonthDay.length) {
+    return rule.byMonthDay.includes(date.day);
+  }
+  return true;
+}
+
+// Returns the first occurrence of the rule strictly AFTER `after`, treating `after` as the
+// start of the series (its period is period 0, and INTERVAL counts periods from there).
+// Returns `null` if the series ends first (UNTIL) or nothing matches within `MAX_PERIODS`.
+// COUNT is not applied here, because it depends on how many occurrences already happened,
+// which only the caller knows.
+export function nextOccurrence(rule: RRule, after: CalendarDate): CalendarDate | null {
+  for (let period = 0; period <= MAX_PERIODS; period += rule.interval) {
+    const next = candidatesInPeriod(rule, after, period)
+      .filter((date) => diffCalendarDays(after, date) > 0 && passesFilters(rule, date))
+      .sort((a, b) => diffCalendarDays(b, a))[0];
+    if (next) return rule.until && diffCalendarDays(rule.until, next) > 0 ? null : next;
+  }
+  return null;
+}
+
+// The common patterns offered in the recurrence picker. "After completion" is a separate
+// option (see `recurFromCompletion` on the `Task` model), so any of these can be combined
+// with it, e.g. "Every 2 weeks" + "after completion".
+export const RECURRENCE_PRESETS = [
+  { label: "Daily", rrule: "FREQ=DAILY" },
+  { label: "Every weekday", rrule: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR" },
+  { label: "Weekly", rrule: "FREQ=WEEKLY" },
+  { label: "Every 2 weeks", rrule: "FREQ=WEEKLY;INTERVAL=2" },
+  { label: "Monthly", rrule: "FREQ=MONTHLY" },
+  { label: "Monthly on the 1st", rrule: "FREQ=MONTHLY;BYMONTHDAY=1" },
+  { label: "Yearly", rrule: "FREQ=YEARLY" },
+] as const;
+
+const UNITS: Record<RRuleFrequency, string> = { DAILY: "day", WEEKLY: "week", MONTHLY: "month", YEARLY: "year" };
+const ADVERBS: Record<RRuleFrequency, string> = { DAILY: "Daily", WEEKLY: "Weekly", MONTHLY: "Monthly", YEARLY: "Yearly" };
+const ORDINALS: Record<number, string> = { 1: "first", 2: "second", 3: "third", 4: "fourth", 5: "fifth", [-1]: "last" };
+
+// Describes a rule in plain English for the task list, e.g. "Every weekday",
+// "Every 2 weeks on Monday, Wednesday" or "Monthly on the last Friday". Returns the raw
+// rule if it can't be parsed, so a label is always available.
+export function describeRRule(text: string) {
+  let rule: RRule;
+  try {
+    rule = parseRRule(text);
+  } catch {
+    return text;
+  }
+
+  const preset = RECURRENCE_PRESETS.find((p) => p.rrule === formatRRule(rule));
+  let description: string = preset?.label ?? (rule.interval === 1
+    ? ADVERBS[rule.freq]
+    : `Every ${rule.interval} ${UNITS[rule.freq]}s`);
+
+  if (!preset) {
+    if (rule.byDay.length) {
+      const days = rule.byDay.map(({ weekday, ordinal }) =>
+        ordinal === null ? WEEKDAY_NAMES[weekday] : `the ${ORDINALS[ordinal] ?? `${ordinal}th`} ${WEEKDAY_NAMES[weekday]}`,
+      );
+      description += ` on ${days.join(", ")}`;
+    }
+    if (rule.byMonthDay.length) {
+      const days = rule.byMonthDay.map((day) => (day === -1 ? "the last day" : `day ${day}`));
+      description += ` on ${days.join(", ")}`;
+    }
+    if (rule.byMonth.length) {
+      const months = rule.byMonth.map((month) =>
+        new Date(Date.UTC(2000, month - 1, 1)).toLocaleString("en-US", { month: "short", timeZone: "UTC" }),
+      );
+      description += ` in ${months.join(", ")}`;
+    }
+  }
+
+  if (rule.count !== null) description += `, ${rule.count} ${rule.count === 1 ? "time" : "times"}`;
+  if (rule.until) {
+    description += `, until ${rule.until.year}-${pad(rule.until.month)}-${pad(rule.until.day)}`;
+  }
+  return description;
+}
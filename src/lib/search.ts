@@ -0,0 +1,39 @@
+// Helpers for the full-text task search (`task.search`), shared by the server (which builds the
+// Postgres query) and the client (which renders the highlighted results).
+
+// Postgres' `ts_headline` wraps every matched word in these two characters. They are control
+// characters that don't appear in normal text, and the server splits on them (see
+// `splitHighlights`), so highlights are never sent to the browser as HTML.
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_END = "\u0003";
+
+// A piece of a highlighted title or snippet. `match` is true for the words that matched.
+export type HighlightPart = { text: string; match: boolean };
+
+// Turns what the user typed into a Postgres `tsquery` that matches tasks containing ALL of the
+// words, each as a prefix ("buy mil" -> "buy:* & mil:*"), so results appear while a word is still
+// being typed. Everything except letters and digits is dropped, so the input can never break
+// the query syntax. Returns `null` when there is no word to search for.
+export function toPrefixTsQuery(input: string) {
+  const words = input.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!words) return null;
+  return words.map((word) => `${word}:*`).join(" & ");
+}
+
+// Splits the output of `ts_headline` into plain and highlighted parts.
+// "Buy \u0002milk\u0003 today" -> [{ "Buy ", false }, { "milk", true }, { " today", false }].
+export function splitHighlights(text: string): HighlightPart[] {
+  const parts: HighlightPart[] = [];
+  for (const [index, piece] of text.split(HIGHLIGHT_START).entries()) {
+    // Every piece after the first starts with a highlighted word, which ends at HIGHLIGHT_END.
+    const [match, rest] = index === 0 ? ["", piece] : splitOnce(piece, HIGHLIGHT_END);
+    if (match) parts.push({ text: match, match: true });
+    if (rest) parts.push({ text: rest, match: false });
+  }
+  return parts;
+}
+
+function splitOnce(text: string, separator: string): [string, string] {
+  const at = text.indexOf(separator);
+  return at < 0 ? [text, ""] : [text.slice(0, at), text.slice(at + separator.length)];
+}
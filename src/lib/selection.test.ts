@@ -0,0 +1,123 @@
+// This file contains the tests of the multi-select rules of the task list (`src/lib/selection.ts`):
+// toggling single tasks, Shift-click ranges, and Shift+Arrow ranges that grow and shrink around
+// their anchor. Every test is a sequence of clicks and key presses on the same visible list.
+
+import { test, expect } from "@playwright/test";
+import {
+  EMPTY_SELECTION,
+  extendSelection,
+  pruneSelection,
+  selectRangeTo,
+  toggleSelected,
+  type TaskSelection,
+} from "~/lib/selection";
+
+const VISIBLE = ["a", "b", "c", "d", "e", "f"];
+
+// The selected ids in the order they are shown, for readable expectations.
+const selected = (selection: TaskSelection | null) => VISIBLE.filter((id) => selection?.ids.has(id));
+
+test.describe("toggling", () => {
+  test("a click selects a task, a second click unselects it, and both move the anchor", () => {
+    const once = toggleSelected(EMPTY_SELECTION, "c");
+    expect(selected(once)).toEqual(["c"]);
+    expect(once.anchorId).toBe("c");
+
+    const twice = toggleSelected(toggleSelected(once, "e"), "c");
+    expect(selected(twice)).toEqual(["e"]);
+    expect(twice.anchorId).toBe("c");
+  });
+
+  test("toggling never changes the selection it was given", () => {
+    const selection = toggleSelected(EMPTY_SELECTION, "a");
+    toggleSelected(selection, "b");
+    expect(selected(selection)).toEqual(["a"]);
+  });
+});
+
+test.describe("Shift-click", () => {
+  test("selects the range from the anchor, in either direction", () => {
+    const anchored = toggleSelected(EMPTY_SELECTION, "c");
+    expect(selected(selectRangeTo(anchored, VISIBLE, "e"))).toEqual(["c", "d", "e"]);
+    expect(selected(selectRangeTo(anchored, VISIBLE, "a"))).toEqual(["a", "b", "c"]);
+  });
+
+  test("keeps the anchor, so the next Shift-click adds another range from the same task", () => {
+    const first = selectRangeTo(toggleSelected(EMPTY_SELECTION, "c"), VISIBLE, "e");
+    expect(first.anchorId).toBe("c");
+    expect(selected(selectRangeTo(first, VISIBLE, "b"))).toEqual(["b", "c", "d", "e"]);
+  });
+
+  test("adds to the tasks that were already selected", () => {
+    const selection = toggleSelected(toggleSelected(EMPTY_SELECTION, "a"), "d");
+    expect(selected(selectRangeTo(selection, VISIBLE, "f"))).toEqual(["a", "d", "e", "f"]);
+  });
+
+  test("without an anchor, or with one that is no longer shown, selects only the clicked task", () => {
+    expect(selected(selectRangeTo(EMPTY_SELECTION, VISIBLE, "d"))).toEqual(["d"]);
+
+    const gone = selectRangeTo(toggleSelected(EMPTY_SELECTION, "x"), VISIBLE, "d");
+    expect(selected(gone)).toEqual(["d"]);
+    expect(gone.anchorId).toBe("d");
+  });
+});
+
+test.describe("Shift+Arrow", () => {
+  // Presses Shift+ArrowUp (-1) or Shift+ArrowDown (1) the given number of times, starting from
+  // the focused task (or the anchor), and returns the selection after every press.
+  const press = (selection: TaskSelection, steps: (-1 | 1)[]) => {
+    const states: (TaskSelection | null)[] = [];
+    let current = selection;
+    for (const step of steps) {
+      const next = extendSelection(current, VISIBLE, current.focusId ?? current.anchorId ?? VISIBLE[0]!, step);
+      states.push(next);
+      if (next) current = next;
+    }
+    return states;
+  };
+
+  test("grows the range away from the anchor, and shrinks it back toward it", () => {
+    const states = press(toggleSelected(EMPTY_SELECTION, "c"), [1, 1, -1, -1]);
+    expect(states.map(selected)).toEqual([
+      ["c", "d"],
+      ["c", "d", "e"],
+      ["c", "d"],
+      ["c"],
+    ]);
+  });
+
+  test("moving past the anchor flips the range to its other side", () => {
+    const states = press(toggleSelected(EMPTY_SELECTION, "c"), [1, -1, -1, -1]);
+    expect(states.map(selected)).toEqual([
+      ["c", "d"],
+      ["c"],
+      ["b", "c"],
+      ["a", "b", "c"],
+    ]);
+  });
+
+  test("keeps the tasks that were selected outside of the range", () => {
+    const selection = toggleSelected(toggleSelected(EMPTY_SELECTION, "a"), "e");
+    const states = press(selection, [1, -1]);
+    expect(states.map(selected)).toEqual([
+      ["a", "e", "f"],
+      ["a", "e"],
+    ]);
+  });
+
+  test("the first press starts the range at the task it was pressed on", () => {
+    expect(selected(extendSelection(EMPTY_SELECTION, VISIBLE, "b", 1))).toEqual(["b", "c"]);
+  });
+
+  test("stops at the start and the end of the list", () => {
+    const atEnd = toggleSelected(EMPTY_SELECTION, "f");
+    expect(extendSelection(atEnd, VISIBLE, "f", 1)).toBeNull();
+    expect(extendSelection(toggleSelected(EMPTY_SELECTION, "a"), VISIBLE, "a", -1)).toBeNull();
+  });
+});
+
+test("tasks that are no longer shown are dropped from the selection", () => {
+  const selection = selectRangeTo(toggleSelected(EMPTY_SELECTION, "b"), VISIBLE, "d");
+  expect(selected(pruneSelection(selection, ["a", "c", "d"]))).toEqual(["c", "d"]);
+  expect(pruneSelection(selection, VISIBLE)).toBe(selection);
+});
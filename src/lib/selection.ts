@@ -0,0 +1,77 @@
+// This file contains the rules of the multi-select in the task list, as pure functions over the
+// ids of the tasks in the order they are shown (`visibleIds`), so they don't depend on React.
+//
+// - A plain checkbox click, or a Ctrl/Cmd-click on a row, toggles one task and makes it the
+//   "anchor" of the next range.
+// - A Shift-click selects every task between the anchor and the clicked task.
+// - Shift+ArrowUp / Shift+ArrowDown move the focus one task up or down and select the range
+//   between the anchor and the focused task.
+
+export type TaskSelection = {
+  // The selected task ids.
+  ids: Set<string>;
+
+  // Where the next Shift range starts: the task that was clicked (or toggled) last.
+  anchorId: string | null;
+
+  // The task that Shift+Arrow last moved to, where the next Shift+Arrow continues from.
+  focusId: string | null;
+};
+
+export const EMPTY_SELECTION: TaskSelection = { ids: new Set(), anchorId: null, focusId: null };
+
+// Returns the ids from `fromId` to `toId` (both included), in either direction.
+function getRange(visibleIds: string[], fromId: string, toId: string) {
+  const from = visibleIds.indexOf(fromId);
+  const to = visibleIds.indexOf(toId);
+  if (from < 0 || to < 0) return [toId];
+  return visibleIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+}
+
+// Selects or unselects one task.
+export function toggleSelected(selection: TaskSelection, id: string): TaskSelection {
+  const ids = new Set(selection.ids);
+  if (ids.has(id)) ids.delete(id);
+  else ids.add(id);
+  return { ids, anchorId: id, focusId: id };
+}
+
+// Adds the range between the anchor and `id` to the selection (Shift-click). Without an anchor,
+// only `id` is selected. The anchor stays where it is, so the next Shift-click still starts there.
+export function selectRangeTo(selection: TaskSelection, visibleIds: string[], id: string): TaskSelection {
+  const anchorId = selection.anchorId && visibleIds.includes(selection.anchorId) ? selection.anchorId : id;
+  const ids = new Set([...selection.ids, ...getRange(visibleIds, anchorId, id)]);
+  return { ids, anchorId, focusId: id };
+}
+
+// Moves the focus one task up (-1) or down (1) from `fromId` and selects the range between the
+// anchor and the new focus (Shift+Arrow). Returns `null` at the start or end of the list.
+export function extendSelection(
+  selection: TaskSelection,
+  visibleIds: string[],
+  fromId: string,
+  step: -1 | 1,
+): TaskSelection | null {
+  const nextId = visibleIds[visibleIds.indexOf(fromId) + step];
+  if (!nextId) return null;
+
+  // The first Shift+Arrow starts the range at the task it was pressed on.
+  const anchorId = selection.anchorId && visibleIds.includes(selection.anchorId) ? selection.anchorId : fromId;
+  const range = getRange(visibleIds, anchorId, nextId);
+
+  // Moving back toward the anchor shrinks the range again: tasks that were only selected by
+  // the previous range (between the old focus and the anchor) are unselected.
+  const ids = new Set(selection.ids);
+  if (selection.focusId) {
+    for (const id of getRange(visibleIds, anchorId, selection.focusId)) ids.delete(id);
+  }
+  for (const id of range) ids.add(id);
+  return { ids, anchorId, focusId: nextId };
+}
+
+// Drops the ids of tasks that are no longer shown (e.g. deleted, or filtered out).
+export function pruneSelection(selection: TaskSelection, visibleIds: string[]): TaskSelection {
+  const visible = new Set(visibleIds);
+  if ([...selection.ids].every((id) => visible.has(id))) return selection;
+  return { ...selection, ids: new Set([...selection.ids].filter((id) => visible.has(id))) };
+}
@@ -0,0 +1,39 @@
+// This file contains the tests of the role rules of shared lists (`src/lib/sharing.ts`).
+
+import { test, expect } from "@playwright/test";
+import { LIST_ROLES, canManageRole, hasListAccess, type ListAccess } from "~/lib/sharing";
+
+test.describe("hasListAccess", () => {
+  const cases: [ListAccess, ListAccess, boolean][] = [
+    ["viewer", "viewer", true],
+    ["viewer", "editor", false],
+    ["editor", "editor", true],
+    ["editor", "admin", false],
+    ["admin", "editor", true],
+    ["admin", "owner", false],
+    ["owner", "admin", true],
+  ];
+  for (const [access, required, expected] of cases) {
+    test(`${access} ${expected ? "has" : "doesn't have"} ${required} access`, () => {
+      expect(hasListAccess(access, required)).toBe(expected);
+    });
+  }
+});
+
+test.describe("canManageRole", () => {
+  test("the owner manages every role", () => {
+    expect(LIST_ROLES.every((role) => canManageRole("owner", role))).toBe(true);
+  });
+
+  test("an admin manages viewers and editors, but not admins", () => {
+    expect(canManageRole("admin", "viewer")).toBe(true);
+    expect(canManageRole("admin", "editor")).toBe(true);
+    expect(canManageRole("admin", "admin")).toBe(false);
+  });
+
+  test("editors and viewers manage no one", () => {
+    for (const access of ["editor", "viewer"] as const) {
+      expect(LIST_ROLES.some((role) => canManageRole(access, role))).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,36 @@
+// This file lists the roles of a shared list's members and what each one may do. It is shared by
+// the server (Zod validation and the access checks in `src/server/sharing.ts`) and the client
+// (the role pickers, and hiding controls the user can't use).
+//
+// The values match the `ListRole` enum in `prisma/schema.prisma`, in the same order: from the
+// least to the most access.
+export const LIST_ROLES = ["viewer", "editor", "admin"] as const;
+
+export type ListRole = (typeof LIST_ROLES)[number];
+
+// What the signed-in user can do with a list: a member's role, or "owner" for the user's own
+// lists. The owner can do everything an admin can, and also rename, archive and delete the list.
+export type ListAccess = ListRole | "owner";
+
+const ACCESS_RANK: Record<ListAccess, number> = { viewer: 0, editor: 1, admin: 2, owner: 3 };
+
+// Whether `access` allows what `required` allows (e.g. an admin may do what an editor may).
+export function hasListAccess(access: ListAccess, required: ListAccess) {
+  return ACCESS_RANK[access] >= ACCESS_RANK[required];
+}
+
+// Whether a user with `access` may give a member a role, or manage a member who has it (change
+// their role, remove them, or cancel their invitation). Admins manage the viewers and editors;
+// only the owner makes admins, and demotes or removes them, so admins can't take over a list
+// from each other.
+export function canManageRole(access: ListAccess, role: ListRole) {
+  return access === "owner" || (hasListAccess(access, "admin") && role !== "admin");
+}
+
+// The label and description of each role, for the sharing panel.
+export const LIST_ROLE_DISPLAY: Record<ListAccess, { label: string; description: string }> = {
+  viewer: { label: "Viewer", description: "Can see the tasks" },
+  editor: { label: "Editor", description: "Can also change the tasks" },
+  admin: { label: "Admin", description: "Can also invite and remove viewers and editors" },
+  owner: { label: "Owner", description: "Can also rename, archive and delete the list" },
+};
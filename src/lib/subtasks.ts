@@ -0,0 +1,58 @@
+// This file contains the shared rules for subtasks. Tasks form a tree through their `parentId`
+// (see `prisma/schema.prisma`), but the API returns them as one flat, sorted array. The
+// helpers here rebuild the tree on the client and compute the "3/5 done" progress of a parent.
+
+// The choices for the "complete a parent with open subtasks" user setting. The same values are
+// declared in the `CompleteParentMode` enum of the Prisma schema.
+export const COMPLETE_PARENT_MODES = ["cascade", "block"] as const;
+export type CompleteParentMode = (typeof COMPLETE_PARENT_MODES)[number];
+
+// The labels shown for each mode in the settings dropdown.
+export const COMPLETE_PARENT_MODE_LABELS: Record<CompleteParentMode, string> = {
+  cascade: "Completing a task completes its subtasks",
+  block: "Subtasks must be done before their task",
+};
+
+// The minimum a task needs for the tree helpers below.
+type TreeTask = { id: string; parentId: string | null; completed: boolean };
+
+export type TaskTree<T extends TreeTask> = {
+  // The tasks at the top of the tree, in the order they were given.
+  roots: T[];
+
+  // The direct subtasks of each task, by the parent's id, in the order they were given.
+  children: Map<string, T[]>;
+};
+
+// Rebuilds the tree from a flat array of tasks, keeping the array's (server-sorted) order
+// among siblings. A task whose parent is NOT in the array (e.g., the parent was filtered out
+// by the tag filter) becomes a root, so it is still shown.
+export function buildTaskTree<T extends TreeTask>(tasks: T[]): TaskTree<T> {
+  const ids = new Set(tasks.map((task) => task.id));
+  const roots: T[] = [];
+  const children = new Map<string, T[]>();
+  for (const task of tasks) {
+    if (task.parentId && ids.has(task.parentId)) {
+      const siblings = children.get(task.parentId) ?? [];
+      siblings.push(task);
+      children.set(task.parentId, siblings);
+    } else {
+      roots.push(task);
+    }
+  }
+  return { roots, children };
+}
+
+// Counts the subtasks of a task at every depth, and how many of them are completed. This is
+// the "done/total" progress shown on the parent.
+export function getSubtaskProgress<T extends TreeTask>(tree: TaskTree<T>, taskId: string) {
+  let done = 0;
+  let total = 0;
+  const stack = [...(tree.children.get(taskId) ?? [])];
+  for (let task = stack.pop(); task; task = stack.pop()) {
+    total += 1;
+    if (task.completed) done += 1;
+    stack.push(...(tree.children.get(task.id) ?? []));
+  }
+  return { done, total };
+}
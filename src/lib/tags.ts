@@ -0,0 +1,72 @@
+// This file contains the shared rules for task tags (labels). It is used by the server (to
+// validate tag names) and by the client (to pull `#tag` tokens out of the "add task" input,
+// to autocomplete them, and to pick a default color for a new tag).
+//
+// Tag names are stored in lowercase, so "#Work" and "#work" always refer to the same tag.
+
+// The characters a tag name may contain: letters and digits in any language (`\p{L}` and
+// `\p{N}`), plus `_` and `-`. Spaces are not allowed, because a tag is typed as a single
+// `#token` inside the task title.
+export const TAG_NAME_PATTERN = /^[\p{L}\p{N}_-]+$/u;
+
+// The longest tag name we accept.
+export const TAG_NAME_MAX_LENGTH = 32;
+
+// Matches every `#tag` token in a piece of text. The token must start the text or follow
+// whitespace, so "issue#12" or a URL fragment is not mistaken for a tag.
+const TAG_TOKEN = /(^|\s)#([\p{L}\p{N}_-]+)/gu;
+
+// Matches a `#tag` token that is still being typed at the very end of the text (e.g., the
+// text before the cursor ends with " #wo"). Used for autocomplete.
+const PARTIAL_TAG_TOKEN = /(^|\s)#([\p{L}\p{N}_-]*)$/u;
+
+// The palette new tags get their color from. Every color is a 7-character hex string, which
+// is also the format the server validates and the native `<input type="color">` uses.
+export const TAG_COLORS = [
+  "#ef4444",
+  "#f97316",
+  "#eab308",
+  "#22c55e",
+  "#14b8a6",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+] as const;
+
+// Matches a 7-character hex color such as "#3b82f6".
+export const TAG_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// Normalizes a tag name the way it is stored: without a leading "#", trimmed and lowercase.
+export function normalizeTagName(name: string) {
+  return name.trim().replace(/^#/, "").toLowerCase();
+}
+
+// Picks a default color for a tag from its name. The same name always gets the same color,
+// so a tag created from the quick-add input looks the same on every device.
+export function pickTagColor(name: string) {
+  let hash = 0;
+  for (const char of name) hash = (hash * 31 + (char.codePointAt(0) ?? 0)) >>> 0;
+  return TAG_COLORS[hash % TAG_COLORS.length] ?? TAG_COLORS[0];
+}
+
+// Splits the text typed into the "add task" input into the task title and its tag names.
+// For example, "Buy milk #errands #Home" becomes
+// `{ title: "Buy milk", tags: ["errands", "home"] }`. Duplicate tags are removed.
+export function extractTags(text: string) {
+  const tags = new Set<string>();
+  const title = text
+    .replace(TAG_TOKEN, (_match, before: string, name: string) => {
+      tags.add(normalizeTagName(name));
+      return before;
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+  return { title, tags: [...tags] };
+}
+
+// Returns the partial tag being typed at the end of `textBeforeCursor` (e.g., "wo" for
+// "Call mom #wo"), or `null` if the cursor is not inside a `#tag` token.
+export function getPartialTag(textBeforeCursor: string) {
+  const match = PARTIAL_TAG_TOKEN.exec(textBeforeCursor);
+  return match ? normalizeTagName(match[2] ?? "") : null;
+}
@@ -0,0 +1,101 @@
+// This file lists the ways the task list can be sorted. It is shared by the server (which
+// validates the requested sort and builds the database `orderBy` from it) and by the client
+// (which renders the sort picker, and places tasks that arrive through real-time sync).
+//
+// The field names match the `TaskSortField` enum in `prisma/schema.prisma`, because the
+// user's last choice is stored on their `User` row so it is remembered across visits.
+//
+// "position" is the "Manual" order, which the user sets by dragging tasks around. It has no
+// direction: it always shows the tasks in the order they were dragged into.
+
+import { TASK_PRIORITIES, type TaskPriority } from "~/lib/priority";
+
+export const TASK_SORT_FIELDS = ["createdAt", "updatedAt", "dueAt", "priority", "title", "position"] as const;
+
+export const SORT_DIRECTIONS = ["asc", "desc"] as const;
+
+export type TaskSortField = (typeof TASK_SORT_FIELDS)[number];
+export type SortDirection = (typeof SORT_DIRECTIONS)[number];
+export type TaskSort = { field: TaskSortField; direction: SortDirection };
+
+// The label shown for each sort field in the picker.
+export const TASK_SORT_LABELS: Record<TaskSortField, string> = {
+  createdAt: "Created",
+  updatedAt: "Updated",
+  dueAt: "Due date",
+  priority: "Priority",
+  title: "Title",
+  position: "Manual",
+};
+
+// The sort used before the user has picked one: newest tasks first.
+export const DEFAULT_TASK_SORT: TaskSort = { field: "createdAt", direction: "desc" };
+
+// The secondary sort keys, applied (in this order) to break ties in the primary sort: the most
+// important, soonest-due, newest tasks come first among otherwise-equal tasks.
+const TIE_BREAKERS: [TaskSortField, SortDirection][] = [
+  ["priority", "desc"],
+  ["dueAt", "asc"],
+  ["createdAt", "desc"],
+];
+
+// This helper turns a requested sort into the full list of sort keys:
+// 1. The field the user picked, in the direction they picked ("Manual" is always ascending).
+// 2. The tie-breakers above (skipping the one that is already the primary key).
+// 3. Finally the unique `id`, so that even tasks that are equal on every other key always
+//    come back in the same, stable order. This is what makes cursor pagination reliable: every
+//    task has exactly one place in the order, so a page never repeats or skips a task.
+export type SortKey = [TaskSortField | "id", SortDirection];
+export function getSortKeys({ field, direction }: TaskSort): SortKey[] {
+  return [
+    [field, field === "position" ? "asc" : direction],
+    ...TIE_BREAKERS.filter(([key]) => key !== field),
+    ["id", "asc"],
+  ];
+}
+
+// The task fields that the sort keys read.
+export type SortableTask = {
+  id: string;
+  createdAt: Date;
+  updatedAt: Date;
+  dueAt: Date | null;
+  priority: TaskPriority;
+  title: string;
+  position: string;
+};
+
+// Compares two tasks by the sort keys, the way the database orders them: tasks without a due
+// date last in either direction, priorities in their enum order, and positions and ids byte by
+// byte. Titles use the browser's collation, which may differ from the database's in rare cases
+// (the next fetch puts such a task back in the server's order).
+export function compareTasks(a: SortableTask, b: SortableTask, keys: SortKey[]) {
+  for (const [key, direction] of keys) {
+    const sign = direction === "asc" ? 1 : -1;
+    let result: number;
+    switch (key) {
+      case "dueAt":
+        if (a.dueAt === null || b.dueAt === null) {
+          result = (a.dueAt === null ? 1 : 0) - (b.dueAt === null ? 1 : 0);
+          if (result !== 0) return result;
+          continue;
+        }
+        result = sign * (a.dueAt.getTime() - b.dueAt.getTime());
+        break;
+      case "createdAt":
+      case "updatedAt":
+        result = sign * (a[key].getTime() - b[key].getTime());
+        break;
+      case "priority":
+        result = sign * (TASK_PRIORITIES.indexOf(a.priority) - TASK_PRIORITIES.indexOf(b.priority));
+        break;
+      case "title":
+        result = sign * a.title.localeCompare(b.title);
+        break;
+      default:
+        result = sign * (a[key] < b[key] ? -1 : a[key] > b[key] ? 1 : 0);
+    }
+    if (result !== 0) return result;
+  }
+  return 0;
+}
@@ -0,0 +1,105 @@
+// This file contains the tests of the time zone helpers (`src/lib/timezone.ts`): reading an
+// instant as wall-clock time in a zone, and the way back, across daylight saving changes.
+//
+// Europe/Berlin moves to summer time on 2026-03-29 (02:00 becomes 03:00) and back on
+// 2026-10-25 (03:00 becomes 02:00); America/New_York on 2026-03-08 and 2026-11-01. Asia/Kolkata
+// is 5:30 ahead of UTC all year, and Pacific/Auckland is in summer time while Berlin isn't.
+
+import { test, expect } from "@playwright/test";
+import {
+  addCalendarDays,
+  diffCalendarDays,
+  getOffsetMs,
+  getWeekday,
+  getZonedParts,
+  isValidTimeZone,
+  zonedTimeToUtc,
+} from "~/lib/timezone";
+
+const HOUR = 60 * 60 * 1000;
+
+test.describe("getZonedParts", () => {
+  test("reads an instant as wall-clock time in the zone", () => {
+    const instant = new Date("2026-10-19T22:30:15Z");
+    expect(getZonedParts(instant, "UTC")).toEqual({ year: 2026, month: 10, day: 19, hour: 22, minute: 30, second: 15 });
+    expect(getZonedParts(instant, "Europe/Berlin")).toEqual({ year: 2026, month: 10, day: 20, hour: 0, minute: 30, second: 15 });
+    expect(getZonedParts(instant, "America/New_York")).toMatchObject({ day: 19, hour: 18 });
+    expect(getZonedParts(instant, "Asia/Kolkata")).toMatchObject({ day: 20, hour: 4, minute: 0 });
+  });
+
+  test("crosses a year boundary", () => {
+    expect(getZonedParts(new Date("2026-12-31T23:30:00Z"), "Pacific/Auckland")).toMatchObject({ year: 2027, month: 1, day: 1 });
+    expect(getZonedParts(new Date("2027-01-01T03:00:00Z"), "America/New_York")).toMatchObject({ year: 2026, month: 12, day: 31 });
+  });
+});
+
+test.describe("getOffsetMs", () => {
+  const cases: [string, string, number][] = [
+    ["2026-03-29T00:59:59Z", "Europe/Berlin", 1 * HOUR],
+    ["2026-03-29T01:00:00Z", "Europe/Berlin", 2 * HOUR],
+    ["2026-10-25T00:59:59Z", "Europe/Berlin", 2 * HOUR],
+    ["2026-10-25T01:00:00Z", "Europe/Berlin", 1 * HOUR],
+    ["2026-03-08T06:59:59Z", "America/New_York", -5 * HOUR],
+    ["2026-03-08T07:00:00Z", "America/New_York", -4 * HOUR],
+    ["2026-01-15T12:00:00Z", "Asia/Kolkata", 5.5 * HOUR],
+    ["2026-01-15T12:00:00Z", "Pacific/Auckland", 13 * HOUR],
+    ["2026-07-15T12:00:00Z", "Pacific/Auckland", 12 * HOUR],
+  ];
+  for (const [instant, timeZone, offset] of cases) {
+    test(`${timeZone} at ${instant}`, () => {
+      expect(getOffsetMs(new Date(instant).getTime(), timeZone)).toBe(offset);
+    });
+  }
+});
+
+test.describe("zonedTimeToUtc", () => {
+  const cases: { name: string; wallClock: string; timeZone: string; utc: string }[] = [
+    { name: "winter time", wallClock: "2026-01-15T09:00", timeZone: "Europe/Berlin", utc: "2026-01-15T08:00:00Z" },
+    { name: "summer time", wallClock: "2026-07-15T09:00", timeZone: "Europe/Berlin", utc: "2026-07-15T07:00:00Z" },
+    { name: "midnight of the spring change", wallClock: "2026-03-29T00:00", timeZone: "Europe/Berlin", utc: "2026-03-28T23:00:00Z" },
+    { name: "the evening after the spring change", wallClock: "2026-03-29T23:00", timeZone: "Europe/Berlin", utc: "2026-03-29T21:00:00Z" },
+
+    // 02:30 doesn't exist on that day: the clocks jump from 02:00 to 03:00. It lands just after
+    // the gap, at 03:30 summer time.
+    { name: "a time skipped by the spring change", wallClock: "2026-03-29T02:30", timeZone: "Europe/Berlin", utc: "2026-03-29T01:30:00Z" },
+
+    // 02:30 happens twice on that day; it is read as the second one, in winter time.
+    { name: "a time repeated by the autumn change", wallClock: "2026-10-25T02:30", timeZone: "Europe/Berlin", utc: "2026-10-25T01:30:00Z" },
+    { name: "the evening after the autumn change", wallClock: "2026-11-01T20:00", timeZone: "America/New_York", utc: "2026-11-02T01:00:00Z" },
+    { name: "a half-hour zone", wallClock: "2026-10-20T00:00", timeZone: "Asia/Kolkata", utc: "2026-10-19T18:30:00Z" },
+  ];
+  for (const c of cases) {
+    test(`${c.name} (${c.wallClock}, ${c.timeZone})`, () => {
+      const [date = "", time = ""] = c.wallClock.split("T");
+      const [year = 0, month = 0, day = 0] = date.split("-").map(Number);
+      const [hour = 0, minute = 0] = time.split(":").map(Number);
+      expect(zonedTimeToUtc({ year, month, day, hour, minute }, c.timeZone).toISOString()).toBe(new Date(c.utc).toISOString());
+    });
+  }
+});
+
+test.describe("calendar dates", () => {
+  test("differences count calendar days, whatever the length of the days in between", () => {
+    expect(diffCalendarDays({ year: 2026, month: 3, day: 28 }, { year: 2026, month: 3, day: 30 })).toBe(2);
+    expect(diffCalendarDays({ year: 2026, month: 12, day: 31 }, { year: 2027, month: 1, day: 1 })).toBe(1);
+    expect(diffCalendarDays({ year: 2028, month: 3, day: 1 }, { year: 2028, month: 2, day: 28 })).toBe(-2);
+  });
+
+  test("adding days rolls over months, years and leap days", () => {
+    expect(addCalendarDays({ year: 2028, month: 2, day: 28 }, 1)).toEqual({ year: 2028, month: 2, day: 29 });
+    expect(addCalendarDays({ year: 2026, month: 2, day: 28 }, 1)).toEqual({ year: 2026, month: 3, day: 1 });
+    expect(addCalendarDays({ year: 2026, month: 12, day: 31 }, 1)).toEqual({ year: 2027, month: 1, day: 1 });
+    expect(addCalendarDays({ year: 2026, month: 1, day: 1 }, -1)).toEqual({ year: 2025, month: 12, day: 31 });
+  });
+
+  test("weekdays start on Sunday", () => {
+    expect(getWeekday({ year: 2026, month: 10, day: 18 })).toBe(0);
+    expect(getWeekday({ year: 2026, month: 10, day: 24 })).toBe(6);
+  });
+});
+
+test("only known time zones are valid", () => {
+  expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+  expect(isValidTimeZone("UTC")).toBe(true);
+  expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+});
@@ -0,0 +1,137 @@
+// This file contains small, dependency-free helpers for working with IANA time zones
+// (e.g., "America/New_York" or "Europe/Berlin"). It runs unchanged on both the server and
+// in the browser, because it only relies on the built-in `Intl.DateTimeFormat` API.
+//
+// JavaScript `Date` objects always represent a single instant in UTC. To answer questions
+// like "what calendar day is it for this user?" we have to translate that instant into the
+// user's own "wall-clock" time, which is what these helpers do. Every function takes the
+// time zone explicitly, so results never depend on the clock or zone of the machine that
+// happens to run the code.
+
+// The "wall-clock" fields of an instant as seen in a particular time zone.
+// `month` is 1-based (January = 1), unlike JavaScript's `Date#getMonth()`.
+export type ZonedParts = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+// A calendar date without a time or a time zone (e.g., the date of an all-day task).
+export type CalendarDate = Pick<ZonedParts, "year" | "month" | "day">;
+
+// The time zone we fall back to when a user has not stored one yet.
+export const DEFAULT_TIME_ZONE = "UTC";
+
+// Creating an `Intl.DateTimeFormat` is relatively expensive, so we create one formatter per
+// time zone and reuse it. The `Map` is keyed by the IANA time zone name.
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      // `hourCycle: "h23"` makes midnight come out as hour 0 instead of 24.
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Returns `true` if the string is a time zone name that this JavaScript runtime understands.
+// Constructing a formatter with an unknown zone throws a `RangeError`, which we turn into `false`.
+export function isValidTimeZone(timeZone: string) {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Returns the time zone configured in the current runtime. In the browser this is the user's
+// operating-system time zone, which is a good default to store for a new user.
+export function getRuntimeTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// Converts an instant into its wall-clock fields in the given time zone.
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year ?? 0,
+    month: parts.month ?? 1,
+    day: parts.day ?? 1,
+    hour: parts.hour ?? 0,
+    minute: parts.minute ?? 0,
+    second: parts.second ?? 0,
+  };
+}
+
+// Returns how far (in milliseconds) the time zone is ahead of UTC at the given instant.
+// For example, New York in winter returns -5 hours. The offset changes across daylight
+// saving time transitions, which is why it must be computed for a specific instant.
+export function getOffsetMs(instant: number, timeZone: string) {
+  const p = getZonedParts(new Date(instant), timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+// Converts wall-clock fields in a time zone into the matching instant.
+//
+// We first pretend the wall-clock time is UTC, then correct by the zone's offset. Because the
+// offset itself depends on the instant (daylight saving time), we check the offset a second
+// time at the corrected instant and adjust again if it differs. For wall-clock times that do
+// not exist (the hour skipped when clocks "spring forward"), the result lands just after the
+// gap, which is what calendar applications conventionally do.
+export function zonedTimeToUtc(parts: CalendarDate & Partial<ZonedParts>, timeZone: string) {
+  const guess = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour ?? 0,
+    parts.minute ?? 0,
+    parts.second ?? 0,
+  );
+  const firstOffset = getOffsetMs(guess, timeZone);
+  let instant = guess - firstOffset;
+  const secondOffset = getOffsetMs(instant, timeZone);
+  if (secondOffset !== firstOffset) instant = guess - secondOffset;
+  return new Date(instant);
+}
+
+// Returns the number of whole calendar days from `from` to `to` (negative if `to` is earlier).
+// Both dates are compared as plain calendar dates, so daylight saving time cannot skew the result.
+export function diffCalendarDays(from: CalendarDate, to: CalendarDate) {
+  const fromMs = Date.UTC(from.year, from.month - 1, from.day);
+  const toMs = Date.UTC(to.year, to.month - 1, to.day);
+  return Math.round((toMs - fromMs) / 86_400_000);
+}
+
+// Returns the calendar date `days` days after `date` (use a negative number to go back).
+export function addCalendarDays(date: CalendarDate, days: number): CalendarDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+}
+
+// Returns the day of the week of a calendar date, where 0 = Sunday and 6 = Saturday.
+export function getWeekday(date: CalendarDate) {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
@@ -0,0 +1,87 @@
+// This file contains the shared client-side error handler for our tRPC mutations. Any
+// component that calls a mutation (creating a task, renaming a task, ...) can pass
+// `toastMutationError` as the mutation's `onError` callback, so every form reports
+// validation problems to the user in exactly the same way.
+
+// Imports the `toast` function from the `react-hot-toast` library. This is a utility for
+// displaying small, non-intrusive notification pop-ups (toasts) to provide immediate
+// feedback to the user, such as "Task title cannot be empty.".
+import { toast } from "react-hot-toast";
+
+// This type describes the parts of a tRPC client error that we read. It is written as a
+// small "structural" type (instead of importing tRPC's full generic error type) so that the
+// helper works for the error of any procedure in our `AppRouter`.
+//
+// - `message`: The general error message sent by the server (e.g., "Task not found").
+// - `data.zodError`: The extra property added by the `errorFormatter` in
+//   `src/server/api/trpc.ts`. It is `null` unless the request failed Zod input validation.
+type MutationError = {
+  message: string;
+  data?: {
+    zodError?: { fieldErrors: Record<string, string[] | undefined> } | null;
+  } | null;
+};
+
+// This function shows one or more toast notifications describing a failed mutation.
+export function toastMutationError(error: MutationError) {
+
+    // This line attempts to extract field-specific validation errors from the error object returned by tRPC.
+    // The error object from tRPC may have a nested structure, where:
+    // - The top-level `error` object may or may not have a `data` property (depending on the error type).
+    // - If present, `data` may have a `zodError` property, which contains validation errors produced by Zod.
+    // - The `zodError` object may have a `fieldErrors` property.
+    //
+    // The `fieldErrors` property is an object (sometimes called a dictionary or map).
+    // Each key in this object is the name of a field in the form (for example: "email" or "password").
+    // The value for each key is always an array of strings, where each string is a separate error message
+    // describing why that particular field failed validation.
+    //
+    // For example, if both the email and password fields are invalid, `fieldErrors` might look like:
+    // {
+    //   email: ["Please enter a valid email address."],
+    //   password: ["Password must be at least 6 characters long.", "Password must contain a special character."]
+    // }
+    //
+    // Note:
+    // - A single field can have multiple error messages if it fails more than one Zod validation rule.
+    // - If a field passes all validation, it will not appear in the `fieldErrors` object at all.
+    //
+    // The use of `?.` (optional chaining) after each property ensures that if any part of the chain is
+    // missing or undefined, the whole expression will safely resolve to `undefined` rather than throwing an error.
+  const fieldErrors = error?.data?.zodError?.fieldErrors;
+
+    // This `if` statement checks whether fieldErrors exists (i.e., is not `undefined` or `null`).
+    // If it does, that means there are validation errors to process and display to the user.
+  if (fieldErrors) {
+
+    // `Object.values(fieldErrors)` retrieves all the values (i.e., arrays of error messages) from the fieldErrors object.
+    // For example, with the previous example, this produces: [["Please enter a valid email address."], ["Password must be at least 6 characters long.", "Password must contain a special character."]]
+    // The `.flat()` method then flattens this array of arrays into a single array of error messages:
+    // ["Please enter a valid email address.", "Password must be at least 6 characters long.", "Password must contain a special character."]
+    // The `.forEach((msg) => { ... })` method then iterates through each error message in this
+    // flattened array, executing the function body once for each message. The parameter `msg`
+    // represents the current error message being processed during that iteration.
+    Object.values(fieldErrors).flat().forEach((msg) => {
+
+      // `if (msg)` checks if the current error message is truthy (not undefined, null, or an empty string).
+      // This ensures that only valid, non-empty error messages are shown to the user.
+      // If the check passes, `toast.error(msg)` displays the error message as a toast notification on the screen.
+      if (msg) toast.error(msg);
+    });
+  }
+
+  // If there were no Zod field validation errors, this block checks for a general error message.
+  // The `error.message` property is available on standard JavaScript Error objects and many tRPC errors.
+  // If such a message exists, it will be displayed to the user as a toast notification.
+  else if (error.message) {
+    toast.error(error.message);
+  }
+
+  // If there is neither a field validation error nor a general error message, this block executes.
+  // This is a fallback to handle unexpected error cases where no specific details are available.
+  // It displays a generic error toast to let the user know something went wrong, even if the backend
+  // didn't provide further information.
+  else {
+    toast.error("An unexpected error occurred.");
+  }
+}
@@ -0,0 +1,91 @@
+// This file contains the tests of the todo.txt conversion (`src/lib/todotxt.ts`). The export
+// must be lossless: a task written as a line and read back is the same task, even when its title
+// contains words that look like todo.txt syntax (contexts, projects, extensions, a leading "x" or
+// priority).
+
+import { test, expect } from "@playwright/test";
+import { formatTodoTxtLine, parseTodoTxtLine, type TodoTxtTask } from "~/lib/todotxt";
+
+const TASK: TodoTxtTask = {
+  id: "task1",
+  parentId: null,
+  title: "",
+  notes: null,
+  completed: false,
+  priority: "none",
+  list: "Inbox",
+  tags: [],
+  dueAt: null,
+  dueAllDay: false,
+  recurrence: null,
+  recurFromCompletion: false,
+  createdOn: "2026-10-01",
+  completedOn: null,
+};
+
+// Titles made of words that the parser would otherwise take out of the title.
+const TITLES = [
+  "Email @bob",
+  "Fix +bug in the parser",
+  "meet due:2026-01-01",
+  "rec:2w now",
+  "id:5 thing",
+  "parent:abc pri:A note:hi rrule:FREQ=DAILY rec-from:completion",
+  "x marks the spot",
+  "(A) grade the essays",
+  "2026-01-01 plan the year",
+  "C:\\temp and \\@escaped already",
+  "\\",
+  "ratio 1:2 at 10:30",
+];
+
+test.describe("todo.txt: titles survive a round trip", () => {
+  // The same titles, in tasks whose line starts differently: with a creation date, without one
+  // (so the title is at the very start of the line), with a priority, and completed.
+  const variants: [string, Partial<TodoTxtTask>][] = [
+    ["with a creation date", {}],
+    ["at the start of the line", { createdOn: null }],
+    ["with a priority", { priority: "high" }],
+    ["completed", { completed: true, completedOn: "2026-10-19", priority: "urgent" }],
+    ["without a list", { list: null, createdOn: null }],
+  ];
+  for (const title of TITLES) {
+    for (const [name, fields] of variants) {
+      test(`"${title}" ${name}`, () => {
+        const task = { ...TASK, ...fields, title };
+        expect(parseTodoTxtLine(formatTodoTxtLine(task))).toEqual(task);
+      });
+    }
+  }
+});
+
+test.describe("todo.txt: the other fields survive a round trip", () => {
+  const tasks: [string, Partial<TodoTxtTask>][] = [
+    ["tags and a list with a space", { title: "Call the dentist", tags: ["phone", "health"], list: "Home office" }],
+    ["an all-day due date", { title: "Pay rent", dueAt: "2026-11-01", dueAllDay: true }],
+    ["a due time", { title: "Standup", dueAt: "2026-10-20T09:00:00.000Z" }],
+    ["a simple recurrence", { title: "Water plants", recurrence: "FREQ=WEEKLY;INTERVAL=2", dueAt: "2026-10-20", dueAllDay: true }],
+    ["a recurrence after completion", { title: "Haircut", recurrence: "FREQ=MONTHLY", recurFromCompletion: true }],
+    ["a full rule", { title: "Review", recurrence: "FREQ=MONTHLY;BYDAY=-1FR", recurFromCompletion: true }],
+    ["a subtask with notes", { title: "Step one", parentId: "task0", notes: "First line\nsecond line, 100% done" }],
+  ];
+  for (const [name, fields] of tasks) {
+    test(name, () => {
+      const task = { ...TASK, ...fields };
+      expect(parseTodoTxtLine(formatTodoTxtLine(task))).toEqual(task);
+    });
+  }
+});
+
+test.describe("todo.txt: escaped words", () => {
+  test("syntax-like words are escaped on export", () => {
+    expect(formatTodoTxtLine({ ...TASK, createdOn: null, list: null, id: null, title: "x Email @bob due:2026-01-01" })).toBe(
+      "\\x Email \\@bob \\due:2026-01-01",
+    );
+  });
+
+  test("an escaped word is read as a title word", () => {
+    const task = parseTodoTxtLine("\\(A) Email \\@bob @work \\+Home +Work");
+    expect(task).toMatchObject({ title: "(A) Email @bob +Home", tags: ["work"], list: "Work", priority: "none" });
+  });
+});
@@ -0,0 +1,255 @@
+// This file converts tasks to and from the todo.txt format (https://github.com/todotxt/todo.txt),
+// one task per line:
+//
+//   x 2026-10-19 2026-10-01 Call the dentist +Health @phone due:2026-10-21 pri:B
+//   (A) 2026-10-01 Write the report +Work @office due:2026-10-20T15:00:00.000Z rec:+1w
+//
+// How the parts map onto a task:
+// - `x` and the completion date: `completed`. The completion date is only written, because a task
+//   doesn't store when it was completed (the export uses the day it was last changed).
+// - `(A)`..`(D)`: the priority, from urgent to low (`(E)`..`(Z)` are read as low). todo.txt drops
+//   the priority of a completed task, so it is kept in `pri:A` instead.
+// - The creation date: the day of `createdAt`.
+// - `+project`: the list. Only the last project is the list; any others stay in the title (the
+//   list is written at the end of the title, so it is the last project again when read back).
+// - `@context`: the tags.
+// - `due:`: the due date, a day (`2026-10-21`, all-day) or a full ISO timestamp (at a time).
+// - `rec:`: a simple recurrence, as in other todo.txt apps: `rec:2w` repeats every 2 weeks after
+//   the task is completed, `rec:+2w` every 2 weeks after its due date (d, w, m, y). Other rules
+//   are written as `rrule:FREQ=...`, with `rec-from:completion` if they repeat from completion.
+// - `id:` and `parent:`: the task's id and its parent's id, which link subtasks.
+// - `note:`: the notes.
+//
+// Values that could contain spaces (lists and notes) are written with spaces, line breaks and "%"
+// percent-encoded ("Home%20office"). A `key:value` with an unknown key or an invalid value is not
+// an extension: it stays in the title as it was written.
+//
+// A word of the title that would be read back as one of the parts above ("Email @bob",
+// "meet due:2026-01-01", a title starting with "x " or "(A) ") is written with a backslash in
+// front ("Email \@bob"), and a word that starts with a backslash gets a second one. When a line is
+// read, a word that starts with a backslash is always a title word, with one backslash removed.
+// So an exported title always comes back exactly as it was.
+
+import { RRuleError, parseRRule, type RRuleFrequency } from "~/lib/rrule";
+import { type TaskPriority } from "~/lib/priority";
+
+export type TodoTxtTask = {
+  id: string | null;
+  parentId: string | null;
+  title: string;
+  notes: string | null;
+  completed: boolean;
+  priority: TaskPriority;
+  list: string | null;
+  tags: string[];
+
+  // A timestamp, or a day ("2026-10-21") when `dueAllDay` is set.
+  dueAt: string | null;
+  dueAllDay: boolean;
+  recurrence: string | null;
+  recurFromCompletion: boolean;
+
+  // Days ("2026-10-01").
+  createdOn: string | null;
+  completedOn: string | null;
+};
+
+// The todo.txt priority letter of each priority level.
+const PRIORITY_LETTERS: Record<Exclude<TaskPriority, "none">, string> = {
+  urgent: "A",
+  high: "B",
+  medium: "C",
+  low: "D",
+};
+
+function priorityFromLetter(letter: string): TaskPriority {
+  const found = Object.entries(PRIORITY_LETTERS).find(([, value]) => value === letter);
+  return found ? (found[0] as TaskPriority) : "low";
+}
+
+// The `rec:` units, and the RRULE frequency of each.
+const REC_UNITS: Record<string, RRuleFrequency> = { d: "DAILY", w: "WEEKLY", m: "MONTHLY", y: "YEARLY" };
+const REC_PATTERN = /^(\+?)(\d{1,3})([dwmy])$/;
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?(Z|[+-]\d{2}:\d{2})$/;
+
+// Whether `text` is a real day ("2026-02-30" is not).
+function isDay(text: string) {
+  return DAY_PATTERN.test(text) && new Date(`${text}T00:00:00Z`).toISOString().startsWith(text);
+}
+
+function isTimestamp(text: string) {
+  return TIMESTAMP_PATTERN.test(text) && !Number.isNaN(new Date(text).getTime());
+}
+
+function encodeValue(value: string) {
+  return value.replace(/[%\s]/gu, (char) => encodeURIComponent(char));
+}
+
+function decodeValue(value: string) {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// Writes a recurrence as `rec:` when it is a plain "every N days/weeks/months/years", and as
+// `rrule:` (plus `rec-from:completion`) otherwise.
+function formatRecurrence(rule: string, fromCompletion: boolean) {
+  try {
+    const parsed = parseRRule(rule);
+    const isPlain =
+      !parsed.byDay.length && !parsed.byMonthDay.length && !parsed.byMonth.length && parsed.count === null && !parsed.until;
+    const unit = Object.entries(REC_UNITS).find(([, freq]) => freq === parsed.freq)?.[0];
+    if (isPlain && unit) return [`rec:${fromCompletion ? "" : "+"}${parsed.interval}${unit}`];
+  } catch (error) {
+    if (!(error instanceof RRuleError)) throw error;
+  }
+  return [`rrule:${rule}`, ...(fromCompletion ? ["rec-from:completion"] : [])];
+}
+
+// The keys of the extensions that `parseTodoTxtLine` reads.
+const EXTENSION_KEYS = new Set(["due", "rec", "rrule", "rec-from", "pri", "id", "parent", "note"]);
+
+// Whether a word of the title would be read back as something else: a project, a context, an
+// extension, or (as the first word) a completion mark, a priority or a date. Words that start with
+// a backslash are included, since reading one removes a backslash.
+function needsEscape(word: string, isFirst: boolean) {
+  if (word.startsWith("\\") || word.startsWith("+") || word.startsWith("@")) return true;
+  const separator = word.indexOf(":");
+  if (separator > 0 && EXTENSION_KEYS.has(word.slice(0, separator))) return true;
+  return isFirst && (word === "x" || /^\([A-Z]\)$/.test(word) || isDay(word));
+}
+
+// Writes a title with the words that need it escaped (see the top of this file).
+function formatTitle(title: string) {
+  const words = title.split(/\s+/u).filter((word) => word !== "");
+  return words.map((word, i) => (needsEscape(word, i === 0) ? `\\${word}` : word)).join(" ");
+}
+
+// Formats one task as a todo.txt line.
+export function formatTodoTxtLine(task: TodoTxtTask) {
+  const parts: string[] = [];
+  const letter = task.priority === "none" ? null : PRIORITY_LETTERS[task.priority];
+
+  if (task.completed) {
+    parts.push("x");
+
+    // todo.txt only allows a creation date after a completion date.
+    const completedOn = task.completedOn ?? task.createdOn;
+    if (completedOn) parts.push(completedOn);
+  } else if (letter) {
+    parts.push(`(${letter})`);
+  }
+  if (task.createdOn) parts.push(task.createdOn);
+
+  parts.push(formatTitle(task.title));
+  if (task.list) parts.push(`+${encodeValue(task.list)}`);
+  for (const tag of task.tags) parts.push(`@${tag}`);
+  if (task.dueAt) parts.push(`due:${task.dueAt}`);
+  if (task.recurrence) parts.push(...formatRecurrence(task.recurrence, task.recurFromCompletion));
+  if (task.completed && letter) parts.push(`pri:${letter}`);
+  if (task.id) parts.push(`id:${task.id}`);
+  if (task.parentId) parts.push(`parent:${task.parentId}`);
+  if (task.notes) parts.push(`note:${encodeValue(task.notes)}`);
+  return parts.join(" ");
+}
+
+// Parses one todo.txt line (which must not be empty).
+export function parseTodoTxtLine(line: string): TodoTxtTask {
+  const task: TodoTxtTask = {
+    id: null,
+    parentId: null,
+    title: "",
+    notes: null,
+    completed: false,
+    priority: "none",
+    list: null,
+    tags: [],
+    dueAt: null,
+    dueAllDay: false,
+    recurrence: null,
+    recurFromCompletion: false,
+    createdOn: null,
+    completedOn: null,
+  };
+  const tokens = line.trim().split(/\s+/u);
+
+  // The start of the line: completion mark and date, priority, creation date.
+  if (tokens[0] === "x") {
+    task.completed = true;
+    tokens.shift();
+    if (tokens[0] && isDay(tokens[0])) task.completedOn = tokens.shift() ?? null;
+  } else if (tokens[0] && /^\([A-Z]\)$/.test(tokens[0])) {
+    task.priority = priorityFromLetter(tokens[0].charAt(1));
+    tokens.shift();
+  }
+  if (tokens[0] && isDay(tokens[0])) task.createdOn = tokens.shift() ?? null;
+
+  // The rest: the title's words, projects, contexts and extensions, in any order.
+  const words: string[] = [];
+  let priorityExtension: TaskPriority | null = null;
+  let listIndex: number | null = null;
+  for (const token of tokens) {
+    // An escaped title word (see the top of this file).
+    if (token.startsWith("\\")) {
+      words.push(token.slice(1));
+      continue;
+    }
+
+    const separator = token.indexOf(":");
+    const key = separator > 0 ? token.slice(0, separator) : "";
+    const value = token.slice(separator + 1);
+    const rec = key === "rec" ? REC_PATTERN.exec(value) : null;
+
+    if (/^\+\S/u.test(token)) {
+      listIndex = words.length;
+      words.push(token);
+    } else if (/^@[\p{L}\p{N}_-]+$/u.test(token)) {
+      task.tags.push(token.slice(1));
+    } else if (key === "due" && (isDay(value) || isTimestamp(value))) {
+      task.dueAt = value;
+      task.dueAllDay = isDay(value);
+    } else if (rec?.[2] && rec[3]) {
+      const interval = Number(rec[2]);
+      task.recurrence = `FREQ=${REC_UNITS[rec[3]]}${interval === 1 ? "" : `;INTERVAL=${interval}`}`;
+      task.recurFromCompletion = rec[1] !== "+";
+    } else if (key === "rrule" && value) {
+      task.recurrence = value;
+    } else if (key === "rec-from" && value === "completion") {
+      task.recurFromCompletion = true;
+    } else if (key === "pri" && /^[A-Z]$/.test(value)) {
+      priorityExtension = priorityFromLetter(value);
+    } else if (key === "id" && value) {
+      task.id = value;
+    } else if (key === "parent" && value) {
+      task.parentId = value;
+    } else if (key === "note" && value) {
+      task.notes = decodeValue(value);
+    } else {
+      words.push(token);
+    }
+  }
+  if (task.priority === "none" && priorityExtension) task.priority = priorityExtension;
+  if (listIndex !== null) {
+    const [project = ""] = words.splice(listIndex, 1);
+    task.list = decodeValue(project.slice(1));
+  }
+  task.title = words.join(" ");
+  return task;
+}
+
+// Formats tasks as a todo.txt file.
+export function formatTodoTxt(tasks: TodoTxtTask[]) {
+  return tasks.map((task) => formatTodoTxtLine(task) + "\n").join("");
+}
+
+// Parses a todo.txt file, skipping empty lines.
+export function parseTodoTxt(text: string) {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "")
+    .map(parseTodoTxtLine);
+}
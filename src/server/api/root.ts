@@ -13,6 +13,22 @@ import { taskRouter } from "./routers/task";
 // Imports the `authRouter` we created. It contains all API procedures related to authentication.
 import { authRouter } from "./routers/auth";
 
+// Imports the `userRouter` we created. It contains the procedures for the signed-in user's settings.
+import { userRouter } from "./routers/user";
+
+// Imports the `tagRouter` we created. It contains the procedures that manage a user's tags.
+import { tagRouter } from "./routers/tag";
+
+import { listRouter } from "./routers/list";
+
+import { transferRouter } from "./routers/transfer";
+
+import { sharingRouter } from "./routers/sharing";
+
+import { commentRouter } from "./routers/comment";
+
+import { attachmentRouter } from "./routers/attachment";
+
 /**
  * This is the primary, or "root", router for your entire server.
  * It acts as a container that merges all the other modular routers (like taskRouter)
@@ -28,10 +44,20 @@ import { authRouter } from "./routers/auth";
 // this router to process all incoming API requests from the client.
 export const appRouter = createTRPCRouter({
 
-  // This merges the `taskRouter` and `authRouter` into the main `appRouter` under the `task` and `auth` namespaces.
-  // Frontend access will look like `api.task.getAll`, `api.task.create`, etc.
+  // This merges the `taskRouter`, `authRouter`, `userRouter`, `tagRouter`, `listRouter`,
+  // `transferRouter`, `sharingRouter`, `commentRouter`, and `attachmentRouter` into the main
+  // `appRouter` under the `task`, `auth`, `user`, `tag`, `list`, `transfer`, `sharing`,
+  // `comment`, and `attachment` namespaces.
+  // Frontend access will look like `api.task.getAll`, `api.task.create`, `api.list.reorder`, etc.
   task: taskRouter,
   auth: authRouter,
+  user: userRouter,
+  tag: tagRouter,
+  list: listRouter,
+  transfer: transferRouter,
+  sharing: sharingRouter,
+  comment: commentRouter,
+  attachment: attachmentRouter,
 });
 
 // This is the important line for type-safety.
@@ -0,0 +1,53 @@
+// This file defines the "attachment" router for our tRPC API: listing and deleting the files
+// attached to a task. Files are uploaded through `POST /api/attachments` instead (see
+// `src/app/api/attachments/route.ts`), since tRPC requests are JSON.
+//
+// Like comments, attachments follow the task's list (see `src/server/sharing.ts`): everyone who
+// can open the list can see and download them, and editors (and up) can delete them.
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, protectedProcedure } from "../trpc";
+import { deleteAttachment, getAttachmentUrls } from "~/server/attachments";
+import { hasListAccess } from "~/lib/sharing";
+import { findTaskForAccessOrThrow, getListAccess } from "~/server/sharing";
+import { getFileStorage } from "~/server/storage";
+
+export const attachmentRouter = createTRPCRouter({
+
+  // Returns the files attached to a task, oldest first, each with signed URLs to download it
+  // and (for images) its thumbnail. The URLs expire, so the client refetches this regularly.
+  // `canEdit` says whether the user may upload and delete files.
+  getByTask: protectedProcedure
+    .input(z.object({ taskId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const task = await findTaskForAccessOrThrow(ctx.db, userId, input.taskId, "viewer");
+      const [access, attachments] = await Promise.all([
+        getListAccess(ctx.db, userId, { id: task.listId, userId: task.userId }),
+        ctx.db.attachment.findMany({
+          where: { taskId: task.id },
+          orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+          select: { id: true, fileName: true, contentType: true, size: true, thumbnailKey: true, createdAt: true },
+        }),
+      ]);
+      return {
+        canEdit: !!access && hasListAccess(access, "editor"),
+        attachments: attachments.map(({ thumbnailKey, ...attachment }) => ({
+          ...attachment,
+          ...getAttachmentUrls({ id: attachment.id, thumbnailKey }),
+        })),
+      };
+    }),
+
+  // Deletes an attachment and its stored files.
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const attachment = await ctx.db.attachment.findUnique({ where: { id: input.id } });
+      if (!attachment?.taskId) throw new TRPCError({ code: "NOT_FOUND", message: "Attachment not found" });
+      await findTaskForAccessOrThrow(ctx.db, ctx.session.user.id, attachment.taskId, "editor");
+      await deleteAttachment(ctx.db, getFileStorage(), attachment);
+      return { id: attachment.id, taskId: attachment.taskId };
+    }),
+});
@@ -32,6 +32,9 @@ import { db } from "~/server/db";
 // were compromised, the user's actual passwords would not be exposed.
 import bcrypt from "bcryptjs";
 
+// The name given to the default list that every new user gets.
+import { INBOX_NAME } from "~/server/lists";
+
 // Imports our custom `sendVerificationEmail` utility function from our email library.
 // After successfully creating the user and their unique verification token, we will
 // call this function to trigger the actual sending of the verification email via our
@@ -231,6 +234,10 @@ export const authRouter = createTRPCRouter({
           // We set the `verificationToken` column to the secure, random token we generated with `crypto`.
           // This uses the property shorthand for `verificationToken: verificationToken`.
           verificationToken,
+
+          // Every user starts with an Inbox list, which is where new tasks go by default. This
+          // is a "nested write": Prisma creates the `TaskList` row in the same query as the user.
+          lists: { create: { name: INBOX_NAME, isInbox: true, position: 0 } },
         },
       });
 
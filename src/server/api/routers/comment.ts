@@ -0,0 +1,106 @@
+// This file defines the "comment" router for our tRPC API: the discussion thread of a task,
+// shown in the task detail drawer. It lists, adds, edits, and deletes comments.
+//
+// Comments follow the task's list (see `src/server/sharing.ts`): everyone who can open the list
+// can read them, and editors (and up) can write them. A comment can only be edited or deleted by
+// its author, or by the list's owner (who moderates the discussions in their lists).
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { type Prisma } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure } from "../trpc";
+import { hasListAccess } from "~/lib/sharing";
+import { findTaskForAccessOrThrow, getListAccess } from "~/server/sharing";
+import { markTasksChanged } from "~/server/task-sync";
+
+// The body of a comment: Markdown, like the task's notes, but shorter.
+const commentBodySchema = z
+  .string()
+  .trim()
+  .min(1, { message: "Comment cannot be empty." })
+  .max(5_000, { message: "Comments can be at most 5,000 characters." });
+
+// Every comment is returned with the name and email of its author, for the thread.
+const commentInclude = {
+  author: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.CommentInclude;
+
+// Loads a comment that `userId` may edit or delete: they must be able to open its task's list,
+// and be the comment's author or the list's owner (who is also the task's owner). Returns the
+// comment with its task. Throws `NOT_FOUND` or `FORBIDDEN` otherwise.
+async function findEditableCommentOrThrow(db: Prisma.TransactionClient, userId: string, id: string) {
+  const comment = await db.comment.findUnique({ where: { id } });
+  if (!comment) throw new TRPCError({ code: "NOT_FOUND", message: "Comment not found" });
+  const task = await findTaskForAccessOrThrow(db, userId, comment.taskId, "viewer");
+  if (comment.authorId !== userId && task.userId !== userId) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Only the comment's author and the list's owner can change this comment.",
+    });
+  }
+  return { ...comment, task };
+}
+
+export const commentRouter = createTRPCRouter({
+
+  // Returns the comments of a task, oldest first (the order of a conversation). Each one says
+  // whether the user may edit and delete it (`canEdit`), and `canComment` whether they may add
+  // comments, so the client only shows the controls the server would accept.
+  getByTask: protectedProcedure
+    .input(z.object({ taskId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const task = await findTaskForAccessOrThrow(ctx.db, userId, input.taskId, "viewer");
+      const [access, comments] = await Promise.all([
+        getListAccess(ctx.db, userId, { id: task.listId, userId: task.userId }),
+        ctx.db.comment.findMany({
+          where: { taskId: task.id },
+          orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+          include: commentInclude,
+        }),
+      ]);
+      return {
+        canComment: !!access && hasListAccess(access, "editor"),
+        comments: comments.map((comment) => ({
+          ...comment,
+          canEdit: comment.authorId === userId || task.userId === userId,
+        })),
+      };
+    }),
+
+  // Adds a comment to a task, written by the signed-in user.
+  create: protectedProcedure
+    .input(z.object({ taskId: z.string(), body: commentBodySchema }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const task = await findTaskForAccessOrThrow(ctx.db, userId, input.taskId, "editor");
+      // The task's row shows the number of comments, so the other tabs get the new count.
+      markTasksChanged([task]);
+      return ctx.db.comment.create({
+        data: { taskId: task.id, authorId: userId, body: input.body },
+        include: commentInclude,
+      });
+    }),
+
+  // Changes the body of a comment, and marks it as edited.
+  update: protectedProcedure
+    .input(z.object({ id: z.string(), body: commentBodySchema }))
+    .mutation(async ({ ctx, input }) => {
+      const comment = await findEditableCommentOrThrow(ctx.db, ctx.session.user.id, input.id);
+      return ctx.db.comment.update({
+        where: { id: comment.id },
+        data: { body: input.body, editedAt: new Date() },
+        include: commentInclude,
+      });
+    }),
+
+  // Deletes a comment for good.
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const comment = await findEditableCommentOrThrow(ctx.db, ctx.session.user.id, input.id);
+      await ctx.db.comment.delete({ where: { id: comment.id } });
+      markTasksChanged([comment.task]);
+      return { id: comment.id, taskId: comment.taskId };
+    }),
+});
@@ -0,0 +1,208 @@
+// This file defines the "list" router for our tRPC API. It contains the procedures that manage
+// a user's task lists (projects): listing, creating, renaming, reordering, archiving, and
+// deleting them, and moving tasks from one list to another.
+//
+// A list belongs to its owner, who can share it with other users (see `sharingRouter`). Like the
+// `taskRouter`, every procedure here is built on `protectedProcedure` and checks the signed-in
+// user's access to the list: only the owner can rename, reorder, archive or delete it, members
+// can open it, and touching a list the user can't open (or its tasks) returns `NOT_FOUND`.
+//
+// Every user has one Inbox list, which is where tasks go when no list is picked. It can be
+// renamed, but not archived or deleted, so there is always somewhere to put new tasks.
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, protectedProcedure } from "../trpc";
+import { findOwnedListOrThrow, getOrCreateInbox, listNameSchema, moveTasksToList } from "~/server/lists";
+import { accessibleListWhere, findListForAccessOrThrow } from "~/server/sharing";
+import { type ListAccess } from "~/lib/sharing";
+import { getSubtreeIds } from "~/server/subtasks";
+import { appendToList, lockTaskList } from "~/server/positions";
+import { trackTaskChanges } from "~/server/task-events";
+import { markUsersChanged } from "~/server/task-sync";
+
+// Throws `BAD_REQUEST` when the list is the user's Inbox, for operations the Inbox doesn't allow.
+function assertNotInbox(list: { isInbox: boolean }, action: string) {
+  if (list.isInbox) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `The Inbox can't be ${action}.` });
+  }
+}
+
+export const listRouter = createTRPCRouter({
+
+  // Returns the user's lists in sidebar order (the Inbox always first), followed by the lists
+  // shared with them, each with the number of tasks that are still open (`_count.tasks`, not
+  // counting tasks in the trash), shown as a badge in the sidebar. Archived lists are only
+  // included when `includeArchived` is set.
+  //
+  // Each list comes with the user's `access` to it ("owner", or their role as a member), and
+  // its owner's name and email, so the sidebar can show who shared it.
+  getAll: protectedProcedure
+    .input(z.object({ includeArchived: z.boolean().optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+
+      // Makes sure the Inbox exists, so the sidebar never shows an empty list of lists.
+      await getOrCreateInbox(ctx.db, userId);
+
+      const lists = await ctx.db.taskList.findMany({
+        where: { ...accessibleListWhere(userId), ...(input?.includeArchived ? {} : { archivedAt: null }) },
+        orderBy: [{ isInbox: "desc" }, { position: "asc" }, { createdAt: "asc" }],
+        include: {
+          _count: { select: { tasks: { where: { completed: false, deletedAt: null } } } },
+          members: { where: { userId }, select: { role: true } },
+          user: { select: { name: true, email: true } },
+        },
+      });
+      const withAccess = lists.map(({ members, user, ...list }) => ({
+        ...list,
+        access: (list.userId === userId ? "owner" : (members[0]?.role ?? "viewer")) as ListAccess,
+        owner: user,
+      }));
+
+      // The user's own lists keep their order, and the shared lists go below them, by name.
+      const own = withAccess.filter((list) => list.access === "owner");
+      const shared = withAccess.filter((list) => list.access !== "owner").sort((a, b) => a.name.localeCompare(b.name));
+      return [...own, ...shared];
+    }),
+
+  // Returns a single list by id (one of the user's own, or one shared with them), or the user's
+  // Inbox when no id is given (the `/tasks` page), with the user's `access` to it.
+  getById: protectedProcedure
+    .input(z.object({ id: z.string().optional() }))
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      return input.id
+        ? findListForAccessOrThrow(ctx.db, userId, input.id, "viewer")
+        : { ...(await getOrCreateInbox(ctx.db, userId)), access: "owner" as ListAccess };
+    }),
+
+  // Creates a new list at the bottom of the sidebar.
+  create: protectedProcedure
+    .input(z.object({ name: listNameSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const last = await ctx.db.taskList.aggregate({ where: { userId }, _max: { position: true } });
+      return ctx.db.taskList.create({
+        data: { userId, name: input.name, position: (last._max.position ?? 0) + 1 },
+      });
+    }),
+
+  // Renames a list.
+  rename: protectedProcedure
+    .input(z.object({ id: z.string(), name: listNameSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const list = await findListForAccessOrThrow(ctx.db, ctx.session.user.id, input.id, "owner");
+      return ctx.db.taskList.update({ where: { id: list.id }, data: { name: input.name } });
+    }),
+
+  // Saves a new sidebar order. `ids` are the user's lists in their new order; each list's
+  // `position` becomes its index in the array. Lists not in `ids` (e.g., archived ones) keep
+  // their position. Everything runs in one transaction, so the order is never half-saved. Lists
+  // shared with the user aren't theirs to reorder, so they can't be in `ids`.
+  reorder: protectedProcedure
+    .input(z.object({ ids: z.array(z.string()).min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      return ctx.db.$transaction(async (tx) => {
+        for (const id of input.ids) await findOwnedListOrThrow(tx, userId, id);
+        for (const [position, id] of input.ids.entries()) {
+          await tx.taskList.update({ where: { id }, data: { position } });
+        }
+      });
+    }),
+
+  // Archives (`archived: true`) or restores (`archived: false`) a list. Archiving hides the list
+  // from the sidebar but keeps it and its tasks.
+  archive: protectedProcedure
+    .input(z.object({ id: z.string(), archived: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      const list = await findListForAccessOrThrow(ctx.db, ctx.session.user.id, input.id, "owner");
+      assertNotInbox(list, "archived");
+      return ctx.db.taskList.update({
+        where: { id: list.id },
+        data: { archivedAt: input.archived ? new Date() : null },
+      });
+    }),
+
+  // Deletes a list. `tasks` says what happens to the tasks in it:
+  // - "delete": the tasks go to the trash, like deleted tasks do, so they can still be restored
+  //   until the trash is purged. A task in the trash is still in a list, so they are moved to
+  //   the Inbox first, and are restored there.
+  // - "move": the tasks are moved to `moveToListId`, or to the Inbox if it is not given.
+  // Either way, in the "Manual" order they go below the tasks that are already in that list.
+  delete: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        tasks: z.enum(["delete", "move"]),
+        moveToListId: z.string().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      return ctx.db.$transaction(async (tx) => {
+        const list = await findListForAccessOrThrow(tx, userId, input.id, "owner");
+        assertNotInbox(list, "deleted");
+
+        const target =
+          input.tasks === "move" && input.moveToListId
+            ? await findOwnedListOrThrow(tx, userId, input.moveToListId)
+            : await getOrCreateInbox(tx, userId);
+        if (target.id === list.id) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Pick a different list to move the tasks to." });
+        }
+        await lockTaskList(tx, target.id);
+        const tasks = await tx.task.findMany({ where: { listId: list.id }, select: { id: true, parentId: true } });
+        const taskIds = tasks.map((task) => task.id);
+        const topLevel = tasks.filter((task) => task.parentId === null);
+
+        // The tasks get a "moved" event in their activity history, and a "deleted" one when they
+        // go to the trash. They all get the same `deletedAt`, like a task and its subtasks do in
+        // `trashTask`, and tasks that were already in the trash stay there as they were.
+        await trackTaskChanges(tx, userId, taskIds, async () => {
+          await tx.task.updateMany({ where: { listId: list.id }, data: { listId: target.id } });
+          await appendToList(tx, target.id, topLevel.map((task) => task.id));
+          if (input.tasks === "delete") {
+            await tx.task.updateMany({ where: { id: { in: taskIds }, deletedAt: null }, data: { deletedAt: new Date() } });
+          }
+        });
+
+        // The list's members can't open the tasks any more. Once the list is gone, nothing tells
+        // who they were, so they are marked for the sync now.
+        const members = await tx.listMember.findMany({ where: { listId: list.id }, select: { userId: true } });
+        markUsersChanged(members.map((member) => member.userId));
+
+        return tx.taskList.delete({ where: { id: list.id } });
+      });
+    }),
+
+  // Moves one or more tasks into another list, together with all of their subtasks (a subtask
+  // is always in the same list as its parent). See `moveTasksToList` for the details.
+  //
+  // The user must be able to edit the tasks of the target list and of the lists the tasks come
+  // from, and tasks only move between lists of the same owner: other ids match nothing, so they
+  // are silently left alone. Returns how many tasks were moved (subtasks included).
+  moveTasks: protectedProcedure
+    .input(z.object({ taskIds: z.array(z.string()).min(1), listId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      return ctx.db.$transaction(async (tx) => {
+        const list = await findListForAccessOrThrow(tx, userId, input.listId, "editor");
+        const movable = await tx.task.findMany({
+          where: {
+            id: { in: input.taskIds },
+            userId: list.userId,
+            deletedAt: null,
+            list: accessibleListWhere(userId, "editor"),
+          },
+          select: { id: true },
+        });
+        const taskIds = movable.map((task) => task.id);
+
+        // Every task that changes list (or parent) gets a "moved" event in its activity history.
+        const ids = await getSubtreeIds(tx, list.userId, taskIds);
+        return trackTaskChanges(tx, userId, ids, () => moveTasksToList(tx, list.userId, taskIds, list.id));
+      });
+    }),
+});
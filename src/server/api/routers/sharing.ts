@@ -0,0 +1,156 @@
+// This file defines the "sharing" router for our tRPC API: sharing a list with other registered
+// users, as viewers, editors or admins (see `src/lib/sharing.ts` for what each role may do).
+//
+// A list is shared by invitation: the owner or an admin invites a user by email, the invitation is
+// emailed to them as a link (`/invite/<token>`), and opening the link while signed in with that
+// address makes them a member (see `acceptListInvite` in `src/server/sharing.ts`). The owner and
+// admins can then change members' roles or remove them, and every member can leave the list.
+// Admins only manage viewers and editors: making, demoting and removing admins is up to the
+// owner (see `canManageRole`).
+//
+// The Inbox is always private, so it can't be shared.
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { type Prisma } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure } from "../trpc";
+import { sendListInviteEmail } from "~/lib/email";
+import { LIST_ROLES, LIST_ROLE_DISPLAY, canManageRole, hasListAccess, type ListAccess, type ListRole } from "~/lib/sharing";
+import { findListForAccessOrThrow, generateInviteToken, getInviteExpiry } from "~/server/sharing";
+
+const userSummarySelect = { id: true, name: true, email: true } as const;
+
+// Throws `FORBIDDEN` unless a user with `access` may give or manage every one of `roles`.
+function assertCanManageRoles(access: ListAccess, ...roles: ListRole[]) {
+  if (!roles.every((role) => canManageRole(access, role))) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Only the list's owner can make, change or remove admins." });
+  }
+}
+
+// Loads a member of a list, or throws `NOT_FOUND`.
+async function findMemberOrThrow(db: Prisma.TransactionClient, listId: string, userId: string) {
+  const member = await db.listMember.findUnique({ where: { listId_userId: { listId, userId } } });
+  if (!member) throw new TRPCError({ code: "NOT_FOUND", message: "Member not found" });
+  return member;
+}
+
+export const sharingRouter = createTRPCRouter({
+
+  // Returns who a list is shared with: its owner and members (for every member), and the
+  // pending invitations (only for the owner and admins, who can manage them). Also returns the
+  // user's own id and `access`, so the client knows which controls to show.
+  getMembers: protectedProcedure
+    .input(z.object({ listId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const list = await findListForAccessOrThrow(ctx.db, userId, input.listId, "viewer");
+      const [owner, members, invites] = await Promise.all([
+        ctx.db.user.findUniqueOrThrow({ where: { id: list.userId }, select: userSummarySelect }),
+        ctx.db.listMember.findMany({
+          where: { listId: list.id },
+          orderBy: { createdAt: "asc" },
+          select: { role: true, user: { select: userSummarySelect } },
+        }),
+        hasListAccess(list.access, "admin")
+          ? ctx.db.listInvite.findMany({
+              where: { listId: list.id },
+              orderBy: { createdAt: "asc" },
+              select: { id: true, email: true, role: true, expiresAt: true },
+            })
+          : [],
+      ]);
+      return { userId, access: list.access, owner, members, invites };
+    }),
+
+  // Invites a registered user to a list by email, with a role. Inviting an address that already
+  // has a pending invitation replaces it (with a new link, role and expiry date).
+  invite: protectedProcedure
+    .input(
+      z.object({
+        listId: z.string(),
+        email: z.string().trim().toLowerCase().email({ message: "Please enter a valid email address." }),
+        role: z.enum(LIST_ROLES),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const list = await findListForAccessOrThrow(ctx.db, userId, input.listId, "admin");
+      if (list.isInbox) throw new TRPCError({ code: "BAD_REQUEST", message: "The Inbox can't be shared." });
+      assertCanManageRoles(list.access, input.role);
+
+      // Only registered users can be invited. Emails are stored as they were typed, so the
+      // lookup ignores case.
+      const invitee = await ctx.db.user.findFirst({
+        where: { email: { equals: input.email, mode: "insensitive" } },
+        select: { id: true },
+      });
+      if (!invitee) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "There is no account with this email address." });
+      }
+      if (invitee.id === list.userId) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "This user owns the list." });
+      }
+      const member = await ctx.db.listMember.findUnique({
+        where: { listId_userId: { listId: list.id, userId: invitee.id } },
+      });
+      if (member) {
+        throw new TRPCError({ code: "CONFLICT", message: "This user is already a member of the list." });
+      }
+
+      const token = generateInviteToken();
+      const invite = { role: input.role, token, invitedById: userId, expiresAt: getInviteExpiry() };
+      await ctx.db.listInvite.upsert({
+        where: { listId_email: { listId: list.id, email: input.email } },
+        create: { listId: list.id, email: input.email, ...invite },
+        update: invite,
+      });
+
+      const inviter = await ctx.db.user.findUniqueOrThrow({ where: { id: userId }, select: userSummarySelect });
+      await sendListInviteEmail(input.email, {
+        token,
+        listName: list.name,
+        inviterName: inviter.name ?? inviter.email ?? "Someone",
+        role: LIST_ROLE_DISPLAY[input.role].label,
+      });
+      return { email: input.email };
+    }),
+
+  // Withdraws a pending invitation, so its link stops working.
+  cancelInvite: protectedProcedure
+    .input(z.object({ inviteId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const invite = await ctx.db.listInvite.findUnique({ where: { id: input.inviteId } });
+      if (!invite) throw new TRPCError({ code: "NOT_FOUND", message: "Invitation not found" });
+      const list = await findListForAccessOrThrow(ctx.db, ctx.session.user.id, invite.listId, "admin");
+      assertCanManageRoles(list.access, invite.role);
+      await ctx.db.listInvite.delete({ where: { id: invite.id } });
+    }),
+
+  // Changes a member's role. Admins can't change their own role: they can leave the list.
+  updateRole: protectedProcedure
+    .input(z.object({ listId: z.string(), userId: z.string(), role: z.enum(LIST_ROLES) }))
+    .mutation(async ({ ctx, input }) => {
+      const list = await findListForAccessOrThrow(ctx.db, ctx.session.user.id, input.listId, "admin");
+      const member = await findMemberOrThrow(ctx.db, list.id, input.userId);
+      assertCanManageRoles(list.access, member.role, input.role);
+      await ctx.db.listMember.update({ where: { id: member.id }, data: { role: input.role } });
+    }),
+
+  // Removes a member from a list. The owner can remove anyone, and admins the viewers and
+  // editors; every member can remove themselves (leave the list). The tasks stay in the list:
+  // they belong to its owner.
+  removeMember: protectedProcedure
+    .input(z.object({ listId: z.string(), userId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const list = await findListForAccessOrThrow(
+        ctx.db,
+        userId,
+        input.listId,
+        input.userId === userId ? "viewer" : "admin",
+      );
+      const member = await findMemberOrThrow(ctx.db, list.id, input.userId);
+      if (input.userId !== userId) assertCanManageRoles(list.access, member.role);
+      await ctx.db.listMember.delete({ where: { id: member.id } });
+    }),
+});
@@ -0,0 +1,149 @@
+// This file defines the "tag" router for our tRPC API. It contains the procedures that manage
+// a user's tags (labels): listing, creating, renaming, recoloring, merging, and deleting them.
+// Attaching tags to tasks is done through the `taskRouter` (`task.create` and `task.update`).
+//
+// Tags are private to their owner. Like the `taskRouter`, every procedure here is built on
+// `protectedProcedure`, every query is scoped to `ctx.session.user.id`, and touching another
+// user's tag returns `NOT_FOUND`.
+//
+// A tag change shows up on every task that has the tag, so every mutation here sends those
+// tasks to the other open tabs and collaborators (see `src/server/task-sync.ts`).
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { Prisma } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure } from "../trpc";
+import { tagColorSchema, tagNameSchema } from "~/server/tags";
+import { pickTagColor } from "~/lib/tags";
+import { markTagsChanged, markTasksChanged } from "~/server/task-sync";
+
+// Loads a single tag, but only if it belongs to the given user. Otherwise throws `NOT_FOUND`
+// (the same error as a task the user can't open, see `src/server/sharing.ts`).
+async function findOwnedTagOrThrow(db: Prisma.TransactionClient, userId: string, id: string) {
+  const tag = await db.tag.findFirst({ where: { id, userId } });
+  if (!tag) throw new TRPCError({ code: "NOT_FOUND", message: "Tag not found" });
+  return tag;
+}
+
+// Marks the tasks that have one of the tags (and the tags' owner) as changed, for real-time
+// sync. Called before the write, while the tasks still have the tags.
+async function markTaggedTasksChanged(db: Prisma.TransactionClient, userId: string, tagIds: string[]) {
+  const tasks = await db.task.findMany({
+    where: { deletedAt: null, tags: { some: { tagId: { in: tagIds } } } },
+    select: { id: true, listId: true },
+  });
+  markTasksChanged(tasks);
+  markTagsChanged(userId);
+}
+
+// Runs a write that may violate the `@@unique([userId, name])` constraint, and turns that
+// specific database error (Prisma code "P2002") into a friendly `CONFLICT` error. Any other
+// error is re-thrown unchanged.
+async function withUniqueName<T>(write: () => Promise<T>) {
+  try {
+    return await write();
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "You already have a tag with that name. Merge the tags instead.",
+      });
+    }
+    throw error;
+  }
+}
+
+export const tagRouter = createTRPCRouter({
+
+  // Returns all of the user's tags in alphabetical order, each with the number of tasks it is
+  // attached to (`_count.tasks`, not counting tasks in the trash), which the tag manager shows
+  // next to each tag.
+  getAll: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.db.tag.findMany({
+      where: { userId: ctx.session.user.id },
+      orderBy: { name: "asc" },
+      include: { _count: { select: { tasks: { where: { task: { deletedAt: null } } } } } },
+    });
+  }),
+
+  // Creates a new tag. If no color is given, a default one is derived from the name.
+  create: protectedProcedure
+    .input(z.object({ name: tagNameSchema, color: tagColorSchema.optional() }))
+    .mutation(async ({ ctx, input }) => {
+      markTagsChanged(ctx.session.user.id);
+      return withUniqueName(() =>
+        ctx.db.tag.create({
+          data: {
+            userId: ctx.session.user.id,
+            name: input.name,
+            color: input.color ?? pickTagColor(input.name),
+          },
+        }),
+      );
+    }),
+
+  // Renames a tag. Every task with the tag keeps it, because tasks link to the tag's `id`.
+  rename: protectedProcedure
+    .input(z.object({ id: z.string(), name: tagNameSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const tag = await findOwnedTagOrThrow(ctx.db, ctx.session.user.id, input.id);
+      await markTaggedTasksChanged(ctx.db, ctx.session.user.id, [tag.id]);
+      return withUniqueName(() =>
+        ctx.db.tag.update({ where: { id: tag.id }, data: { name: input.name } }),
+      );
+    }),
+
+  // Changes a tag's color.
+  recolor: protectedProcedure
+    .input(z.object({ id: z.string(), color: tagColorSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const tag = await findOwnedTagOrThrow(ctx.db, ctx.session.user.id, input.id);
+      await markTaggedTasksChanged(ctx.db, ctx.session.user.id, [tag.id]);
+      return ctx.db.tag.update({ where: { id: tag.id }, data: { color: input.color } });
+    }),
+
+  // Merges one or more "source" tags into a "target" tag: every task that had any of the
+  // source tags ends up with the target tag instead, and the source tags are deleted.
+  //
+  // Everything runs in one interactive transaction (`$transaction(async (tx) => ...)`), so
+  // either the whole merge happens or, if anything fails, none of it does.
+  merge: protectedProcedure
+    .input(z.object({ sourceIds: z.array(z.string()).min(1), targetId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const sourceIds = input.sourceIds.filter((id) => id !== input.targetId);
+
+      return ctx.db.$transaction(async (tx) => {
+        const target = await findOwnedTagOrThrow(tx, userId, input.targetId);
+        for (const id of sourceIds) await findOwnedTagOrThrow(tx, userId, id);
+        await markTaggedTasksChanged(tx, userId, sourceIds);
+
+        // The ids of every task that has at least one of the source tags.
+        const links = await tx.taskTag.findMany({
+          where: { tagId: { in: sourceIds } },
+          select: { taskId: true },
+        });
+
+        // Attach the target tag to those tasks. `skipDuplicates` ignores tasks that already
+        // have the target tag (their link would violate the composite primary key).
+        await tx.taskTag.createMany({
+          data: links.map(({ taskId }) => ({ taskId, tagId: target.id })),
+          skipDuplicates: true,
+        });
+
+        // Delete the source tags. Their `TaskTag` links are removed by `onDelete: Cascade`.
+        await tx.tag.deleteMany({ where: { id: { in: sourceIds }, userId } });
+        return target;
+      });
+    }),
+
+  // Deletes a tag. Tasks are NOT deleted: they simply lose this tag, because the `TaskTag`
+  // links are removed by `onDelete: Cascade`.
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const tag = await findOwnedTagOrThrow(ctx.db, ctx.session.user.id, input.id);
+      await markTaggedTasksChanged(ctx.db, ctx.session.user.id, [tag.id]);
+      return ctx.db.tag.delete({ where: { id: tag.id } });
+    }),
+});
@@ -1,6 +1,15 @@
 // This file defines the "task" router for our tRPC API. A router is a collection of
 // related procedures that handle a specific data entity or feature. This file contains
 // all the server-side logic for task-related operations.
+//
+// Every task is in exactly one list, and belongs to that list's owner (see the `userId` field on
+// the `Task` model in `prisma/schema.prisma`). A list can be shared with other users as viewers,
+// editors or admins (see `src/server/sharing.ts`). Because of that, every procedure in this router
+// is built on `protectedProcedure`, and checks the signed-in user's role in the list of every
+// task it reads or changes: viewers can read tasks, and editors and admins (and the owner) can
+// also change them. A user asking for a task in a list they can't open gets exactly the same
+// `NOT_FOUND` error as a user asking for a task that does not exist, so the API never reveals
+// whether another user's task id is valid.
 
 // Zod is a TypeScript-first schema validation library. In the T3 stack, it's used
 // to define the expected shape and types of the input for your API procedures.
@@ -8,12 +17,279 @@
 // your code even tries to process it.
 import { z } from "zod";
 
+// `TRPCError` is tRPC's dedicated error class. Throwing it with a standard `code` such as
+// "NOT_FOUND" makes tRPC send the matching HTTP status code (404) and a structured error
+// to the client, instead of a generic 500 "Internal Server Error".
+import { TRPCError } from "@trpc/server";
+
+// `Prisma` is the namespace of types generated from our schema. We mostly need its
+// `TransactionClient` type, which describes "something that can run Prisma queries".
+// Both the normal `ctx.db` client and the client handed to an interactive transaction
+// satisfy this type, so helpers typed with it work in both situations.
+import { type Prisma } from "@prisma/client";
+
 // These are helper functions from the main tRPC configuration file (/server/api/trpc.ts).
 // - createTRPCRouter is used to create a new router, which is like a container
 //   for a group of related API endpoints (e.g., all endpoints for handling tasks).
-// - publicProcedure is a basic building block for an API endpoint that does NOT
-//   require the user to be authenticated. Anyone can call this endpoint.
-import { createTRPCRouter, publicProcedure } from "../trpc";
+// - protectedProcedure is the building block for an API endpoint that REQUIRES the user
+//   to be authenticated. Its middleware rejects anonymous callers with an `UNAUTHORIZED`
+//   error and guarantees that `ctx.session.user` is available inside the resolver.
+import { createTRPCRouter, protectedProcedure } from "../trpc";
+
+// Shared due-date helper (also used by the client). `toAllDayDate` truncates a date to
+// midnight UTC, which is how all-day due dates are stored.
+import { toAllDayDate } from "~/lib/due-dates";
+
+// The shared lists of priority levels and sort options. Validating against the same constants
+// the client renders its pickers from keeps the two sides from drifting apart.
+import { TASK_PRIORITIES, type TaskPriority } from "~/lib/priority";
+
+// The quick-add parser, which `create` runs on the typed text when asked to (see `applyQuickAdd`).
+import { parseQuickAdd } from "~/lib/quick-add";
+import { DEFAULT_TIME_ZONE } from "~/lib/timezone";
+
+// Shared server-side tag helpers: the Zod schema for a tag name, the tag columns sent to the
+// client, and the helper that turns tag names into tag ids (creating missing tags).
+import { tagNameSchema, tagSummarySelect, upsertTagsByName } from "~/server/tags";
+
+// Resolves the list a new task goes into (the given list, checked for access, or the Inbox),
+// and moves tasks between lists (for `bulkMove`).
+import { moveTasksToList, resolveTargetList } from "~/server/lists";
+
+// The access checks of shared lists: loading a list or task only if the user's role in the list
+// allows the action, and the Prisma / SQL filters for "the lists the user can open".
+import {
+  accessibleListIdsSql,
+  accessibleListWhere,
+  findListForAccessOrThrow,
+  findTaskForAccessOrThrow,
+} from "~/server/sharing";
+
+// Returns the ids of tasks together with all of their subtasks, at any depth.
+import { getSubtreeIds, getSubtreeIdsOfTasks } from "~/server/subtasks";
+
+// Moving tasks to the trash, restoring them, and the number of days they stay there.
+import { getPurgeDate, restoreTask, trashTask } from "~/server/trash";
+
+// Removing the stored files of the attachments of tasks that were deleted for good.
+import { deleteDetachedAttachments } from "~/server/attachments";
+import { getFileStorage } from "~/server/storage";
+
+// The undo layer: records how to reverse a toggle, delete, or bulk action, and reverses it.
+import { applyUndo, runUndoable } from "~/server/undo";
+
+// The shared part of the bulk actions: the target schema and the per-task runner.
+import { BULK_TRANSACTION_OPTIONS, bulkTargetSchema, runBulkAction } from "~/server/bulk";
+
+// The activity history: records what changed in each task mutation, and by whom.
+import { recordTaskCreated, trackTaskChanges } from "~/server/task-events";
+
+// `markTasksChanged` sends a change to the other open tabs, for the changes that
+// `trackTaskChanges` doesn't cover (see `src/server/task-sync.ts`).
+import { markTasksChanged, subscribeToTaskChanges } from "~/server/task-sync";
+
+// Fractional-index helpers for the "Manual" order (the `position` column).
+import { getFirstPosition, getLastPosition, getPositionBetween, lockTaskList } from "~/server/positions";
+
+// Completes a task: applies the completing user's rule for open subtasks, and moves a recurring
+// task on to its next occurrence instead of closing it. `recurrenceSchema` validates an RRULE.
+import { completeTask, recurrenceSchema } from "~/server/recurrence";
+
+// Helpers for the full-text search: turning the typed text into a `tsquery`, and splitting the
+// highlighted titles and snippets into parts for the client.
+import { HIGHLIGHT_END, HIGHLIGHT_START, splitHighlights, toPrefixTsQuery } from "~/lib/search";
+
+import {
+  DEFAULT_TASK_SORT,
+  getSortKeys,
+  SORT_DIRECTIONS,
+  TASK_SORT_FIELDS,
+  type SortDirection,
+  type TaskSort,
+  type TaskSortField,
+} from "~/lib/task-sort";
+
+// The cursor pagination of `getAll`: encoding the `nextCursor` of a page, and turning a cursor
+// back into the condition for the tasks that come after it.
+import { buildCursorWhere, encodeCursor } from "~/server/task-cursor";
+
+// This is the Zod schema for a task title, shared by every procedure that accepts one
+// (`create` and `update`), so a title is validated by exactly the same rules no matter how
+// it reaches the server. The `{ message: "..." }` argument supplies the error text that the
+// client shows in a toast when the title is empty.
+const taskTitleSchema = z.string().min(1, { message: "Task title cannot be empty." });
+
+// This is the Zod schema for a partial task "patch": the set of fields a client is allowed
+// to change on an existing task through the `update` procedure.
+//
+// - `z.object({...})` lists every editable field together with its validation rules.
+// - `.partial()` makes every one of those fields optional, so a client can send only the
+//   fields it actually wants to change (e.g., `{ title: "Buy milk" }`). Fields that are
+//   left out are not touched in the database.
+//
+// Fields like `id`, `userId`, `createdAt`, and `updatedAt` are deliberately NOT part of
+// this schema: they are managed by the server and can never be overwritten by a client.
+const taskPatchSchema = z
+  .object({
+    title: taskTitleSchema,
+    completed: z.boolean(),
+
+    // `dueAt` is the due date (a `Date`, which `superjson` transports intact), or `null` to
+    // clear it. `dueAllDay` says whether the task is due on a whole day rather than at a time.
+    dueAt: z.date().nullable(),
+    dueAllDay: z.boolean(),
+
+    // One of the priority levels listed in `src/lib/priority.ts` ("none" ... "urgent").
+    priority: z.enum(TASK_PRIORITIES),
+
+    // The complete list of the task's tag names. It REPLACES the task's current tags: tags not
+    // in the list are removed, and names that don't match an existing tag create a new one.
+    tags: z.array(tagNameSchema).max(20, { message: "A task can have at most 20 tags." }),
+
+    // The task's RRULE, or `null` to stop repeating, and whether the next occurrence is counted
+    // from the day the task is completed instead of from its due date.
+    recurrence: recurrenceSchema.nullable(),
+    recurFromCompletion: z.boolean(),
+
+    // The task's notes in Markdown, or `null` to remove them. Notes that are only whitespace
+    // are stored as `null` too, so "no notes" has one representation.
+    notes: z
+      .string()
+      .max(20_000, { message: "Notes can be at most 20,000 characters." })
+      .transform((notes) => (notes.trim() === "" ? null : notes))
+      .nullable(),
+  })
+  .partial();
+
+// The Zod schema for the tag filter of the task list: a set of tag ids plus a mode.
+// - "any": show tasks that have AT LEAST ONE of the tags.
+// - "all": show only tasks that have EVERY one of the tags.
+const tagFilterSchema = z.object({
+  tagIds: z.array(z.string()).min(1),
+  mode: z.enum(["any", "all"]),
+});
+
+// Turns a tag filter into a Prisma `where` condition. `tags: { some: ... }` means "the task has
+// at least one `TaskTag` link matching ...". For "all", we require one such link per tag id.
+function buildTagWhere({ tagIds, mode }: z.infer<typeof tagFilterSchema>): Prisma.TaskWhereInput {
+  if (mode === "any") return { tags: { some: { tagId: { in: tagIds } } } };
+  return { AND: tagIds.map((tagId) => ({ tags: { some: { tagId } } })) };
+}
+
+// The relations loaded with every task we return to the client: the task's tags, each with
+// just the columns the UI needs to render a colored chip, and the number of comments on the task
+// (the badge on its row). Using this one `include` everywhere keeps the shape of a task
+// identical across `getAll`, `create`, `update`, and the rest.
+const taskInclude = {
+  tags: { select: { tag: { select: tagSummarySelect } } },
+  _count: { select: { comments: true } },
+} satisfies Prisma.TaskInclude;
+
+// The options passed to Postgres' `ts_headline` for the highlighted title (the whole title,
+// with every match marked) and for the notes snippet (up to two short fragments around the
+// matches). The markers are explained in `src/lib/search.ts`.
+const TITLE_HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, HighlightAll=true`;
+const NOTES_HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxFragments=2, MaxWords=20, MinWords=8, FragmentDelimiter=" … "`;
+
+// A row returned by the search query in `task.search`.
+type SearchRow = {
+  id: string;
+  title: string;
+  completed: boolean;
+  listId: string;
+  listName: string;
+  titleHighlight: string;
+  notesSnippet: string | null;
+};
+
+// This is the Zod schema for the sort requested by the task list: one of the sortable fields
+// plus a direction ("asc" or "desc"). The same schema validates the remembered sort that is
+// stored in the user's settings.
+const taskSortSchema = z.object({
+  field: z.enum(TASK_SORT_FIELDS),
+  direction: z.enum(SORT_DIRECTIONS),
+});
+
+// For every sortable field, this builds the Prisma `orderBy` entry that sorts by it.
+// Due dates are optional, so tasks WITHOUT a due date are always placed last
+// (`nulls: "last"`), no matter which direction the list is sorted in. The "Manual" order
+// (`position`) has no direction: it is always the order the user dragged the tasks into.
+const SORT_KEYS: Record<TaskSortField, (direction: SortDirection) => Prisma.TaskOrderByWithRelationInput> = {
+  createdAt: (direction) => ({ createdAt: direction }),
+  updatedAt: (direction) => ({ updatedAt: direction }),
+  dueAt: (direction) => ({ dueAt: { sort: direction, nulls: "last" } }),
+  priority: (direction) => ({ priority: direction }),
+  title: (direction) => ({ title: direction }),
+  position: () => ({ position: "asc" }),
+};
+
+// Turns the sort keys (see `getSortKeys` in `src/lib/task-sort.ts`) into a multi-key Prisma
+// `orderBy` array.
+function buildTaskOrderBy(sort: TaskSort): Prisma.TaskOrderByWithRelationInput[] {
+  return getSortKeys(sort).map(([key, dir]) => (key === "id" ? { id: dir } : SORT_KEYS[key](dir)));
+}
+
+// The number of tasks per page of `task.getAll` when the client doesn't ask for another size.
+const DEFAULT_PAGE_SIZE = 50;
+
+
+// This helper returns the due-date columns exactly as they should be stored:
+// - Without a due date, `dueAllDay` is always `false`, so "no date" has one representation.
+// - All-day due dates are truncated to midnight UTC (see `src/lib/due-dates.ts`), so every
+//   all-day task on the same calendar date stores exactly the same value.
+function normalizeDue(dueAt: Date | null, dueAllDay: boolean) {
+  if (!dueAt) return { dueAt: null, dueAllDay: false };
+  return { dueAt: dueAllDay ? toAllDayDate(dueAt) : dueAt, dueAllDay };
+}
+
+// The fields of a new task that quick-add text can set.
+type QuickAddFields = {
+  title: string;
+  listId?: string;
+  tags?: string[];
+  priority?: TaskPriority;
+  dueAt?: Date | null;
+  dueAllDay?: boolean;
+  recurrence?: string | null;
+};
+
+// Reads the quick-add syntax of a new task's title (see `src/lib/quick-add.ts`) on the server,
+// so the task gets the same fields whatever client sent it: dates are read in the user's stored
+// time zone, and `@list` can only name a list the user can add tasks to (not archived, and not
+// shared with them as a viewer). The fields the client sent win over the ones in the text, and
+// the typed tags are added to the sent ones. The parsed title and tags are validated like the
+// fields of the input.
+async function applyQuickAdd<T extends QuickAddFields>(db: Prisma.TransactionClient, userId: string, input: T, locale: string) {
+  const [user, lists] = await Promise.all([
+    db.user.findUniqueOrThrow({ where: { id: userId }, select: { timeZone: true } }),
+    db.taskList.findMany({
+      where: { ...accessibleListWhere(userId, "editor"), archivedAt: null },
+      orderBy: [{ isInbox: "desc" }, { position: "asc" }, { createdAt: "asc" }],
+      select: { id: true, name: true },
+    }),
+  ]);
+  const parsed = parseQuickAdd(input.title, {
+    now: new Date(),
+    timeZone: user.timeZone ?? DEFAULT_TIME_ZONE,
+    locale,
+    lists,
+  });
+
+  const title = taskTitleSchema.safeParse(parsed.title);
+  if (!title.success) throw new TRPCError({ code: "BAD_REQUEST", cause: title.error });
+  const tags = taskPatchSchema.shape.tags.safeParse([...new Set([...(input.tags ?? []), ...parsed.tags])]);
+  if (!tags.success) throw new TRPCError({ code: "BAD_REQUEST", cause: tags.error });
+
+  return {
+    ...input,
+    title: title.data,
+    listId: parsed.listId ?? input.listId,
+    tags: tags.data,
+    priority: input.priority ?? parsed.priority ?? undefined,
+    ...(input.dueAt === undefined && parsed.due ? parsed.due : {}),
+    recurrence: input.recurrence === undefined ? parsed.recurrence : input.recurrence,
+  };
+}
 
   // Here, we're creating and exporting a router specifically for handling "task" operations.
   // This `taskRouter` will be merged into your main `appRouter` so that its endpoints
@@ -21,35 +297,191 @@ import { createTRPCRouter, publicProcedure } from "../trpc";
   export const taskRouter = createTRPCRouter({
 
     // This defines the `getAll` API endpoint within the taskRouter.
-  
+
     // - getAll: This is the name of the procedure. On the frontend, you'll call
     //   this using a hook like api.task.getAll.useQuery().
-   
-    // - publicProcedure: Specifies that this endpoint is publicly accessible and doesn't
-    //   require a user to be logged in.
-   
+
+    // - protectedProcedure: Specifies that this endpoint can only be called by a
+    //   logged-in user. Anonymous requests are rejected with `UNAUTHORIZED` (HTTP 401).
+
     // - .query(async ({ ctx }) => { ... }):  This declares it as a data-fetching
     //   operation. The function inside is the "resolver" that runs on the server.
-   
+
     // - async ({ ctx }): The resolver function receives a ctx (context) object.
     //   The context is configured in your main tRPC file and contains things
     //   that every procedure might need, like the database connection (db) and user
     //   session info.
-   
+
     // - return ctx.db.task.findMany(...): This is where Prisma comes in.
     //   - ctx.db is your Prisma Client instance, providing type-safe access to your database.
     //   - .task directly corresponds to the Task model in your schema.prisma.
-    //   - .findMany() is a Prisma method to retrieve all records from the Task table.
-    //   - { orderBy: { createdAt: "desc" } } is an option passed to findMany to sort
-    //     the results by the createdAt field in descending order (newest tasks first).
-   
+    //   - .findMany() is a Prisma method to retrieve records from the Task table.
+    //   - { where: { list: accessibleListWhere(userId) } } limits the results to the tasks in
+    //     the signed-in user's own lists and in the lists shared with them. Without this filter
+    //     every user would see everyone's tasks.
+    //   - { orderBy: buildTaskOrderBy(...) } sorts the results by the sort the client asked for
+    //     (e.g., priority descending), with tie-breakers so the order is always stable. Without a
+    //     `sort` input, tasks are sorted by `createdAt` descending (newest tasks first).
+
     // The data returned by this function is automatically serialized by trpc and sent to the client.
     // tRPC also infers the TypeScript type of this return value (when trpc does this to the entire AppRouter), giving you full
     // end-to-end type safety on the frontend.
-    getAll: publicProcedure.query(async ({ ctx }) => {
-      return ctx.db.task.findMany({ orderBy: { createdAt: "desc" } });
+    //
+    // - .input(...): The input is optional, so `api.task.getAll.useQuery()` still works. When
+    //   given, `sort` is validated by `taskSortSchema` (a known field plus "asc" or "desc"),
+    //   `tagFilter` limits the list to tasks with any / all of the given tags, and `listId`
+    //   limits it to a single list. Without `listId`, the tasks of all lists are returned.
+    //
+    // The tasks are returned one page at a time (see `src/server/task-cursor.ts`): `limit` is the
+    // page size, and `cursor` is the `nextCursor` of the previous page (leave it out for the
+    // first page). The result is `{ items, nextCursor }`, where `nextCursor` is `null` on the
+    // last page. tRPC's `useInfiniteQuery` fills in `cursor` automatically.
+    //
+    // Without a tag filter, a page holds `limit` top-level tasks, each together with all of its
+    // subtasks, so the task tree on the client is always complete. With a tag filter, every
+    // matching task counts on its own (a matching subtask is shown even if its parent isn't).
+    getAll: protectedProcedure
+      .input(
+        z
+          .object({
+            listId: z.string().optional(),
+            sort: taskSortSchema.optional(),
+            tagFilter: tagFilterSchema.optional(),
+            limit: z.number().int().min(1).max(100).default(DEFAULT_PAGE_SIZE),
+            cursor: z.string().nullish(),
+          })
+          .optional(),
+      )
+      .query(async ({ ctx, input }) => {
+        const userId = ctx.session.user.id;
+        const sort = input?.sort ?? DEFAULT_TASK_SORT;
+        const keys = getSortKeys(sort);
+        const orderBy = buildTaskOrderBy(sort);
+        const limit = input?.limit ?? DEFAULT_PAGE_SIZE;
+
+        // One task more than the page size is loaded, to find out whether there is a next page.
+        const rows = await ctx.db.task.findMany({
+          where: {
+            list: accessibleListWhere(userId),
+            deletedAt: null,
+            listId: input?.listId,
+            ...(input?.tagFilter ? buildTagWhere(input.tagFilter) : { parentId: null }),
+            ...(input?.cursor ? { AND: [buildCursorWhere(input.cursor, keys)] } : {}),
+          },
+          orderBy,
+          take: limit + 1,
+          include: taskInclude,
+        });
+        const page = rows.slice(0, limit);
+        const last = page.at(-1);
+        const nextCursor = rows.length > limit && last ? encodeCursor(last, keys) : null;
+
+        if (input?.tagFilter || page.length === 0) return { items: page, nextCursor };
+
+        // Adds the subtasks (at every depth) of the page's top-level tasks, in the same order.
+        const pageIds = new Set(page.map((task) => task.id));
+        const subtaskIds = (await getSubtreeIdsOfTasks(ctx.db, page)).filter((id) => !pageIds.has(id));
+        const subtasks = await ctx.db.task.findMany({
+          where: { id: { in: subtaskIds } },
+          orderBy,
+          include: taskInclude,
+        });
+        return { items: [...page, ...subtasks], nextCursor };
+      }),
+
+    // Returns a single task (with its tags) by id, for the task detail drawer. Like every other
+    // procedure, a task in a list the user can't open is reported as `NOT_FOUND`.
+    getById: protectedProcedure
+      .input(z.object({ id: z.string() }))
+      .query(async ({ ctx, input }) => {
+        const task = await findTaskForAccessOrThrow(ctx.db, ctx.session.user.id, input.id, "viewer");
+        return ctx.db.task.findUniqueOrThrow({ where: { id: task.id }, include: taskInclude });
+      }),
+
+    // A subscription (streamed over Server-Sent Events) that tells the client about every change
+    // to a task the user can see, made in any tab or by any collaborator, right after it is
+    // saved (see `src/server/task-sync.ts`). Each message holds the changed tasks in the same
+    // shape as `getAll`, split into new (`created`) and changed (`updated`) ones, plus the ids
+    // of the tasks that are gone for this user (`deletedIds`): moved to the trash, or moved to
+    // a list they can't open. The client patches its cached task lists with them (see
+    // `useTaskSync`) instead of refetching.
+    onChange: protectedProcedure.subscription(async function* ({ ctx, signal }) {
+      const userId = ctx.session.user.id;
+      for await (const event of subscribeToTaskChanges(userId, signal)) {
+        const tasks = await ctx.db.task.findMany({
+          where: { id: { in: event.taskIds }, deletedAt: null, list: accessibleListWhere(userId) },
+          include: taskInclude,
+        });
+        const visibleIds = new Set(tasks.map((task) => task.id));
+        yield {
+          created: tasks.filter((task) => event.createdIds.includes(task.id)),
+          updated: tasks.filter((task) => !event.createdIds.includes(task.id)),
+          deletedIds: event.taskIds.filter((id) => !visibleIds.has(id)),
+        };
+      }
     }),
 
+    // Returns the activity history of one task (see `src/server/task-events.ts`), newest first,
+    // with the name and email of the user who made each change.
+    getHistory: protectedProcedure
+      .input(z.object({ id: z.string() }))
+      .query(async ({ ctx, input }) => {
+        const task = await findTaskForAccessOrThrow(ctx.db, ctx.session.user.id, input.id, "viewer");
+        return ctx.db.taskEvent.findMany({
+          where: { taskId: task.id },
+          orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+          include: { actor: { select: { id: true, name: true, email: true } } },
+        });
+      }),
+
+    // Searches the user's tasks (in all of their lists, and the lists shared with them) by title and notes, and returns the best
+    // matches first, each with its title and a snippet of its notes with the matching words
+    // highlighted.
+    //
+    // The search runs in Postgres, against the `searchVector` column (a generated `tsvector`
+    // with a GIN index, see `prisma/schema.prisma`), so it stays fast with thousands of tasks:
+    // - `to_tsquery` matches tasks that contain every typed word (as a prefix, and with English
+    //   stemming, so "running" also finds "run").
+    // - `ts_rank` ranks title matches above notes matches (the title has the higher weight).
+    // - `ts_headline` marks the matched words. It is slow, so it only runs for the rows that
+    //   made it through the `LIMIT` of the inner query.
+    search: protectedProcedure
+      .input(
+        z.object({
+          query: z.string().max(200),
+          limit: z.number().int().min(1).max(50).default(20),
+        }),
+      )
+      .query(async ({ ctx, input }) => {
+        const tsquery = toPrefixTsQuery(input.query);
+        if (!tsquery) return [];
+
+        const rows = await ctx.db.$queryRaw<SearchRow[]>`
+          SELECT m."id", m."title", m."completed", m."listId", l."name" AS "listName",
+            ts_headline('english', m."title", m."query", ${TITLE_HEADLINE_OPTIONS}) AS "titleHighlight",
+            CASE WHEN to_tsvector('english', coalesce(m."notes", '')) @@ m."query"
+              THEN ts_headline('english', m."notes", m."query", ${NOTES_HEADLINE_OPTIONS})
+            END AS "notesSnippet"
+          FROM (
+            SELECT t."id", t."title", t."notes", t."completed", t."listId", q."query",
+              ts_rank(t."searchVector", q."query") AS "rank", t."updatedAt"
+            FROM "Task" t, to_tsquery('english', ${tsquery}) AS q("query")
+            WHERE t."listId" IN (${accessibleListIdsSql(ctx.session.user.id)})
+              AND t."deletedAt" IS NULL AND t."searchVector" @@ q."query"
+            ORDER BY "rank" DESC, t."updatedAt" DESC
+            LIMIT ${input.limit}
+          ) m
+          JOIN "TaskList" l ON l."id" = m."listId"
+          ORDER BY m."rank" DESC, m."updatedAt" DESC
+        `;
+
+        return rows.map(({ titleHighlight, notesSnippet, ...row }) => ({
+          ...row,
+          title: splitHighlights(titleHighlight),
+          notes: notesSnippet ? splitHighlights(notesSnippet) : null,
+        }));
+      }),
+
     // This defines the `create` API endpoint within the `taskRouter`.
     // It's a `mutation` procedure, meaning it's designed for writing or changing data.
     // Its purpose is to create a new task in the database.
@@ -57,48 +489,230 @@ import { createTRPCRouter, publicProcedure } from "../trpc";
     // - `create:`: The name of the procedure. The frontend will use a hook like
     //   `api.task.create.useMutation()` to call this endpoint.
     //
-    // - `publicProcedure`: Again, this specifies that the endpoint is public and
-    //   does not require user authentication.
-    create: publicProcedure
+    // - `protectedProcedure`: Only logged-in users can create tasks, because every task
+    //   needs an owner. The user must be able to edit the tasks of the list (or of the parent
+    //   task's list) the new task goes into.
+    create: protectedProcedure
 
       //   - `.input()`: Declares that this procedure expects input data from the client.
       //   - `z.object({...})`: Uses Zod to define the schema for the input. It must be
       //     a JavaScript object.
-      //   - `{ title: z.string().min(1) }`: Specifies that the object must have a `title`
+      //   - `{ title: taskTitleSchema }`: Specifies that the object must have a `title`
       //     property which must be a string with at least 1 character (it cannot be empty).
+      //   - `dueAt` / `dueAllDay` / `priority` / `tags` / `recurrence` / `notes`: Optional fields,
+      //     validated by the same rules that the `update` patch uses (we reuse the fields of
+      //     `taskPatchSchema` via `.shape`).
+      //   - `listId`: The list to create the task in. Without it, the task goes to the Inbox.
+      //   - `parentId`: Creates the task as a subtask of another task. A subtask always goes
+      //     into its parent's list, so `listId` is ignored when `parentId` is given.
+      //   - `quickAdd`: Reads the title as quick-add text, e.g. "Call mom tomorrow 5pm #family",
+      //     with the user's locale (which decides how "10/11" is read). See `applyQuickAdd`.
       //   - tRPC automatically validates incoming data against this schema.
       //     If the client sends invalid data (e.g., no title, or a title that isn't a string),
       //     tRPC will reject the request with an error before the mutation code even runs.
-      // The `{ message: "..." }` is the second argument to `.min()`, providing a
-      // specific error message if the title fails the validation.
-      .input(z.object({ title: z.string().min(1, { message: "Task title cannot be empty." }) }))
+      // The shared `taskTitleSchema` (defined at the top of this file) also carries the
+      // specific error message that is shown if the title fails the validation.
+      .input(
+        z.object({
+          title: taskTitleSchema,
+          dueAt: taskPatchSchema.shape.dueAt,
+          dueAllDay: taskPatchSchema.shape.dueAllDay,
+          priority: taskPatchSchema.shape.priority,
+          tags: taskPatchSchema.shape.tags,
+          recurrence: taskPatchSchema.shape.recurrence,
+          recurFromCompletion: taskPatchSchema.shape.recurFromCompletion,
+          notes: taskPatchSchema.shape.notes,
+          listId: z.string().optional(),
+          parentId: z.string().optional(),
+          quickAdd: z.object({ locale: z.string().max(100) }).optional(),
+        }),
+      )
 
       // - `.mutation(async ({ ctx, input }) => { ... })`: This declares the procedure as
       //   a "mutation" (a data-changing operation).
       //   - The resolver function receives two arguments:
-      //     - `ctx`: The context object, containing our Prisma database client (`ctx.db`).
+      //     - `ctx`: The context object, containing our Prisma database client (`ctx.db`)
+      //       and the authenticated user's session (`ctx.session`).
       //     - `input`: The validated and type-safe input data from the client. Because of the
       //       Zod schema, TypeScript knows that `input` is an object with a `title` property
       //       of type `string`.
+      .mutation(async ({ ctx, input: rawInput }) => {
+        const userId = ctx.session.user.id;
+        const input = rawInput.quickAdd
+          ? await applyQuickAdd(ctx.db, userId, rawInput, rawInput.quickAdd.locale)
+          : rawInput;
+
+        // Creating a task with tags writes several rows (the task, any new tags, and the
+        // `TaskTag` links), so it runs inside an interactive transaction: if any write fails,
+        // none of them are kept.
+        return ctx.db.$transaction(async (tx) => {
+
+          // Finds the list the task goes into (the user's Inbox when no `listId` is given), and
+          // resolves the tag names to tag ids, creating any tag that the list's owner doesn't
+          // have yet (the tags of a task in a shared list are the owner's tags).
+          const parent = input.parentId ? await findTaskForAccessOrThrow(tx, userId, input.parentId, "editor") : null;
+          const list = parent ? { id: parent.listId, userId: parent.userId } : await resolveTargetList(tx, userId, input.listId);
+          const listId = list.id;
+          const tagIds = await upsertTagsByName(tx, list.userId, input.tags ?? []);
+
+          // In the "Manual" order, a new task goes to the top of its list, and a new subtask to
+          // the bottom of its parent's subtasks (like adding an item to the end of a checklist).
+          await lockTaskList(tx, listId);
+          const siblings = { listId, parentId: parent?.id ?? null };
+          const position = parent ? await getLastPosition(tx, siblings) : await getFirstPosition(tx, siblings);
+
+          // - `tx.task.create({ data: { ... } })`: Creates the task row.
+          //   - `title: input.title`: We set the `title` column to the value we received in
+          //     the validated `input`.
+          //   - `userId`: The new task is owned by the owner of its list: the caller, unless the
+          //     list is shared with them. The owner is taken from the list checked above, never
+          //     from the client's input, so a user cannot put tasks into lists they can't edit.
+          //   - `listId` / `parentId`: The list checked (or defaulted to the Inbox) above, and the
+          //     parent task (if this is a subtask).
+          //   - `position`: The task's place in the "Manual" order, computed above.
+          //   - `priority: input.priority`: When the client sends no priority, this is
+          //     `undefined` and the schema's `@default(none)` applies.
+          //   - `...normalizeDue(...)`: Spreads the normalized `dueAt` and `dueAllDay` columns
+          //     into the data. A task created without a due date stores `null` / `false`.
+          //   - `tags: { create: ... }`: A "nested write" that creates one `TaskTag` link per tag.
+          //   - Other fields like `id`, `completed`, `createdAt`, and `updatedAt` are handled
+          //     automatically by Prisma/the database based on the `@default` rules in the schema.
+          //
+          // The newly created task object, including its database-generated ID, timestamps and
+          // tags, is returned by Prisma, and tRPC then sends it back to the client as the
+          // result of the mutation.
+          const task = await tx.task.create({
+            data: {
+              title: input.title,
+              userId: list.userId,
+              listId,
+              parentId: parent?.id,
+              position,
+              priority: input.priority,
+              recurrence: input.recurrence,
+              recurFromCompletion: input.recurFromCompletion,
+              notes: input.notes,
+              ...normalizeDue(input.dueAt ?? null, input.dueAllDay ?? false),
+              tags: { create: tagIds.map((tagId) => ({ tagId })) },
+            },
+            include: taskInclude,
+          });
+
+          // The first entry of the task's activity history.
+          await recordTaskCreated(tx, userId, task);
+          return task;
+        });
+      }),
+
+
+    // This defines the `update` API endpoint. It applies a partial "patch" to an existing
+    // task, which lets the user edit a task in place (e.g., fix a typo in its title) without
+    // deleting and re-creating it. Editing in place preserves the task's `id`, its
+    // `createdAt` timestamp, and therefore its position in the list.
+    update: protectedProcedure
+
+      // The input is the id of the task to change plus the patch to apply to it. The patch is
+      // validated by `taskPatchSchema`, so an invalid title (e.g., an empty string) is rejected
+      // with a Zod error before the resolver runs, and the client can show the exact message.
+      .input(z.object({ id: z.string(), patch: taskPatchSchema }))
+
+      // Defines this as a mutation (a data-changing operation) and provides the server-side function to run.
       .mutation(async ({ ctx, input }) => {
 
-        // - `return ctx.db.task.create({ data: { title: input.title } });`: This is the
-        //   core logic that executes if the input is valid.
-        //   - `ctx.db.task.create()`: Calls the `create` method on the Prisma `Task` model.
-        //   - `{ data: { title: input.title } }`: Provides the data for the new task record.
-        //     We set the `title` column to the value we received in the validated `input`.
-        //   - Other fields like `id`, `completed`, `createdAt`, and `updatedAt` are handled
-        //     automatically by Prisma/the database based on the `@default` rules in the schema.
-        //
-        // The newly created task object, including its database-generated ID and timestamps,
-        // is returned by Prisma, and tRPC then sends it back to the client as the result
-        // of the mutation.
-        return ctx.db.task.create({ data: { title: input.title } });
+        // Loads the task, making sure the signed-in user can edit it. If it doesn't exist (or is
+        // in a list they can't open), this throws a `NOT_FOUND` error, and `FORBIDDEN` if they
+        // can only view it.
+        const task = await findTaskForAccessOrThrow(ctx.db, ctx.session.user.id, input.id, "editor");
+
+        // Splits the due-date fields off the rest of the patch. They are not written as-is,
+        // because a patch may change only one of the two (e.g., just `dueAllDay`), and the
+        // stored pair must be normalized as a whole.
+        const { dueAt, dueAllDay, tags, ...rest } = input.patch;
+        const due =
+          dueAt !== undefined || dueAllDay !== undefined
+            ? normalizeDue(
+                dueAt !== undefined ? dueAt : task.dueAt,
+                dueAllDay ?? task.dueAllDay,
+              )
+            : {};
+
+        // The tag changes and the field changes are written in one transaction (see below).
+        const write = async (tx: Prisma.TransactionClient) => {
+
+          // Completing a task goes through `completeTask`, exactly like `toggle`: open subtasks
+          // follow the user's setting, and a recurring task moves on to its next occurrence.
+          const completion =
+            rest.completed === true && !task.completed ? await completeTask(tx, task, ctx.session.user.id) : {};
+
+          // If the patch contains `tags`, the task's links are replaced: `deleteMany: {}` removes
+          // all current links, and `create` adds one link per tag in the new list.
+          const tagWrite = tags
+            ? {
+                deleteMany: {},
+                create: (await upsertTagsByName(tx, task.userId, tags)).map((tagId) => ({ tagId })),
+              }
+            : undefined;
+
+          // Writes only the fields present in the patch. Prisma ignores keys whose value is
+          // `undefined`, so fields the client didn't send keep their current values. The
+          // `@updatedAt` attribute on the model refreshes `updatedAt` automatically.
+          return tx.task.update({
+            where: { id: task.id },
+            data: { ...rest, ...due, ...completion, tags: tagWrite },
+            include: taskInclude,
+          });
+        };
+
+        // The changes (to the task, and to subtasks that a completion changes too) are recorded in
+        // the activity history, in the same transaction.
+        return ctx.db.$transaction(async (tx) =>
+          trackTaskChanges(tx, ctx.session.user.id, await getSubtreeIds(tx, task.userId, [task.id]), () => write(tx)),
+        );
       }),
 
+    // Moves a task to a new place in the "Manual" order, between two of its siblings (tasks
+    // with the same list and parent): `beforeId` is the task that should end up right above it
+    // and `afterId` the one right below it. Leave out `beforeId` to move the task to the top,
+    // or `afterId` to move it to the bottom.
+    //
+    // Only the moved task's `position` is written. The list is locked for the duration of the
+    // transaction, so two reorders of the same list (e.g., from two browser tabs) run one after
+    // the other, and the second one places its task next to the CURRENT neighbours, including a
+    // task the first one just dropped there (see `getPositionBetween` in `src/server/positions.ts`).
+    reorder: protectedProcedure
+      .input(z.object({ id: z.string(), beforeId: z.string().optional(), afterId: z.string().optional() }))
+      .mutation(async ({ ctx, input }) => {
+        const userId = ctx.session.user.id;
+        return ctx.db.$transaction(async (tx) => {
+          const found = await findTaskForAccessOrThrow(tx, userId, input.id, "editor");
+          await lockTaskList(tx, found.listId);
+
+          // The task is read again after taking the lock, in case another request moved it to
+          // another list or parent while we were waiting for the lock.
+          const task = await findTaskForAccessOrThrow(tx, userId, input.id, "editor");
 
-    // Defines a new public procedure named 'toggle.
-    toggle: publicProcedure
+          // The neighbours must be siblings of the task: reordering never moves a task into
+          // another list or under another parent.
+          const findNeighbour = async (id: string | undefined) => {
+            if (!id) return null;
+            const neighbour = await findTaskForAccessOrThrow(tx, userId, id, "editor");
+            if (neighbour.id === task.id || neighbour.listId !== task.listId || neighbour.parentId !== task.parentId) {
+              throw new TRPCError({ code: "BAD_REQUEST", message: "Tasks can only be reordered among their siblings." });
+            }
+            return neighbour;
+          };
+          const before = await findNeighbour(input.beforeId);
+          const after = await findNeighbour(input.afterId);
+
+          const position = await getPositionBetween(tx, task, before, after);
+          // A new position isn't part of the history, so the task is marked for sync by hand.
+          markTasksChanged([task]);
+          return tx.task.update({ where: { id: task.id }, data: { position }, include: taskInclude });
+        });
+      }),
+
+    // Defines a new protected procedure named 'toggle'.
+    toggle: protectedProcedure
 
       // Specifies that this procedure requires input from the client.
       // Using Zod, it validates that the input is an object containing a string 'id'.
@@ -107,25 +721,44 @@ import { createTRPCRouter, publicProcedure } from "../trpc";
       // Defines this as a mutation (a data-changing operation) and provides the server-side function to run.
       .mutation(async ({ ctx, input }) => {
 
-        // Checks if the task with the provided 'id' exists in the database.
-        const task = await ctx.db.task.findUnique({ where: { id: input.id } });
+        // Loads the task, making sure the signed-in user can edit it (see `update`).
+        const task = await findTaskForAccessOrThrow(ctx.db, ctx.session.user.id, input.id, "editor");
 
-        // If the task doesn't exist, throws an error.
-        if (!task) throw new Error("Task not found");
+        // Both writes below run in one transaction, so a parent is never completed while the
+        // completion of its subtasks fails (or the other way around).
+        return ctx.db.$transaction(async (tx) => {
 
-        // If the task was found, update it in the database. The 'return' sends the updated task back to the client.
-        return ctx.db.task.update({
+          // The toggle can be undone. Completing a task may also complete (or, for a recurring
+          // task, re-open) its subtasks, so the whole subtree is recorded for the undo.
+          // The changes are also recorded in the activity history.
+          const subtreeIds = await getSubtreeIds(tx, task.userId, [task.id]);
+          const track = <T>(action: () => Promise<T>) => trackTaskChanges(tx, ctx.session.user.id, subtreeIds, action);
+          const { result, undoId } = await runUndoable(tx, ctx.session.user.id, subtreeIds, () => track(async () => {
 
-          // Specifies that we want to update the task with the provided 'id'.
-          where: { id: input.id },
+            // When the task is being completed (not un-completed), `completeTask` decides what to
+            // write: its open subtasks are handled first, following the user's setting (complete
+            // them too, or refuse with an error), and a recurring task records the completion and
+            // gets the due date of its next occurrence instead of being closed.
+            const data = task.completed ? { completed: false } : await completeTask(tx, task, ctx.session.user.id);
 
-          // Updates the 'completed' field to its opposite value.
-          data: { completed: !task.completed },
+            // Update the task in the database.
+            return tx.task.update({
+
+              // Specifies that we want to update the task we just verified.
+              where: { id: task.id },
+
+              // Updates the 'completed' field to its opposite value (or advances a recurring task).
+              data,
+            });
+          }));
+
+          // The 'return' sends the updated task back to the client, with the id that undoes the toggle.
+          return { ...result, undoId };
         });
       }),
 
-    // Defines a new public procedure named 'delete'.
-    delete: publicProcedure
+    // Defines a new protected procedure named 'delete'.
+    delete: protectedProcedure
 
       // Specifies that this procedure requires input from the client.
       // Using Zod, it validates that the input is an object containing a string 'id'.
@@ -133,8 +766,205 @@ import { createTRPCRouter, publicProcedure } from "../trpc";
 
       // Defines this as a mutation (a data-changing operation) and provides the server-side function to run.
       .mutation(async ({ ctx, input }) => {
+        const userId = ctx.session.user.id;
+
+        // Makes sure the task exists and the signed-in user can edit it before deleting it.
+        const task = await findTaskForAccessOrThrow(ctx.db, userId, input.id, "editor");
 
-        // Deletes the task with the provided 'id' from the database.
-        return ctx.db.task.delete({ where: { id: input.id } });
+        // "Deleting" a task moves it to the trash, together with its whole subtree (subtasks,
+        // their subtasks, and so on). Nothing is removed from the database yet: the tasks can be
+        // restored from the Trash view until they are purged (see `src/server/trash.ts`), or
+        // right away with the returned `undoId`.
+        // The subtree's "deleted" events go into the activity history.
+        const { undoId } = await ctx.db.$transaction(async (tx) => {
+          const subtreeIds = await getSubtreeIds(tx, task.userId, [task.id]);
+          return runUndoable(tx, userId, subtreeIds, () =>
+            trackTaskChanges(tx, userId, subtreeIds, () => trashTask(tx, task.userId, task.id)),
+          );
+        });
+        return { ...task, undoId };
+      }),
+
+    // Undoes a toggle, delete, or bulk action, given the `undoId` it returned (see
+    // `src/server/undo.ts`). Returns the ids of the tasks that were changed back.
+    undo: protectedProcedure
+      .input(z.object({ undoId: z.string() }))
+      .mutation(async ({ ctx, input }) => {
+        const userId = ctx.session.user.id;
+        return ctx.db.$transaction((tx) => applyUndo(tx, userId, input.undoId));
+      }),
+
+    // The bulk actions below change many tasks at once. Each one takes a `target` (a list of task
+    // ids, or a filter such as "all completed tasks in list X", see `bulkTargetSchema`), runs in
+    // a single transaction, and returns a result per task plus an `undoId` (see `src/server/bulk.ts`).
+
+    // Completes many tasks, exactly like `toggle` would complete each one: open subtasks follow
+    // the user's setting, and recurring tasks move on to their next occurrence. Subtasks are
+    // completed before their parents, so the "block" setting doesn't stop a whole tree that is
+    // being completed together.
+    bulkComplete: protectedProcedure
+      .input(z.object({ target: bulkTargetSchema }))
+      .mutation(async ({ ctx, input }) => {
+        const userId = ctx.session.user.id;
+        return ctx.db.$transaction(
+          (tx) =>
+            runBulkAction(
+              tx,
+              userId,
+              input.target,
+              async ({ id }) => {
+                // Completing an earlier task may have completed this one already (cascade).
+                const task = await findTaskForAccessOrThrow(tx, userId, id, "editor");
+                if (task.completed) return;
+                await tx.task.update({ where: { id }, data: await completeTask(tx, task, userId) });
+              },
+              { subtasksFirst: true },
+            ),
+          BULK_TRANSACTION_OPTIONS,
+        );
+      }),
+
+    // Re-opens many tasks. Their subtasks are left as they are, like with `toggle`.
+    bulkReopen: protectedProcedure
+      .input(z.object({ target: bulkTargetSchema }))
+      .mutation(async ({ ctx, input }) => {
+        const userId = ctx.session.user.id;
+        return ctx.db.$transaction(
+          (tx) =>
+            runBulkAction(tx, userId, input.target, async ({ id }) => {
+              await tx.task.updateMany({ where: { id, completed: true }, data: { completed: false } });
+            }),
+          BULK_TRANSACTION_OPTIONS,
+        );
+      }),
+
+    // Moves many tasks (with their subtasks) to the trash.
+    bulkDelete: protectedProcedure
+      .input(z.object({ target: bulkTargetSchema }))
+      .mutation(async ({ ctx, input }) => {
+        const userId = ctx.session.user.id;
+        return ctx.db.$transaction(
+          (tx) => runBulkAction(tx, userId, input.target, (task) => trashTask(tx, task.userId, task.id)),
+          BULK_TRANSACTION_OPTIONS,
+        );
+      }),
+
+    // Moves many tasks (with their subtasks) to another list, like `list.moveTasks`. Tasks only
+    // move between lists of the same owner (e.g. not from a shared list into the user's own).
+    bulkMove: protectedProcedure
+      .input(z.object({ target: bulkTargetSchema, listId: z.string() }))
+      .mutation(async ({ ctx, input }) => {
+        const userId = ctx.session.user.id;
+        return ctx.db.$transaction(async (tx) => {
+          const list = await findListForAccessOrThrow(tx, userId, input.listId, "editor");
+          return runBulkAction(tx, userId, input.target, async ({ id }) => {
+            // A task that is already in the list (e.g. the subtask of a task moved before it)
+            // stays where it is.
+            const task = await findTaskForAccessOrThrow(tx, userId, id, "editor");
+            if (task.userId !== list.userId) {
+              throw new TRPCError({ code: "BAD_REQUEST", message: "Tasks can only be moved between lists of the same owner." });
+            }
+            if (task.listId !== list.id) await moveTasksToList(tx, list.userId, [task.id], list.id);
+          });
+        }, BULK_TRANSACTION_OPTIONS);
       }),
-  });
\ No newline at end of file
+
+    // Sets the due date and/or the priority of many tasks. Like in `update`, the due date is
+    // given as the pair `dueAt` / `dueAllDay` (send `dueAt: null` to clear it).
+    bulkUpdate: protectedProcedure
+      .input(
+        z.object({
+          target: bulkTargetSchema,
+          patch: z
+            .object({
+              dueAt: taskPatchSchema.shape.dueAt,
+              dueAllDay: taskPatchSchema.shape.dueAllDay,
+              priority: taskPatchSchema.shape.priority,
+            })
+            .refine((patch) => patch.dueAt !== undefined || patch.priority !== undefined, {
+              message: "Pick a due date or a priority to set.",
+            }),
+        }),
+      )
+      .mutation(async ({ ctx, input }) => {
+        const userId = ctx.session.user.id;
+        const { dueAt, dueAllDay, priority } = input.patch;
+        const due = dueAt !== undefined ? normalizeDue(dueAt, dueAllDay ?? false) : {};
+        return ctx.db.$transaction(
+          (tx) =>
+            runBulkAction(tx, userId, input.target, async ({ id }) => {
+              await tx.task.update({ where: { id }, data: { ...due, priority } });
+            }),
+          BULK_TRANSACTION_OPTIONS,
+        );
+      }),
+
+    // Adds tags to (by name, creating tags the owner of the task's list doesn't have yet) and
+    // removes tags from (by id) many tasks. Tags a task already has, or doesn't have, are left alone.
+    bulkTag: protectedProcedure
+      .input(
+        z.object({
+          target: bulkTargetSchema,
+          add: z.array(tagNameSchema).max(20).default([]),
+          removeTagIds: z.array(z.string()).max(20).default([]),
+        }),
+      )
+      .mutation(async ({ ctx, input }) => {
+        const userId = ctx.session.user.id;
+        return ctx.db.$transaction(async (tx) => {
+          // The tags of a task in a shared list are its owner's tags, so the names are resolved
+          // once per owner.
+          const tagIdsByOwner = new Map<string, string[]>();
+          return runBulkAction(tx, userId, input.target, async ({ id, userId: ownerId }) => {
+            const addTagIds = tagIdsByOwner.get(ownerId) ?? (await upsertTagsByName(tx, ownerId, input.add));
+            tagIdsByOwner.set(ownerId, addTagIds);
+            await tx.taskTag.deleteMany({ where: { taskId: id, tagId: { in: input.removeTagIds } } });
+            await tx.taskTag.createMany({ data: addTagIds.map((tagId) => ({ taskId: id, tagId })), skipDuplicates: true });
+          });
+        }, BULK_TRANSACTION_OPTIONS);
+      }),
+
+    // Returns the tasks in the user's trash, most recently deleted first. Subtasks that were
+    // deleted together with their parent are not listed separately: they come back when the
+    // parent is restored. Each task comes with the date it will be purged for good (`purgeAt`).
+    //
+    // The trash of a list belongs to the people who manage it: its owner and its admins see and
+    // restore its deleted tasks. Editors can delete tasks, but not browse what others deleted;
+    // they can still undo their own delete right away (see `src/server/undo.ts`).
+    getTrash: protectedProcedure.query(async ({ ctx }) => {
+      const tasks = await ctx.db.task.findMany({
+        where: {
+          list: accessibleListWhere(ctx.session.user.id, "admin"),
+          deletedAt: { not: null },
+          OR: [{ parentId: null }, { parent: { deletedAt: null } }],
+        },
+        orderBy: [{ deletedAt: "desc" }, { id: "asc" }],
+        include: { list: { select: { id: true, name: true, isInbox: true } } },
+      });
+      return tasks.map((task) => ({ ...task, purgeAt: task.deletedAt && getPurgeDate(task.deletedAt) }));
+    }),
+
+    // Restores a task (and the subtasks deleted with it) from the trash.
+    restore: protectedProcedure
+      .input(z.object({ id: z.string() }))
+      .mutation(async ({ ctx, input }) => {
+        const userId = ctx.session.user.id;
+        await ctx.db.$transaction(async (tx) => {
+          const task = await findTaskForAccessOrThrow(tx, userId, input.id, "admin", { includeTrashed: true });
+          const subtreeIds = await getSubtreeIds(tx, task.userId, [task.id], { includeTrashed: true });
+          await trackTaskChanges(tx, userId, subtreeIds, () => restoreTask(tx, task.userId, task.id));
+        });
+      }),
+
+    // Deletes the tasks in the trash of the user's own lists for good, and then the stored files
+    // of their attachments (see `src/server/attachments.ts`). Returns how many tasks were deleted.
+    // The deleted tasks of lists shared with the user stay: only their owner can get rid of them
+    // (or the scheduled purge, after 30 days).
+    emptyTrash: protectedProcedure.mutation(async ({ ctx }) => {
+      const { count } = await ctx.db.task.deleteMany({
+        where: { list: accessibleListWhere(ctx.session.user.id, "owner"), deletedAt: { not: null } },
+      });
+      await deleteDetachedAttachments(ctx.db, getFileStorage());
+      return { count };
+    }),
+  });
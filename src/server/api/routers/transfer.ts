@@ -0,0 +1,60 @@
+// This file defines the "transfer" router for our tRPC API: importing tasks from a file that was
+// exported by `/api/export` (JSON, CSV or todo.txt), or written by hand in the same shape.
+// Exporting is a plain route handler instead of a procedure (see `src/app/api/export/route.ts`),
+// so the browser can download the file directly.
+//
+// An import is done in two steps, both with the same file:
+// 1. `previewImport` is a dry run. It reports which tasks would be created, which ones already
+//    exist (duplicates), and which ones can't be imported (errors), and writes nothing.
+// 2. `commitImport` plans the import again and creates the tasks, all in one transaction, so an
+//    import either happens completely or not at all. Duplicates and errors are skipped.
+//
+// The rules of both steps live in `src/server/task-transfer.ts`.
+
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "../trpc";
+import { BULK_TRANSACTION_OPTIONS } from "~/server/bulk";
+import {
+  MAX_IMPORT_FILE_LENGTH,
+  applyImport,
+  planImport,
+  readImportFile,
+  transferFormatSchema,
+} from "~/server/task-transfer";
+
+// The file to import: its format and its text content.
+const importFileSchema = z.object({
+  format: transferFormatSchema,
+  content: z.string().max(MAX_IMPORT_FILE_LENGTH, { message: "The file is too large to import (at most 5 MB)." }),
+});
+
+export const transferRouter = createTRPCRouter({
+
+  // Returns the import plan of the file. The tasks to create are summarized (row, title, list,
+  // and whether it is a subtask); duplicates and errors come with the reason.
+  previewImport: protectedProcedure.input(importFileSchema).mutation(async ({ ctx, input }) => {
+    const rawTasks = readImportFile(input.format, input.content);
+    const plan = await ctx.db.$transaction((tx) => planImport(tx, ctx.session.user.id, rawTasks));
+    return {
+      creates: plan.creates.map((task) => ({
+        row: task.row,
+        title: task.title,
+        list: task.listName,
+        isSubtask: task.parent !== null,
+      })),
+      duplicates: plan.duplicates,
+      errors: plan.errors,
+      newLists: plan.newLists,
+    };
+  }),
+
+  // Imports the file: creates the tasks (and lists) of its plan. Returns how many were created.
+  commitImport: protectedProcedure.input(importFileSchema).mutation(async ({ ctx, input }) => {
+    const userId = ctx.session.user.id;
+    const rawTasks = readImportFile(input.format, input.content);
+    return ctx.db.$transaction(
+      async (tx) => applyImport(tx, userId, await planImport(tx, userId, rawTasks)),
+      BULK_TRANSACTION_OPTIONS,
+    );
+  }),
+});
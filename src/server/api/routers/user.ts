@@ -0,0 +1,116 @@
+// This file defines the "user" router for our tRPC API. It contains the procedures that
+// read and change the signed-in user's own preferences (their "settings"), such as the
+// IANA time zone that due dates are grouped in, and manage the secret URL of their calendar feed.
+//
+// Every procedure here is built on `protectedProcedure` and only ever touches the row of
+// the signed-in user (`ctx.session.user.id`), so a user can never read or change another
+// user's settings.
+
+// Zod is used to validate the settings that clients send before they reach the database.
+import { z } from "zod";
+
+// `TRPCError` lets us fail with a structured, HTTP-mappable error code.
+import { TRPCError } from "@trpc/server";
+
+// The router factory and the authenticated procedure builder from our tRPC setup.
+import { createTRPCRouter, protectedProcedure } from "../trpc";
+
+// Validates time zone names with the runtime's own `Intl` database, so only zones that both
+// the server and browsers can actually format with are ever stored.
+import { isValidTimeZone } from "~/lib/timezone";
+
+// The shared sort options (the same constants the `task.getAll` sort input is validated with).
+import { SORT_DIRECTIONS, TASK_SORT_FIELDS } from "~/lib/task-sort";
+
+// The choices for what happens when a task with open subtasks is completed.
+import { COMPLETE_PARENT_MODES } from "~/lib/subtasks";
+
+// Generates the secret token of the calendar feed, and builds the feed's path from it.
+import { generateFeedToken, getFeedPath } from "~/server/calendar-feed";
+
+// This is the Zod schema for the settings a user may change. `.partial()` makes every field
+// optional, so the client sends only the settings it wants to update.
+const settingsPatchSchema = z
+  .object({
+    // `.refine(...)` adds a custom validation rule on top of "is a string": the string must be
+    // a time zone the runtime recognizes. The message is shown to the user if it is not.
+    timeZone: z.string().refine(isValidTimeZone, { message: "Unknown time zone." }),
+
+    // The task list sort the user picked last, remembered so it is restored on their next visit.
+    taskSortField: z.enum(TASK_SORT_FIELDS),
+    taskSortDirection: z.enum(SORT_DIRECTIONS),
+
+    // Whether completing a task with open subtasks completes them too ("cascade") or is
+    // refused until they are done ("block").
+    completeParentMode: z.enum(COMPLETE_PARENT_MODES),
+  })
+  .partial();
+
+// The columns of the `User` table that make up the user's settings. Using an explicit
+// `select` guarantees we never send sensitive columns (like `password`) to the client.
+const settingsSelect = {
+  timeZone: true,
+  taskSortField: true,
+  taskSortDirection: true,
+  completeParentMode: true,
+} as const;
+
+// Here, we're creating and exporting the router. It is mounted under the `user` namespace
+// in `src/server/api/root.ts`, so the frontend calls it as `api.user.getSettings`, etc.
+export const userRouter = createTRPCRouter({
+
+  // Returns the signed-in user's settings.
+  getSettings: protectedProcedure.query(async ({ ctx }) => {
+    const user = await ctx.db.user.findUnique({
+      where: { id: ctx.session.user.id },
+      select: settingsSelect,
+    });
+
+    // A valid session for a user that no longer exists (e.g., deleted while signed in).
+    if (!user) throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+    return user;
+  }),
+
+  // Applies a partial update to the signed-in user's settings and returns the new settings.
+  updateSettings: protectedProcedure
+    .input(settingsPatchSchema)
+    .mutation(async ({ ctx, input }) => {
+      return ctx.db.user.update({
+        where: { id: ctx.session.user.id },
+        data: input,
+        select: settingsSelect,
+      });
+    }),
+
+  // Returns the paths of the user's calendar feed (see `src/server/calendar-feed.ts`): with
+  // VTODOs only, and with VEVENTs for timed tasks too. Both are `null` while the feed is off.
+  getCalendarFeed: protectedProcedure.query(async ({ ctx }) => {
+    const user = await ctx.db.user.findUnique({
+      where: { id: ctx.session.user.id },
+      select: { calendarFeedToken: true },
+    });
+    if (!user) throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+    const token = user.calendarFeedToken;
+    return {
+      todoPath: token ? getFeedPath(token) : null,
+      eventPath: token ? getFeedPath(token, true) : null,
+    };
+  }),
+
+  // Turns the calendar feed on with a new secret token. When the feed was already on, its old
+  // URL stops working, so this is also how a leaked URL is revoked.
+  rotateCalendarFeed: protectedProcedure.mutation(async ({ ctx }) => {
+    await ctx.db.user.update({
+      where: { id: ctx.session.user.id },
+      data: { calendarFeedToken: generateFeedToken() },
+    });
+  }),
+
+  // Turns the calendar feed off: its URL stops working until a new one is created.
+  disableCalendarFeed: protectedProcedure.mutation(async ({ ctx }) => {
+    await ctx.db.user.update({
+      where: { id: ctx.session.user.id },
+      data: { calendarFeedToken: null },
+    });
+  }),
+});
@@ -66,6 +66,9 @@ import { auth } from "~/server/auth";
 // perform queries and mutations efficiently.
 import { db } from "~/server/db";
 
+// The change sets of real-time task sync (see the `taskSyncMiddleware` below).
+import { publishTaskChanges, runWithTaskChanges } from "~/server/task-sync";
+
 /**
  * 1. CONTEXT
  *
@@ -148,6 +151,14 @@ const t = initTRPC.context<typeof createTRPCContext>().create({
   // deserializing them back to their original form on the client, ensuring data integrity.
   transformer: superjson,
 
+  // Subscriptions (`task.onChange`) are streamed to the browser as Server-Sent Events. An idle
+  // stream gets a "ping" every 15 seconds, so proxies don't close it, and the client reconnects
+  // by itself when it hasn't heard anything (not even a ping) for 20 seconds.
+  sse: {
+    ping: { enabled: true, intervalMs: 15_000 },
+    client: { reconnectAfterInactivityMs: 20_000 },
+  },
+
   // This function allows us to customize the format of errors that are sent to the client.
   // It receives the default error `shape` and the original `error` object that was thrown on the server.
   // Our goal here is to provide more detailed validation errors to the frontend.
@@ -414,6 +425,20 @@ const timingMiddleware = t.middleware(async ({ next, path }) => {
   return result;
 });
 
+// This middleware powers real-time task sync (see `src/server/task-sync.ts`). It runs every
+// mutation inside a "change set" that the task-writing helpers add the changed tasks to. When
+// the mutation succeeded, its transaction is committed, so the changes are published to the
+// users who can see them. Publishing is best-effort: the mutation already succeeded, so a
+// failure here is only logged, and the affected tabs catch up on their next refetch.
+const taskSyncMiddleware = t.middleware(async ({ ctx, type, next }) => {
+  if (type !== "mutation") return next();
+  const { result, changes } = await runWithTaskChanges(() => next());
+  if (result.ok) {
+    void publishTaskChanges(ctx.db, changes).catch((error) => console.error("Could not publish task changes", error));
+  }
+  return result;
+});
+
 /**
  * Public (unauthenticated) procedure
  *
@@ -496,4 +521,8 @@ export const protectedProcedure = t.procedure
         session: { ...ctx.session, user: ctx.session.user },
       },
     });
-  });
+  })
+
+  // Finally, every mutation collects the tasks it changes and publishes them to the
+  // `task.onChange` subscribers once it has succeeded (see `taskSyncMiddleware` above).
+  .use(taskSyncMiddleware);
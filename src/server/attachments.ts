@@ -0,0 +1,189 @@
+// This file contains the server-side logic of task attachments: checking and storing an uploaded
+// file (with a thumbnail for images), the signed download URLs, and removing the stored files of
+// attachments whose task is gone.
+//
+// Downloads never need the session: `getAttachmentUrls` hands out URLs of
+// `src/app/api/attachments/[id]/route.ts` that carry an expiry time and an HMAC signature of the
+// attachment id, so only users who could list the attachment (see `attachment.getByTask`) get a
+// working URL, and it stops working after `ATTACHMENT_URL_LIFETIME_SECONDS`. This also lets the
+// URLs be used directly in `<img>` tags and download links.
+
+import crypto from "crypto";
+import sharp from "sharp";
+import { TRPCError } from "@trpc/server";
+import { type Prisma } from "@prisma/client";
+import { env } from "~/env";
+import { isImageType, MAX_ATTACHMENTS_PER_TASK, validateAttachment, type AttachmentType } from "~/lib/attachments";
+import { type FileStorage } from "~/server/storage";
+
+// How long a signed download URL works.
+export const ATTACHMENT_URL_LIFETIME_SECONDS = 15 * 60;
+
+// Thumbnails fit in a square of this many pixels, and are stored as WebP.
+const THUMBNAIL_SIZE = 320;
+
+// The first bytes every file of a type starts with, so a file can't claim to be a PNG while it is
+// something else. Text files have no signature. The office formats are ZIP archives.
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+const FILE_SIGNATURES: Partial<Record<AttachmentType, number[][]>> = {
+  "image/png": [[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+  "image/jpeg": [[0xff, 0xd8, 0xff]],
+  "image/gif": [[0x47, 0x49, 0x46, 0x38]],
+  "image/webp": [[0x52, 0x49, 0x46, 0x46]],
+  "application/pdf": [[0x25, 0x50, 0x44, 0x46, 0x2d]],
+  "application/zip": [ZIP_SIGNATURE],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [ZIP_SIGNATURE],
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [ZIP_SIGNATURE],
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": [ZIP_SIGNATURE],
+};
+
+function hasFileSignature(type: AttachmentType, body: Buffer) {
+  const signatures = FILE_SIGNATURES[type];
+  if (!signatures) return !body.includes(0);
+  return signatures.some((signature) => signature.every((byte, i) => body[i] === byte));
+}
+
+// Stores a file uploaded to a task and creates its `Attachment` row. The task must already be
+// checked (the user can edit it). Throws `BAD_REQUEST` if the file breaks the limits of
+// `src/lib/attachments.ts`, doesn't look like its type, or the task has too many files.
+export async function storeAttachment(
+  db: Prisma.TransactionClient,
+  storage: FileStorage,
+  { taskId, userId, file }: { taskId: string; userId: string; file: File },
+) {
+  const invalid = validateAttachment(file);
+  if (invalid) throw new TRPCError({ code: "BAD_REQUEST", message: invalid });
+  const contentType = file.type as AttachmentType; // checked by `validateAttachment`
+
+  const count = await db.attachment.count({ where: { taskId } });
+  if (count >= MAX_ATTACHMENTS_PER_TASK) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `A task can have at most ${MAX_ATTACHMENTS_PER_TASK} files.` });
+  }
+
+  const body = Buffer.from(await file.arrayBuffer());
+  if (!hasFileSignature(contentType, body)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "The file's content doesn't match its type." });
+  }
+
+  // Decoding the image for its thumbnail also proves it is a readable image.
+  let thumbnail: Buffer | null = null;
+  if (isImageType(contentType)) {
+    try {
+      thumbnail = await sharp(body)
+        .rotate()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+        .webp()
+        .toBuffer();
+    } catch {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "The image could not be read." });
+    }
+  }
+
+  // Only the name is kept, without any path a browser may send.
+  const fileName = (file.name.split(/[/\\]/).pop() ?? "").trim().slice(0, 255);
+
+  const storageKey = `attachments/${crypto.randomBytes(16).toString("hex")}`;
+  const thumbnailKey = thumbnail ? `${storageKey}-thumbnail` : null;
+  await storage.put(storageKey, body, contentType);
+  if (thumbnail && thumbnailKey) await storage.put(thumbnailKey, thumbnail, "image/webp");
+
+  try {
+    return await db.attachment.create({
+      data: {
+        taskId,
+        uploadedById: userId,
+        fileName: fileName.length > 0 ? fileName : "file",
+        contentType,
+        size: file.size,
+        storageKey,
+        thumbnailKey,
+      },
+    });
+  } catch (error) {
+    await deleteStoredFiles(storage, { storageKey, thumbnailKey });
+    throw error;
+  }
+}
+
+async function deleteStoredFiles(storage: FileStorage, attachment: { storageKey: string; thumbnailKey: string | null }) {
+  await storage.delete(attachment.storageKey);
+  if (attachment.thumbnailKey) await storage.delete(attachment.thumbnailKey);
+}
+
+// Deletes an attachment: its row first, so it disappears even if the storage is unavailable, and
+// then its files. Files that can't be deleted now are left behind; they are harmless, since no
+// URL can point at them anymore.
+export async function deleteAttachment(
+  db: Prisma.TransactionClient,
+  storage: FileStorage,
+  attachment: { id: string; storageKey: string; thumbnailKey: string | null },
+) {
+  await db.attachment.delete({ where: { id: attachment.id } });
+  try {
+    await deleteStoredFiles(storage, attachment);
+  } catch (error) {
+    console.error("Could not delete the files of an attachment", error);
+  }
+}
+
+// Removes the stored files of every attachment whose task was deleted for good (`taskId` is set
+// to null then, see the `Attachment` model), and then their rows. An attachment whose files
+// can't be deleted keeps its row, so the next run tries again. Returns how many were removed.
+export async function deleteDetachedAttachments(db: Prisma.TransactionClient, storage: FileStorage) {
+  const detached = await db.attachment.findMany({ where: { taskId: null } });
+  let count = 0;
+  for (const attachment of detached) {
+    try {
+      await deleteStoredFiles(storage, attachment);
+    } catch (error) {
+      console.error("Could not delete the files of an attachment", error);
+      continue;
+    }
+    await db.attachment.delete({ where: { id: attachment.id } });
+    count++;
+  }
+  return count;
+}
+
+// The two files of an attachment that can be downloaded.
+export type AttachmentVariant = "original" | "thumbnail";
+
+function signingKey() {
+  if (!env.AUTH_SECRET) throw new Error("AUTH_SECRET must be set to sign attachment URLs.");
+  return env.AUTH_SECRET;
+}
+
+function sign(id: string, variant: AttachmentVariant, expires: number) {
+  return crypto.createHmac("sha256", signingKey()).update(`attachment:${id}:${variant}:${expires}`).digest("hex");
+}
+
+function signedUrl(id: string, variant: AttachmentVariant, expires: number) {
+  const params = new URLSearchParams({ variant, expires: String(expires), signature: sign(id, variant, expires) });
+  return `/api/attachments/${id}?${params.toString()}`;
+}
+
+// The signed download URLs of an attachment (and of its thumbnail, for images), valid for
+// `ATTACHMENT_URL_LIFETIME_SECONDS` from `now`.
+export function getAttachmentUrls(attachment: { id: string; thumbnailKey: string | null }, now = new Date()) {
+  const expires = Math.floor(now.getTime() / 1000) + ATTACHMENT_URL_LIFETIME_SECONDS;
+  return {
+    url: signedUrl(attachment.id, "original", expires),
+    thumbnailUrl: attachment.thumbnailKey ? signedUrl(attachment.id, "thumbnail", expires) : null,
+  };
+}
+
+// Checks the `expires` and `signature` of a download URL (from its query string). The signature
+// is compared in constant time, so it can't be guessed byte by byte from response times.
+export function verifyAttachmentUrl(
+  id: string,
+  variant: AttachmentVariant,
+  expires: string | null,
+  signature: string | null,
+  now = new Date(),
+) {
+  const expiresAt = Number(expires);
+  if (!signature || !Number.isInteger(expiresAt) || expiresAt * 1000 < now.getTime()) return false;
+  const expected = Buffer.from(sign(id, variant, expiresAt));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
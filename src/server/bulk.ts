@@ -0,0 +1,114 @@
+// This file contains the shared part of the bulk task actions (`task.bulkComplete`,
+// `bulkReopen`, `bulkDelete`, `bulkMove` and `bulkTag`): picking the tasks, running the action
+// on each of them in one transaction, and collecting a result per task.
+//
+// A task that can't be changed (e.g. it doesn't exist, or completing it is blocked by its open
+// subtasks) gets an error result, and the other tasks are still changed. Any other error rolls
+// the whole transaction back. Every bulk action can be undone (see `src/server/undo.ts`), and
+// its changes are recorded in the tasks' activity history.
+
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { type Prisma, type Task } from "@prisma/client";
+import { accessibleListWhere, findListForAccessOrThrow } from "~/server/sharing";
+import { getSubtreeIdsOfTasks } from "~/server/subtasks";
+import { runUndoable } from "~/server/undo";
+import { trackTaskChanges } from "~/server/task-events";
+
+// The most tasks a bulk action can be given by id.
+const MAX_BULK_IDS = 1000;
+
+// Bulk actions write many rows, so their transactions get more time than Prisma's default 5s.
+export const BULK_TRANSACTION_OPTIONS = { timeout: 30_000 };
+
+// The tasks a bulk action applies to: either an explicit list of ids, or a filter, such as
+// "all completed tasks in list X" (`{ filter: { listId: "X", completed: true } }`).
+export const bulkTargetSchema = z.union([
+  z.object({ ids: z.array(z.string()).min(1).max(MAX_BULK_IDS) }),
+  z.object({ filter: z.object({ listId: z.string(), completed: z.boolean().optional() }) }),
+]);
+
+export type BulkItemResult = { id: string; ok: true } | { id: string; ok: false; error: string };
+
+// Loads the target tasks that the user can edit: the tasks of their own lists and of the lists
+// shared with them as an editor or admin (never tasks in the trash). For an id list, the ids
+// that match no such task are returned as per-task errors: "not found", or "can only view" for
+// the tasks of lists shared with the user as a viewer.
+async function resolveBulkTarget(tx: Prisma.TransactionClient, userId: string, target: z.infer<typeof bulkTargetSchema>) {
+  if ("ids" in target) {
+    const ids = [...new Set(target.ids)];
+    const tasks = await tx.task.findMany({
+      where: { id: { in: ids }, deletedAt: null, list: accessibleListWhere(userId, "editor") },
+    });
+    const viewable = await tx.task.findMany({
+      where: { id: { in: ids }, deletedAt: null, list: accessibleListWhere(userId) },
+      select: { id: true },
+    });
+    const found = new Set(tasks.map((task) => task.id));
+    const canView = new Set(viewable.map((task) => task.id));
+    const errors: BulkItemResult[] = ids
+      .filter((id) => !found.has(id))
+      .map((id) => ({ id, ok: false, error: canView.has(id) ? "You can only view this list." : "Task not found" }));
+    return { tasks, errors };
+  }
+
+  const list = await findListForAccessOrThrow(tx, userId, target.filter.listId, "editor");
+  const tasks = await tx.task.findMany({
+    where: { listId: list.id, deletedAt: null, completed: target.filter.completed },
+  });
+  return { tasks, errors: [] };
+}
+
+// Sorts tasks so that every task comes after its subtasks (among the given tasks). Completing
+// in this order works even when the user's setting blocks completing a parent with open subtasks.
+function subtasksFirst(tasks: Task[]) {
+  const parents = new Map(tasks.map((task) => [task.id, task.parentId]));
+  const depth = (task: Task) => {
+    let count = 0;
+    let parentId = task.parentId;
+    while (parentId && parents.has(parentId)) {
+      count++;
+      parentId = parents.get(parentId) ?? null;
+    }
+    return count;
+  };
+  return [...tasks].sort((a, b) => depth(b) - depth(a));
+}
+
+// Runs `action` on every target task, in one transaction (`tx`). `userId` is the signed-in user,
+// who may not own all of the tasks (see `resolveBulkTarget`). `action` receives the task as
+// it was loaded; an earlier item may have changed it since, so it should read it again if it
+// depends on its current state. With `subtasksFirst`, every task runs after its subtasks.
+// Returns a result per task and the id that undoes the action.
+export async function runBulkAction(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  target: z.infer<typeof bulkTargetSchema>,
+  action: (task: Task) => Promise<void>,
+  options: { subtasksFirst?: boolean } = {},
+) {
+  const { tasks, errors } = await resolveBulkTarget(tx, userId, target);
+  const ordered = options.subtasksFirst ? subtasksFirst(tasks) : tasks;
+
+  // The undo snapshot and the history cover the subtasks too, because completing, deleting or
+  // moving a task also changes its subtasks.
+  const touchedIds = await getSubtreeIdsOfTasks(tx, tasks);
+  const { result: results, undoId } = await runUndoable(tx, userId, touchedIds, () =>
+    trackTaskChanges(tx, userId, touchedIds, async () => {
+      const results = [...errors];
+      for (const task of ordered) {
+        try {
+          await action(task);
+          results.push({ id: task.id, ok: true });
+        } catch (error) {
+          // Only our own "this task can't be changed" errors are per-task results. A database
+          // error has already aborted the transaction, so it must end the whole request.
+          if (!(error instanceof TRPCError)) throw error;
+          results.push({ id: task.id, ok: false, error: error.message });
+        }
+      }
+      return results;
+    }),
+  );
+  return { results, undoId };
+}
@@ -0,0 +1,206 @@
+// This file contains the user's iCalendar feed: a secret URL (`/api/ical/<token>.ics`) that
+// calendar apps can subscribe to, serving the user's tasks as RFC 5545 components.
+//
+// - Every task (not the ones in the trash) is a VTODO, with its status, due date, priority,
+//   recurrence, tags (CATEGORIES), notes (DESCRIPTION) and parent task (RELATED-TO).
+// - With `?events=1`, every open task that is due at a time (not all-day) is also a VEVENT, for
+//   calendar apps that don't show VTODOs. Events last `EVENT_DURATION`.
+//
+// The URL is the only credential, so it is long and random, and the user can rotate it (which
+// makes the old URL stop working) or turn the feed off (`user.rotateCalendarFeed` and
+// `user.disableCalendarFeed`).
+//
+// Due times are written in UTC, except for recurring tasks: their times are written in the
+// user's time zone (`TZID`, described by a VTIMEZONE), so "every Monday at 09:00" stays at 09:00
+// across daylight saving changes, just like it does in the app.
+//
+// A recurring task is its current occurrence: its DTSTART is the current due date, so a rule
+// with a COUNT is written with the number of occurrences that are left.
+
+import crypto from "crypto";
+import { type Prisma } from "@prisma/client";
+import { type TaskPriority } from "~/lib/priority";
+import { formatRRule, parseRRule } from "~/lib/rrule";
+import { DEFAULT_TIME_ZONE, getZonedParts } from "~/lib/timezone";
+import {
+  buildVTimezone,
+  escapeText,
+  formatCalendar,
+  formatICalDate,
+  formatICalDateTime,
+  formatICalLocalDateTime,
+  type ICalComponent,
+  type ICalProperty,
+} from "~/lib/ical";
+
+// How long a task's VEVENT lasts (an ISO 8601 duration).
+const EVENT_DURATION = "PT30M";
+
+// The iCalendar PRIORITY of each priority level: 1 is the highest and 9 the lowest. Tasks
+// without a priority have no PRIORITY property.
+const ICAL_PRIORITIES: Record<TaskPriority, number | null> = {
+  urgent: 1,
+  high: 3,
+  medium: 5,
+  low: 7,
+  none: null,
+};
+
+// Returns a new feed token: 32 random bytes, hex-encoded (like the email verification token).
+export function generateFeedToken() {
+  return crypto.randomBytes(32).toString("hex");
+}
+
+// The path of the feed with the given token. `includeEvents` adds the VEVENTs.
+export function getFeedPath(token: string, includeEvents = false) {
+  return `/api/ical/${token}.ics${includeEvents ? "?events=1" : ""}`;
+}
+
+const feedTaskSelect = {
+  id: true,
+  title: true,
+  notes: true,
+  completed: true,
+  priority: true,
+  dueAt: true,
+  dueAllDay: true,
+  recurrence: true,
+  parentId: true,
+  createdAt: true,
+  updatedAt: true,
+  tags: { select: { tag: { select: { name: true } } } },
+  _count: { select: { completions: true } },
+} satisfies Prisma.TaskSelect;
+
+type FeedTask = Prisma.TaskGetPayload<{ select: typeof feedTaskSelect }>;
+
+// Whether a task's dates are written in the user's time zone (see above), which the feed then
+// has to describe with a VTIMEZONE.
+function usesTimeZone(task: FeedTask, timeZone: string) {
+  return !!task.recurrence && !!task.dueAt && !task.dueAllDay && timeZone !== "UTC";
+}
+
+// The due date (or start) property of a task: a DATE for an all-day task, a local DATE-TIME for
+// a recurring task (see above), or a UTC DATE-TIME.
+function dateProperty(name: string, task: FeedTask & { dueAt: Date }, timeZone: string): ICalProperty {
+  if (task.dueAllDay) return { name, value: formatICalDate(task.dueAt), params: { VALUE: "DATE" } };
+  if (usesTimeZone(task, timeZone)) {
+    return { name, value: formatICalLocalDateTime(task.dueAt, timeZone), params: { TZID: timeZone } };
+  }
+  return { name, value: formatICalDateTime(task.dueAt) };
+}
+
+// The task's RRULE, from its current occurrence on: the occurrences already completed are
+// taken off its COUNT, and a series with none left has no RRULE. Our rules end on a day
+// (`UNTIL=20261231`), which iCalendar only allows with all-day dates; with a time, the series
+// ends at the end of that day (UTC).
+function recurrenceProperty(task: FeedTask): ICalProperty[] {
+  if (!task.recurrence) return [];
+  const rule = parseRRule(task.recurrence);
+  if (rule.count !== null) {
+    rule.count -= task._count.completions;
+    if (rule.count <= 0) return [];
+  }
+  const text = formatRRule(rule);
+  return [{ name: "RRULE", value: task.dueAllDay ? text : text.replace(/UNTIL=(\d{8})(?=;|$)/, "UNTIL=$1T235959Z") }];
+}
+
+// The properties that both the VTODO and the VEVENT of a task have.
+function commonProperties(task: FeedTask): ICalProperty[] {
+  const priority = ICAL_PRIORITIES[task.priority];
+  return [
+    { name: "DTSTAMP", value: formatICalDateTime(task.updatedAt) },
+    { name: "CREATED", value: formatICalDateTime(task.createdAt) },
+    { name: "LAST-MODIFIED", value: formatICalDateTime(task.updatedAt) },
+    { name: "SUMMARY", value: escapeText(task.title) },
+    ...(task.notes ? [{ name: "DESCRIPTION", value: escapeText(task.notes) }] : []),
+    ...(priority ? [{ name: "PRIORITY", value: String(priority) }] : []),
+    ...(task.tags.length > 0 ? [{ name: "CATEGORIES", value: task.tags.map(({ tag }) => escapeText(tag.name)).join(",") }] : []),
+  ];
+}
+
+function toVTodo(task: FeedTask, uid: (id: string) => string, timeZone: string): ICalComponent {
+  const properties: ICalProperty[] = [{ name: "UID", value: uid(task.id) }, ...commonProperties(task)];
+  if (task.completed) {
+    // A task doesn't store when it was completed; the last change is the closest we have.
+    properties.push(
+      { name: "STATUS", value: "COMPLETED" },
+      { name: "COMPLETED", value: formatICalDateTime(task.updatedAt) },
+      { name: "PERCENT-COMPLETE", value: "100" },
+    );
+  } else {
+    properties.push({ name: "STATUS", value: "NEEDS-ACTION" });
+  }
+  if (task.dueAt) {
+    const dueTask = { ...task, dueAt: task.dueAt };
+
+    // A recurring VTODO needs a DTSTART for its RRULE to start from.
+    if (task.recurrence) properties.push(dateProperty("DTSTART", dueTask, timeZone));
+    properties.push(dateProperty("DUE", dueTask, timeZone), ...recurrenceProperty(task));
+  }
+  if (task.parentId) properties.push({ name: "RELATED-TO", value: uid(task.parentId), params: { RELTYPE: "PARENT" } });
+  return { name: "VTODO", properties };
+}
+
+function toVEvent(task: FeedTask & { dueAt: Date }, uid: (id: string) => string, timeZone: string): ICalComponent {
+  return {
+    name: "VEVENT",
+    properties: [
+      { name: "UID", value: uid(`${task.id}-event`) },
+      ...commonProperties(task),
+      dateProperty("DTSTART", task, timeZone),
+      { name: "DURATION", value: EVENT_DURATION },
+      ...recurrenceProperty(task),
+    ],
+  };
+}
+
+// Returns the user with this feed token, or null (also for an empty token).
+export async function findFeedUser(db: Prisma.TransactionClient, token: string) {
+  if (!token) return null;
+  return db.user.findUnique({ where: { calendarFeedToken: token }, select: { id: true, timeZone: true } });
+}
+
+// Builds the feed of a user as an iCalendar file. `host` makes the UIDs globally unique.
+export async function buildCalendarFeed(
+  db: Prisma.TransactionClient,
+  user: { id: string; timeZone: string | null },
+  { host, includeEvents }: { host: string; includeEvents: boolean },
+) {
+  const tasks = await db.task.findMany({
+    where: { userId: user.id, deletedAt: null },
+    orderBy: [{ position: "asc" }, { id: "asc" }],
+    select: feedTaskSelect,
+  });
+  const timeZone = user.timeZone ?? DEFAULT_TIME_ZONE;
+  const uid = (id: string) => `${id}@${host}`;
+
+  const components = tasks.map((task) => toVTodo(task, uid, timeZone));
+  if (includeEvents) {
+    for (const task of tasks) {
+      if (task.dueAt && !task.dueAllDay && !task.completed) {
+        components.push(toVEvent({ ...task, dueAt: task.dueAt }, uid, timeZone));
+      }
+    }
+  }
+
+  // Every TZID must be described by a VTIMEZONE, which comes before the components using it.
+  if (tasks.some((task) => usesTimeZone(task, timeZone))) {
+    components.unshift(buildVTimezone(timeZone, getZonedParts(new Date(), timeZone).year));
+  }
+
+  return formatCalendar(
+    [
+      { name: "VERSION", value: "2.0" },
+      { name: "PRODID", value: "-//Tasks//Task feed//EN" },
+      { name: "CALSCALE", value: "GREGORIAN" },
+      { name: "METHOD", value: "PUBLISH" },
+      { name: "X-WR-CALNAME", value: "Tasks" },
+
+      // How often subscribed calendars should fetch the feed again.
+      { name: "REFRESH-INTERVAL", value: "PT1H", params: { VALUE: "DURATION" } },
+      { name: "X-PUBLISHED-TTL", value: "PT1H" },
+    ],
+    components,
+  );
+}
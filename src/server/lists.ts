@@ -0,0 +1,91 @@
+// This file contains the server-side task list helpers that are shared by more than one tRPC
+// router (the `listRouter` manages lists directly, and the `taskRouter` puts new tasks into a
+// list, checks that the list belongs to the caller, and moves tasks between lists in bulk).
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { type Prisma } from "@prisma/client";
+import { getSubtreeIds } from "~/server/subtasks";
+import { appendToList, lockTaskList } from "~/server/positions";
+import { findListForAccessOrThrow } from "~/server/sharing";
+
+// The name of the default list every user has.
+export const INBOX_NAME = "Inbox";
+
+// The Zod schema for a list name.
+export const listNameSchema = z
+  .string()
+  .trim()
+  .min(1, { message: "List name cannot be empty." })
+  .max(60, { message: "List names can be at most 60 characters." });
+
+// Loads a single list, but only if it belongs to the given user. Otherwise throws `NOT_FOUND`
+// (the same error as `findTaskForAccessOrThrow` in `src/server/sharing.ts` throws for a task in
+// a list the user can't open).
+export async function findOwnedListOrThrow(db: Prisma.TransactionClient, userId: string, id: string) {
+  const list = await db.taskList.findFirst({ where: { id, userId } });
+  if (!list) throw new TRPCError({ code: "NOT_FOUND", message: "List not found" });
+  return list;
+}
+
+// Returns the user's Inbox, creating it first if the user doesn't have one yet. New users get
+// their Inbox on registration, and the migration created one for every existing user, so this
+// only creates one for users that were inserted some other way (e.g., the e2e seed user).
+//
+// If two requests race to create the Inbox, the user ends up with two. That is harmless: the
+// oldest one (`orderBy: createdAt`) is always the one returned.
+export async function getOrCreateInbox(db: Prisma.TransactionClient, userId: string) {
+  const inbox = await db.taskList.findFirst({
+    where: { userId, isInbox: true },
+    orderBy: { createdAt: "asc" },
+  });
+  if (inbox) return inbox;
+  return db.taskList.create({ data: { userId, name: INBOX_NAME, isInbox: true, position: 0 } });
+}
+
+// Returns the list a new task goes into: the given list (after checking that the user can edit
+// its tasks, as its owner or a member), or the user's Inbox when no list is given. The new task
+// belongs to the returned list's owner (`userId`).
+export async function resolveTargetList(
+  db: Prisma.TransactionClient,
+  userId: string,
+  listId: string | undefined,
+) {
+  return listId
+    ? await findListForAccessOrThrow(db, userId, listId, "editor")
+    : await getOrCreateInbox(db, userId);
+}
+
+// Moves tasks into the list `listId` (which the caller has checked), together with all of their
+// subtasks. `userId` is the owner of the tasks and of the list: tasks never move between lists
+// of different owners. A moved subtask whose parent stays behind is detached from it and becomes a
+// top-level task in the new list. Used by `list.moveTasks` and the bulk "move" action.
+//
+// In the "Manual" order, the tasks that arrive at the top level of the new list go below the
+// tasks that are already there, in the order they had before. Returns how many tasks were
+// moved (subtasks included).
+export async function moveTasksToList(tx: Prisma.TransactionClient, userId: string, taskIds: string[], listId: string) {
+  await lockTaskList(tx, listId);
+  const ids = await getSubtreeIds(tx, userId, taskIds);
+
+  // The tasks that end up at the top level of the new list: the ones that were already at
+  // the top level of another list, and the ones detached from their parent below.
+  const moving = await tx.task.findMany({
+    where: { id: { in: taskIds }, userId, deletedAt: null },
+    select: { id: true, listId: true, parentId: true },
+  });
+  const arriving = moving.filter((task) =>
+    task.parentId === null ? task.listId !== listId : !ids.includes(task.parentId),
+  );
+
+  const { count } = await tx.task.updateMany({
+    where: { id: { in: ids }, userId },
+    data: { listId },
+  });
+  await tx.task.updateMany({
+    where: { id: { in: taskIds }, userId, deletedAt: null, parentId: { notIn: ids } },
+    data: { parentId: null },
+  });
+  await appendToList(tx, listId, arriving.map((task) => task.id));
+  return { count };
+}
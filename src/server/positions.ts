@@ -0,0 +1,109 @@
+// This file contains the server-side helpers for the "Manual" order of tasks (the `position`
+// column on `Task`).
+//
+// Positions are "fractional index" keys from the `fractional-indexing` package: strings such as
+// "a0", "a1", "a0V" that sort in the order of the tasks. There is always another key between
+// two keys ("a0" < "a0V" < "a1"), so moving a task only rewrites the moved task's position; its
+// siblings keep theirs. Positions are compared among siblings only: the tasks with the same
+// list and the same parent.
+//
+// Two requests that place tasks in the same list at the same time could read the same
+// neighbours and generate the same key. To prevent that, every write of a position first locks
+// the list's row (`lockTaskList`), so those writes run one after the other, and each one
+// generates its key from the positions as they are after the previous one. Locking alone isn't
+// enough: the same two keys always give the same key in between, so a key is never generated
+// between two positions that the client sent without checking what lies between them now.
+
+import { TRPCError } from "@trpc/server";
+import { type Prisma } from "@prisma/client";
+import { generateKeyBetween, generateNKeysBetween } from "fractional-indexing";
+
+type Siblings = { listId: string; parentId: string | null };
+
+// Locks the list's row until the end of the surrounding transaction (`SELECT ... FOR UPDATE`).
+// Another transaction that tries to lock the same list waits until this one has finished, and
+// then sees the positions it wrote.
+export async function lockTaskList(tx: Prisma.TransactionClient, listId: string) {
+  await tx.$queryRaw`SELECT "id" FROM "TaskList" WHERE "id" = ${listId} FOR UPDATE`;
+}
+
+// Returns the position of the first (`"asc"`) or last (`"desc"`) of the siblings, if any.
+async function getEdgePosition(tx: Prisma.TransactionClient, { listId, parentId }: Siblings, order: Prisma.SortOrder) {
+  const edge = await tx.task.findFirst({
+    where: { listId, parentId },
+    orderBy: [{ position: order }, { id: order }],
+    select: { position: true },
+  });
+  return edge?.position ?? null;
+}
+
+// Returns a position above all of the siblings (where a new top-level task goes).
+// The list must already be locked by the caller.
+export async function getFirstPosition(tx: Prisma.TransactionClient, siblings: Siblings) {
+  return generateKeyBetween(null, await getEdgePosition(tx, siblings, "asc"));
+}
+
+// Returns a position below all of the siblings (where a new subtask goes).
+// The list must already be locked by the caller.
+export async function getLastPosition(tx: Prisma.TransactionClient, siblings: Siblings) {
+  return generateKeyBetween(await getEdgePosition(tx, siblings, "desc"), null);
+}
+
+// Moves the given tasks, in their current order, below all of the other tasks that are now at
+// the top level of `listId`. Used after tasks were moved into another list, where their old
+// positions mean nothing (and could even be equal to positions that are already in use).
+// The list must already be locked by the caller.
+export async function appendToList(tx: Prisma.TransactionClient, listId: string, taskIds: string[]) {
+  if (taskIds.length === 0) return;
+  const moved = await tx.task.findMany({
+    where: { id: { in: taskIds } },
+    orderBy: [{ position: "asc" }, { id: "asc" }],
+    select: { id: true },
+  });
+  const last = await tx.task.findFirst({
+    where: { listId, parentId: null, id: { notIn: taskIds } },
+    orderBy: [{ position: "desc" }, { id: "desc" }],
+    select: { position: true },
+  });
+  const keys = generateNKeysBetween(last?.position ?? null, null, moved.length);
+  for (const [index, task] of moved.entries()) {
+    await tx.task.update({ where: { id: task.id }, data: { position: keys[index] } });
+  }
+}
+
+// Returns the new position of a task that is dropped between two of its siblings, `before`
+// (the task that should end up right above it) and `after` (right below it). Either one may be
+// missing, when the task is dropped at the top or at the bottom.
+//
+// The neighbours are what the user SAW, which may be out of date: another tab may have moved
+// them, or dropped other tasks between them, in the meantime. So the task is placed right below
+// `before`, between it and the sibling that comes right after it NOW (under the list's lock),
+// which is `after` unless something changed. Without `before`, it is placed right above `after`
+// in the same way. Either way, the result is a key that no sibling has, and the order of the
+// other tasks is never touched.
+export async function getPositionBetween(
+  tx: Prisma.TransactionClient,
+  task: Siblings & { id: string },
+  before: { position: string } | null,
+  after: { position: string } | null,
+) {
+  const siblings = { listId: task.listId, parentId: task.parentId, id: { not: task.id } };
+
+  if (before) {
+    const next = await tx.task.findFirst({
+      where: { ...siblings, position: { gt: before.position } },
+      orderBy: [{ position: "asc" }, { id: "asc" }],
+      select: { position: true },
+    });
+    return generateKeyBetween(before.position, next?.position ?? null);
+  }
+  if (after) {
+    const previous = await tx.task.findFirst({
+      where: { ...siblings, position: { lt: after.position } },
+      orderBy: [{ position: "desc" }, { id: "desc" }],
+      select: { position: true },
+    });
+    return generateKeyBetween(previous?.position ?? null, after.position);
+  }
+  throw new TRPCError({ code: "BAD_REQUEST", message: "Give the task before or after the new position." });
+}
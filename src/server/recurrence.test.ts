@@ -0,0 +1,103 @@
+// This file contains the tests of `getNextDue` (`src/server/recurrence.ts`): the due date a
+// recurring task moves on to when it is completed. Each row is a task (its rule and current due
+// date), the user's time zone, and the due date its next occurrence must get.
+//
+// The zones are deliberately not UTC: the date math must happen on the user's calendar dates,
+// and a timed task must keep its wall-clock time across daylight saving changes (Europe/Berlin
+// moves to summer time on 2026-03-29 and back on 2026-10-25; America/New_York on 2026-03-08).
+
+import { test, expect } from "@playwright/test";
+import { getNextDue } from "~/server/recurrence";
+
+type Case = {
+  name: string;
+  rule: string;
+  timeZone: string;
+
+  // The current due date: an ISO date for an all-day task, an ISO timestamp for a timed one.
+  due: string;
+
+  // When the task is completed. Defaults to the current due date, so nothing is skipped.
+  now?: string;
+
+  // How many occurrences have been completed, including this one (for COUNT).
+  completions?: number;
+
+  // The expected next due date (written like `due`), or null when the series has ended.
+  next: string | null;
+};
+
+const isAllDay = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+function runCases(cases: Case[]) {
+  for (const c of cases) {
+    test(`${c.name} (${c.rule}, ${c.timeZone})`, () => {
+      const allDay = isAllDay(c.due);
+      const task = {
+        recurrence: c.rule,
+        dueAt: new Date(allDay ? `${c.due}T00:00:00Z` : c.due),
+        dueAllDay: allDay,
+        recurFromCompletion: false,
+      };
+      const now = new Date(c.now ?? (allDay ? `${c.due}T12:00:00Z` : c.due));
+      const result = getNextDue(task, c.timeZone, c.completions ?? 1, now);
+      const next =
+        result && (result.dueAllDay ? result.dueAt.toISOString().slice(0, 10) : result.dueAt.toISOString());
+      expect(next).toBe(c.next === null || isAllDay(c.next) ? c.next : new Date(c.next).toISOString());
+    });
+  }
+}
+
+test.describe("next occurrence: daylight saving changes", () => {
+  runCases([
+    // 09:00 in Berlin is 08:00 UTC in winter and 07:00 UTC in summer.
+    { name: "daily across the spring change", rule: "FREQ=DAILY", timeZone: "Europe/Berlin", due: "2026-03-28T08:00:00Z", next: "2026-03-29T07:00:00Z" },
+    { name: "daily across the autumn change", rule: "FREQ=DAILY", timeZone: "Europe/Berlin", due: "2026-10-24T07:00:00Z", next: "2026-10-25T08:00:00Z" },
+    { name: "weekly across the spring change", rule: "FREQ=WEEKLY", timeZone: "America/New_York", due: "2026-03-06T14:00:00Z", next: "2026-03-13T13:00:00Z" },
+
+    // 02:30 doesn't exist in Berlin on 2026-03-29 (the clocks jump from 02:00 to 03:00), so
+    // the task is due an hour later on that day, at 03:30.
+    { name: "a time skipped by the spring change", rule: "FREQ=DAILY", timeZone: "Europe/Berlin", due: "2026-03-28T01:30:00Z", next: "2026-03-29T01:30:00Z" },
+
+    // All-day tasks have no time, so they are unaffected.
+    { name: "all-day across the spring change", rule: "FREQ=DAILY", timeZone: "Europe/Berlin", due: "2026-03-28", next: "2026-03-29" },
+  ]);
+});
+
+test.describe("next occurrence: month ends", () => {
+  runCases([
+    // Months without a 31st are skipped, as RFC 5545 requires.
+    { name: "the 31st skips February", rule: "FREQ=MONTHLY;BYMONTHDAY=31", timeZone: "Europe/Berlin", due: "2026-01-31", next: "2026-03-31" },
+    { name: "the 31st skips April", rule: "FREQ=MONTHLY;BYMONTHDAY=31", timeZone: "Europe/Berlin", due: "2026-03-31", next: "2026-05-31" },
+    { name: "monthly from the 31st", rule: "FREQ=MONTHLY", timeZone: "America/New_York", due: "2026-01-31", next: "2026-03-31" },
+
+    // 00:30 on the 31st in Berlin is still the 30th in UTC: the rule follows the user's date.
+    { name: "the 31st, just after midnight", rule: "FREQ=MONTHLY;BYMONTHDAY=31", timeZone: "Europe/Berlin", due: "2026-01-30T23:30:00Z", next: "2026-03-30T22:30:00Z" },
+
+    // The last day of the month exists in every month.
+    { name: "last day, into February", rule: "FREQ=MONTHLY;BYMONTHDAY=-1", timeZone: "Europe/Berlin", due: "2026-01-31", next: "2026-02-28" },
+    { name: "last day, into a leap February", rule: "FREQ=MONTHLY;BYMONTHDAY=-1", timeZone: "Europe/Berlin", due: "2028-01-31", next: "2028-02-29" },
+    { name: "last day, out of February", rule: "FREQ=MONTHLY;BYMONTHDAY=-1", timeZone: "Europe/Berlin", due: "2026-02-28", next: "2026-03-31" },
+  ]);
+});
+
+test.describe("next occurrence: February 29", () => {
+  runCases([
+    { name: "yearly from a leap day", rule: "FREQ=YEARLY", timeZone: "America/New_York", due: "2028-02-29", next: "2032-02-29" },
+    { name: "yearly on the 29th of February", rule: "FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=29", timeZone: "Europe/Berlin", due: "2024-02-29", next: "2028-02-29" },
+    { name: "yearly on the last day of February", rule: "FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=-1", timeZone: "Europe/Berlin", due: "2027-02-28", next: "2028-02-29" },
+    { name: "yearly on the last day of February, after a leap year", rule: "FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=-1", timeZone: "Europe/Berlin", due: "2028-02-29", next: "2029-02-28" },
+  ]);
+});
+
+test.describe("next occurrence: late completions and the end of a series", () => {
+  runCases([
+    // A task completed late skips the occurrences that are already in the past.
+    { name: "daily, completed three days late", rule: "FREQ=DAILY", timeZone: "Europe/Berlin", due: "2026-10-16", now: "2026-10-19T10:00:00Z", next: "2026-10-19" },
+    { name: "weekly, completed ten days late", rule: "FREQ=WEEKLY", timeZone: "Europe/Berlin", due: "2026-10-05T07:00:00Z", now: "2026-10-15T10:00:00Z", next: "2026-10-19T07:00:00Z" },
+
+    { name: "COUNT used up", rule: "FREQ=DAILY;COUNT=3", timeZone: "Europe/Berlin", due: "2026-10-19", completions: 3, next: null },
+    { name: "COUNT not used up", rule: "FREQ=DAILY;COUNT=3", timeZone: "Europe/Berlin", due: "2026-10-19", completions: 2, next: "2026-10-20" },
+    { name: "past UNTIL", rule: "FREQ=WEEKLY;UNTIL=20261025", timeZone: "Europe/Berlin", due: "2026-10-19", next: null },
+  ]);
+});
@@ -0,0 +1,103 @@
+// This file contains the server-side logic for completing a task, which is shared by
+// `task.toggle` and `task.update` (a patch with `completed: true`).
+//
+// Completing a plain task just sets `completed`. Completing a RECURRING task (one with an
+// RRULE in `recurrence`) instead records a `TaskCompletion` and moves the task's due date to
+// its next occurrence, so the same task row stays open and comes back when it is due again.
+// Only when the series has ended (its COUNT is used up, or the next occurrence would fall
+// after UNTIL) is the task actually marked as completed.
+
+import { z } from "zod";
+import { type Prisma, type Task } from "@prisma/client";
+import { DEFAULT_TIME_ZONE, diffCalendarDays, getZonedParts, zonedTimeToUtc } from "~/lib/timezone";
+import { getDueCalendarDate } from "~/lib/due-dates";
+import { RRuleError, nextOccurrence, normalizeRRule, parseRRule } from "~/lib/rrule";
+import { completeSubtasksOrThrow, getSubtreeIds } from "~/server/subtasks";
+
+// Occurrences that are skipped when a task is completed late are bounded, so a broken rule
+// can never loop forever (a daily task that is 10 years overdue needs ~3650 steps).
+const MAX_SKIPPED_OCCURRENCES = 10_000;
+
+// The Zod schema for a recurrence rule. `.transform` parses the rule and stores it in its
+// canonical form (e.g., "freq=weekly;interval=1" becomes "FREQ=WEEKLY"). An invalid or
+// unsupported rule is reported as a normal validation error with the parser's message
+// (e.g., "FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY."), which the client shows as a toast.
+export const recurrenceSchema = z.string().transform((rule, ctx) => {
+  try {
+    return normalizeRRule(rule);
+  } catch (error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: error instanceof RRuleError ? error.message : "Invalid recurrence rule.",
+    });
+    return z.NEVER;
+  }
+});
+
+// Returns the fields to write when `task` is completed by `actorId`, after applying that user's
+// rule for open subtasks (see `completeSubtasksOrThrow`). Must run inside the same transaction as the
+// update that writes the returned fields.
+// - Plain task: `{ completed: true }`.
+// - Recurring task with a next occurrence: `{ completed: false, dueAt, dueAllDay }` with the
+//   next due date. The completion is recorded, and the task's subtasks are re-opened, because a
+//   recurring task's checklist starts over with every occurrence.
+// - Recurring task whose series has ended: the completion is recorded, and `{ completed: true }`.
+export async function completeTask(tx: Prisma.TransactionClient, task: Task, actorId: string, now = new Date()) {
+  await completeSubtasksOrThrow(tx, task, actorId);
+  if (!task.recurrence) return { completed: true };
+
+  const [user, previousCompletions] = await Promise.all([
+    tx.user.findUniqueOrThrow({ where: { id: task.userId }, select: { timeZone: true } }),
+    tx.taskCompletion.count({ where: { taskId: task.id } }),
+  ]);
+  await tx.taskCompletion.create({ data: { taskId: task.id, dueAt: task.dueAt, completedAt: now } });
+
+  const next = getNextDue(task, user.timeZone ?? DEFAULT_TIME_ZONE, previousCompletions + 1, now);
+  if (!next) return { completed: true };
+
+  // Re-open the subtasks (at every depth) for the next occurrence.
+  const subtaskIds = (await getSubtreeIds(tx, task.userId, [task.id])).filter((id) => id !== task.id);
+  await tx.task.updateMany({ where: { id: { in: subtaskIds } }, data: { completed: false } });
+
+  return { completed: false, ...next };
+}
+
+// Computes the due date of a recurring task's next occurrence, or `null` if the series has
+// ended. `completions` is the number of occurrences completed so far, including this one.
+//
+// All date math happens on calendar dates in the user's time zone. A timed task keeps its
+// wall-clock time: "every day at 09:00" in Europe/Berlin is due at 09:00 local time on both
+// sides of a daylight saving change, even though the UTC instant shifts by an hour.
+//
+// Exported for its tests (`recurrence.test.ts`).
+export function getNextDue(
+  task: Pick<Task, "recurrence" | "dueAt" | "dueAllDay" | "recurFromCompletion">,
+  timeZone: string,
+  completions: number,
+  now: Date,
+) {
+  const rule = parseRRule(task.recurrence ?? "");
+  if (rule.count !== null && completions >= rule.count) return null;
+
+  const today = getZonedParts(now, timeZone);
+  const time = task.dueAt && !task.dueAllDay ? getZonedParts(task.dueAt, timeZone) : null;
+
+  // The series continues from the current due date, or from today when the task has no due
+  // date or repeats "after completion".
+  const from =
+    task.dueAt && !task.recurFromCompletion ? getDueCalendarDate(task.dueAt, task.dueAllDay, timeZone) : today;
+
+  // A task completed late skips the occurrences that are already in the past, so completing
+  // a daily task that was due three days ago makes it due today, not the day after its old
+  // due date.
+  let next = nextOccurrence(rule, from);
+  for (let skipped = 0; next && diffCalendarDays(today, next) < 0; skipped++) {
+    if (skipped >= MAX_SKIPPED_OCCURRENCES) return null;
+    next = nextOccurrence(rule, next);
+  }
+  if (!next) return null;
+
+  return time
+    ? { dueAt: zonedTimeToUtc({ ...next, hour: time.hour, minute: time.minute }, timeZone), dueAllDay: false }
+    : { dueAt: new Date(Date.UTC(next.year, next.month - 1, next.day)), dueAllDay: true };
+}
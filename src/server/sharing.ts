@@ -0,0 +1,136 @@
+// This file contains the server-side rules of shared lists: who can open a list, and with which
+// role (see `src/lib/sharing.ts`), and accepting an invitation to a list.
+//
+// A user can open their own lists (as the "owner") and the lists they are a `ListMember` of (with
+// that member's role). A task is in exactly one list, and is owned by that list's owner (see the
+// `Task` model in `prisma/schema.prisma`), so what a user may do with a task is what their role in
+// the task's list allows.
+//
+// A list or task the user can't open at all is reported as `NOT_FOUND`, exactly like one that
+// doesn't exist, so the API never reveals whether another user's ids are valid. One the user can
+// open, but not with the role an action needs (e.g. a viewer editing a task), is `FORBIDDEN`.
+
+import crypto from "crypto";
+import { TRPCError } from "@trpc/server";
+import { Prisma } from "@prisma/client";
+import { hasListAccess, LIST_ROLES, type ListAccess } from "~/lib/sharing";
+
+// How long an invitation link works.
+export const INVITE_LIFETIME_DAYS = 7;
+const INVITE_LIFETIME_MS = INVITE_LIFETIME_DAYS * 24 * 60 * 60 * 1000;
+
+// The message of the `FORBIDDEN` error for each access level an action can require.
+const FORBIDDEN_MESSAGES: Record<ListAccess, string> = {
+  viewer: "You don't have access to this list.",
+  editor: "You can only view this list.",
+  admin: "Only the list's owner and admins can do this.",
+  owner: "Only the list's owner can do this.",
+};
+
+// The Prisma filter for the lists that `userId` can open with at least `required` access.
+export function accessibleListWhere(userId: string, required: ListAccess = "viewer"): Prisma.TaskListWhereInput {
+  if (required === "owner") return { userId };
+  const roles = LIST_ROLES.filter((role) => hasListAccess(role, required));
+  return { OR: [{ userId }, { members: { some: { userId, role: { in: roles } } } }] };
+}
+
+// The same filter for raw SQL (any access): a subquery of the ids of the lists `userId` can open.
+export function accessibleListIdsSql(userId: string) {
+  return Prisma.sql`
+    SELECT "id" FROM "TaskList" WHERE "userId" = ${userId}
+    UNION SELECT "listId" FROM "ListMember" WHERE "userId" = ${userId}
+  `;
+}
+
+// Returns what `userId` can do with the list, or null if they can't open it.
+export async function getListAccess(
+  db: Prisma.TransactionClient,
+  userId: string,
+  list: { id: string; userId: string },
+): Promise<ListAccess | null> {
+  if (list.userId === userId) return "owner";
+  const member = await db.listMember.findUnique({
+    where: { listId_userId: { listId: list.id, userId } },
+    select: { role: true },
+  });
+  return member?.role ?? null;
+}
+
+function assertListAccess(access: ListAccess, required: ListAccess) {
+  if (!hasListAccess(access, required)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: FORBIDDEN_MESSAGES[required] });
+  }
+}
+
+// Loads a list that `userId` can open with at least `required` access, together with that
+// access. Throws `NOT_FOUND` or `FORBIDDEN` otherwise (see above).
+export async function findListForAccessOrThrow(
+  db: Prisma.TransactionClient,
+  userId: string,
+  id: string,
+  required: ListAccess,
+) {
+  const list = await db.taskList.findUnique({ where: { id } });
+  const access = list && (await getListAccess(db, userId, list));
+  if (!list || !access) throw new TRPCError({ code: "NOT_FOUND", message: "List not found" });
+  assertListAccess(access, required);
+  return { ...list, access };
+}
+
+// Loads a task that `userId` can open with at least `required` access in its list. Tasks in the
+// trash are only found with `includeTrashed`. Throws `NOT_FOUND` or `FORBIDDEN` otherwise.
+//
+// The returned task's `userId` is the list's owner, which is the user the owner-scoped helpers
+// (`getSubtreeIds`, `trashTask`, `upsertTagsByName`, ...) must be called with.
+export async function findTaskForAccessOrThrow(
+  db: Prisma.TransactionClient,
+  userId: string,
+  id: string,
+  required: ListAccess,
+  { includeTrashed = false } = {},
+) {
+  const task = await db.task.findFirst({ where: { id, ...(includeTrashed ? {} : { deletedAt: null }) } });
+  const access = task && (await getListAccess(db, userId, { id: task.listId, userId: task.userId }));
+  if (!task || !access) throw new TRPCError({ code: "NOT_FOUND", message: "Task not found" });
+  assertListAccess(access, required);
+  return task;
+}
+
+// A new invitation token: 32 random bytes, hex-encoded (like the email verification token).
+export function generateInviteToken() {
+  return crypto.randomBytes(32).toString("hex");
+}
+
+// When an invitation sent now stops working.
+export function getInviteExpiry(now = new Date()) {
+  return new Date(now.getTime() + INVITE_LIFETIME_MS);
+}
+
+// Accepts the invitation with this token for the signed-in user: they become a member of the
+// list with the invited role (or get that role, if they already were one), and the invitation is
+// used up. Only the user the invitation was sent to can accept it. Returns the list's id.
+export async function acceptListInvite(tx: Prisma.TransactionClient, user: { id: string }, token: string) {
+  const invite = await tx.listInvite.findUnique({ where: { token }, include: { list: true } });
+  if (!invite || invite.expiresAt < new Date()) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "This invitation is invalid or has expired." });
+  }
+
+  const { email } = await tx.user.findUniqueOrThrow({ where: { id: user.id }, select: { email: true } });
+  if (email?.toLowerCase() !== invite.email) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `This invitation was sent to ${invite.email}. Sign in with that email address to accept it.`,
+    });
+  }
+
+  // The owner doesn't need to be a member of their own list.
+  if (invite.list.userId !== user.id) {
+    await tx.listMember.upsert({
+      where: { listId_userId: { listId: invite.listId, userId: user.id } },
+      create: { listId: invite.listId, userId: user.id, role: invite.role },
+      update: { role: invite.role },
+    });
+  }
+  await tx.listInvite.delete({ where: { id: invite.id } });
+  return invite.listId;
+}
@@ -0,0 +1,47 @@
+// This file defines the storage of task attachments: an interface with the few operations the app
+// needs (store, read and delete a file by key), and the function that picks the implementation
+// configured by `STORAGE_DRIVER` (see `src/env.js`):
+// - "local" (`./local.ts`): files in a folder on the server's disk, for development and tests.
+// - "s3" (`./s3.ts`): an S3-compatible bucket (AWS S3, or MinIO for a self-hosted setup).
+//
+// The rest of the app only talks to `FileStorage`, so a new backend is a new implementation of
+// it here. The files are never served by the storage directly: downloads go through the signed
+// URLs of `src/app/api/attachments/[id]/route.ts`, which check access and expiry first.
+
+import { env } from "~/env";
+import { createLocalStorage } from "~/server/storage/local";
+import { createS3Storage } from "~/server/storage/s3";
+
+export interface FileStorage {
+  // Stores a file under `key`, replacing any file that is already there.
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+
+  // Returns the file stored under `key`, or null if there is none.
+  get(key: string): Promise<Buffer | null>;
+
+  // Deletes the file stored under `key`. Deleting a missing file is not an error.
+  delete(key: string): Promise<void>;
+}
+
+// The storage is created on first use and then shared, like the Prisma client in `~/server/db`.
+let storage: FileStorage | undefined;
+
+export function getFileStorage(): FileStorage {
+  storage ??= createConfiguredStorage();
+  return storage;
+}
+
+function createConfiguredStorage(): FileStorage {
+  if (env.STORAGE_DRIVER === "local") return createLocalStorage(env.STORAGE_LOCAL_DIR);
+
+  if (!env.S3_BUCKET || !env.S3_ACCESS_KEY_ID || !env.S3_SECRET_ACCESS_KEY) {
+    throw new Error("STORAGE_DRIVER=s3 needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY to be set.");
+  }
+  return createS3Storage({
+    endpoint: env.S3_ENDPOINT ?? `https://s3.${env.S3_REGION}.amazonaws.com`,
+    region: env.S3_REGION,
+    bucket: env.S3_BUCKET,
+    accessKeyId: env.S3_ACCESS_KEY_ID,
+    secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+  });
+}
@@ -0,0 +1,40 @@
+// This file implements `FileStorage` (see `./index.ts`) on the local disk: every file is kept
+// under `root`, at the path given by its key (e.g. `.storage/attachments/<id>/file`). It is
+// meant for development and tests; production setups with more than one server need the shared
+// "s3" storage instead.
+
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { type FileStorage } from "~/server/storage";
+
+export function createLocalStorage(root: string): FileStorage {
+  const base = path.resolve(root);
+
+  // Keys are generated by the server, but a key must still never reach outside `root`.
+  const resolve = (key: string) => {
+    const file = path.resolve(base, key);
+    if (!file.startsWith(base + path.sep)) throw new Error(`Invalid storage key: ${key}`);
+    return file;
+  };
+
+  return {
+    async put(key, body) {
+      const file = resolve(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, body);
+    },
+
+    async get(key) {
+      try {
+        return await readFile(resolve(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await rm(resolve(key), { force: true });
+    },
+  };
+}
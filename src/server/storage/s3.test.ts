@@ -0,0 +1,55 @@
+// This file contains the tests of how the S3 storage (`src/server/storage/s3.ts`) treats the
+// status of S3's answers. `fetch` is replaced by a stub that answers every request with one
+// status, so no bucket is needed.
+
+import { test, expect } from "@playwright/test";
+import { createS3Storage } from "~/server/storage/s3";
+
+const storage = createS3Storage({
+  endpoint: "https://s3.example.com",
+  region: "us-east-1",
+  bucket: "attachments",
+  accessKeyId: "key",
+  secretAccessKey: "secret",
+});
+
+const realFetch = globalThis.fetch;
+const answerWith = (status: number, body = "") => {
+  globalThis.fetch = async () => new Response(status === 204 ? null : body, { status });
+};
+test.afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+test.describe("S3 storage", () => {
+  test("a PUT that gets a 404 (no such bucket) fails", async () => {
+    answerWith(404, "<Code>NoSuchBucket</Code>");
+    await expect(storage.put("a/b", Buffer.from("x"), "text/plain")).rejects.toThrow("S3 PUT a/b failed: 404");
+  });
+
+  test("a PUT that succeeds resolves", async () => {
+    answerWith(200);
+    await expect(storage.put("a/b", Buffer.from("x"), "text/plain")).resolves.toBeUndefined();
+  });
+
+  test("a GET of a missing object returns null", async () => {
+    answerWith(404);
+    expect(await storage.get("a/b")).toBeNull();
+  });
+
+  test("a GET returns the object", async () => {
+    answerWith(200, "hello");
+    expect((await storage.get("a/b"))?.toString()).toBe("hello");
+  });
+
+  test("a DELETE of a missing object succeeds", async () => {
+    answerWith(404);
+    await expect(storage.delete("a/b")).resolves.toBeUndefined();
+  });
+
+  test("other errors fail on every method", async () => {
+    answerWith(403, "AccessDenied");
+    await expect(storage.get("a/b")).rejects.toThrow("S3 GET a/b failed: 403");
+    await expect(storage.delete("a/b")).rejects.toThrow("S3 DELETE a/b failed: 403");
+  });
+});
@@ -0,0 +1,114 @@
+// This file implements `FileStorage` (see `./index.ts`) on an S3-compatible bucket: AWS S3, or
+// a self-hosted MinIO (with `S3_ENDPOINT` pointing at it). It only needs three requests (PUT,
+// GET and DELETE of one object), so it calls the S3 REST API with `fetch` and signs the requests
+// itself with AWS Signature Version 4, instead of pulling in the whole AWS SDK.
+//
+// Objects are addressed "path-style" (`<endpoint>/<bucket>/<key>`), which both AWS and MinIO
+// accept, so bucket names don't have to be valid host names.
+
+import crypto from "crypto";
+import { type FileStorage } from "~/server/storage";
+
+export type S3StorageConfig = {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+};
+
+const sha256Hex = (data: string | Buffer) => crypto.createHash("sha256").update(data).digest("hex");
+const hmac = (key: string | Buffer, data: string) => crypto.createHmac("sha256", key).update(data).digest();
+
+// Encodes a key for the URL path. S3 wants every byte except the unreserved characters encoded
+// (`encodeURIComponent` leaves `!'()*` alone, so those are added), and "/" kept as a separator.
+function encodeKey(key: string) {
+  return key
+    .split("/")
+    .map((segment) =>
+      encodeURIComponent(segment).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`),
+    )
+    .join("/");
+}
+
+// Adds the `Authorization` header of Signature Version 4 to a request without a query string:
+// https://docs.aws.amazon.com/IAM/latest/UserGuide/reference_sigv-create-signed-request.html
+function signRequest(
+  config: S3StorageConfig,
+  method: string,
+  url: URL,
+  headers: Record<string, string>,
+  payloadHash: string,
+  now = new Date(),
+) {
+  const amzDate = now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  const date = amzDate.slice(0, 8);
+  const scope = `${date}/${config.region}/s3/aws4_request`;
+
+  const signed: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()])),
+    host: url.host,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate,
+  };
+  const names = Object.keys(signed).sort();
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    "",
+    ...names.map((name) => `${name}:${signed[name]}`),
+    "",
+    names.join(";"),
+    payloadHash,
+  ].join("\n");
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+
+  const signingKey = ["s3", "aws4_request"].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${config.secretAccessKey}`, date), config.region),
+  );
+  const signature = crypto.createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+  // `host` is set by `fetch` itself from the URL.
+  return {
+    ...Object.fromEntries(Object.entries(signed).filter(([name]) => name !== "host")),
+    authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${names.join(";")}, Signature=${signature}`,
+  };
+}
+
+export function createS3Storage(config: S3StorageConfig): FileStorage {
+  const objectUrl = (key: string) =>
+    new URL(`${config.endpoint.replace(/\/+$/, "")}/${encodeURIComponent(config.bucket)}/${encodeKey(key)}`);
+
+  // Throws for every failed request, except a 404 on a GET or DELETE (a missing object, which
+  // the caller handles). A 404 on a PUT means the bucket is missing: the upload failed.
+  const send = async (method: "GET" | "PUT" | "DELETE", key: string, body?: Buffer, headers: Record<string, string> = {}) => {
+    const url = objectUrl(key);
+    const response = await fetch(url, {
+      method,
+      headers: signRequest(config, method, url, headers, sha256Hex(body ?? "")),
+      body,
+    });
+    if (!response.ok && !(response.status === 404 && method !== "PUT")) {
+      throw new Error(`S3 ${method} ${key} failed: ${response.status} ${await response.text()}`);
+    }
+    return response;
+  };
+
+  return {
+    async put(key, body, contentType) {
+      await send("PUT", key, body, { "content-type": contentType });
+    },
+
+    async get(key) {
+      const response = await send("GET", key);
+      if (response.status === 404) return null;
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    // S3 answers 204 for missing objects too, and `send` lets a 404 through.
+    async delete(key) {
+      await send("DELETE", key);
+    },
+  };
+}
@@ -0,0 +1,80 @@
+// This file contains the server-side subtask helpers that are shared by more than one tRPC
+// router (the `taskRouter` completes and creates subtasks, and the `listRouter` moves whole
+// subtrees between lists).
+
+import { TRPCError } from "@trpc/server";
+import { Prisma } from "@prisma/client";
+
+// Returns the ids of the given tasks and of all of their subtasks, at any depth.
+//
+// Prisma can't follow a self-relation to an unknown depth, so this is a single "recursive CTE"
+// query: the first SELECT picks the starting tasks (only the user's own), and the second one
+// repeatedly adds the direct subtasks of the rows found so far, until there are none left.
+// Subtasks always belong to the same user as their parent, so the descendants need no check.
+//
+// Tasks in the trash (and everything below them) are skipped, unless `includeTrashed` is set.
+export async function getSubtreeIds(
+  db: Prisma.TransactionClient,
+  userId: string,
+  rootIds: string[],
+  { includeTrashed = false } = {},
+) {
+  if (rootIds.length === 0) return [];
+  const notTrashed = includeTrashed ? Prisma.empty : Prisma.sql`AND "deletedAt" IS NULL`;
+  const rows = await db.$queryRaw<{ id: string }[]>`
+    WITH RECURSIVE subtree AS (
+      SELECT "id" FROM "Task" WHERE "id" = ANY(${rootIds}) AND "userId" = ${userId} ${notTrashed}
+      UNION ALL
+      SELECT t."id" FROM "Task" t JOIN subtree s ON t."parentId" = s."id" WHERE TRUE ${notTrashed}
+    )
+    SELECT "id" FROM subtree
+  `;
+  return rows.map((row) => row.id);
+}
+
+// Like `getSubtreeIds`, for tasks that may belong to different owners (e.g. a page of tasks from
+// the user's own lists and from lists shared with them). The caller must have checked the tasks.
+export async function getSubtreeIdsOfTasks(
+  db: Prisma.TransactionClient,
+  tasks: { id: string; userId: string }[],
+  options: { includeTrashed?: boolean } = {},
+) {
+  const byOwner = new Map<string, string[]>();
+  for (const task of tasks) byOwner.set(task.userId, [...(byOwner.get(task.userId) ?? []), task.id]);
+  const ids: string[] = [];
+  for (const [ownerId, rootIds] of byOwner) ids.push(...(await getSubtreeIds(db, ownerId, rootIds, options)));
+  return ids;
+}
+
+// Applies the "complete a parent with open subtasks" rule of `actorId` (the user completing the
+// task, who on a shared list may not be its owner) before `task` is marked as completed. Must run
+// in the same transaction as the update of the task itself.
+// - "cascade": every open subtask (at any depth) is completed too.
+// - "block": if any subtask is still open, a `PRECONDITION_FAILED` error stops the completion.
+export async function completeSubtasksOrThrow(
+  tx: Prisma.TransactionClient,
+  task: { id: string; userId: string },
+  actorId: string,
+) {
+  const subtaskIds = (await getSubtreeIds(tx, task.userId, [task.id])).filter((id) => id !== task.id);
+  if (subtaskIds.length === 0) return;
+
+  const open = { id: { in: subtaskIds }, completed: false };
+  const user = await tx.user.findUniqueOrThrow({
+    where: { id: actorId },
+    select: { completeParentMode: true },
+  });
+
+  if (user.completeParentMode === "block") {
+    const openCount = await tx.task.count({ where: open });
+    if (openCount > 0) {
+      throw new TRPCError({
+        code: "PRECONDITION_FAILED",
+        message: `This task has ${openCount} open ${openCount === 1 ? "subtask" : "subtasks"}. Complete ${openCount === 1 ? "it" : "them"} first.`,
+      });
+    }
+    return;
+  }
+
+  await tx.task.updateMany({ where: open, data: { completed: true } });
+}
@@ -0,0 +1,54 @@
+// This file contains the server-side tag helpers that are shared by more than one tRPC router
+// (the `tagRouter` manages tags directly, and the `taskRouter` attaches tags to tasks by
+// name when a task is created or edited).
+
+import { z } from "zod";
+import { type Prisma } from "@prisma/client";
+import {
+  TAG_COLOR_PATTERN,
+  TAG_NAME_MAX_LENGTH,
+  TAG_NAME_PATTERN,
+  normalizeTagName,
+  pickTagColor,
+} from "~/lib/tags";
+
+// The Zod schema for a tag name. `.transform(normalizeTagName)` runs first, so "#Work " is
+// accepted and stored as "work"; the checks after it then validate the normalized name.
+export const tagNameSchema = z
+  .string()
+  .transform(normalizeTagName)
+  .pipe(
+    z
+      .string()
+      .min(1, { message: "Tag name cannot be empty." })
+      .max(TAG_NAME_MAX_LENGTH, { message: `Tag names can be at most ${TAG_NAME_MAX_LENGTH} characters.` })
+      .regex(TAG_NAME_PATTERN, { message: "Tag names may only contain letters, numbers, _ and -." }),
+  );
+
+// The Zod schema for a tag color: a 7-character hex color such as "#3b82f6".
+export const tagColorSchema = z
+  .string()
+  .regex(TAG_COLOR_PATTERN, { message: "Tag color must be a hex color like #3b82f6." })
+  .transform((color) => color.toLowerCase());
+
+// The columns of a tag that are sent to the client together with a task.
+export const tagSummarySelect = { id: true, name: true, color: true } as const;
+
+// Looks up the user's tags with the given (already normalized) names, creating any that do
+// not exist yet with a default color, and returns their ids in the same order as `names`.
+//
+// `upsert` keyed on the `@@unique([userId, name])` constraint makes this safe to call with
+// names that may or may not exist, and never creates a duplicate tag.
+export async function upsertTagsByName(db: Prisma.TransactionClient, userId: string, names: string[]) {
+  const ids: string[] = [];
+  for (const name of new Set(names)) {
+    const tag = await db.tag.upsert({
+      where: { userId_name: { userId, name } },
+      create: { userId, name, color: pickTagColor(name) },
+      update: {},
+      select: { id: true },
+    });
+    ids.push(tag.id);
+  }
+  return ids;
+}
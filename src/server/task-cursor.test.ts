@@ -0,0 +1,130 @@
+// This file contains the tests of the cursor pagination of `task.getAll`
+// (`src/server/task-cursor.ts`). Every sort is paged through a few tasks at a time, and the pages
+// put together must be exactly the sorted tasks: no task repeated, none skipped.
+//
+// The `where` conditions that `buildCursorWhere` builds are evaluated here in memory, and the
+// database order is the one of `compareTasks` (`src/lib/task-sort.ts`). The tasks tie on every
+// field, and some have no due date, which is where keyset pagination goes wrong most easily.
+
+import { test, expect } from "@playwright/test";
+import { type Prisma } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { type TaskPriority } from "~/lib/priority";
+import { compareTasks, getSortKeys, SORT_DIRECTIONS, TASK_SORT_FIELDS, type SortKey, type TaskSort } from "~/lib/task-sort";
+import { buildCursorWhere, encodeCursor, type CursorTask } from "~/server/task-cursor";
+
+const day = (date: number) => new Date(Date.UTC(2026, 9, date));
+
+// Twelve tasks, built so that every field has ties (three creation times, two update times, two
+// due dates and none, two priorities, three titles, two positions).
+const TASKS: CursorTask[] = Array.from({ length: 12 }, (_, i) => ({
+  id: `task-${String(i).padStart(2, "0")}`,
+  createdAt: day(1 + (i % 3)),
+  updatedAt: day(10 + (i % 2)),
+  dueAt: i % 4 === 0 ? null : day(20 + (i % 2)),
+  priority: (i % 5 === 0 ? "high" : "none") as TaskPriority,
+  title: ["apples", "bread", "cheese"][i % 3]!,
+  position: i < 6 ? "a0" : "a1",
+}));
+
+// Whether a task matches the subset of Prisma's `where` that the cursor conditions use.
+function matches(task: CursorTask, where: Prisma.TaskWhereInput): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === "OR") return (condition as Prisma.TaskWhereInput[]).some((branch) => matches(task, branch));
+    if (key === "AND") return (condition as Prisma.TaskWhereInput[]).every((branch) => matches(task, branch));
+
+    const value = task[key as keyof CursorTask];
+    const comparable = (v: unknown) => (v instanceof Date ? v.getTime() : (v as string | null));
+    if (condition === null || condition instanceof Date || typeof condition === "string") {
+      return comparable(value) === comparable(condition);
+    }
+    const { gt, lt, in: among } = condition as { gt?: unknown; lt?: unknown; in?: unknown[] };
+    if (value === null) return false;
+    if (among) return among.includes(value);
+    if (gt !== undefined) return comparable(value)! > comparable(gt)!;
+    return comparable(value)! < comparable(lt)!;
+  });
+}
+
+// Pages through the tasks like `task.getAll` does, and returns the ids of every page.
+function pageThrough(sort: TaskSort, limit: number) {
+  const keys = getSortKeys(sort);
+  const pages: string[][] = [];
+  let cursor: string | null = null;
+  do {
+    const rows = TASKS.filter((task) => !cursor || matches(task, buildCursorWhere(cursor, keys)))
+      .sort((a, b) => compareTasks(a, b, keys))
+      .slice(0, limit + 1);
+    const page = rows.slice(0, limit);
+    pages.push(page.map((task) => task.id));
+    cursor = rows.length > limit ? encodeCursor(page.at(-1)!, keys) : null;
+  } while (cursor && pages.length <= TASKS.length);
+  return pages;
+}
+
+test.describe("keyset pagination", () => {
+  for (const field of TASK_SORT_FIELDS) {
+    for (const direction of SORT_DIRECTIONS) {
+      test(`pages through the tasks sorted by ${field} ${direction} without repeating or skipping one`, () => {
+        const keys = getSortKeys({ field, direction });
+        const sorted = [...TASKS].sort((a, b) => compareTasks(a, b, keys)).map((task) => task.id);
+        for (const limit of [1, 3, 5]) {
+          const pages = pageThrough({ field, direction }, limit);
+          expect(pages.flat()).toEqual(sorted);
+          expect(pages.length).toBe(Math.ceil(TASKS.length / limit));
+        }
+      });
+    }
+  }
+
+  test("after a task without a due date come only the others without one", () => {
+    for (const direction of SORT_DIRECTIONS) {
+      const keys = getSortKeys({ field: "dueAt", direction });
+      const undated = TASKS.filter((task) => task.dueAt === null).sort((a, b) => compareTasks(a, b, keys));
+      const where = buildCursorWhere(encodeCursor(undated[0]!, keys), keys);
+      expect(TASKS.filter((task) => matches(task, where)).map((task) => task.id).sort()).toEqual(
+        undated.slice(1).map((task) => task.id).sort(),
+      );
+    }
+  });
+});
+
+test.describe("invalid cursors", () => {
+  const cursorError = (cursor: string, keys: SortKey[]) => {
+    try {
+      buildCursorWhere(cursor, keys);
+    } catch (error) {
+      expect(error).toBeInstanceOf(TRPCError);
+      return (error as TRPCError).code;
+    }
+    return null;
+  };
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+  test("a cursor made for another sort is rejected", () => {
+    const pairs: [TaskSort, TaskSort][] = [
+      [{ field: "createdAt", direction: "desc" }, { field: "updatedAt", direction: "desc" }],
+      [{ field: "title", direction: "asc" }, { field: "title", direction: "desc" }],
+      [{ field: "dueAt", direction: "asc" }, { field: "priority", direction: "asc" }],
+    ];
+    for (const [from, to] of pairs) {
+      const cursor = encodeCursor(TASKS[1]!, getSortKeys(from));
+      expect(cursorError(cursor, getSortKeys(from))).toBeNull();
+      expect(cursorError(cursor, getSortKeys(to))).toBe("BAD_REQUEST");
+    }
+  });
+
+  test("a cursor that was tampered with is rejected", () => {
+    const keys = getSortKeys({ field: "createdAt", direction: "desc" });
+    const sort = keys.map(([key, direction]) => `${key} ${direction}`).join(",");
+    const valid = ["2026-10-01T00:00:00.000Z", "none", null, "task-00"];
+    expect(cursorError(encode({ sort, values: valid }), keys)).toBeNull();
+
+    expect(cursorError("not a cursor", keys)).toBe("BAD_REQUEST");
+    expect(cursorError(encode(valid), keys)).toBe("BAD_REQUEST");
+    expect(cursorError(encode({ sort, values: valid.slice(1) }), keys)).toBe("BAD_REQUEST");
+    expect(cursorError(encode({ sort, values: ["yesterday", "none", null, "task-00"] }), keys)).toBe("BAD_REQUEST");
+    expect(cursorError(encode({ sort, values: [valid[0], "extreme", null, "task-00"] }), keys)).toBe("BAD_REQUEST");
+    expect(cursorError(encode({ sort, values: [valid[0], "none", null, null] }), keys)).toBe("BAD_REQUEST");
+  });
+});
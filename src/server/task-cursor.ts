@@ -0,0 +1,129 @@
+// This file contains the cursor pagination of `task.getAll` (see `src/server/api/routers/task.ts`).
+//
+// `task.getAll` returns one page of tasks at a time, plus a `nextCursor` that points just past
+// the last task of the page. The cursor holds that task's values for every sort key (e.g., its
+// priority, due date, creation time and id), and the next page is "every task that comes after
+// these values in the sort order" ("keyset pagination"). Unlike an offset ("skip 50 tasks"),
+// this doesn't skip or repeat tasks when tasks are added or removed between two pages, and it
+// doesn't slow down on later pages.
+//
+// The cursor is opaque to the client: a base64url-encoded JSON object with the sort keys it was
+// made for and their values. A cursor only makes sense in the order it was made for, so it is
+// rejected when the list is now sorted differently.
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { type Prisma, type Task } from "@prisma/client";
+import { TASK_PRIORITIES } from "~/lib/priority";
+import { type SortDirection, type SortKey } from "~/lib/task-sort";
+
+// The value of every sort key, for one task. Dates are sent as ISO strings.
+type CursorValue = string | null;
+export type CursorTask = Pick<Task, "id" | "createdAt" | "updatedAt" | "dueAt" | "priority" | "title" | "position">;
+
+function getSortValue(task: CursorTask, key: SortKey[0]): CursorValue {
+  const value = task[key];
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+// The sort keys, written as e.g. "title asc,priority desc,dueAt asc,createdAt desc,id asc".
+function describeSortKeys(keys: SortKey[]) {
+  return keys.map(([key, direction]) => `${key} ${direction}`).join(",");
+}
+
+export function encodeCursor(task: CursorTask, keys: SortKey[]) {
+  const cursor = { sort: describeSortKeys(keys), values: keys.map(([key]) => getSortValue(task, key)) };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+// Decodes a cursor, checking that it was made for the same sort keys and has one value of the
+// right type per key. A cursor made for another sort (or tampered with) is rejected with
+// `BAD_REQUEST`.
+function decodeCursor(cursor: string, keys: SortKey[]) {
+  const invalid = () => new TRPCError({ code: "BAD_REQUEST", message: "Invalid cursor." });
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw invalid();
+  }
+  const parsed = z
+    .object({
+      sort: z.literal(describeSortKeys(keys)),
+      values: z.array(z.string().nullable()).length(keys.length),
+    })
+    .safeParse(decoded);
+  if (!parsed.success) throw invalid();
+  const values = parsed.data.values;
+
+  // The dates and priorities must be ones the database can compare with.
+  const isValid = keys.every(([key], index) => {
+    const value = values[index] ?? null;
+    switch (key) {
+      case "createdAt":
+      case "updatedAt":
+        return value !== null && !Number.isNaN(Date.parse(value));
+      case "dueAt":
+        return value === null || !Number.isNaN(Date.parse(value));
+      case "priority":
+        return TASK_PRIORITIES.some((level) => level === value);
+      default:
+        return value !== null;
+    }
+  });
+  if (!isValid) throw invalid();
+  return values;
+}
+
+// Builds the condition "the task's `key` is equal to `value`".
+function sortKeyEquals(key: SortKey[0], value: CursorValue): Prisma.TaskWhereInput {
+  switch (key) {
+    case "createdAt":
+    case "updatedAt":
+      return { [key]: new Date(value ?? 0) };
+    case "dueAt":
+      return { dueAt: value === null ? null : new Date(value) };
+    case "priority":
+      return { priority: TASK_PRIORITIES.find((level) => level === value) };
+    default:
+      return { [key]: value ?? "" };
+  }
+}
+
+// Builds the condition "the task's `key` comes AFTER `value` in the sort order", or `null` when
+// nothing can come after it.
+// - Priorities are an enum, which Prisma can't compare with `gt` / `lt`, so we list the levels
+//   that come after `value` instead.
+// - Tasks without a due date are always sorted last (see `SORT_KEYS` in the task router): after
+//   a due date come the later ones AND the tasks without one; after "no due date" comes nothing.
+function sortKeyAfter(key: SortKey[0], direction: SortDirection, value: CursorValue): Prisma.TaskWhereInput | null {
+  if (value === null) return null;
+  const compare = direction === "asc" ? "gt" : "lt";
+  switch (key) {
+    case "createdAt":
+    case "updatedAt":
+      return { [key]: { [compare]: new Date(value) } };
+    case "dueAt":
+      return { OR: [{ dueAt: { [compare]: new Date(value) } }, { dueAt: null }] };
+    case "priority": {
+      const index = TASK_PRIORITIES.findIndex((level) => level === value);
+      const after = TASK_PRIORITIES.filter((_, i) => (direction === "asc" ? i > index : i < index));
+      return after.length > 0 ? { priority: { in: after } } : null;
+    }
+    default:
+      return { [key]: { [compare]: value } };
+  }
+}
+
+// Builds the `where` condition for "every task after the cursor": a task comes after it if it
+// is equal on the first N keys and after it on the key that follows, for any N.
+export function buildCursorWhere(cursor: string, keys: SortKey[]): Prisma.TaskWhereInput {
+  const values = decodeCursor(cursor, keys);
+  const branches = keys.flatMap(([key, direction], index) => {
+    const after = sortKeyAfter(key, direction, values[index] ?? null);
+    if (!after) return [];
+    const equal = keys.slice(0, index).map(([previous], i) => sortKeyEquals(previous, values[i] ?? null));
+    return [{ AND: [...equal, after] }];
+  });
+  return { OR: branches };
+}
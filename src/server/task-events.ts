@@ -0,0 +1,131 @@
+// This file records the activity history of tasks (the `TaskEvent` table). The task
+// mutations run their writes through `trackTaskChanges`, which reads the tracked fields of the
+// touched tasks before and after, and turns every difference into an event: a new title is a
+// "renamed" event, a new `deletedAt` a "deleted" one, and so on. New tasks are recorded with
+// `recordTaskCreated`.
+//
+// Events are written in the same transaction as the change, so the history can't miss a change
+// or contain one that was rolled back.
+//
+// Both helpers also mark the tasks as changed for real-time sync (see `src/server/task-sync.ts`).
+
+import { type Prisma, type TaskEventType } from "@prisma/client";
+import { markTasksChanged } from "~/server/task-sync";
+
+// The task fields that the history follows.
+const trackedSelect = {
+  id: true,
+  title: true,
+  completed: true,
+  listId: true,
+  parentId: true,
+  dueAt: true,
+  dueAllDay: true,
+  deletedAt: true,
+  _count: { select: { completions: true } },
+} satisfies Prisma.TaskSelect;
+
+type TrackedTask = Prisma.TaskGetPayload<{ select: typeof trackedSelect }>;
+
+// A JSON diff: `{ field: { from, to } }`. Dates are stored as ISO strings.
+type Diff = Record<string, { from: Prisma.InputJsonValue | null; to: Prisma.InputJsonValue | null }>;
+type TaskEventInput = { taskId: string; type: TaskEventType; diff: Diff };
+
+const toJson = (value: string | boolean | Date | null) => (value instanceof Date ? value.toISOString() : value);
+
+type TrackedField = "title" | "completed" | "listId" | "parentId" | "dueAt" | "dueAllDay";
+
+// Returns `{ from, to }` for every field in `fields` whose value differs between the two tasks.
+function diffFields(before: TrackedTask, after: TrackedTask, fields: TrackedField[]) {
+  const diff: Diff = {};
+  for (const field of fields) {
+    const from = toJson(before[field]);
+    const to = toJson(after[field]);
+    if (from !== to) diff[field] = { from, to };
+  }
+  return diff;
+}
+
+// Returns the events that describe how one task changed.
+function describeChanges(before: TrackedTask, after: TrackedTask): TaskEventInput[] {
+  const events: TaskEventInput[] = [];
+  const add = (type: TaskEventType, diff: Diff) => {
+    if (Object.keys(diff).length > 0) events.push({ taskId: after.id, type, diff });
+  };
+
+  if (!before.deletedAt && after.deletedAt) add("deleted", { deletedAt: { from: null, to: toJson(after.deletedAt) } });
+  if (before.deletedAt && !after.deletedAt) add("restored", { deletedAt: { from: toJson(before.deletedAt), to: null } });
+
+  add("renamed", diffFields(before, after, ["title"]));
+  add("moved", diffFields(before, after, ["listId", "parentId"]));
+
+  // A new `TaskCompletion` means an occurrence of a recurring task was completed. The task may
+  // still be open (it moved on to its next occurrence), so its new due date is part of the
+  // "completed" event rather than a separate "due date changed" one.
+  //
+  // A due date is only meaningful with its `dueAllDay` flag, so both are stored when either changes.
+  const dueChanged = Object.keys(diffFields(before, after, ["dueAt", "dueAllDay"])).length > 0;
+  const due: Diff = dueChanged
+    ? {
+        dueAt: { from: toJson(before.dueAt), to: toJson(after.dueAt) },
+        dueAllDay: { from: before.dueAllDay, to: after.dueAllDay },
+      }
+    : {};
+  if (after._count.completions > before._count.completions || (!before.completed && after.completed)) {
+    const diff = { ...diffFields(before, after, ["completed"]), ...due };
+    events.push({ taskId: after.id, type: "completed", diff });
+  } else {
+    if (before.completed && !after.completed) add("reopened", diffFields(before, after, ["completed"]));
+    add("dueDateChanged", due);
+  }
+  return events;
+}
+
+// Writes history events, all by the same actor.
+async function recordTaskEvents(tx: Prisma.TransactionClient, actorId: string, events: TaskEventInput[]) {
+  if (events.length === 0) return;
+  await tx.taskEvent.createMany({ data: events.map((event) => ({ ...event, actorId })) });
+}
+
+// Records the "created" event of a new task.
+export async function recordTaskCreated(
+  tx: Prisma.TransactionClient,
+  actorId: string,
+  task: { id: string; title: string; listId: string; parentId: string | null },
+) {
+  await recordTaskEvents(tx, actorId, [
+    {
+      taskId: task.id,
+      type: "created",
+      diff: {
+        title: { from: null, to: task.title },
+        listId: { from: null, to: task.listId },
+        parentId: { from: null, to: task.parentId },
+      },
+    },
+  ]);
+  markTasksChanged([task], { created: true });
+}
+
+// Runs `action` and records an event for every change it made to the tasks in `taskIds`
+// (which must include every task the action may change). Must run inside the same
+// transaction as the action. Returns the action's result.
+export async function trackTaskChanges<T>(
+  tx: Prisma.TransactionClient,
+  actorId: string,
+  taskIds: string[],
+  action: () => Promise<T>,
+) {
+  const select = { where: { id: { in: taskIds } }, select: trackedSelect };
+  const before = new Map((await tx.task.findMany(select)).map((task) => [task.id, task]));
+  const result = await action();
+  const after = await tx.task.findMany(select);
+
+  const events = after.flatMap((task) => {
+    const old = before.get(task.id);
+    return old ? describeChanges(old, task) : [];
+  });
+  await recordTaskEvents(tx, actorId, events);
+  markTasksChanged([...before.values(), ...after]);
+  return result;
+}
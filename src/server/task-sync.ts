@@ -0,0 +1,103 @@
+// This file carries task changes from the mutations that make them to the `task.onChange`
+// subscription, so every open tab of every user who can see a task learns about the change
+// right away (see `useTaskSync` in `src/hooks/useTaskSync.ts`).
+//
+// Every tRPC mutation runs inside a change set (see `taskSyncMiddleware` in
+// `src/server/api/trpc.ts`). The helpers that write tasks, `trackTaskChanges` and
+// `recordTaskCreated` in `src/server/task-events.ts`, add the tasks they touched to the current
+// change set with `markTasksChanged`. Once the mutation has succeeded (so its transaction is
+// committed), `publishTaskChanges` sends the ids to every user who can open one of the lists
+// involved: the owner and the members of the list a task is in, and of the list it came from.
+// The subscription then loads the tasks itself, with that user's access, so an event never
+// carries a task to a user who can't see it.
+//
+// Tags are part of the tasks they are on, so the tag mutations (`src/server/api/routers/tag.ts`)
+// mark the tasks that have the tag. They also mark the tags' owner with `markTagsChanged`, who
+// gets an event even when no task has the tag, so their other tabs refresh their list of tags.
+//
+// The events travel through an in-memory `EventEmitter`, so they only reach the subscribers
+// connected to the same server process. Running several instances would need a shared channel
+// (e.g., Postgres `LISTEN`/`NOTIFY`) in its place; the rest of the code wouldn't change.
+
+import { AsyncLocalStorage } from "async_hooks";
+import { EventEmitter, on } from "events";
+import { type Prisma } from "@prisma/client";
+import { env } from "~/env";
+
+// The tasks changed by one mutation: their ids (with the ids of the new ones also in
+// `createdIds`) and the lists they were in before or after the change. `userIds` are users to
+// notify besides the ones who can open those lists (see `markTagsChanged` and `markUsersChanged`).
+export type TaskChangeSet = {
+  taskIds: Set<string>;
+  createdIds: Set<string>;
+  listIds: Set<string>;
+  userIds: Set<string>;
+};
+
+// What a subscriber receives: the ids of the changed tasks, in no particular order.
+export type TaskChangeEvent = { taskIds: string[]; createdIds: string[] };
+
+const changeSetStorage = new AsyncLocalStorage<TaskChangeSet>();
+
+// One emitter for the whole process, kept across hot reloads in development like the Prisma
+// client in `src/server/db.ts`. Each event is emitted under the id of the user it is for.
+const globalForTaskSync = globalThis as unknown as { taskSyncEmitter: EventEmitter | undefined };
+export const taskSyncEmitter = globalForTaskSync.taskSyncEmitter ?? new EventEmitter();
+// Every open tab is a listener, so there is no sensible limit.
+taskSyncEmitter.setMaxListeners(0);
+if (env.NODE_ENV !== "production") globalForTaskSync.taskSyncEmitter = taskSyncEmitter;
+
+// Runs `action` with a new, empty change set, and returns both.
+export async function runWithTaskChanges<T>(action: () => Promise<T>) {
+  const changes: TaskChangeSet = { taskIds: new Set(), createdIds: new Set(), listIds: new Set(), userIds: new Set() };
+  const result = await changeSetStorage.run(changes, action);
+  return { result, changes };
+}
+
+// Adds tasks to the change set of the running mutation. Outside of one (e.g., in a cron job),
+// this does nothing.
+export function markTasksChanged(tasks: { id: string; listId: string }[], { created = false } = {}) {
+  const changes = changeSetStorage.getStore();
+  if (!changes) return;
+  for (const task of tasks) {
+    changes.taskIds.add(task.id);
+    changes.listIds.add(task.listId);
+    if (created) changes.createdIds.add(task.id);
+  }
+}
+
+// Adds the owner of changed tags to the change set of the running mutation.
+export function markTagsChanged(userId: string) {
+  changeSetStorage.getStore()?.userIds.add(userId);
+}
+
+// Adds users to notify to the change set of the running mutation. `publishTaskChanges` finds the
+// users of a list once the mutation is committed, so a mutation that deletes a list marks its
+// owner and members itself.
+export function markUsersChanged(userIds: string[]) {
+  const changes = changeSetStorage.getStore();
+  for (const userId of userIds) changes?.userIds.add(userId);
+}
+
+// Sends a committed change set to the users who can open one of its lists.
+export async function publishTaskChanges(db: Prisma.TransactionClient, changes: TaskChangeSet) {
+  if (changes.taskIds.size === 0 && changes.userIds.size === 0) return;
+  const lists = await db.taskList.findMany({
+    where: { id: { in: [...changes.listIds] } },
+    select: { userId: true, members: { select: { userId: true } } },
+  });
+  const userIds = new Set([
+    ...changes.userIds,
+    ...lists.flatMap((list) => [list.userId, ...list.members.map((member) => member.userId)]),
+  ]);
+  const event: TaskChangeEvent = { taskIds: [...changes.taskIds], createdIds: [...changes.createdIds] };
+  for (const userId of userIds) taskSyncEmitter.emit(userId, event);
+}
+
+// Yields the change events for one user, until `signal` aborts (when the subscriber
+// disconnects). Events that arrive while the consumer is busy are queued, not dropped.
+export async function* subscribeToTaskChanges(userId: string, signal: AbortSignal | undefined) {
+  for await (const [event] of on(taskSyncEmitter, userId, { signal })) {
+    yield event as TaskChangeEvent;
+  }
+}
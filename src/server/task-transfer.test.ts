@@ -0,0 +1,179 @@
+// This file contains the tests of the task import (`src/server/task-transfer.ts`): reading an
+// import file (`readImportFile`), and working out what importing it would do (`planImport`).
+//
+// `planImport` only reads the user's lists and tasks, so it runs here against a small in-memory
+// stand-in for the three Prisma calls it makes, instead of a database.
+
+import { test, expect } from "@playwright/test";
+import { type Prisma } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { planImport, readImportFile, TASK_EXPORT_FORMAT, TASK_EXPORT_VERSION } from "~/server/task-transfer";
+
+type FakeList = { id: string; name: string; isInbox?: boolean };
+type FakeTask = { id: string; title: string; listId: string; deletedAt?: Date };
+
+// The user's lists (oldest first, the Inbox among them) and tasks.
+function fakeDb(lists: FakeList[], tasks: FakeTask[]) {
+  const withList = (task: FakeTask) => ({
+    ...task,
+    deletedAt: task.deletedAt ?? null,
+    list: { name: lists.find((list) => list.id === task.listId)!.name },
+  });
+  type TaskWhere = { OR: [{ id: { in: string[] } }, { title: { in: string[] } }] };
+  return {
+    taskList: {
+      findFirst: async () => lists.find((list) => list.isInbox) ?? null,
+      findMany: async () => lists,
+    },
+    task: {
+      findMany: async ({ where }: { where: TaskWhere }) => {
+        const [byId, byTitle] = where.OR;
+        return tasks
+          .filter((task) => byId.id.in.includes(task.id) || (byTitle.title.in.includes(task.title) && !task.deletedAt))
+          .map(withList);
+      },
+    },
+  } as unknown as Prisma.TransactionClient;
+}
+
+const LISTS: FakeList[] = [
+  { id: "inbox", name: "Inbox", isInbox: true },
+  { id: "work1", name: "Work" },
+  { id: "work2", name: "work" },
+];
+
+test.describe("readImportFile", () => {
+  const readError = (format: "json" | "csv" | "todotxt", content: string) => {
+    try {
+      readImportFile(format, content);
+    } catch (error) {
+      expect(error).toBeInstanceOf(TRPCError);
+      return (error as TRPCError).message;
+    }
+    throw new Error("The file was read.");
+  };
+
+  test("a JSON export gives its tasks", () => {
+    const document = { format: TASK_EXPORT_FORMAT, version: TASK_EXPORT_VERSION, tasks: [{ title: "A" }, 42] };
+    expect(readImportFile("json", JSON.stringify(document))).toEqual([{ title: "A" }, 42]);
+  });
+
+  test("a JSON file that isn't an export is rejected", () => {
+    expect(readError("json", "{")).toBe("The file is not valid JSON.");
+    expect(readError("json", JSON.stringify({ tasks: [] }))).toBe("This JSON file is not a task export.");
+    expect(readError("json", JSON.stringify({ format: TASK_EXPORT_FORMAT, version: 99, tasks: [] }))).toBe(
+      `Only version ${TASK_EXPORT_VERSION} of the export format can be imported.`,
+    );
+  });
+
+  test("CSV rows become tasks, with booleans and tags, and without empty fields", () => {
+    const csv = 'title,completed,tags,notes\r\n"Milk, eggs",true,home  errands,\r\nB,maybe,,"two\nlines"\r\n';
+    expect(readImportFile("csv", csv)).toEqual([
+      { title: "Milk, eggs", completed: true, tags: ["home", "errands"] },
+      { title: "B", completed: "maybe", notes: "two\nlines" },
+    ]);
+  });
+
+  test("a CSV file needs a title column and closed quotes", () => {
+    expect(readError("csv", "name\nA\n")).toBe('The CSV file needs a header row with a "title" column.');
+    expect(readError("csv", 'title\n"A\n')).toBe("The file ends inside a quoted field.");
+  });
+
+  test("todo.txt lines become tasks, with days as midnight UTC", () => {
+    const [task] = readImportFile("todotxt", "x 2026-10-02 2026-10-01 Pay rent +Home @bills due:2026-11-01 id:t1\n");
+    expect(task).toMatchObject({
+      id: "t1",
+      title: "Pay rent",
+      completed: true,
+      list: "Home",
+      tags: ["bills"],
+      dueAt: "2026-11-01T00:00:00.000Z",
+      dueAllDay: true,
+      createdAt: "2026-10-01T00:00:00.000Z",
+    });
+  });
+});
+
+test.describe("planImport", () => {
+  test("a subtask goes into its existing parent's list, even when another list has the same name", async () => {
+    const db = fakeDb(LISTS, [{ id: "parent", title: "Parent", listId: "work2" }]);
+    const plan = await planImport(db, "user", [
+      { id: "child", title: "Child", parentId: "parent" },
+      { id: "grandchild", title: "Grandchild", parentId: "child" },
+    ]);
+    expect(plan.errors).toEqual([]);
+    expect(plan.newLists).toEqual([]);
+    expect(plan.creates.map((task) => [task.title, task.listId, task.parent])).toEqual([
+      ["Child", "work2", { taskId: "parent" }],
+      ["Grandchild", "work2", { row: 1 }],
+    ]);
+  });
+
+  test("a subtask of a new task goes into that task's list, whatever its own list says", async () => {
+    const plan = await planImport(fakeDb(LISTS, []), "user", [
+      { id: "child", title: "Child", parentId: "parent", list: "Other" },
+      { id: "parent", title: "Parent", list: "Projects" },
+    ]);
+    expect(plan.creates.map((task) => [task.title, task.listName, task.listId])).toEqual([
+      ["Parent", "Projects", null],
+      ["Child", "Projects", null],
+    ]);
+    expect(plan.newLists).toEqual(["Projects"]);
+  });
+
+  test("lists are matched ignoring case, and new ones are spelled as first used", async () => {
+    const plan = await planImport(fakeDb(LISTS, []), "user", [
+      { title: "A", list: "WORK" },
+      { title: "B", list: "home" },
+      { title: "C", list: "Home" },
+      { title: "D" },
+    ]);
+    expect(plan.creates.map((task) => task.listName)).toEqual(["WORK", "home", "Home", "Inbox"]);
+    expect(plan.newLists).toEqual(["home"]);
+  });
+
+  test("existing tasks are duplicates: by id, or by title in the same list", async () => {
+    const db = fakeDb(LISTS, [
+      { id: "kept", title: "Kept", listId: "work1" },
+      { id: "trashed", title: "Trashed", listId: "work1", deletedAt: new Date() },
+    ]);
+    const plan = await planImport(db, "user", [
+      { id: "kept", title: "Renamed" },
+      { id: "trashed", title: "Trashed" },
+      { title: "Kept", list: "work" },
+      { title: "Kept", list: "Elsewhere" },
+    ]);
+    expect(plan.duplicates).toEqual([
+      { row: 1, title: "Renamed", message: "This task already exists." },
+      { row: 2, title: "Trashed", message: "This task is in your trash." },
+      { row: 3, title: "Kept", message: 'A task with this title is already in "work".' },
+    ]);
+    expect(plan.creates.map((task) => task.row)).toEqual([4]);
+  });
+
+  test("invalid tasks, missing parents and cycles are errors", async () => {
+    const db = fakeDb(LISTS, [{ id: "gone", title: "Gone", listId: "inbox", deletedAt: new Date() }]);
+    const plan = await planImport(db, "user", [
+      { title: "" },
+      { title: "Orphan", parentId: "nowhere" },
+      { title: "In trash", parentId: "gone" },
+      { id: "a", title: "A", parentId: "b" },
+      { id: "b", title: "B", parentId: "a" },
+      { id: "self", title: "Self", parentId: "self" },
+      { id: "c", title: "C" },
+      { id: "c", title: "C again" },
+      { title: "Under an error", parentId: "a" },
+    ]);
+    expect(plan.creates.map((task) => task.title)).toEqual(["C"]);
+    expect(plan.errors.map(({ row, message }) => [row, message])).toEqual([
+      [1, "title: Task title cannot be empty."],
+      [2, "Its parent task nowhere was not found."],
+      [3, "Its parent task is in your trash."],
+      [4, "The task is its own ancestor."],
+      [5, "The task is its own ancestor."],
+      [6, "The task is its own ancestor."],
+      [8, "The id c appears more than once in the file."],
+      [9, "Its parent task can't be imported."],
+    ]);
+  });
+});
@@ -0,0 +1,518 @@
+// This file contains the task export and import.
+//
+// - Export: every task of the user (not the ones in the trash), with every field, as a versioned
+//   JSON document (`TASK_EXPORT_FORMAT`, `TASK_EXPORT_VERSION`), as CSV with one row per task, or
+//   in the todo.txt format with one line per task (see `src/lib/todotxt.ts`).
+// - Import: reads either of those files back. `planImport` validates every task and works out
+//   what importing the file would do: which tasks it creates, which ones already exist
+//   (duplicates), and which ones can't be imported (errors). The preview shows that plan without
+//   writing anything; committing runs the same plan and `applyImport` in one transaction.
+//
+// Imported tasks always get new ids. The ids in the file only link subtasks to their parents, and
+// detect tasks that were exported from this account and still exist. Positions are not imported
+// either: the tasks go to the bottom of their list, in the order of the file (which is the
+// "Manual" order for files exported by us).
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { type Prisma } from "@prisma/client";
+import { CsvError, formatCsv, parseCsv } from "~/lib/csv";
+import { toAllDayDate } from "~/lib/due-dates";
+import { TASK_PRIORITIES } from "~/lib/priority";
+import { formatTodoTxt, parseTodoTxt, type TodoTxtTask } from "~/lib/todotxt";
+import { getOrCreateInbox, listNameSchema } from "~/server/lists";
+import { getLastPosition, lockTaskList } from "~/server/positions";
+import { recurrenceSchema } from "~/server/recurrence";
+import { recordTaskCreated } from "~/server/task-events";
+import { tagNameSchema, upsertTagsByName } from "~/server/tags";
+
+// The `format` and `version` fields of an exported JSON document. The version goes up whenever
+// the shape of a task in the file changes, so an import can tell which shape it is reading.
+export const TASK_EXPORT_FORMAT = "tasks-export";
+export const TASK_EXPORT_VERSION = 1;
+
+// The most tasks one file can import (the same limit as a bulk action), and the largest file.
+export const MAX_IMPORT_TASKS = 1000;
+export const MAX_IMPORT_FILE_LENGTH = 5_000_000;
+
+export const transferFormatSchema = z.enum(["json", "csv", "todotxt"]);
+export type TransferFormat = z.infer<typeof transferFormatSchema>;
+
+// ---------------------------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------------------------
+
+const exportSelect = {
+  id: true,
+  title: true,
+  notes: true,
+  completed: true,
+  priority: true,
+  dueAt: true,
+  dueAllDay: true,
+  recurrence: true,
+  recurFromCompletion: true,
+  parentId: true,
+  position: true,
+  createdAt: true,
+  updatedAt: true,
+  list: { select: { name: true } },
+  tags: { select: { tag: { select: { name: true } } } },
+  completions: { select: { dueAt: true, completedAt: true }, orderBy: { completedAt: "asc" } },
+} satisfies Prisma.TaskSelect;
+
+// Returns the export document of all of the user's tasks. The tasks are sorted by position, so
+// every task's siblings appear in their "Manual" order.
+export async function exportTasks(db: Prisma.TransactionClient, userId: string) {
+  const tasks = await db.task.findMany({
+    where: { userId, deletedAt: null },
+    orderBy: [{ position: "asc" }, { id: "asc" }],
+    select: exportSelect,
+  });
+  return {
+    format: TASK_EXPORT_FORMAT,
+    version: TASK_EXPORT_VERSION,
+    exportedAt: new Date(),
+    tasks: tasks.map(({ list, tags, ...task }) => ({
+      ...task,
+      list: list.name,
+      tags: tags.map(({ tag }) => tag.name).sort(),
+    })),
+  };
+}
+
+type ExportedTask = Awaited<ReturnType<typeof exportTasks>>["tasks"][number];
+
+// The CSV columns, in order. A CSV file has no room for a task's completion history, so it is
+// the one field that only the JSON export contains. Tags are separated by spaces.
+const CSV_COLUMNS = [
+  "id",
+  "title",
+  "notes",
+  "completed",
+  "list",
+  "parentId",
+  "dueAt",
+  "dueAllDay",
+  "priority",
+  "tags",
+  "recurrence",
+  "recurFromCompletion",
+  "position",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+type CsvColumn = (typeof CSV_COLUMNS)[number];
+
+const BOOLEAN_COLUMNS = new Set<CsvColumn>(["completed", "dueAllDay", "recurFromCompletion"]);
+
+function toCsvField(value: string | boolean | Date | string[] | null) {
+  if (value === null) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.join(" ");
+  return String(value);
+}
+
+// Formats exported tasks as CSV, with a header row.
+export function formatTasksCsv(tasks: ExportedTask[]) {
+  return formatCsv([
+    [...CSV_COLUMNS],
+    ...tasks.map((task) => CSV_COLUMNS.map((column) => toCsvField(task[column]))),
+  ]);
+}
+
+// Formats exported tasks as a todo.txt file. A completed task is marked as completed on the day it
+// was last changed.
+export function formatTasksTodoTxt(tasks: ExportedTask[]) {
+  const day = (date: Date) => date.toISOString().slice(0, 10);
+  return formatTodoTxt(
+    tasks.map((task) => ({
+      id: task.id,
+      parentId: task.parentId,
+      title: task.title,
+      notes: task.notes,
+      completed: task.completed,
+      priority: task.priority,
+      list: task.list,
+      tags: task.tags,
+      dueAt: task.dueAt && (task.dueAllDay ? day(task.dueAt) : task.dueAt.toISOString()),
+      dueAllDay: task.dueAllDay,
+      recurrence: task.recurrence,
+      recurFromCompletion: task.recurFromCompletion,
+      createdOn: day(task.createdAt),
+      completedOn: task.completed ? day(task.updatedAt) : null,
+    })),
+  );
+}
+
+// ---------------------------------------------------------------------------------------------
+// Reading an import file
+// ---------------------------------------------------------------------------------------------
+
+const dateSchema = z
+  .string()
+  .datetime({ offset: true, message: "Must be an ISO 8601 date and time, e.g. 2026-01-31T09:00:00.000Z." })
+  .transform((value) => new Date(value));
+
+// One task in an import file. Only the title is required; the other fields default to the values
+// of a new task. Fields that are not listed here (such as `position`) are ignored.
+const importedTaskSchema = z.object({
+  id: z.string().min(1).max(100).optional(),
+  title: z.string().min(1, { message: "Task title cannot be empty." }),
+  notes: z
+    .string()
+    .max(20_000, { message: "Notes can be at most 20,000 characters." })
+    .nullish()
+    .transform((notes) => (notes?.trim() ? notes : null)),
+  completed: z.boolean().default(false),
+
+  // The name of the task's list. A list that the user doesn't have is created, and a task
+  // without a list goes to the Inbox.
+  list: listNameSchema.optional(),
+
+  // The `id` of the parent task: another task in the file, or an existing task of the user.
+  parentId: z.string().min(1).nullish(),
+
+  dueAt: dateSchema.nullish(),
+  dueAllDay: z.boolean().default(false),
+  priority: z.enum(TASK_PRIORITIES).default("none"),
+  tags: z.array(tagNameSchema).max(20, { message: "A task can have at most 20 tags." }).default([]),
+  recurrence: recurrenceSchema.nullish(),
+  recurFromCompletion: z.boolean().default(false),
+  createdAt: dateSchema.optional(),
+  updatedAt: dateSchema.optional(),
+  completions: z
+    .array(z.object({ dueAt: dateSchema.nullable(), completedAt: dateSchema }))
+    .max(10_000)
+    .default([]),
+});
+
+type ImportedTask = z.infer<typeof importedTaskSchema>;
+
+// The envelope of a JSON export. The tasks are validated one by one later, so that one invalid
+// task is reported as an error of that task instead of rejecting the whole file.
+const exportDocumentSchema = z.object({
+  format: z.literal(TASK_EXPORT_FORMAT, {
+    errorMap: () => ({ message: "This JSON file is not a task export." }),
+  }),
+  version: z.literal(TASK_EXPORT_VERSION, {
+    errorMap: () => ({ message: `Only version ${TASK_EXPORT_VERSION} of the export format can be imported.` }),
+  }),
+  tasks: z.array(z.unknown()).max(MAX_IMPORT_TASKS, {
+    message: `A file can import at most ${MAX_IMPORT_TASKS} tasks.`,
+  }),
+});
+
+function invalidFile(message: string): never {
+  throw new TRPCError({ code: "BAD_REQUEST", message });
+}
+
+// Turns one CSV row into the same shape as a task in a JSON export: empty fields are left out
+// (so they get their defaults), "true"/"false" become booleans, and the tags are split.
+function csvRowToTask(header: string[], row: string[]) {
+  const task: Record<string, unknown> = {};
+  header.forEach((column, index) => {
+    const value = row[index] ?? "";
+    if (value === "") return;
+    if (BOOLEAN_COLUMNS.has(column as CsvColumn)) {
+      task[column] = value === "true" ? true : value === "false" ? false : value;
+    } else if (column === "tags") {
+      task[column] = value.split(/\s+/).filter(Boolean);
+    } else {
+      task[column] = value;
+    }
+  });
+  return task;
+}
+
+// Turns one parsed todo.txt line into the same shape as a task in a JSON export. Days become
+// midnight UTC, which is how all-day due dates are stored.
+function todoTxtToTask(task: TodoTxtTask) {
+  const midnight = (day: string) => `${day}T00:00:00.000Z`;
+  return {
+    id: task.id ?? undefined,
+    parentId: task.parentId,
+    title: task.title,
+    notes: task.notes,
+    completed: task.completed,
+    priority: task.priority,
+    list: task.list ?? undefined,
+    tags: task.tags,
+    dueAt: task.dueAt && task.dueAllDay ? midnight(task.dueAt) : task.dueAt,
+    dueAllDay: task.dueAllDay,
+    recurrence: task.recurrence,
+    recurFromCompletion: task.recurFromCompletion,
+    createdAt: task.createdOn ? midnight(task.createdOn) : undefined,
+  };
+}
+
+// Reads the tasks of an import file, without validating them yet. Throws `BAD_REQUEST` when the
+// file as a whole can't be read (e.g. it isn't JSON, or the CSV has no "title" column).
+export function readImportFile(format: TransferFormat, content: string): unknown[] {
+  if (format === "json") {
+    let document: unknown;
+    try {
+      document = JSON.parse(content);
+    } catch {
+      invalidFile("The file is not valid JSON.");
+    }
+    const parsed = exportDocumentSchema.safeParse(document);
+    if (!parsed.success) invalidFile(parsed.error.issues[0]?.message ?? "This JSON file is not a task export.");
+    return parsed.data.tasks;
+  }
+
+  if (format === "todotxt") {
+    const tasks = parseTodoTxt(content);
+    if (tasks.length > MAX_IMPORT_TASKS) invalidFile(`A file can import at most ${MAX_IMPORT_TASKS} tasks.`);
+    return tasks.map(todoTxtToTask);
+  }
+
+  let rows: string[][];
+  try {
+    rows = parseCsv(content);
+  } catch (error) {
+    if (error instanceof CsvError) invalidFile(error.message);
+    throw error;
+  }
+  const [header, ...records] = rows;
+  if (!header?.includes("title")) invalidFile('The CSV file needs a header row with a "title" column.');
+  if (records.length > MAX_IMPORT_TASKS) invalidFile(`A file can import at most ${MAX_IMPORT_TASKS} tasks.`);
+  return records.map((record) => csvRowToTask(header, record));
+}
+
+// ---------------------------------------------------------------------------------------------
+// Planning and applying an import
+// ---------------------------------------------------------------------------------------------
+
+// A task of the file that is not imported, and why. `row` counts the tasks of the file from 1
+// (in a CSV file, the first row after the header is row 1, and empty lines of a todo.txt file
+// don't count).
+export type ImportIssue = { row: number; title: string | null; message: string };
+
+// A task that the import creates. Its parent is either another task of the import (by row) or
+// an existing task of the user (by id). Its list is found by name, except under an existing
+// parent: then it is the parent's list (`listId`), which the name alone may not tell apart from
+// another list with the same name.
+type PlannedTask = ImportedTask & {
+  row: number;
+  listName: string;
+  listId: string | null;
+  parent: { row: number } | { taskId: string } | null;
+};
+
+export type ImportPlan = {
+  creates: PlannedTask[];
+  duplicates: ImportIssue[];
+  errors: ImportIssue[];
+  newLists: string[];
+};
+
+const listKey = (name: string) => name.toLowerCase();
+
+function formatIssue(issue: z.ZodIssue) {
+  return issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message;
+}
+
+// Works out what importing `rawTasks` (from `readImportFile`) would do, without writing any task.
+//
+// - A task that fails validation is an error.
+// - A task whose `id` is one of the user's tasks, or (without an `id`) that has the same title as
+//   a task in the same list, is a duplicate and is skipped.
+// - A task whose parent is not in the file and not one of the user's tasks, or whose parent is
+//   skipped, is an error. A subtask always goes into its parent's list.
+// - Lists are matched by name, ignoring case; the ones the user doesn't have are in `newLists`.
+//
+// The tasks to create come parents first.
+export async function planImport(tx: Prisma.TransactionClient, userId: string, rawTasks: unknown[]): Promise<ImportPlan> {
+  const errors: ImportIssue[] = [];
+  const duplicates: ImportIssue[] = [];
+
+  // Validates every task.
+  const valid: (ImportedTask & { row: number })[] = [];
+  rawTasks.forEach((raw, index) => {
+    const row = index + 1;
+    const parsed = importedTaskSchema.safeParse(raw);
+    if (parsed.success) {
+      valid.push({ ...parsed.data, row });
+    } else {
+      const title = typeof raw === "object" && raw !== null && "title" in raw && typeof raw.title === "string" ? raw.title : null;
+      errors.push({ row, title, message: parsed.error.issues.map(formatIssue).join(" ") });
+    }
+  });
+
+  // The file's tasks by their `id`; an `id` may only appear once.
+  const rowsById = new Map<string, ImportedTask & { row: number }>();
+  const candidates = valid.filter((task) => {
+    if (!task.id) return true;
+    if (rowsById.has(task.id)) {
+      errors.push({ row: task.row, title: task.title, message: `The id ${task.id} appears more than once in the file.` });
+      return false;
+    }
+    rowsById.set(task.id, task);
+    return true;
+  });
+
+  // The user's lists by name (the oldest one wins if two have the same name), and the Inbox.
+  const inbox = await getOrCreateInbox(tx, userId);
+  const lists = await tx.taskList.findMany({ where: { userId }, orderBy: { createdAt: "asc" }, select: { name: true } });
+  const listNames = new Map<string, string>();
+  for (const list of lists) if (!listNames.has(listKey(list.name))) listNames.set(listKey(list.name), list.name);
+
+  // The user's tasks that the file refers to: by `id` (duplicates and parents), and by title
+  // (duplicates of tasks without an `id`).
+  const referencedIds = [
+    ...new Set(candidates.flatMap((task) => [task.id, task.parentId]).filter((id): id is string => !!id)),
+  ];
+  const titles = [...new Set(candidates.filter((task) => !task.id).map((task) => task.title))];
+  const existing = await tx.task.findMany({
+    where: { userId, OR: [{ id: { in: referencedIds } }, { title: { in: titles }, deletedAt: null }] },
+    select: { id: true, title: true, deletedAt: true, listId: true, list: { select: { name: true } } },
+  });
+  const existingById = new Map(existing.map((task) => [task.id, task]));
+  const existingTitles = new Set(existing.map((task) => `${listKey(task.list.name)}\n${task.title}`));
+
+  // Decides what happens to every remaining task. A subtask depends on its parent, so this
+  // recurses into the parent first. `visiting` holds the rows being decided, each one the parent
+  // of the one before it, so reaching one of them again means the rows from there on form a cycle.
+  type Outcome = { kind: "create"; task: PlannedTask } | { kind: "duplicate" } | { kind: "error" };
+  const outcomes = new Map<number, Outcome>();
+  const visiting: number[] = [];
+  const inCycle = new Set<number>();
+  const creates: PlannedTask[] = [];
+
+  const fail = (task: ImportedTask & { row: number }, message: string): Outcome => {
+    errors.push({ row: task.row, title: task.title, message });
+    return { kind: "error" };
+  };
+
+  const decide = (task: ImportedTask & { row: number }): Outcome => {
+    const known = outcomes.get(task.row);
+    if (known) return known;
+    if (visiting.includes(task.row)) {
+      for (const row of visiting.slice(visiting.indexOf(task.row))) inCycle.add(row);
+      return { kind: "error" };
+    }
+    visiting.push(task.row);
+
+    let outcome: Outcome;
+    const inDb = task.id ? existingById.get(task.id) : undefined;
+    const listName = task.list ?? inbox.name;
+    if (inDb) {
+      duplicates.push({
+        row: task.row,
+        title: task.title,
+        message: inDb.deletedAt ? "This task is in your trash." : "This task already exists.",
+      });
+      outcome = { kind: "duplicate" };
+    } else if (!task.id && existingTitles.has(`${listKey(listName)}\n${task.title}`)) {
+      duplicates.push({ row: task.row, title: task.title, message: `A task with this title is already in "${listName}".` });
+      outcome = { kind: "duplicate" };
+    } else if (!task.parentId) {
+      outcome = { kind: "create", task: { ...task, listName, listId: null, parent: null } };
+    } else {
+      const parentRow = rowsById.get(task.parentId);
+      const parentInDb = existingById.get(task.parentId);
+      const parentOutcome = parentRow ? decide(parentRow) : null;
+
+      if (inCycle.has(task.row)) {
+        outcome = fail(task, "The task is its own ancestor.");
+      } else if (parentOutcome?.kind === "create") {
+        const parent = parentOutcome.task;
+        outcome = {
+          kind: "create",
+          task: { ...task, listName: parent.listName, listId: parent.listId, parent: { row: parent.row } },
+        };
+      } else if (parentInDb && !parentInDb.deletedAt) {
+        outcome = {
+          kind: "create",
+          task: { ...task, listName: parentInDb.list.name, listId: parentInDb.listId, parent: { taskId: parentInDb.id } },
+        };
+      } else if (parentOutcome?.kind === "error") {
+        outcome = fail(task, "Its parent task can't be imported.");
+      } else if (parentInDb) {
+        outcome = fail(task, "Its parent task is in your trash.");
+      } else {
+        outcome = fail(task, `Its parent task ${task.parentId} was not found.`);
+      }
+    }
+
+    visiting.pop();
+    outcomes.set(task.row, outcome);
+    if (outcome.kind === "create") creates.push(outcome.task);
+    return outcome;
+  };
+  for (const task of candidates) decide(task);
+
+  // The lists that don't exist yet, spelled as in the first task that uses them.
+  const newLists = new Map<string, string>();
+  for (const task of creates) {
+    if (task.listId) continue;
+    const key = listKey(task.listName);
+    if (!listNames.has(key) && !newLists.has(key)) newLists.set(key, task.listName);
+  }
+
+  const byRow = (a: ImportIssue, b: ImportIssue) => a.row - b.row;
+  return { creates, duplicates: duplicates.sort(byRow), errors: errors.sort(byRow), newLists: [...newLists.values()] };
+}
+
+// Creates the tasks (and lists) of an import plan. Must run in the same transaction as the
+// `planImport` that made the plan. Returns how many tasks and lists were created.
+export async function applyImport(tx: Prisma.TransactionClient, userId: string, plan: ImportPlan) {
+
+  // Creates the missing lists below the user's other lists, like `list.create` does.
+  const last = await tx.taskList.aggregate({ where: { userId }, _max: { position: true } });
+  for (const [index, name] of plan.newLists.entries()) {
+    await tx.taskList.create({ data: { userId, name, position: (last._max.position ?? 0) + 1 + index } });
+  }
+  const lists = await tx.taskList.findMany({ where: { userId }, orderBy: { createdAt: "asc" }, select: { id: true, name: true } });
+  const listIds = new Map<string, string>();
+  for (const list of lists) if (!listIds.has(listKey(list.name))) listIds.set(listKey(list.name), list.id);
+
+  // Every tag of the file, created once.
+  const tagNames = [...new Set(plan.creates.flatMap((task) => task.tags))];
+  const tagIdList = await upsertTagsByName(tx, userId, tagNames);
+  const tagIds = new Map(tagNames.map((name, index) => [name, tagIdList[index]]));
+
+  const createdIds = new Map<number, string>();
+  const lockedLists = new Set<string>();
+  for (const task of plan.creates) {
+    const listId = task.listId ?? listIds.get(listKey(task.listName));
+    if (!listId) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Import list not found" });
+    if (!lockedLists.has(listId)) {
+      await lockTaskList(tx, listId);
+      lockedLists.add(listId);
+    }
+    const parentId = task.parent ? ("row" in task.parent ? createdIds.get(task.parent.row) : task.parent.taskId) ?? null : null;
+
+    // The same rules for due dates as `task.create`: no date means not all-day, and an all-day
+    // date is stored as midnight UTC.
+    const dueAt = task.dueAt ?? null;
+    const dueAllDay = dueAt ? task.dueAllDay : false;
+
+    const created = await tx.task.create({
+      data: {
+        userId,
+        listId,
+        parentId,
+        position: await getLastPosition(tx, { listId, parentId }),
+        title: task.title,
+        notes: task.notes,
+        completed: task.completed,
+        priority: task.priority,
+        dueAt: dueAt && dueAllDay ? toAllDayDate(dueAt) : dueAt,
+        dueAllDay,
+        recurrence: task.recurrence ?? null,
+        recurFromCompletion: task.recurFromCompletion,
+        createdAt: task.createdAt,
+        updatedAt: task.updatedAt,
+        tags: { create: [...new Set(task.tags)].flatMap((name) => tagIds.get(name) ?? []).map((tagId) => ({ tagId })) },
+        completions: { create: task.completions },
+      },
+    });
+    createdIds.set(task.row, created.id);
+    await recordTaskCreated(tx, userId, created);
+  }
+
+  return { createdTasks: plan.creates.length, createdLists: plan.newLists.length };
+}
@@ -0,0 +1,60 @@
+// This file contains the server-side logic of the trash: moving tasks into it (which is what
+// "delete" does), restoring them, and deleting them for good. It is shared by the `taskRouter`
+// and by the scheduled purge (`src/app/api/cron/purge-trash/route.ts`).
+//
+// A task in the trash is a normal row with `deletedAt` set. Every query of the app filters on
+// `deletedAt: null`, so trashed tasks are invisible until they are restored.
+
+import { TRPCError } from "@trpc/server";
+import { type Prisma } from "@prisma/client";
+import { getSubtreeIds } from "~/server/subtasks";
+import { appendToList, lockTaskList } from "~/server/positions";
+
+// How long a task stays in the trash before the scheduled purge deletes it for good.
+export const TRASH_RETENTION_DAYS = 30;
+const TRASH_RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+// Returns when a task deleted at `deletedAt` will be purged for good.
+export function getPurgeDate(deletedAt: Date) {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_MS);
+}
+
+// Moves a task and all of its subtasks (at every depth) to the trash. They all get the same
+// `deletedAt`, which is how `restoreTask` knows what was deleted together.
+export async function trashTask(tx: Prisma.TransactionClient, userId: string, taskId: string, now = new Date()) {
+  const ids = await getSubtreeIds(tx, userId, [taskId]);
+  await tx.task.updateMany({ where: { id: { in: ids } }, data: { deletedAt: now } });
+}
+
+// Restores a task from the trash, together with the subtasks that were deleted with it.
+// Subtasks that were deleted on their own before that stay in the trash.
+//
+// If the task's parent is still in the trash, the restored task can't go back under it, so it
+// becomes a top-level task at the bottom of its list instead.
+export async function restoreTask(tx: Prisma.TransactionClient, userId: string, taskId: string) {
+  const task = await tx.task.findFirst({
+    where: { id: taskId, userId, deletedAt: { not: null } },
+    include: { parent: { select: { deletedAt: true } } },
+  });
+  if (!task) throw new TRPCError({ code: "NOT_FOUND", message: "Task not found in the trash." });
+
+  const ids = await getSubtreeIds(tx, userId, [task.id], { includeTrashed: true });
+  await tx.task.updateMany({
+    where: { id: { in: ids }, deletedAt: task.deletedAt },
+    data: { deletedAt: null },
+  });
+
+  if (task.parent?.deletedAt) {
+    await lockTaskList(tx, task.listId);
+    await tx.task.update({ where: { id: task.id }, data: { parentId: null } });
+    await appendToList(tx, task.listId, [task.id]);
+  }
+}
+
+// Deletes every task that has been in the trash for longer than `TRASH_RETENTION_DAYS`, for all
+// users. Their subtasks are deleted with them (`onDelete: Cascade`). Returns how many tasks were
+// deleted directly.
+export async function purgeTrash(db: Prisma.TransactionClient, now = new Date()) {
+  const cutoff = new Date(now.getTime() - TRASH_RETENTION_MS);
+  return db.task.deleteMany({ where: { deletedAt: { lt: cutoff } } });
+}
@@ -0,0 +1,131 @@
+// This file contains the undo layer of the task actions. An undoable action runs through
+// `runUndoable`, which records its "inverse command" (what the touched tasks looked like before
+// it) in a `TaskUndo` row and returns the row's id. `task.undo` later applies that inverse with
+// `applyUndo`.
+//
+// The inverse is a snapshot of the task rows themselves, not a "reverse action", so one
+// mechanism undoes every action: a delete (the tasks come back from the trash with their ids,
+// timestamps, tags, and subtasks untouched), a toggle (including a recurring task that moved on
+// to its next occurrence), and the bulk actions (which may also change the tags).
+
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { type Prisma } from "@prisma/client";
+import { TASK_PRIORITIES } from "~/lib/priority";
+import { trackTaskChanges } from "~/server/task-events";
+import { accessibleListWhere } from "~/server/sharing";
+
+// How long an action can be undone. The client shows its Undo button for 8 seconds; the extra
+// time covers a slow network.
+export const UNDO_WINDOW_MS = 60 * 1000;
+
+// The task fields that undoable actions may change, and that undoing writes back. `updatedAt`
+// is written explicitly, so it goes back to its old value instead of being refreshed.
+const snapshotSelect = {
+  id: true,
+  completed: true,
+  dueAt: true,
+  dueAllDay: true,
+  priority: true,
+  listId: true,
+  parentId: true,
+  position: true,
+  deletedAt: true,
+  updatedAt: true,
+  tags: { select: { tagId: true } },
+} satisfies Prisma.TaskSelect;
+
+// The snapshot is stored as JSON, where dates become strings, so it is parsed back with Zod.
+const snapshotSchema = z.array(
+  z.object({
+    id: z.string(),
+    completed: z.boolean(),
+    dueAt: z.coerce.date().nullable(),
+    dueAllDay: z.boolean(),
+    priority: z.enum(TASK_PRIORITIES),
+    listId: z.string(),
+    parentId: z.string().nullable(),
+    position: z.string(),
+    deletedAt: z.coerce.date().nullable(),
+    updatedAt: z.coerce.date(),
+    tagIds: z.array(z.string()),
+  }),
+);
+
+// Runs `action` and records how to undo it. `taskIds` must list every task the action may
+// change, including subtasks that it changes along with their parent, and the caller must have
+// checked that `userId` (who can undo the action) may change them: they can be in a list shared
+// with the user. Must run inside the same transaction as the action. Returns the action's result
+// and the id to pass to `task.undo`.
+export async function runUndoable<T>(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  taskIds: string[],
+  action: () => Promise<T>,
+) {
+  const where = { id: { in: taskIds } };
+  const snapshot = await tx.task.findMany({ where, select: snapshotSelect });
+  const completionsBefore = await tx.taskCompletion.findMany({ where: { task: where }, select: { id: true } });
+
+  const result = await action();
+
+  // The completions that the action recorded (completing a recurring task adds one).
+  const before = new Set(completionsBefore.map((completion) => completion.id));
+  const completionsAfter = await tx.taskCompletion.findMany({ where: { task: where }, select: { id: true } });
+  const completionIds = completionsAfter.map((completion) => completion.id).filter((id) => !before.has(id));
+
+  const now = new Date();
+  await tx.taskUndo.deleteMany({ where: { userId, expiresAt: { lt: now } } });
+  const undo = await tx.taskUndo.create({
+    data: {
+      userId,
+      snapshot: snapshot.map(({ tags, ...task }) => ({
+        ...task,
+        tagIds: tags.map((tag) => tag.tagId),
+        dueAt: task.dueAt?.toISOString() ?? null,
+        deletedAt: task.deletedAt?.toISOString() ?? null,
+        updatedAt: task.updatedAt.toISOString(),
+      })),
+      completionIds,
+      expiresAt: new Date(now.getTime() + UNDO_WINDOW_MS),
+    },
+  });
+  return { result, undoId: undo.id };
+}
+
+// Undoes the action recorded as `undoId`: every task it touched gets its old field values
+// back, and the completions it recorded are deleted. An action can be undone only once.
+//
+// If one of the tasks no longer exists (e.g. the trash was emptied in the meantime), or the user
+// can no longer edit it (e.g. they were removed from its shared list), nothing is changed and a
+// `CONFLICT` error is thrown, so an undo never half-applies.
+export async function applyUndo(tx: Prisma.TransactionClient, userId: string, undoId: string) {
+  const undo = await tx.taskUndo.findFirst({ where: { id: undoId, userId, expiresAt: { gte: new Date() } } });
+  if (!undo) throw new TRPCError({ code: "NOT_FOUND", message: "This action can no longer be undone." });
+  await tx.taskUndo.delete({ where: { id: undo.id } });
+
+  const snapshot = snapshotSchema.parse(undo.snapshot);
+  const existing = await tx.task.count({
+    where: { id: { in: snapshot.map((task) => task.id) }, list: accessibleListWhere(userId, "editor") },
+  });
+  if (existing !== snapshot.length) {
+    throw new TRPCError({ code: "CONFLICT", message: "Some of these tasks were deleted for good, or you can no longer edit them, so this can't be undone." });
+  }
+
+  // Undoing is a change like any other, so it shows up in the tasks' activity history (e.g. an
+  // undone delete is a "restored" event).
+  const taskIds = snapshot.map((task) => task.id);
+  await trackTaskChanges(tx, userId, taskIds, async () => {
+    await tx.taskCompletion.deleteMany({ where: { id: { in: undo.completionIds }, taskId: { in: taskIds } } });
+    // Tags that were deleted in the meantime can't be linked again, so they are left out.
+    const snapshotTagIds = [...new Set(snapshot.flatMap((task) => task.tagIds))];
+    const existingTags = await tx.tag.findMany({ where: { id: { in: snapshotTagIds } }, select: { id: true } });
+    const existingTagIds = new Set(existingTags.map((tag) => tag.id));
+
+    for (const { id, tagIds, ...fields } of snapshot) {
+      const tags = tagIds.filter((tagId) => existingTagIds.has(tagId)).map((tagId) => ({ tagId }));
+      await tx.task.update({ where: { id }, data: { ...fields, tags: { deleteMany: {}, create: tags } } });
+    }
+  });
+  return { taskIds };
+}
@@ -61,7 +61,11 @@ import { QueryClientProvider, type QueryClient } from "@tanstack/react-query";
 // `loggerLink`: A helpful link for development. It acts as a "checkpoint" that intercepts
 // every tRPC operation and logs its details (inputs, outputs, timing) to your browser's
 // developer console, which is incredibly useful for debugging.
-import { httpBatchStreamLink, loggerLink } from "@trpc/client";
+//
+// `httpSubscriptionLink` and `splitLink`: Subscriptions (live updates pushed by the server) can't
+// be batched, so `splitLink` routes them to `httpSubscriptionLink`, which keeps a Server-Sent
+// Events connection open, and everything else to `httpBatchStreamLink`.
+import { httpBatchStreamLink, httpSubscriptionLink, loggerLink, splitLink } from "@trpc/client";
 
 // This imports the main factory function responsible for creating the entire client-side tRPC system for React.
 // `createTRPCReact`: This function acts as the central bridge connecting three distinct worlds:
@@ -432,64 +436,80 @@ export function TRPCReactProvider(props: { children: React.ReactNode }) {
             (op.direction === "down" && op.result instanceof Error),
         }),
 
-        // This is the "terminating" link. It's the last and most important one in the chain because
-        // it's responsible for actually sending the HTTP request to your backend. All other links
-        // (like `loggerLink`) are just middleware that run before this one.
-        // It takes a single configuration object to define how it should make the request.
-        httpBatchStreamLink({
-
-          // This property tells the HTTP link how to serialize and deserialize the data being sent.
-          // By providing `SuperJSON`, we ensure that complex data types (like `Date`, `Map`, etc.)
-          // are correctly converted to a string before being sent and then correctly parsed back
-          // into their original types when the response is received. Without this, a `Date` object
-          // would just become a plain string, losing its type information.
-          transformer: SuperJSON,
-
-          // This property defines the absolute URL of your tRPC API endpoint.
-          // `getBaseUrl()`: This is a helper function (defined at the bottom of the file) that
-          // dynamically determines the base URL of your application (e.g., `http://localhost:3000`
-          // in development or `https://yourapp.com` in production).
-          // `+ "/api/trpc"`: We then append the fixed path to the tRPC catch-all route, creating
-          // the full, correct URL for the API request.
-          url: getBaseUrl() + "/api/trpc",
-
-          // This property configures the HTTP headers that will be sent with every tRPC request.
-
-          // Instead of a static object, `headers` is a function: `() => { ... }`.
-          // This is a powerful pattern because this function is executed *just before* every tRPC
-          // request is sent. This allows us to dynamically add headers that might change over
-          // time or depend on the current application state. The most common use for this is
-          // to add a dynamic authentication token (e.g., a JWT) to every request.
-          headers: () => {
-
-            // This line creates a new, empty `Headers` object.
-            // The `Headers` interface is a standard Web API, the same one used by the native browser
-            // `fetch()` function. It provides a convenient and standardized way to work with
-            // HTTP headers, using methods like `.set()`, `.get()`, and `.append()`.
-            const headers = new Headers();
-
-            // This is the core logic of our function. We are adding a single, custom header to our request.
-            // `headers.set(key, value)`: This method sets a header with a specific key and value. If a
-            // header with this key already exists, its value is overwritten.
-            //
-            // - The Key (`"x-trpc-source"`): This is the name of our custom header.
-            //   - The `x-` prefix is a long-standing (though no longer required) convention for non-standard,
-            //     application-specific headers.
-            //   - `"trpc-source"` clearly indicates the header's purpose: to identify the source of the tRPC request.
-            //
-            // - The Value (`"nextjs-react"`): This is the "label" or "flag" we are assigning.
-            //
-            // The purpose of this entire line is to "tag" every outgoing tRPC request with information
-            // about where it came from. This can be incredibly useful for server-side logging, debugging,
-            // or even analytics, as the server can inspect this header to know that the request originated
-            // from this specific Next.js React client.
-            headers.set("x-trpc-source", "nextjs-react");
-
-            // Finally, the function returns the populated `Headers` object. tRPC will then take this
-            // object and attach these headers to the actual outgoing HTTP `fetch` request that gets
-            // sent to the server.
-            return headers;
-          },
+        // The last link is a "fork in the road": `splitLink` sends each operation down one of two
+        // links, depending on `condition`. Subscriptions (`task.onChange`, see `useTaskSync`) need a
+        // connection that stays open, so they take their own link; everything else is batched.
+        splitLink({
+          condition: (op) => op.type === "subscription",
+
+          // `true`: Subscriptions. `httpSubscriptionLink` opens a Server-Sent Events stream (the
+          // browser's `EventSource`) to the same endpoint, which carries the session cookie like
+          // any other request, and reconnects by itself after a network error. It needs the same
+          // transformer as the link below, so `Date`s in the events stay `Date`s.
+          true: httpSubscriptionLink({
+            transformer: SuperJSON,
+            url: getBaseUrl() + "/api/trpc",
+          }),
+
+          // `false`: Queries and mutations. This is the "terminating" link. It's the last and most important one in the chain because
+          // it's responsible for actually sending the HTTP request to your backend. All other links
+          // (like `loggerLink`) are just middleware that run before this one.
+          // It takes a single configuration object to define how it should make the request.
+          false: httpBatchStreamLink({
+
+            // This property tells the HTTP link how to serialize and deserialize the data being sent.
+            // By providing `SuperJSON`, we ensure that complex data types (like `Date`, `Map`, etc.)
+            // are correctly converted to a string before being sent and then correctly parsed back
+            // into their original types when the response is received. Without this, a `Date` object
+            // would just become a plain string, losing its type information.
+            transformer: SuperJSON,
+
+            // This property defines the absolute URL of your tRPC API endpoint.
+            // `getBaseUrl()`: This is a helper function (defined at the bottom of the file) that
+            // dynamically determines the base URL of your application (e.g., `http://localhost:3000`
+            // in development or `https://yourapp.com` in production).
+            // `+ "/api/trpc"`: We then append the fixed path to the tRPC catch-all route, creating
+            // the full, correct URL for the API request.
+            url: getBaseUrl() + "/api/trpc",
+
+            // This property configures the HTTP headers that will be sent with every tRPC request.
+
+            // Instead of a static object, `headers` is a function: `() => { ... }`.
+            // This is a powerful pattern because this function is executed *just before* every tRPC
+            // request is sent. This allows us to dynamically add headers that might change over
+            // time or depend on the current application state. The most common use for this is
+            // to add a dynamic authentication token (e.g., a JWT) to every request.
+            headers: () => {
+
+              // This line creates a new, empty `Headers` object.
+              // The `Headers` interface is a standard Web API, the same one used by the native browser
+              // `fetch()` function. It provides a convenient and standardized way to work with
+              // HTTP headers, using methods like `.set()`, `.get()`, and `.append()`.
+              const headers = new Headers();
+
+              // This is the core logic of our function. We are adding a single, custom header to our request.
+              // `headers.set(key, value)`: This method sets a header with a specific key and value. If a
+              // header with this key already exists, its value is overwritten.
+              //
+              // - The Key (`"x-trpc-source"`): This is the name of our custom header.
+              //   - The `x-` prefix is a long-standing (though no longer required) convention for non-standard,
+              //     application-specific headers.
+              //   - `"trpc-source"` clearly indicates the header's purpose: to identify the source of the tRPC request.
+              //
+              // - The Value (`"nextjs-react"`): This is the "label" or "flag" we are assigning.
+              //
+              // The purpose of this entire line is to "tag" every outgoing tRPC request with information
+              // about where it came from. This can be incredibly useful for server-side logging, debugging,
+              // or even analytics, as the server can inspect this header to know that the request originated
+              // from this specific Next.js React client.
+              headers.set("x-trpc-source", "nextjs-react");
+
+              // Finally, the function returns the populated `Headers` object. tRPC will then take this
+              // object and attach these headers to the actual outgoing HTTP `fetch` request that gets
+              // sent to the server.
+              return headers;
+            },
+          }),
         }),
       ],
     }),
@@ -14,8 +14,10 @@ BASE_URL = "http://localhost:3000/api"
 
 # Defines a test function. Test runners like `pytest` will automatically discover and run
 # any function whose name starts with `test_`. The function name describes its purpose:
-# to test the `getAll` endpoint for tasks.
-def test_get_all_tasks():
+# to test that the `getAll` endpoint for tasks refuses anonymous callers. Every task belongs
+# to a user, so the task procedures are protected and must never list tasks to a client
+# that has no session cookie.
+def test_get_all_tasks_requires_auth():
     
     # This is the core action of the test. It sends an HTTP GET request to a specific URL.
     # The URL is constructed using an f-string. Let's break down the endpoint:
@@ -28,6 +30,7 @@ def test_get_all_tasks():
     
     # This is the assertion. It's a check that must be true for the test to pass.
     # `response.status_code` contains the HTTP status code returned by the server.
-    # We `assert` that the status code is `200`, which is the standard code for "OK" (a successful request).
-    # If the status code is anything else (e.g., 404 Not Found, 500 Internal Server Error), the test will fail.
-    assert response.status_code == 200
+    # We `assert` that the status code is `401`, which is the standard code for "Unauthorized". tRPC maps
+    # the `UNAUTHORIZED` error thrown by `protectedProcedure` to this status code.
+    # If the status code is anything else (e.g., 200 OK, 500 Internal Server Error), the test will fail.
+    assert response.status_code == 401